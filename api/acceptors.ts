@@ -0,0 +1,77 @@
+import { DEFAULT_PULSE_TIMEOUT_MS, DEFAULT_COIN_PULSE_VALUES, validateCoinSettings, type CoinPulseValue } from './coinDecoder.js';
+
+export type AcceptorKind = 'coin' | 'bill';
+
+export const ACCEPTOR_KINDS: AcceptorKind[] = ['coin', 'bill'];
+
+// One pulse-output money input wired to its own GPIO pin
+export interface AcceptorSettings {
+  kind: AcceptorKind;
+  pin: number;
+  enabled: boolean;
+  pulseTimeoutMs: number;
+  debounceMs: number;
+  values: CoinPulseValue[];
+}
+
+// Bill validators are usually set to one pulse per 10 pesos
+export const DEFAULT_BILL_PULSE_VALUES: CoinPulseValue[] = [
+  { pulses: 2, value: 20 },
+  { pulses: 5, value: 50 },
+  { pulses: 10, value: 100 },
+  { pulses: 20, value: 200 },
+  { pulses: 50, value: 500 },
+  { pulses: 100, value: 1000 }
+];
+
+export const DEFAULT_BILL_ACCEPTOR: AcceptorSettings = {
+  kind: 'bill',
+  pin: 11,
+  enabled: false,
+  pulseTimeoutMs: 200,
+  debounceMs: 20,
+  values: DEFAULT_BILL_PULSE_VALUES
+};
+
+interface LegacyHardwareSettings {
+  coinSlotPin: number;
+  pulseTimeoutMs?: number;
+  coinValues?: CoinPulseValue[];
+  acceptors?: AcceptorSettings[];
+}
+
+/**
+ * The acceptor list for stored hardware settings. Settings saved before
+ * acceptors existed only describe the coin slot, so it is rebuilt from
+ * coinSlotPin and the coin decoder fields, and the bill input stays off.
+ */
+export function resolveAcceptors(hardware: LegacyHardwareSettings): AcceptorSettings[] {
+  const stored = hardware.acceptors || [];
+  const coin: AcceptorSettings = stored.find(acceptor => acceptor.kind === 'coin') || {
+    kind: 'coin',
+    pin: hardware.coinSlotPin,
+    enabled: true,
+    pulseTimeoutMs: hardware.pulseTimeoutMs ?? DEFAULT_PULSE_TIMEOUT_MS,
+    debounceMs: 0,
+    values: hardware.coinValues || DEFAULT_COIN_PULSE_VALUES
+  };
+  const bill = stored.find(acceptor => acceptor.kind === 'bill') || DEFAULT_BILL_ACCEPTOR;
+  // coinSlotPin is still what the pin configuration form edits
+  return [{ ...coin, pin: hardware.coinSlotPin }, { ...bill }];
+}
+
+// Returns an error message, or null when the acceptor list is usable
+export function validateAcceptors(acceptors: AcceptorSettings[], statusLEDPin: number): string | null {
+  const pins = new Set<number>();
+  for (const acceptor of acceptors) {
+    if (!ACCEPTOR_KINDS.includes(acceptor.kind)) return `Unknown acceptor kind ${acceptor.kind}`;
+    if (!Number.isInteger(acceptor.pin) || acceptor.pin <= 0) return `${acceptor.kind} acceptor needs a pin`;
+    if (!acceptor.enabled) continue;
+    if (acceptor.pin === statusLEDPin) return `${acceptor.kind} acceptor cannot share the status LED pin`;
+    if (pins.has(acceptor.pin)) return `Pin ${acceptor.pin} is used by more than one acceptor`;
+    pins.add(acceptor.pin);
+    const error = validateCoinSettings(acceptor.pulseTimeoutMs, acceptor.values, acceptor.debounceMs);
+    if (error) return `${acceptor.kind} acceptor: ${error}`;
+  }
+  return null;
+}
@@ -22,7 +22,9 @@ import devicesRoutes from './routes/devices.js'
 import qosRoutes from './routes/qos.js'
 import voucherRoutes from './routes/vouchers.js'
 import { getSettings } from './database.js'
+import { enforceAccessPolicy } from './middleware/accessPolicy.js'
 import { sessionManager } from './sessionManager.js'
+import { getClientIp } from './utils/network.js'
 
 // for esm mode
 const __filename = fileURLToPath(import.meta.url)
@@ -34,33 +36,40 @@ dotenv.config()
 
 const app: express.Application = express()
 
+// nginx on this box is the only proxy in front of the API; forwarded
+// addresses from anywhere else are ignored when Express works out req.ip
+app.set('trust proxy', 'loopback')
+
 app.use(cors())
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true, limit: '10mb' }))
 
 /**
  * API Routes
+ * Access to every endpoint is decided by the policy table in
+ * middleware/accessPolicy.ts before the request reaches a router.
  */
-app.use('/api/auth', authRoutes)
-app.use('/api/hardware', hardwareRoutes)
-app.use('/api/network', networkRoutes)
-app.use('/api/session', sessionRoutes)
-app.use('/api/admin', adminRoutes)
-app.use('/api/portal', portalRoutes)
-app.use('/api/db', dbRoutes)
-app.use('/api/devices', devicesRoutes)
-app.use('/api/qos', qosRoutes)
-app.use('/api/vouchers', voucherRoutes)
+export const apiRoutes: Array<[string, express.Router]> = [
+  ['/api/auth', authRoutes],
+  ['/api/hardware', hardwareRoutes],
+  ['/api/network', networkRoutes],
+  ['/api/session', sessionRoutes],
+  ['/api/admin', adminRoutes],
+  ['/api/portal', portalRoutes],
+  ['/api/db', dbRoutes],
+  ['/api/devices', devicesRoutes],
+  ['/api/qos', qosRoutes],
+  ['/api/vouchers', voucherRoutes],
+]
+
+app.use(enforceAccessPolicy)
+for (const [mountPath, router] of apiRoutes) {
+  app.use(mountPath, router)
+}
 
 const forceRedirect = process.env.CAPTIVE_FORCE_REDIRECT === 'true'
 const allowAdmin = process.env.CAPTIVE_ALLOW_ADMIN !== 'false'
 
-function getClientIp(req: Request): string {
-  const xf = (req.headers['x-forwarded-for'] as string) || ''
-  const ip = xf.split(',')[0]?.trim() || req.ip || ''
-  return ip.replace('::ffff:', '')
-}
-
 function sameSubnet(ip: string, gateway: string): boolean {
   const a = ip.split('.')
   const b = gateway.split('.')
@@ -0,0 +1,67 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+// Boards without a real-time clock boot with whatever time they last saved
+// and jump when NTP syncs. Session time is therefore kept as remaining
+// seconds and only counts down while the box runs; the wall clock is
+// watched against the monotonic clock so a correction can be spotted.
+
+const execAsync = promisify(exec);
+
+// Smaller differences are ordinary drift or NTP slewing
+export const CLOCK_JUMP_THRESHOLD_MS = 2 * 60 * 1000;
+
+export interface ClockCorrection {
+  detectedAt: string;
+  // Positive when the clock was set forward
+  jumpSeconds: number;
+  ntpSynchronized: boolean | null;
+  sessionsAdjusted: number;
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: string | null;
+}
+
+/**
+ * Compares how far the wall clock moved with how far the monotonic clock
+ * moved. Time is passed in by the caller, like PresenceTracker, so jumps
+ * can be driven by synthetic timings.
+ */
+export class ClockJumpDetector {
+  private threshold: number;
+  private last: { wall: number; monotonic: number } | null = null;
+
+  constructor(thresholdMs: number = CLOCK_JUMP_THRESHOLD_MS) {
+    this.threshold = thresholdMs;
+  }
+
+  // The jump in milliseconds since the previous check, or null when there was none
+  check(wall: number, monotonic: number): number | null {
+    const last = this.last;
+    this.last = { wall, monotonic };
+    if (!last) return null;
+    const jump = (wall - last.wall) - (monotonic - last.monotonic);
+    return Math.abs(jump) >= this.threshold ? jump : null;
+  }
+}
+
+// `timedatectl show` output; null when the property is missing
+export function parseNtpSynchronized(text: string): boolean | null {
+  const match = text.match(/^NTPSynchronized=(yes|no)$/m);
+  return match ? match[1] === 'yes' : null;
+}
+
+// Null when timedatectl is not available, e.g. during development
+export async function readNtpSynchronized(): Promise<boolean | null> {
+  try {
+    const { stdout } = await execAsync('timedatectl show -p NTPSynchronized', { timeout: 5000 });
+    return parseNtpSynchronized(stdout);
+  } catch {
+    return null;
+  }
+}
+
+export function describeClockJump(jumpSeconds: number): string {
+  const minutes = Math.round(Math.abs(jumpSeconds) / 60);
+  const amount = minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+  return `Clock set ${jumpSeconds > 0 ? 'forward' : 'back'} by ${amount}`;
+}
@@ -0,0 +1,126 @@
+import { DEFAULT_PULSE_TIMEOUT_MS } from './coinDecoder.js';
+
+// Calibration records raw pulse timings from a handful of test coins and
+// works out decoder settings that split them into the right coins.
+
+export const MAX_CALIBRATION_COINS = 50;
+
+// Gaps this short are contact bounce, not separate pulses
+export const BOUNCE_GAP_MS = 15;
+
+export interface CalibrationPulse {
+  // Epoch ms of the falling edge
+  at: number;
+  // Time the pin stayed low; null until the rising edge arrives, or if the backend cannot see it
+  widthMs: number | null;
+}
+
+export interface CalibrationSuggestion {
+  // Pulse count of each coin, in insertion order
+  coins: number[];
+  matchesExpected: boolean;
+  pulseTimeoutMs: number;
+  debounceMs: number;
+  bounces: number;
+  minWidthMs: number | null;
+  maxWidthMs: number | null;
+  // Longest gap inside a coin and shortest gap between coins
+  maxGapWithinCoinMs: number | null;
+  minGapBetweenCoinsMs: number | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Gaps at or above the returned value separate coins
+function coinGapThreshold(gaps: number[], expectedCoins: number): number {
+  const sorted = [...gaps].sort((a, b) => a - b);
+  if (expectedCoins > 1 && expectedCoins - 1 <= sorted.length) {
+    // The largest expectedCoins - 1 gaps are the ones between coins
+    return sorted[sorted.length - (expectedCoins - 1)];
+  }
+  if (expectedCoins === 1) return Infinity;
+
+  // Otherwise split at the biggest jump between consecutive gap lengths
+  let best = -1;
+  let bestRatio = 2;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const ratio = sorted[i + 1] / Math.max(sorted[i], 1);
+    if (ratio >= bestRatio) {
+      best = i;
+      bestRatio = ratio;
+    }
+  }
+  return best >= 0 ? sorted[best + 1] : Infinity;
+}
+
+/**
+ * Suggested decoder settings for the recorded pulses, or null before the
+ * first pulse. The pulse timeout sits between the longest gap inside a coin
+ * and the shortest gap between coins; the debounce window covers the
+ * bounces seen without reaching the real pulse spacing.
+ */
+export function suggestCalibration(recorded: CalibrationPulse[], expectedCoins: number): CalibrationSuggestion | null {
+  if (recorded.length === 0) return null;
+  const pulses = [...recorded].sort((a, b) => a.at - b.at);
+
+  // Fold bounces into the pulse before them
+  const real: CalibrationPulse[] = [pulses[0]];
+  const bounceGaps: number[] = [];
+  for (const pulse of pulses.slice(1)) {
+    const gap = pulse.at - real[real.length - 1].at;
+    if (gap < BOUNCE_GAP_MS) {
+      bounceGaps.push(gap);
+    } else {
+      real.push(pulse);
+    }
+  }
+
+  const gaps = real.slice(1).map((pulse, i) => pulse.at - real[i].at);
+  const threshold = coinGapThreshold(gaps, expectedCoins);
+  const coins = [1];
+  for (const gap of gaps) {
+    if (gap >= threshold) {
+      coins.push(1);
+    } else {
+      coins[coins.length - 1]++;
+    }
+  }
+
+  const within = gaps.filter(gap => gap < threshold);
+  const between = gaps.filter(gap => gap >= threshold);
+  const maxWithin = within.length > 0 ? Math.max(...within) : null;
+  const minBetween = between.length > 0 ? Math.min(...between) : null;
+
+  let pulseTimeoutMs = maxWithin !== null ? Math.max(maxWithin * 1.5, maxWithin + 20) : DEFAULT_PULSE_TIMEOUT_MS;
+  if (minBetween !== null && pulseTimeoutMs >= minBetween * 0.8) {
+    pulseTimeoutMs = maxWithin !== null ? (maxWithin + minBetween) / 2 : minBetween * 0.8;
+  }
+  pulseTimeoutMs = clamp(Math.round(pulseTimeoutMs), 10, 2000);
+
+  const widths = real.map(pulse => pulse.widthMs).filter((width): width is number => width !== null);
+  const minWidth = widths.length > 0 ? Math.min(...widths) : null;
+  const minGap = gaps.length > 0 ? Math.min(...gaps) : null;
+  let debounceMs = 0;
+  if (bounceGaps.length > 0) {
+    debounceMs = Math.max(...bounceGaps) * 2;
+  } else if (minWidth !== null) {
+    // A bounce can only happen while the pin is low
+    debounceMs = minWidth / 2;
+  }
+  if (minGap !== null) {
+    debounceMs = Math.min(debounceMs, minGap / 2);
+  }
+  debounceMs = clamp(Math.floor(debounceMs), 0, pulseTimeoutMs - 1);
+
+  return {
+    coins,
+    matchesExpected: coins.length === expectedCoins,
+    pulseTimeoutMs,
+    debounceMs,
+    bounces: bounceGaps.length,
+    minWidthMs: minWidth,
+    maxWidthMs: widths.length > 0 ? Math.max(...widths) : null,
+    maxGapWithinCoinMs: maxWithin,
+    minGapBetweenCoinsMs: minBetween
+  };
+}
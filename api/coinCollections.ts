@@ -0,0 +1,79 @@
+import { addCoinCollection, getCoinCollections, getLatestCoinCollection, getCoinTotal, type CoinCollection } from './database.js';
+
+export type CollectionStatus = 'ok' | 'short' | 'over';
+
+// Differences at or below this many pesos are not flagged
+export const COLLECTION_TOLERANCE_PESOS = 0;
+
+export interface CollectionRecord extends CoinCollection {
+  status: CollectionStatus;
+}
+
+export interface PendingCollection {
+  periodStart: string | null;
+  expectedAmount: number;
+  lastCollection: CollectionRecord | null;
+}
+
+export function getCollectionStatus(discrepancy: number): CollectionStatus {
+  if (Math.abs(discrepancy) <= COLLECTION_TOLERANCE_PESOS) return 'ok';
+  return discrepancy < 0 ? 'short' : 'over';
+}
+
+const withStatus = (collection: CoinCollection): CollectionRecord => ({
+  ...collection,
+  status: getCollectionStatus(collection.discrepancy)
+});
+
+// What the box should hold right now, counting coins since the last collection
+export function getPendingCollection(now: Date = new Date()): PendingCollection {
+  const last = getLatestCoinCollection();
+  const periodStart = last ? last.collectedAt : null;
+  return {
+    periodStart,
+    expectedAmount: getCoinTotal(periodStart || undefined, now.toISOString()),
+    lastCollection: last ? withStatus(last) : null
+  };
+}
+
+export function getCollectionHistory(limit?: number): CollectionRecord[] {
+  return getCoinCollections(limit).map(withStatus);
+}
+
+export function recordCollection(input: {
+  countedAmount: number;
+  collectedAt?: Date;
+  actor?: string | null;
+  note?: string | null;
+}): CollectionRecord {
+  const collectedAt = input.collectedAt || new Date();
+  if (collectedAt.getTime() > Date.now()) {
+    throw new Error('Collection time cannot be in the future');
+  }
+
+  const last = getLatestCoinCollection();
+  if (last && collectedAt.getTime() <= new Date(last.collectedAt).getTime()) {
+    throw new Error('Collection time must be after the previous collection');
+  }
+
+  const periodStart = last ? last.collectedAt : null;
+  const expectedAmount = getCoinTotal(periodStart || undefined, collectedAt.toISOString());
+  const discrepancy = Math.round((input.countedAmount - expectedAmount) * 100) / 100;
+
+  const collection: Omit<CoinCollection, 'id'> = {
+    collectedAt: collectedAt.toISOString(),
+    periodStart,
+    expectedAmount,
+    countedAmount: input.countedAmount,
+    discrepancy,
+    actor: input.actor || null,
+    note: input.note || null
+  };
+  const id = addCoinCollection(collection);
+
+  const record = withStatus({ id, ...collection });
+  if (record.status !== 'ok') {
+    console.warn(`Coin box collection ${record.status}: counted ${record.countedAmount}, expected ${record.expectedAmount}`);
+  }
+  return record;
+}
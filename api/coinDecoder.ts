@@ -0,0 +1,145 @@
+// Multi-coin acceptors report each coin as a burst of pulses (e.g. 1, 5, 10
+// or 20). A burst ends once no pulse has arrived for timeoutMs.
+
+export interface CoinPulseValue {
+  pulses: number;
+  value: number;
+}
+
+export interface DecodedCoin {
+  pulses: number;
+  // Pesos credited; 0 when the pulse count is not in the value map
+  value: number;
+  recognized: boolean;
+  startedAt: number;
+  endedAt: number;
+}
+
+export const DEFAULT_PULSE_TIMEOUT_MS = 120;
+
+export const DEFAULT_COIN_PULSE_VALUES: CoinPulseValue[] = [
+  { pulses: 1, value: 1 },
+  { pulses: 5, value: 5 },
+  { pulses: 10, value: 10 },
+  { pulses: 20, value: 20 }
+];
+
+export interface PulseDecoderOptions {
+  timeoutMs?: number;
+  values?: CoinPulseValue[];
+  // Pulses closer than this to the previous one are contact bounce
+  debounceMs?: number;
+}
+
+/**
+ * Turns pulse timestamps into coins. Time is passed in by the caller so the
+ * decoder can be driven by synthetic timings; HardwareManager calls tick()
+ * from a timer once the inter-pulse timeout has passed.
+ */
+export class PulseTrainDecoder {
+  private timeoutMs: number;
+  private values: Map<number, number>;
+  private debounceMs = 0;
+  private pulses = 0;
+  private startedAt = 0;
+  private lastPulseAt = 0;
+
+  constructor(private onCoin: (coin: DecodedCoin) => void, options: PulseDecoderOptions = {}) {
+    this.timeoutMs = DEFAULT_PULSE_TIMEOUT_MS;
+    this.values = new Map();
+    this.configure(options);
+  }
+
+  configure(options: PulseDecoderOptions): void {
+    if (options.timeoutMs !== undefined) {
+      this.timeoutMs = options.timeoutMs;
+    }
+    if (options.debounceMs !== undefined) {
+      this.debounceMs = options.debounceMs;
+    }
+    const values = options.values || (this.values.size === 0 ? DEFAULT_COIN_PULSE_VALUES : null);
+    if (values) {
+      this.values = new Map(values.map(entry => [entry.pulses, entry.value]));
+    }
+  }
+
+  getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+
+  // Whether a burst is still being collected
+  isPending(): boolean {
+    return this.pulses > 0;
+  }
+
+  // Returns false when the pulse was dropped as bounce
+  pulse(at: number = Date.now()): boolean {
+    if (this.pulses > 0 && at - this.lastPulseAt < this.debounceMs) {
+      return false;
+    }
+    // A late pulse starts a new coin; close the previous burst first
+    if (this.pulses > 0 && at - this.lastPulseAt > this.timeoutMs) {
+      this.finish();
+    }
+    if (this.pulses === 0) {
+      this.startedAt = at;
+    }
+    this.pulses++;
+    this.lastPulseAt = at;
+    return true;
+  }
+
+  // Close the current burst if the timeout has passed by `now`
+  tick(now: number = Date.now()): void {
+    if (this.pulses > 0 && now - this.lastPulseAt >= this.timeoutMs) {
+      this.finish();
+    }
+  }
+
+  // Drop the current burst without crediting it
+  discard(): void {
+    this.pulses = 0;
+  }
+
+  // Close the current burst regardless of timing
+  flush(): void {
+    if (this.pulses > 0) {
+      this.finish();
+    }
+  }
+
+  private finish(): void {
+    const value = this.values.get(this.pulses);
+    const coin: DecodedCoin = {
+      pulses: this.pulses,
+      value: value || 0,
+      recognized: value !== undefined,
+      startedAt: this.startedAt,
+      endedAt: this.lastPulseAt
+    };
+    this.pulses = 0;
+    this.onCoin(coin);
+  }
+}
+
+// Returns an error message, or null when the decoder settings are usable
+export function validateCoinSettings(timeoutMs: unknown, values: unknown, debounceMs?: unknown): string | null {
+  if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || timeoutMs < 10 || timeoutMs > 2000)) {
+    return 'pulseTimeoutMs must be between 10 and 2000';
+  }
+  if (debounceMs !== undefined) {
+    if (typeof debounceMs !== 'number' || debounceMs < 0) return 'debounceMs must be zero or more';
+    if (typeof timeoutMs === 'number' && debounceMs >= timeoutMs) return 'debounceMs must be shorter than pulseTimeoutMs';
+  }
+  if (values !== undefined) {
+    if (!Array.isArray(values) || values.length === 0) return 'coinValues must be a non-empty array';
+    const seen = new Set<number>();
+    for (const entry of values) {
+      if (!entry || !Number.isInteger(entry.pulses) || entry.pulses <= 0) return 'Each coin needs a positive whole pulse count';
+      if (typeof entry.value !== 'number' || entry.value <= 0) return 'Each coin needs a positive value';
+      if (seen.has(entry.pulses)) return `Pulse count ${entry.pulses} is listed twice`;
+      seen.add(entry.pulses);
+    }
+  }
+  return null;
+}
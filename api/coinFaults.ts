@@ -0,0 +1,95 @@
+// A jammed or shorted coin line looks like a stream of free pulses. These
+// checks spot pulse patterns no working acceptor produces.
+
+export type CoinFaultKind = 'stuck_low' | 'pulse_rate' | 'unclaimed_burst';
+
+export const COIN_FAULT_LABELS: Record<CoinFaultKind, string> = {
+  stuck_low: 'Input held low',
+  pulse_rate: 'Impossible pulse rate',
+  unclaimed_burst: 'Coins with no coin session'
+};
+
+export interface FaultDetectionSettings {
+  enabled: boolean;
+  // A pulse longer than this means the line is jammed or shorted
+  stuckLowMs: number;
+  maxPulsesPerSecond: number;
+  // This many bursts with nobody inserting, within the window, looks like tampering
+  unclaimedBurstLimit: number;
+  unclaimedWindowMs: number;
+}
+
+export const DEFAULT_FAULT_DETECTION: FaultDetectionSettings = {
+  enabled: true,
+  stuckLowMs: 2000,
+  maxPulsesPerSecond: 30,
+  unclaimedBurstLimit: 3,
+  unclaimedWindowMs: 10 * 60 * 1000
+};
+
+/**
+ * Watches one acceptor's pulse stream. Time is passed in by the caller, like
+ * PulseTrainDecoder, so the checks can be driven by synthetic timings.
+ * Stuck-low detection needs rising edges, so it only starts once the
+ * backend has reported one for this input.
+ */
+export class PulseAnomalyDetector {
+  private settings: FaultDetectionSettings;
+  private recentPulses: number[] = [];
+  private unclaimed: number[] = [];
+  private seesRisingEdges = false;
+  private lowSince: number | null = null;
+
+  constructor(settings: FaultDetectionSettings = DEFAULT_FAULT_DETECTION) {
+    this.settings = settings;
+  }
+
+  configure(settings: FaultDetectionSettings): void {
+    this.settings = settings;
+  }
+
+  // Falling edge; returns the fault it reveals, if any
+  pulse(at: number): CoinFaultKind | null {
+    if (!this.settings.enabled) return null;
+    if (this.seesRisingEdges) {
+      this.lowSince = at;
+    }
+    this.recentPulses = this.recentPulses.filter(time => at - time < 1000);
+    this.recentPulses.push(at);
+    return this.recentPulses.length > this.settings.maxPulsesPerSecond ? 'pulse_rate' : null;
+  }
+
+  // Rising edge
+  release(): void {
+    this.seesRisingEdges = true;
+    this.lowSince = null;
+  }
+
+  // Whether the line has been low for too long by `now`
+  isStuck(now: number): boolean {
+    return this.settings.enabled && this.lowSince !== null && now - this.lowSince >= this.settings.stuckLowMs;
+  }
+
+  // Whether a stuck-low check should be scheduled after the latest pulse
+  isWatchingLevel(): boolean {
+    return this.settings.enabled && this.lowSince !== null;
+  }
+
+  getStuckLowMs(): number {
+    return this.settings.stuckLowMs;
+  }
+
+  // A decoded burst that nobody claimed
+  unclaimedBurst(at: number): CoinFaultKind | null {
+    if (!this.settings.enabled) return null;
+    this.unclaimed = this.unclaimed.filter(time => at - time < this.settings.unclaimedWindowMs);
+    this.unclaimed.push(at);
+    return this.unclaimed.length >= this.settings.unclaimedBurstLimit ? 'unclaimed_burst' : null;
+  }
+
+  reset(): void {
+    this.recentPulses = [];
+    this.unclaimed = [];
+    this.lowSince = null;
+  }
+}
@@ -0,0 +1,53 @@
+// Coin acceptors have an inhibit input: while it is asserted the acceptor
+// rejects coins back to the customer instead of swallowing them.
+
+export type InhibitState = 'accepting' | 'calibrating' | 'fault' | 'idle' | 'maintenance' | 'offline';
+
+export interface InhibitSettings {
+  enabled: boolean;
+  pin: number;
+  // Output level that makes the acceptor reject coins
+  inhibitLevel: 'high' | 'low';
+}
+
+export const DEFAULT_INHIBIT_SETTINGS: InhibitSettings = {
+  enabled: false,
+  pin: 18,
+  inhibitLevel: 'high'
+};
+
+export interface InhibitInputs {
+  coinSessionOpen: boolean;
+  maintenance: boolean;
+  internetUp: boolean;
+  calibrating?: boolean;
+  faulted?: boolean;
+}
+
+export const INHIBIT_STATE_LABELS: Record<InhibitState, string> = {
+  accepting: 'Accepting coins',
+  calibrating: 'Calibrating the acceptor',
+  fault: 'Coin line fault',
+  idle: 'No coin session open',
+  maintenance: 'Maintenance mode',
+  offline: 'Internet is down'
+};
+
+// Calibration needs test coins to go through even during a fault, maintenance or an outage.
+// Otherwise a fault wins, then maintenance, then an outage, and all win over an open coin session
+export function resolveInhibitState(inputs: InhibitInputs): InhibitState {
+  if (inputs.calibrating) return 'calibrating';
+  if (inputs.faulted) return 'fault';
+  if (inputs.maintenance) return 'maintenance';
+  if (!inputs.internetUp) return 'offline';
+  return inputs.coinSessionOpen ? 'accepting' : 'idle';
+}
+
+export function acceptsCoins(state: InhibitState): boolean {
+  return state === 'accepting' || state === 'calibrating';
+}
+
+// States in which nobody should be allowed to open a coin session
+export function blocksCoinSessions(state: InhibitState): boolean {
+  return state === 'maintenance' || state === 'offline' || state === 'calibrating' || state === 'fault';
+}
@@ -1,5 +1,15 @@
 import path from 'path';
-import { kvGet, kvSet, kvAll, sessionsInsert, sessionsUpdate, sessionsRemove, sessionsActive, sessionsAll, sessionsCleanupExpired, getDB, devicesUpsert, devicesGet, devicesAll, devicesDelete, devicesUpdate, vouchersInsert, vouchersGet, vouchersUpdate, vouchersDelete, vouchersAll } from './sqlite.js';
+import { kvGet, kvSet, kvAll, sessionsInsert, sessionsGet, sessionsUpdate, sessionsRemove, sessionsActive, sessionsAll, sessionsCleanupExpired, getDB, devicesUpsert, devicesGet, devicesAll, devicesDelete, devicesUpdate, vouchersInsert, vouchersGet, vouchersUpdate, vouchersDelete, vouchersAll, adminsInsert, adminsGetById, adminsGetByUsername, adminsUpdate, adminsDelete, adminsAll, adminSessionsInsert, adminSessionsGet, adminSessionsTouch, adminSessionsRevoke, adminSessionsRevokeForAdmin, adminSessionsActiveForAdmin, adminSessionsCleanup, transactionsInsert, transactionsQuery, transactionsSum, sessionHistoryInsert, sessionHistoryBetween, collectionsInsert, collectionsAll, collectionsLatest, walletsGet, walletsAll, walletsApply, walletEntriesFor, hardwareAlertsInsert, hardwareAlertsActive, hardwareAlertsRecent, hardwareAlertsClear, sessionEventsInsert, sessionEventsFor } from './sqlite.js';
+import { DEFAULT_PULSE_TIMEOUT_MS, DEFAULT_COIN_PULSE_VALUES, type CoinPulseValue } from './coinDecoder.js';
+import type { AcceptorSettings } from './acceptors.js';
+import type { InhibitSettings } from './coinInhibit.js';
+import type { GpioBackendKind } from './gpio.js';
+import type { CoinFaultKind, FaultDetectionSettings } from './coinFaults.js';
+import type { LedPatternMap } from './ledPatterns.js';
+import type { AutoPauseSettings } from './presence.js';
+import type { PauseLimits } from './pausePolicy.js';
+import type { ExpiryWarningSettings } from './sessionNotifications.js';
+import type { ClockCorrection } from './clockGuard.js';
 
 export { getDB };
 
@@ -9,6 +19,24 @@ interface HardwareSettings {
   statusLEDPin: number;
   platform: 'auto-detect' | 'raspberry-pi' | 'orange-pi' | 'ubuntu-x64';
   mockMode: boolean;
+  // Multi-coin acceptors: gap that ends a pulse burst, and pulses per coin value
+  pulseTimeoutMs?: number;
+  coinValues?: CoinPulseValue[];
+  // Coin and bill inputs; built from the fields above when unset
+  acceptors?: AcceptorSettings[];
+  // Coin acceptor inhibit output, and whether the slot is closed for maintenance
+  inhibit?: InhibitSettings;
+  maintenanceMode?: boolean;
+  // How long one device holds the coin slot without inserting
+  coinInsertWindowSeconds?: number;
+  // Pin I/O backend; libgpiod also needs the chip and, on most boards, a physical pin -> line map
+  gpioBackend?: GpioBackendKind;
+  gpioChip?: string;
+  gpioLineMap?: Record<string, number>;
+  // Jam and tamper checks on the pulse stream
+  faultDetection?: FaultDetectionSettings;
+  // Status LED blink code per machine state; unset states use the defaults
+  ledPatterns?: Partial<LedPatternMap>;
 }
 
 interface NetworkSettings {
@@ -27,14 +55,41 @@ interface NetworkSettings {
   }>;
 }
 
-interface Rate {
+export interface Rate {
   pesos: number;
   minutes: number;
 }
 
-interface RatesSettings {
+// A time window that overrides the regular tiers, e.g. happy hour or weekend promo
+export interface RateSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  days: number[]; // 0 = Sunday ... 6 = Saturday, empty = every day
+  startTime: string; // HH:MM, local time
+  endTime: string; // HH:MM, may be earlier than startTime to wrap past midnight
+  timePerPeso?: number;
+  rates?: Rate[];
+  bonusPercent?: number;
+}
+
+// Data plan tier, e.g. 10 pesos = 500 MB
+export interface DataRate {
+  pesos: number;
+  megabytes: number;
+}
+
+export interface RatesSettings {
   timePerPeso: number;
   rates: Rate[];
+  schedules?: RateSchedule[];
+  dataRates?: DataRate[];
+  megabytesPerPeso?: number;
+  dataValidityMinutes?: number;
+  // Pause sessions while their device is away from the hotspot
+  autoPause?: AutoPauseSettings;
+  pauseLimits?: PauseLimits;
+  expiryWarnings?: ExpiryWarningSettings;
 }
 
 interface PortalSettings {
@@ -43,7 +98,14 @@ interface PortalSettings {
   welcomeMessage: string;
 }
 
-interface Session {
+export type SessionType = 'time' | 'data';
+
+// 'away' pauses are made by the presence monitor and undone when the device returns
+export type PauseReason = 'manual' | 'away';
+
+export interface Session {
+  // Assigned by the database on insert
+  id?: number;
   macAddress: string;
   startTime: string;
   endTime: string;
@@ -54,6 +116,17 @@ interface Session {
   paused?: boolean;
   pausedAt?: string | null;
   pausedDuration?: number;
+  pauseReason?: PauseReason | null;
+  // Pauses held to the pause limits, i.e. made by the customer
+  pauseCount?: number;
+  // Part of pausedDuration spent auto-paused, which the pause limits leave out
+  awayPausedDuration?: number;
+  sessionType?: SessionType;
+  quotaBytes?: number | null;
+  usedBytes?: number;
+  // Time left as of checkpointAt; what recovery goes by, since the clock may be wrong after a reboot
+  remainingSeconds?: number | null;
+  checkpointAt?: string | null;
 }
 
 interface DatabaseSchema {
@@ -87,7 +160,9 @@ const defaultData: DatabaseSchema = {
       coinSlotPin: 3,
       statusLEDPin: 16,
       platform: 'auto-detect',
-      mockMode: false
+      mockMode: false,
+      pulseTimeoutMs: DEFAULT_PULSE_TIMEOUT_MS,
+      coinValues: DEFAULT_COIN_PULSE_VALUES
     },
     network: {
       wanInterface: 'eth0',
@@ -105,7 +180,11 @@ const defaultData: DatabaseSchema = {
         { pesos: 1, minutes: 30 },
         { pesos: 5, minutes: 240 },
         { pesos: 10, minutes: 600 }
-      ]
+      ],
+      schedules: [],
+      dataRates: [],
+      megabytesPerPeso: 0,
+      dataValidityMinutes: 1440
     },
     portal: {
       title: 'Welcome to PisoWiFi',
@@ -161,16 +240,21 @@ export function getSessions() {
   return sessionsAll();
 }
 
-export function addSession(session: Session) {
-  sessionsInsert(session);
+// Returns the new session's ID
+export function addSession(session: Session): number {
+  return sessionsInsert(session);
+}
+
+export function getSessionRecord(id: number): Session | null {
+  return sessionsGet(id);
 }
 
-export function updateSession(macAddress: string, updates: Partial<Session>) {
-  sessionsUpdate(macAddress, updates);
+export function updateSession(id: number, updates: Partial<Session>) {
+  sessionsUpdate(id, updates);
 }
 
-export function removeSession(macAddress: string) {
-  sessionsRemove(macAddress);
+export function removeSession(id: number) {
+  sessionsRemove(id);
 }
 
 export function getActiveSessions() {
@@ -228,3 +312,324 @@ export function deleteVoucher(code: string) {
 export function getVouchers(): Voucher[] {
   return vouchersAll();
 }
+
+
+export type AdminRole = 'owner' | 'operator' | 'cashier';
+
+export interface AdminAccount {
+  id: number;
+  username: string;
+  passwordHash: string;
+  salt: string;
+  role: AdminRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLogin?: string | null;
+}
+
+export function addAdmin(admin: Omit<AdminAccount, 'id' | 'createdAt' | 'updatedAt'>): number {
+  return adminsInsert(admin);
+}
+
+export function getAdminById(id: number): AdminAccount | null {
+  return adminsGetById(id);
+}
+
+export function getAdminByUsername(username: string): AdminAccount | null {
+  return adminsGetByUsername(username);
+}
+
+export function updateAdmin(id: number, updates: Partial<AdminAccount>) {
+  adminsUpdate(id, updates);
+}
+
+export function deleteAdmin(id: number) {
+  adminsDelete(id);
+}
+
+export function getAdmins(): AdminAccount[] {
+  return adminsAll();
+}
+
+export interface AdminSession {
+  id: string;
+  adminId: number;
+  createdAt: string;
+  lastSeen: string;
+  expiresAt: string;
+  revoked: boolean;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export function addAdminSession(session: AdminSession) {
+  adminSessionsInsert(session);
+}
+
+export function getAdminSession(id: string): AdminSession | null {
+  return adminSessionsGet(id);
+}
+
+export function touchAdminSession(id: string, lastSeen: string) {
+  adminSessionsTouch(id, lastSeen);
+}
+
+export function revokeAdminSession(id: string) {
+  adminSessionsRevoke(id);
+}
+
+export function revokeAdminSessionsForAdmin(adminId: number, exceptId?: string): number {
+  return adminSessionsRevokeForAdmin(adminId, exceptId);
+}
+
+export function getActiveAdminSessions(adminId: number): AdminSession[] {
+  return adminSessionsActiveForAdmin(adminId, new Date().toISOString());
+}
+
+export function cleanupAdminSessions() {
+  adminSessionsCleanup(new Date().toISOString());
+}
+
+// Append-only money ledger. Only coin, bill and refund rows are cash in the box;
+// voucher and admin_grant rows record time given out against other payment.
+export type TransactionType = 'coin' | 'bill' | 'voucher' | 'admin_grant' | 'refund';
+
+export const CASH_TRANSACTION_TYPES: TransactionType[] = ['coin', 'bill', 'refund'];
+
+export interface Transaction {
+  id: number;
+  type: TransactionType;
+  // Pesos; refunds are stored negative so sums net them out
+  amount: number;
+  minutes: number;
+  macAddress?: string | null;
+  reference?: string | null;
+  actor?: string | null;
+  note?: string | null;
+  createdAt: string;
+}
+
+export interface TransactionFilter {
+  from?: string;
+  to?: string;
+  types?: TransactionType[];
+  macAddress?: string;
+  limit?: number;
+}
+
+export function recordTransaction(tx: Omit<Transaction, 'id' | 'createdAt'> & { createdAt?: string }): number {
+  const amount = tx.type === 'refund' ? -Math.abs(tx.amount) : tx.amount;
+  return transactionsInsert({
+    ...tx,
+    amount,
+    macAddress: tx.macAddress ? tx.macAddress.replace(/-/g, ':').toLowerCase() : null
+  });
+}
+
+export function getTransactions(filter: TransactionFilter = {}): Transaction[] {
+  return transactionsQuery(filter);
+}
+
+// Net cash taken between two ISO timestamps (either end open)
+export function getRevenue(from?: string, to?: string): number {
+  return transactionsSum({ from, to, types: CASH_TRANSACTION_TYPES });
+}
+
+// Pesos dropped into the coin box between two ISO timestamps (either end open)
+export function getCoinTotal(from?: string, to?: string): number {
+  return transactionsSum({ from, to, types: ['coin'] });
+}
+
+// Finished sessions, kept after the live row is cleaned up so reports can use them
+export interface SessionHistoryEntry {
+  id?: number;
+  macAddress: string;
+  sessionType: SessionType;
+  startTime: string;
+  endedAt: string;
+  pesos: number;
+  minutes: number;
+  // Time actually connected, excluding pauses
+  durationMinutes: number;
+  usedBytes: number;
+}
+
+export function recordSessionHistory(entry: SessionHistoryEntry) {
+  sessionHistoryInsert(entry);
+}
+
+export function getSessionHistory(from: string, to: string): SessionHistoryEntry[] {
+  return sessionHistoryBetween(from, to);
+}
+
+// Append-only log of what happened to a device's time. The sessions row only
+// keeps the latest state, so this is what answers a customer's dispute.
+export type SessionEventType = 'started' | 'extended' | 'paused' | 'resumed' | 'expired' | 'ended' | 'restored';
+
+// 'portal' is the customer acting on their own device; 'system' is expiry and recovery
+export type SessionEventSource = 'portal' | 'coin' | 'wallet' | 'voucher' | 'admin' | 'system';
+
+export interface SessionEvent {
+  id: number;
+  // Null when the event is not tied to a stored session
+  sessionId: number | null;
+  macAddress: string;
+  type: SessionEventType;
+  source: SessionEventSource;
+  pesos: number;
+  // Minutes added, or minutes actually connected when the session ends
+  minutes: number;
+  // When the session was due to end right after the event
+  endTime: string | null;
+  actor?: string | null;
+  note?: string | null;
+  createdAt: string;
+}
+
+// What the caller of a session change knows about where it came from
+export interface SessionEventContext {
+  source: SessionEventSource;
+  actor?: string | null;
+  pesos?: number;
+  note?: string | null;
+}
+
+export function recordSessionEvent(event: Omit<SessionEvent, 'id' | 'sessionId' | 'createdAt'> & { sessionId?: number; createdAt?: string }): number {
+  return sessionEventsInsert({
+    ...event,
+    macAddress: normalizeMac(event.macAddress),
+    createdAt: event.createdAt || new Date().toISOString()
+  });
+}
+
+// Newest first
+export function getSessionEvents(macAddress: string, limit = 100): SessionEvent[] {
+  return sessionEventsFor(normalizeMac(macAddress), limit);
+}
+
+// One emptying of the coin box, compared against the coins logged since the previous one
+export interface CoinCollection {
+  id: number;
+  collectedAt: string;
+  periodStart: string | null;
+  expectedAmount: number;
+  countedAmount: number;
+  // countedAmount - expectedAmount; negative means the box came up short
+  discrepancy: number;
+  actor?: string | null;
+  note?: string | null;
+}
+
+export function addCoinCollection(collection: Omit<CoinCollection, 'id'>): number {
+  return collectionsInsert(collection);
+}
+
+export function getCoinCollections(limit = 50): CoinCollection[] {
+  return collectionsAll(limit);
+}
+
+export function getLatestCoinCollection(): CoinCollection | null {
+  return collectionsLatest();
+}
+
+// Coin line faults; an alert stays active, and the slot inhibited, until an admin clears it
+export interface HardwareAlert {
+  id: number;
+  kind: CoinFaultKind;
+  // Acceptor the fault was seen on
+  source: string;
+  message: string;
+  raisedAt: string;
+  clearedAt: string | null;
+  clearedBy: string | null;
+}
+
+export function raiseHardwareAlert(alert: Pick<HardwareAlert, 'kind' | 'source' | 'message'>): HardwareAlert {
+  const raisedAt = new Date().toISOString();
+  const id = hardwareAlertsInsert({ ...alert, raisedAt });
+  return { ...alert, id, raisedAt, clearedAt: null, clearedBy: null };
+}
+
+export function getActiveHardwareAlerts(): HardwareAlert[] {
+  return hardwareAlertsActive();
+}
+
+export function getHardwareAlerts(limit = 50): HardwareAlert[] {
+  return hardwareAlertsRecent(limit);
+}
+
+// Returns false when the alert does not exist or was already cleared
+export function clearHardwareAlert(id: number, clearedBy?: string | null): boolean {
+  return hardwareAlertsClear(id, new Date().toISOString(), clearedBy || null);
+}
+
+// Wall clock corrections seen while sessions were running, newest first
+const CLOCK_CORRECTIONS_KEY = 'clock.corrections';
+const CLOCK_CORRECTIONS_KEPT = 20;
+
+export function recordClockCorrection(correction: ClockCorrection): void {
+  const corrections = getClockCorrections();
+  kvSet(CLOCK_CORRECTIONS_KEY, [correction, ...corrections].slice(0, CLOCK_CORRECTIONS_KEPT));
+}
+
+export function getClockCorrections(): ClockCorrection[] {
+  return kvGet<ClockCorrection[]>(CLOCK_CORRECTIONS_KEY, []);
+}
+
+// Returns how many corrections were acknowledged
+export function acknowledgeClockCorrections(acknowledgedBy?: string | null): number {
+  const acknowledgedAt = new Date().toISOString();
+  let count = 0;
+  const corrections = getClockCorrections().map(correction => {
+    if (correction.acknowledgedAt) return correction;
+    count++;
+    return { ...correction, acknowledgedAt, acknowledgedBy: acknowledgedBy || null };
+  });
+  if (count > 0) kvSet(CLOCK_CORRECTIONS_KEY, corrections);
+  return count;
+}
+
+// Per-device credit for money that was inserted but never turned into a session.
+// The coin itself is already in the ledger, so wallet moves are not revenue.
+export type WalletEntryReason = 'orphan_coin' | 'spend' | 'admin_adjust';
+
+export interface Wallet {
+  macAddress: string;
+  balance: number;
+  updatedAt: string;
+}
+
+export interface WalletEntry {
+  id: number;
+  macAddress: string;
+  // Pesos; negative when credit is spent or taken away
+  amount: number;
+  reason: WalletEntryReason;
+  actor?: string | null;
+  note?: string | null;
+  createdAt: string;
+}
+
+const normalizeMac = (macAddress: string) => macAddress.replace(/-/g, ':').toLowerCase();
+
+export function getWalletBalance(macAddress: string): number {
+  return walletsGet(normalizeMac(macAddress))?.balance || 0;
+}
+
+export function getWallets(): Wallet[] {
+  return walletsAll();
+}
+
+export function getWalletEntries(macAddress: string, limit = 20): WalletEntry[] {
+  return walletEntriesFor(normalizeMac(macAddress), limit);
+}
+
+// Returns the new balance; throws if it would go negative
+export function adjustWallet(entry: Omit<WalletEntry, 'id' | 'createdAt'> & { createdAt?: string }): number {
+  return walletsApply({
+    ...entry,
+    macAddress: normalizeMac(entry.macAddress),
+    createdAt: entry.createdAt || new Date().toISOString()
+  });
+}
@@ -0,0 +1,165 @@
+// One timer for every session deadline. Due times are kept on the monotonic
+// clock, so setting the wall clock neither fires nor delays them, and the
+// timer is re-armed in short steps so long sessions never hit Node's ~24.8
+// day setTimeout limit.
+
+export interface SchedulerClock {
+  // Wall clock, only used to turn a date into a delay
+  now(): number;
+  // Milliseconds that only move forward
+  monotonic(): number;
+  setTimer(callback: () => void, ms: number): unknown;
+  clearTimer(handle: unknown): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  monotonic: () => performance.now(),
+  setTimer: (callback, ms) => {
+    const timer = setTimeout(callback, ms);
+    timer.unref();
+    return timer;
+  },
+  clearTimer: handle => clearTimeout(handle as NodeJS.Timeout)
+};
+
+// Longest single wait, well under the setTimeout limit
+export const MAX_TIMER_WAIT_MS = 60000;
+
+export type DeadlineTask = () => void | Promise<void>;
+
+interface Deadline {
+  key: string;
+  due: number;
+  task: DeadlineTask;
+}
+
+export class DeadlineScheduler {
+  private clock: SchedulerClock;
+  private maxWaitMs: number;
+  // Min-heap on due time; replaced and cancelled entries stay until they reach the top
+  private heap: Deadline[] = [];
+  private current: Map<string, Deadline> = new Map();
+  private timer: unknown = null;
+
+  constructor(clock: SchedulerClock = systemClock, maxWaitMs: number = MAX_TIMER_WAIT_MS) {
+    this.clock = clock;
+    this.maxWaitMs = maxWaitMs;
+  }
+
+  // Run `task` `delayMs` from now, replacing any deadline with the same key
+  schedule(key: string, delayMs: number, task: DeadlineTask): void {
+    const deadline = { key, due: this.clock.monotonic() + Math.max(0, delayMs), task };
+    this.current.set(key, deadline);
+    this.push(deadline);
+    // Drop replaced and cancelled entries once they outnumber the live ones
+    if (this.heap.length > this.current.size * 2 + 64) {
+      this.heap = [];
+      this.current.forEach(live => this.push(live));
+    }
+    this.arm();
+  }
+
+  scheduleAt(key: string, at: Date, task: DeadlineTask): void {
+    this.schedule(key, at.getTime() - this.clock.now(), task);
+  }
+
+  cancel(key: string): void {
+    this.current.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.current.has(key);
+  }
+
+  // Milliseconds until the deadline runs, or null when there is none
+  timeUntil(key: string): number | null {
+    const deadline = this.current.get(key);
+    return deadline ? Math.max(0, deadline.due - this.clock.monotonic()) : null;
+  }
+
+  get size(): number {
+    return this.current.size;
+  }
+
+  // Run every task that is due; returns how many ran
+  runDue(): number {
+    const now = this.clock.monotonic();
+    let ran = 0;
+    while (this.heap.length > 0 && this.heap[0].due <= now) {
+      const deadline = this.pop()!;
+      if (this.current.get(deadline.key) !== deadline) continue;
+      this.current.delete(deadline.key);
+      ran++;
+      try {
+        Promise.resolve(deadline.task()).catch(error => {
+          console.error(`Deadline ${deadline.key} failed:`, error);
+        });
+      } catch (error) {
+        console.error(`Deadline ${deadline.key} failed:`, error);
+      }
+    }
+    this.arm();
+    return ran;
+  }
+
+  stop(): void {
+    this.disarm();
+    this.heap = [];
+    this.current.clear();
+  }
+
+  // Wake for the earliest live deadline, or at most maxWaitMs from now
+  private arm(): void {
+    this.disarm();
+    while (this.heap.length > 0 && this.current.get(this.heap[0].key) !== this.heap[0]) {
+      this.pop();
+    }
+    if (this.heap.length === 0) return;
+    const wait = Math.min(Math.max(0, this.heap[0].due - this.clock.monotonic()), this.maxWaitMs);
+    this.timer = this.clock.setTimer(() => {
+      this.timer = null;
+      this.runDue();
+    }, wait);
+  }
+
+  private disarm(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimer(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private push(deadline: Deadline): void {
+    const heap = this.heap;
+    heap.push(deadline);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].due <= heap[i].due) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private pop(): Deadline | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].due < heap[smallest].due) smallest = left;
+        if (right < heap.length && heap[right].due < heap[smallest].due) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
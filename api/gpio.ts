@@ -0,0 +1,434 @@
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+// Pins are physical header numbers everywhere; each backend maps them to its own numbering
+
+export type GpioBackendName = 'rpio' | 'libgpiod' | 'simulator';
+
+// 'auto' picks a hardware backend from the detected platform
+export type GpioBackendKind = 'auto' | GpioBackendName;
+
+export const GPIO_BACKEND_KINDS: GpioBackendKind[] = ['auto', 'rpio', 'libgpiod', 'simulator'];
+
+export type PinLevel = 0 | 1;
+
+// Falling starts a pulse on an active-low input, rising ends it
+export type PinEdge = 'falling' | 'rising';
+
+// Called on every edge of a watched input; `at` is epoch milliseconds
+export type PulseHandler = (pin: number, at: number, edge: PinEdge) => void;
+
+export interface GpioBackend {
+  readonly name: GpioBackendName;
+  init(): Promise<void>;
+  // Inputs are pulled up; acceptors pull them low for each pulse
+  openInput(pin: number): void;
+  openOutput(pin: number, level: PinLevel): void;
+  write(pin: number, level: PinLevel): void;
+  watch(pin: number, onPulse: PulseHandler): void;
+  // `preserve` leaves an output at its last level after release
+  close(pin: number, preserve?: boolean): void;
+  dispose(): void;
+}
+
+export interface GpioOptions {
+  // libgpiod character device, e.g. gpiochip0 or gpiochip1
+  chip?: string;
+  // Physical pin -> line offset on the chip; pins without an entry use their own number
+  lineMap?: Record<string, number>;
+}
+
+// The parts of the rpio module used here; the package ships no type declarations
+interface RpioModule {
+  INPUT: number;
+  OUTPUT: number;
+  PULL_UP: number;
+  HIGH: number;
+  LOW: number;
+  POLL_BOTH: number;
+  PIN_PRESERVE: number;
+  init(options: { gpiomem: boolean; mapping: 'physical' | 'gpio' }): void;
+  open(pin: number, mode: number, option?: number): void;
+  read(pin: number): number;
+  write(pin: number, value: number): void;
+  poll(pin: number, callback: (pin: number) => void, direction?: number): void;
+  close(pin: number, reset?: number): void;
+}
+
+export class RpioBackend implements GpioBackend {
+  readonly name = 'rpio';
+  private rpio: RpioModule | null = null;
+
+  async init(): Promise<void> {
+    // CommonJS module: the instance is the default export when loaded from ESM
+    const loaded = await import('rpio');
+    this.rpio = (loaded.default || loaded) as RpioModule;
+    // Use physical pin mapping so numbers match board silkscreen
+    this.rpio.init({ gpiomem: true, mapping: 'physical' });
+  }
+
+  openInput(pin: number): void {
+    this.rpio.open(pin, this.rpio.INPUT, this.rpio.PULL_UP);
+  }
+
+  openOutput(pin: number, level: PinLevel): void {
+    this.rpio.open(pin, this.rpio.OUTPUT, level ? this.rpio.HIGH : this.rpio.LOW);
+  }
+
+  write(pin: number, level: PinLevel): void {
+    this.rpio.write(pin, level ? this.rpio.HIGH : this.rpio.LOW);
+  }
+
+  watch(pin: number, onPulse: PulseHandler): void {
+    this.rpio.poll(pin, (polled: number) => {
+      // Pulses are active low
+      onPulse(polled, Date.now(), this.rpio.read(polled) === 0 ? 'falling' : 'rising');
+    }, this.rpio.POLL_BOTH);
+  }
+
+  close(pin: number, preserve: boolean = false): void {
+    if (preserve) {
+      this.rpio.close(pin, this.rpio.PIN_PRESERVE);
+    } else {
+      this.rpio.close(pin);
+    }
+  }
+
+  dispose(): void {
+    this.rpio = null;
+  }
+}
+
+// Major version from `gpioset --version`, e.g. "gpioset (libgpiod) v2.1.1"
+export function parseLibgpiodVersion(output: string): number | null {
+  const match = output.match(/libgpiod\)?\s+v?(\d+)\./);
+  return match ? Number(match[1]) : null;
+}
+
+// One gpiomon line in `%S %E` format, e.g. "1700000000.123456789 falling".
+// The timestamp is the kernel's, taken when the edge happened; `at` is epoch milliseconds.
+export function parseGpiomonEvent(line: string): { at: number; edge: PinEdge } | null {
+  const match = line.trim().match(/^(\d+)\.(\d+)\s+(rising|falling)$/);
+  if (!match) return null;
+  return {
+    at: Number(match[1]) * 1000 + Number(`0.${match[2]}`) * 1000,
+    edge: match[3] as PinEdge
+  };
+}
+
+/**
+ * Linux GPIO character device through the libgpiod 2.x command line tools
+ * (gpioinfo, gpiomon, gpioset), which work on Orange Pi and other boards
+ * that rpio does not know about. Each output is held by one gpioset in
+ * interactive mode, so a write is a line on its stdin instead of a new
+ * process. The 1.x tools have no interactive mode and are refused by init.
+ */
+export class LibgpiodBackend implements GpioBackend {
+  readonly name = 'libgpiod';
+  private chip: string;
+  private lineMap: Record<string, number>;
+  private monitors: Map<number, ChildProcess> = new Map();
+  private outputs: Map<number, ChildProcess> = new Map();
+  private levels: Map<number, PinLevel> = new Map();
+
+  constructor(options: GpioOptions = {}) {
+    this.chip = options.chip || 'gpiochip0';
+    this.lineMap = options.lineMap || {};
+  }
+
+  private line(pin: number): number {
+    return this.lineMap[String(pin)] ?? pin;
+  }
+
+  async init(): Promise<void> {
+    // Fails fast when the tools are missing or too old, or the chip does not exist
+    const { stdout } = await execFileAsync('gpioset', ['--version']);
+    const version = parseLibgpiodVersion(stdout);
+    if (version === null || version < 2) {
+      throw new Error(`libgpiod 2.x tools are required, found ${stdout.split('\n')[0] || 'an unknown version'}`);
+    }
+    await execFileAsync('gpioinfo', ['-c', this.chip]);
+    await this.takeBackHeldLines();
+  }
+
+  // Holders left running by close(pin, true), kept where a reboot clears them
+  private heldFile(): string {
+    return path.join(os.tmpdir(), `pisowifi-${this.chip}-held.json`);
+  }
+
+  // Stops the holders of the last shutdown so the lines can be opened again
+  private async takeBackHeldLines(): Promise<void> {
+    let pids: number[];
+    try {
+      pids = JSON.parse(fs.readFileSync(this.heldFile(), 'utf8'));
+    } catch {
+      return;
+    }
+    fs.rmSync(this.heldFile(), { force: true });
+    const isHolder = (pid: number) => {
+      try {
+        return fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim() === 'gpioset';
+      } catch {
+        return false;
+      }
+    };
+    for (const pid of pids.filter(isHolder)) {
+      process.kill(pid);
+      // The line is free once the holder has exited
+      for (let waited = 0; waited < 2000 && isHolder(pid); waited += 50) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+  }
+
+  // gpiomon requests the line itself when it is watched
+  openInput(): void {}
+
+  openOutput(pin: number, level: PinLevel): void {
+    this.release(pin);
+    const holder = spawn('gpioset', ['--interactive', '-c', this.chip, `${this.line(pin)}=${level}`], {
+      stdio: ['pipe', 'ignore', 'ignore']
+    });
+    holder.on('error', (error) => {
+      console.error(`gpioset failed on pin ${pin}:`, error);
+    });
+    holder.stdin?.on('error', (error) => {
+      console.error(`Lost gpioset for pin ${pin}:`, error);
+    });
+    holder.on('exit', () => {
+      if (this.outputs.get(pin) === holder) {
+        this.outputs.delete(pin);
+      }
+    });
+    this.outputs.set(pin, holder);
+    this.levels.set(pin, level);
+  }
+
+  write(pin: number, level: PinLevel): void {
+    const holder = this.outputs.get(pin);
+    if (!holder?.stdin?.writable) {
+      throw new Error(`Pin ${pin} is not open for output`);
+    }
+    holder.stdin.write(`set ${this.line(pin)}=${level}\n`);
+    this.levels.set(pin, level);
+  }
+
+  watch(pin: number, onPulse: PulseHandler): void {
+    this.close(pin);
+    // Several edges can arrive in one read, so each carries its own kernel
+    // timestamp; the realtime clock keeps them comparable with Date.now()
+    const monitor = spawn('gpiomon', [
+      '--bias=pull-up', '--event-clock=realtime', '--format=%S %E', '-c', this.chip, String(this.line(pin))
+    ]);
+    let buffered = '';
+    monitor.stdout?.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      for (const line of lines) {
+        const event = parseGpiomonEvent(line);
+        if (event) {
+          onPulse(pin, event.at, event.edge);
+        }
+      }
+    });
+    monitor.on('error', (error) => {
+      console.error(`gpiomon failed on pin ${pin}:`, error);
+    });
+    this.monitors.set(pin, monitor);
+  }
+
+  close(pin: number, preserve: boolean = false): void {
+    const monitor = this.monitors.get(pin);
+    if (monitor) {
+      monitor.kill();
+      this.monitors.delete(pin);
+    }
+    if (preserve) {
+      this.hold(pin);
+    } else {
+      this.release(pin);
+    }
+  }
+
+  // A released line is not guaranteed to keep its level, so a detached gpioset
+  // takes over from the interactive one and outlives this process. It waits
+  // for the old holder to let go of the line first.
+  private hold(pin: number): void {
+    const holder = this.outputs.get(pin);
+    const level = this.levels.get(pin);
+    if (!holder?.pid || level === undefined) {
+      this.release(pin);
+      return;
+    }
+    const successor = spawn('sh', [
+      '-c', 'while kill -0 "$0" 2>/dev/null; do sleep 0.05; done; exec gpioset -c "$1" "$2"',
+      String(holder.pid), this.chip, `${this.line(pin)}=${level}`
+    ], { detached: true, stdio: 'ignore' });
+    successor.unref();
+    if (successor.pid) {
+      let pids: number[] = [];
+      try {
+        pids = JSON.parse(fs.readFileSync(this.heldFile(), 'utf8'));
+      } catch {
+        // First line held
+      }
+      fs.writeFileSync(this.heldFile(), JSON.stringify([...pids, successor.pid]));
+    }
+    this.release(pin);
+  }
+
+  private release(pin: number): void {
+    const holder = this.outputs.get(pin);
+    this.levels.delete(pin);
+    if (!holder) return;
+    this.outputs.delete(pin);
+    if (holder.stdin?.writable) {
+      holder.stdin.end('exit\n');
+    } else {
+      holder.kill();
+    }
+  }
+
+  dispose(): void {
+    for (const pin of [...this.monitors.keys(), ...this.outputs.keys()]) {
+      this.close(pin);
+    }
+  }
+}
+
+// A pulse in a recorded timeline, `at` milliseconds after the recording started
+export interface RecordedPulse {
+  pin: number;
+  at: number;
+  // How long the pin stayed low; without it only the falling edge is reported
+  widthMs?: number;
+}
+
+/**
+ * In-memory GPIO for development and tests. Pulses are injected directly or
+ * replayed from a recorded timeline, and every output write is kept so the
+ * LED and inhibit pins can be checked afterwards.
+ */
+export class SimulatorBackend implements GpioBackend {
+  readonly name = 'simulator';
+  readonly writes: Array<{ pin: number; level: PinLevel }> = [];
+  private inputs: Set<number> = new Set();
+  private outputs: Map<number, PinLevel> = new Map();
+  private watchers: Map<number, PulseHandler> = new Map();
+  private timers: NodeJS.Timeout[] = [];
+
+  async init(): Promise<void> {}
+
+  openInput(pin: number): void {
+    this.inputs.add(pin);
+  }
+
+  openOutput(pin: number, level: PinLevel): void {
+    this.outputs.set(pin, level);
+    this.writes.push({ pin, level });
+  }
+
+  write(pin: number, level: PinLevel): void {
+    if (!this.outputs.has(pin)) {
+      throw new Error(`Pin ${pin} is not open for output`);
+    }
+    this.outputs.set(pin, level);
+    this.writes.push({ pin, level });
+  }
+
+  watch(pin: number, onPulse: PulseHandler): void {
+    this.watchers.set(pin, onPulse);
+  }
+
+  close(pin: number, preserve: boolean = false): void {
+    this.inputs.delete(pin);
+    this.watchers.delete(pin);
+    if (!preserve) {
+      this.outputs.delete(pin);
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    this.inputs.clear();
+    this.watchers.clear();
+  }
+
+  // Last level written to an output, or null when it is not open
+  level(pin: number): PinLevel | null {
+    return this.outputs.get(pin) ?? null;
+  }
+
+  // Returns false when nothing is listening on the pin
+  pulse(pin: number, at: number = Date.now(), widthMs?: number): boolean {
+    const handler = this.watchers.get(pin);
+    if (!handler || !this.inputs.has(pin)) return false;
+    handler(pin, at, 'falling');
+    if (widthMs !== undefined) {
+      handler(pin, at + widthMs, 'rising');
+    }
+    return true;
+  }
+
+  // Delivers the whole timeline at once with its recorded timestamps; returns pulses delivered
+  replay(timeline: RecordedPulse[], startAt: number = Date.now()): number {
+    const ordered = [...timeline].sort((a, b) => a.at - b.at);
+    return ordered.filter(pulse => this.pulse(pulse.pin, startAt + pulse.at, pulse.widthMs)).length;
+  }
+
+  // Plays the timeline back in real time, as the pins would see it
+  play(timeline: RecordedPulse[]): void {
+    for (const pulse of timeline) {
+      this.timers.push(setTimeout(() => this.pulse(pulse.pin, Date.now(), pulse.widthMs), pulse.at));
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+  }
+}
+
+// Returns an error message, or null when the timeline can be replayed
+export function validateTimeline(timeline: unknown): string | null {
+  if (!Array.isArray(timeline) || timeline.length === 0) return 'timeline must be a non-empty array';
+  if (timeline.length > 10000) return 'timeline is limited to 10000 pulses';
+  for (const pulse of timeline) {
+    if (!pulse || !Number.isInteger(pulse.pin) || pulse.pin <= 0) return 'every pulse needs a pin';
+    if (typeof pulse.at !== 'number' || !Number.isFinite(pulse.at) || pulse.at < 0) return 'every pulse needs an at offset in ms';
+    if (pulse.widthMs !== undefined && (typeof pulse.widthMs !== 'number' || !(pulse.widthMs >= 0))) return 'widthMs must be zero or more';
+  }
+  return null;
+}
+
+/**
+ * Backend to use for the stored setting. Mock mode means no pin I/O at all,
+ * unless the simulator was chosen explicitly; 'auto' only uses hardware the
+ * platform detection vouches for.
+ */
+export function resolveGpioBackend(kind: GpioBackendKind, platform: string, gpioSupported: boolean, mockMode: boolean): GpioBackendName | null {
+  if (kind === 'simulator') return 'simulator';
+  if (mockMode) return null;
+  if (kind !== 'auto') return kind;
+  if (!gpioSupported) return null;
+  return platform === 'raspberry-pi' ? 'rpio' : 'libgpiod';
+}
+
+export function createGpioBackend(name: GpioBackendName, options: GpioOptions = {}): GpioBackend {
+  switch (name) {
+    case 'rpio':
+      return new RpioBackend();
+    case 'libgpiod':
+      return new LibgpiodBackend(options);
+    case 'simulator':
+      return new SimulatorBackend();
+  }
+}
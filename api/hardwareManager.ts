@@ -1,7 +1,14 @@
 import { execSync } from 'child_process';
 import fs from 'fs';
-import { getSettings, updateSettings } from './database.js';
+import { getSettings, updateSettings, recordTransaction, adjustWallet, raiseHardwareAlert, getActiveHardwareAlerts, clearHardwareAlert, type HardwareAlert } from './database.js';
 import { coinEvents } from './coinEvents.js';
+import { PulseTrainDecoder, type DecodedCoin } from './coinDecoder.js';
+import { resolveAcceptors, validateAcceptors, type AcceptorKind, type AcceptorSettings } from './acceptors.js';
+import { resolveInhibitState, acceptsCoins, INHIBIT_STATE_LABELS, DEFAULT_INHIBIT_SETTINGS, type InhibitState, type InhibitSettings } from './coinInhibit.js';
+import { PulseAnomalyDetector, COIN_FAULT_LABELS, DEFAULT_FAULT_DETECTION, type CoinFaultKind, type FaultDetectionSettings } from './coinFaults.js';
+import { suggestCalibration, MAX_CALIBRATION_COINS, type CalibrationPulse, type CalibrationSuggestion } from './coinCalibration.js';
+import { createGpioBackend, resolveGpioBackend, SimulatorBackend, type GpioBackend, type GpioBackendKind, type GpioBackendName, type GpioOptions, type PinLevel } from './gpio.js';
+import { LedPatternPlayer, resolveLedState, resolveLedPatterns, validateLedPattern, LED_STATES, LED_STATE_LABELS, DEFAULT_LED_PATTERNS, type LedState, type LedPattern, type LedPatternMap } from './ledPatterns.js';
 
 export interface HardwareStatus {
   platform: string;
@@ -10,8 +17,38 @@ export interface HardwareStatus {
   statusLEDPin: number;
   mockMode: boolean;
   rpioLoaded: boolean;
+  gpioBackend: GpioBackendName | null;
+  gpioBackendSetting: GpioBackendKind;
   lastCoinPulse: Date | null;
   totalCoinsToday: number;
+  acceptors: AcceptorStatus[];
+  inhibit: InhibitStatus;
+  // Uncleared coin line faults; the slot stays inhibited while there are any
+  alerts: HardwareAlert[];
+  led: LedStatus;
+}
+
+export interface LedStatus {
+  state: LedState;
+  label: string;
+  pattern: LedPattern;
+  patterns: LedPatternMap;
+  portalActive: boolean;
+}
+
+export interface InhibitStatus extends InhibitSettings {
+  state: InhibitState;
+  label: string;
+  acceptingCoins: boolean;
+  maintenance: boolean;
+  internetUp: boolean;
+  since: Date;
+}
+
+export interface AcceptorStatus extends AcceptorSettings {
+  lastPulse: Date | null;
+  countToday: number;
+  amountToday: number;
 }
 
 export interface PlatformInfo {
@@ -20,6 +57,9 @@ export interface PlatformInfo {
   description: string;
 }
 
+// Coins that land this soon after a coin session closed still belong to that device
+export const ORPHAN_COIN_GRACE_MS = 60000;
+
 export interface CoinSession {
   macAddress: string;
   ipAddress: string;
@@ -27,14 +67,85 @@ export interface CoinSession {
   lastActivity: Date;
 }
 
+export const DEFAULT_COIN_INSERT_WINDOW_SECONDS = 120;
+
+export interface CoinQueueEntry {
+  macAddress: string;
+  ipAddress: string;
+  queuedAt: Date;
+}
+
+// Where one device stands for the shared coin slot; position 0 is the device inserting now
+export interface CoinSlotPosition {
+  status: 'active' | 'queued' | 'none';
+  position: number;
+  estimatedWaitSeconds: number;
+  insertWindowSeconds: number;
+}
+
+export interface CoinQueueSnapshot {
+  active: { macAddress: string; amount: number; remainingSeconds: number } | null;
+  queue: Array<CoinQueueEntry & { position: number; estimatedWaitSeconds: number }>;
+  insertWindowSeconds: number;
+}
+
+// Calibration stops by itself so a forgotten run cannot swallow customers' coins
+export const CALIBRATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface CalibrationStatus {
+  kind: AcceptorKind;
+  pin: number;
+  expectedCoins: number;
+  startedAt: Date;
+  pulses: CalibrationPulse[];
+  suggestion: CalibrationSuggestion | null;
+}
+
+interface AcceptorChannel {
+  settings: AcceptorSettings;
+  decoder: PulseTrainDecoder;
+  timer: NodeJS.Timeout | null;
+  burstSimulated: boolean;
+  detector: PulseAnomalyDetector;
+  stuckTimer: NodeJS.Timeout | null;
+  lastPulse: Date | null;
+  countToday: number;
+  amountToday: number;
+}
+
 export class HardwareManager {
-  private rpio: any = null;
+  private gpio: GpioBackend | null = null;
+  private gpioOptions: GpioOptions = {};
   private coinCallback: ((pin: number) => void) | null = null;
-  private status: HardwareStatus;
+  // acceptors and inhibit are filled in by getHardwareStatus
+  private status: Omit<HardwareStatus, 'acceptors' | 'inhibit' | 'alerts' | 'led'>;
   private coinPulseCount: number = 0;
   private lastPulseReset: Date = new Date();
   private activeCoinSession: CoinSession | null = null;
   private coinSessionTimeout: NodeJS.Timeout | null = null;
+  private lastCoinSession: { macAddress: string; endedAt: number } | null = null;
+  // Set while the slot waits for a burst to finish decoding before the next device gets it
+  private handoffTimer: NodeJS.Timeout | null = null;
+  private coinQueue: CoinQueueEntry[] = [];
+  private insertWindowSeconds: number = DEFAULT_COIN_INSERT_WINDOW_SECONDS;
+  private channels: Map<AcceptorKind, AcceptorChannel> = new Map();
+  private inhibitSettings: InhibitSettings = DEFAULT_INHIBIT_SETTINGS;
+  private maintenance: boolean = false;
+  private faultDetection: FaultDetectionSettings = DEFAULT_FAULT_DETECTION;
+  private alerts: HardwareAlert[] = [];
+  private internetUp: boolean = true;
+  private inhibitState: InhibitState = 'idle';
+  private inhibitSince: Date = new Date();
+  private internetTimer: NodeJS.Timeout | null = null;
+  private portalActive: boolean = true;
+  private portalTimer: NodeJS.Timeout | null = null;
+  // Stays set until the server finishes starting up
+  private booting: boolean = true;
+  private ledPatterns: LedPatternMap = DEFAULT_LED_PATTERNS;
+  private ledState: LedState = 'booting';
+  private led = new LedPatternPlayer((level) => this.writeStatusLED(level));
+  private calibration: Omit<CalibrationStatus, 'suggestion'> | null = null;
+  private calibrationTimeout: NodeJS.Timeout | null = null;
 
   constructor() {
     this.status = {
@@ -44,9 +155,128 @@ export class HardwareManager {
       statusLEDPin: 16,
       mockMode: false,
       rpioLoaded: false,
+      gpioBackend: null,
+      gpioBackendSetting: 'auto',
       lastCoinPulse: null,
       totalCoinsToday: 0
     };
+    this.configureAcceptors(resolveAcceptors({ coinSlotPin: this.status.coinSlotPin }));
+  }
+
+  private configureAcceptors(acceptors: AcceptorSettings[]): void {
+    for (const settings of acceptors) {
+      let channel = this.channels.get(settings.kind);
+      if (!channel) {
+        const created: AcceptorChannel = {
+          settings,
+          decoder: new PulseTrainDecoder((coin) => this.handleDecodedCoin(created, coin)),
+          timer: null,
+          burstSimulated: false,
+          detector: new PulseAnomalyDetector(this.faultDetection),
+          stuckTimer: null,
+          lastPulse: null,
+          countToday: 0,
+          amountToday: 0
+        };
+        channel = created;
+        this.channels.set(settings.kind, channel);
+      }
+      channel.settings = settings;
+      channel.decoder.configure({
+        timeoutMs: settings.pulseTimeoutMs,
+        values: settings.values,
+        debounceMs: settings.debounceMs
+      });
+    }
+  }
+
+  private enabledChannels(): AcceptorChannel[] {
+    return Array.from(this.channels.values()).filter(channel => channel.settings.enabled);
+  }
+
+  // Unknown pins fall back to the coin slot, as before bill support
+  private channelForPin(pin: number): AcceptorChannel {
+    return this.enabledChannels().find(channel => channel.settings.pin === pin) || this.channels.get('coin')!;
+  }
+
+  private closePins(): void {
+    if (!this.gpio) return;
+    this.led.stop();
+    for (const channel of this.enabledChannels()) {
+      this.gpio.close(channel.settings.pin);
+    }
+    this.gpio.close(this.status.statusLEDPin);
+    if (this.inhibitSettings.enabled) {
+      // Keep rejecting coins while the pin is released
+      this.gpio.close(this.inhibitSettings.pin, true);
+    }
+  }
+
+  // Re-evaluates the inhibit state machine and drives the output on a change
+  private updateInhibitOutput(force: boolean = false): void {
+    this.updateLed();
+    const state = resolveInhibitState({
+      coinSessionOpen: !!this.activeCoinSession,
+      calibrating: !!this.calibration,
+      faulted: this.alerts.length > 0,
+      maintenance: this.maintenance,
+      internetUp: this.internetUp
+    });
+    if (state === this.inhibitState && !force) return;
+
+    if (state !== this.inhibitState) {
+      console.log(`Coin acceptor ${acceptsCoins(state) ? 'enabled' : 'inhibited'}: ${INHIBIT_STATE_LABELS[state]}`);
+      this.inhibitState = state;
+      this.inhibitSince = new Date();
+    }
+    this.writeInhibitPin(!acceptsCoins(state));
+  }
+
+  private writeInhibitPin(inhibited: boolean): void {
+    if (!this.inhibitSettings.enabled) return;
+    if (!this.gpio) {
+      console.log(`[MOCK] Coin inhibit ${inhibited ? 'ON' : 'OFF'}`);
+      return;
+    }
+
+    try {
+      this.gpio.write(this.inhibitSettings.pin, this.inhibitLevel(inhibited));
+    } catch (error) {
+      console.error('Error writing coin inhibit pin:', error);
+    }
+  }
+
+  private inhibitLevel(inhibited: boolean): 0 | 1 {
+    return inhibited === (this.inhibitSettings.inhibitLevel === 'high') ? 1 : 0;
+  }
+
+  // Plays the blink code for the current machine state; `force` restarts it after the pin was reopened
+  private updateLed(force: boolean = false): void {
+    const state = resolveLedState({
+      booting: this.booting,
+      faulted: this.alerts.length > 0,
+      maintenance: this.maintenance,
+      internetUp: this.internetUp,
+      portalActive: this.portalActive,
+      coinSessionOpen: !!this.activeCoinSession || !!this.calibration
+    });
+    if (state === this.ledState && !force) return;
+    this.ledState = state;
+
+    if (!this.gpio) {
+      console.log(`[MOCK] Status LED: ${LED_STATE_LABELS[state]}`);
+      return;
+    }
+    this.led.play(this.ledPatterns[state]);
+  }
+
+  private writeStatusLED(level: PinLevel): void {
+    if (!this.gpio) return;
+    try {
+      this.gpio.write(this.status.statusLEDPin, level);
+    } catch (error) {
+      console.error('Error writing status LED:', error);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -56,6 +286,19 @@ export class HardwareManager {
       this.status.coinSlotPin = settings.hardware.coinSlotPin;
       this.status.statusLEDPin = settings.hardware.statusLEDPin;
       this.status.mockMode = settings.hardware.mockMode;
+      this.configureAcceptors(resolveAcceptors(settings.hardware));
+      this.inhibitSettings = settings.hardware.inhibit || DEFAULT_INHIBIT_SETTINGS;
+      this.maintenance = !!settings.hardware.maintenanceMode;
+      this.faultDetection = settings.hardware.faultDetection || DEFAULT_FAULT_DETECTION;
+      for (const channel of this.channels.values()) {
+        channel.detector.configure(this.faultDetection);
+      }
+      // Faults survive a restart; the slot stays closed until someone looks at it
+      this.alerts = getActiveHardwareAlerts();
+      this.insertWindowSeconds = settings.hardware.coinInsertWindowSeconds || DEFAULT_COIN_INSERT_WINDOW_SECONDS;
+      this.ledPatterns = resolveLedPatterns(settings.hardware.ledPatterns);
+      this.status.gpioBackendSetting = settings.hardware.gpioBackend || 'auto';
+      this.gpioOptions = { chip: settings.hardware.gpioChip, lineMap: settings.hardware.gpioLineMap };
 
       // Detect platform
       const platform = this.detectPlatform();
@@ -63,11 +306,10 @@ export class HardwareManager {
       this.status.gpioAvailable = platform.gpioSupported;
 
       // Initialize GPIO if available
-      if (platform.gpioSupported && !this.status.mockMode) {
-        await this.initializeGPIO();
-      } else if (!platform.gpioSupported) {
+      if (!platform.gpioSupported && this.status.gpioBackendSetting === 'auto') {
         this.status.mockMode = true;
       }
+      await this.initializeGPIO();
 
       // Update settings with detected platform
       updateSettings({
@@ -78,6 +320,8 @@ export class HardwareManager {
         }
       });
 
+      this.updateInhibitOutput(true);
+
       console.log(`Hardware manager initialized: ${platform.description}`);
       console.log(`GPIO Available: ${this.status.gpioAvailable}, Mock Mode: ${this.status.mockMode}`);
 
@@ -179,43 +423,87 @@ export class HardwareManager {
     }
   }
 
+  // Loads the configured backend on first use, then (re)opens every pin
   async initializeGPIO(): Promise<void> {
     try {
-      // Try to load rpio library
-      this.rpio = await import('rpio');
-      this.status.rpioLoaded = true;
-      // Use physical pin mapping so numbers match board silkscreen
-      this.rpio.init({ gpiomem: true, mapping: 'physical' });
+      if (!this.gpio) {
+        const name = resolveGpioBackend(this.status.gpioBackendSetting, this.status.platform, this.status.gpioAvailable, this.status.mockMode);
+        if (name) {
+          const backend = createGpioBackend(name, this.gpioOptions);
+          await backend.init();
+          this.gpio = backend;
+        }
+      }
+      this.updateBackendStatus();
+      if (!this.gpio) return;
 
       // Initialize GPIO pins
-      this.rpio.open(this.status.coinSlotPin, this.rpio.INPUT, this.rpio.PULL_UP);
-      this.rpio.open(this.status.statusLEDPin, this.rpio.OUTPUT, this.rpio.LOW);
+      for (const channel of this.enabledChannels()) {
+        this.gpio.openInput(channel.settings.pin);
+      }
+      this.gpio.openOutput(this.status.statusLEDPin, 0);
+      this.updateLed(true);
+      if (this.inhibitSettings.enabled) {
+        // Start inhibited; updateInhibitOutput releases it when a session opens
+        this.gpio.openOutput(this.inhibitSettings.pin, this.inhibitLevel(true));
+        this.writeInhibitPin(!acceptsCoins(this.inhibitState));
+      }
 
-      console.log('GPIO initialized successfully');
+      console.log(`GPIO initialized successfully (${this.gpio.name})`);
 
     } catch (error) {
       console.warn('Failed to initialize GPIO, falling back to mock mode:', error);
-      this.status.rpioLoaded = false;
+      this.gpio = null;
+      this.updateBackendStatus();
+    }
+  }
+
+  private updateBackendStatus(): void {
+    this.status.gpioBackend = this.gpio?.name || null;
+    this.status.rpioLoaded = this.gpio?.name === 'rpio';
+  }
+
+  private releaseBackend(): void {
+    if (!this.gpio) return;
+    try {
+      this.closePins();
+    } catch (error) {
+      console.warn('Error closing existing pins:', error);
+    }
+    this.gpio.dispose();
+    this.gpio = null;
+    this.updateBackendStatus();
+  }
+
+  // Reopens the pins on the current backend after a pin or acceptor change
+  private reopenPins(): void {
+    this.initializeGPIO();
+    if (this.coinCallback) {
+      this.setupCoinDetection(this.coinCallback);
     }
   }
 
   setupCoinDetection(callback: (pin: number) => void): void {
     this.coinCallback = callback;
 
-    if (this.status.mockMode || !this.rpio) {
+    if (!this.gpio) {
       console.log('Coin detection running in mock mode (simulation disabled)');
       return;
     }
 
     try {
-      // Set up interrupt-based coin detection
-      this.rpio.poll(this.status.coinSlotPin, (pin: number) => {
-        if (this.rpio.read(pin) === 0) { // Pulse detected (active low)
-          this.handleCoinPulse(pin);
-        }
-      }, this.rpio.POLL_LOW);
+      // Set up edge detection on every acceptor input
+      for (const channel of this.enabledChannels()) {
+        this.gpio.watch(channel.settings.pin, (pin, at, edge) => {
+          if (edge === 'falling') {
+            this.handleCoinPulse(pin, false, at);
+          } else {
+            this.handlePulseEnd(pin, at);
+          }
+        });
 
-      console.log(`Coin detection set up on pin ${this.status.coinSlotPin}`);
+        console.log(`${channel.settings.kind} detection set up on pin ${channel.settings.pin}`);
+      }
 
     } catch (error) {
       console.error('Error setting up coin detection:', error);
@@ -223,81 +511,390 @@ export class HardwareManager {
     }
   }
 
-  public handleCoinPulse(pin: number): void {
-    const now = new Date();
-    this.status.lastCoinPulse = now;
-    this.coinPulseCount++;
+  // Pulses are collected into a burst per acceptor; the coin or bill is credited once the burst ends.
+  // Simulated pulses credit the client but are not real money, so they stay out of the ledger
+  public handleCoinPulse(pin: number, simulated: boolean = false, at: number = Date.now()): void {
+    const now = new Date(at);
+    const channel = this.channelForPin(pin);
+    if (this.calibration?.kind === channel.settings.kind) {
+      this.recordCalibrationPulse(at);
+      return; // Test coins are measured, not credited
+    }
+    if (this.alerts.length > 0) {
+      return; // The line is not trusted until the fault is cleared
+    }
+    // Simulated pulses arrive back to back on purpose
+    if (!simulated) {
+      const fault = channel.detector.pulse(at);
+      if (fault) {
+        this.raiseFault(channel, fault, `${COIN_FAULT_LABELS[fault]}: more than ${this.faultDetection.maxPulsesPerSecond} pulses in one second on pin ${pin}`);
+        return;
+      }
+      this.scheduleStuckCheck(channel);
+    }
+    this.resetDailyCounters(now);
 
-    // Reset daily counter if it's a new day
-    if (now.getDate() !== this.lastPulseReset.getDate()) {
-      this.status.totalCoinsToday = 0;
-      this.lastPulseReset = now;
+    // May close the previous burst if this pulse came after the timeout
+    if (!channel.decoder.pulse(now.getTime())) {
+      return; // Contact bounce
+    }
+    channel.lastPulse = now;
+    channel.burstSimulated = channel.burstSimulated || simulated;
+    if (channel.settings.kind === 'coin') {
+      this.status.lastCoinPulse = now;
+      this.coinPulseCount++;
     }
 
-    this.status.totalCoinsToday++;
+    if (this.activeCoinSession) {
+      this.refreshCoinSession(); // Keep session alive while the money is still going in
+    }
+    this.scheduleBurstEnd(channel);
+  }
+
+  // Rising edge: ends the stuck-low watch, and calibration records the pulse width
+  private handlePulseEnd(pin: number, at: number): void {
+    const channel = this.channelForPin(pin);
+    channel.detector.release();
+    if (channel.stuckTimer) {
+      clearTimeout(channel.stuckTimer);
+      channel.stuckTimer = null;
+    }
+    if (!this.calibration || this.calibration.kind !== channel.settings.kind) return;
+    const last = this.calibration.pulses[this.calibration.pulses.length - 1];
+    if (last && last.widthMs === null && at >= last.at) {
+      last.widthMs = at - last.at;
+      this.emitCalibration();
+    }
+  }
+
+  private recordCalibrationPulse(at: number): void {
+    const calibration = this.calibration!;
+    // Enough for MAX_CALIBRATION_COINS twenty-peso coins plus bounce
+    if (calibration.pulses.length >= MAX_CALIBRATION_COINS * 40) return;
+    calibration.pulses.push({ at, widthMs: null });
+    this.emitCalibration();
+  }
+
+  private emitCalibration(): void {
+    coinEvents.emit('calibration', this.getCalibration());
+  }
+
+  /**
+   * Starts recording pulse timings on one acceptor. The acceptor accepts
+   * coins and nobody can open a coin session until the run is stopped.
+   * Throws when a customer is inserting coins or the acceptor is off.
+   */
+  startCalibration(kind: AcceptorKind, expectedCoins: number): CalibrationStatus {
+    const channel = this.channels.get(kind);
+    if (!channel || !channel.settings.enabled) {
+      throw new Error(`The ${kind} acceptor is disabled`);
+    }
+    if (this.activeCoinSession) {
+      throw new Error('A customer is inserting coins; try again once the coin slot is free');
+    }
+    if (!Number.isInteger(expectedCoins) || expectedCoins < 1 || expectedCoins > MAX_CALIBRATION_COINS) {
+      throw new Error(`coins must be a whole number between 1 and ${MAX_CALIBRATION_COINS}`);
+    }
+
+    // Drop any half-collected burst so it is not mixed into the test coins
+    if (channel.timer) {
+      clearTimeout(channel.timer);
+      channel.timer = null;
+    }
+    channel.decoder.flush();
+
+    this.calibration = { kind, pin: channel.settings.pin, expectedCoins, startedAt: new Date(), pulses: [] };
+    if (this.calibrationTimeout) {
+      clearTimeout(this.calibrationTimeout);
+    }
+    this.calibrationTimeout = setTimeout(() => {
+      console.log('Calibration timed out');
+      this.stopCalibration();
+    }, CALIBRATION_TIMEOUT_MS);
+
+    this.updateInhibitOutput();
+    console.log(`Calibrating ${kind} acceptor with ${expectedCoins} test coins`);
+    this.emitCalibration();
+    return this.getCalibration()!;
+  }
+
+  // Ends the run and returns what was recorded; the settings are saved separately
+  stopCalibration(): CalibrationStatus | null {
+    const result = this.getCalibration();
+    this.calibration = null;
+    if (this.calibrationTimeout) {
+      clearTimeout(this.calibrationTimeout);
+      this.calibrationTimeout = null;
+    }
+    this.updateInhibitOutput();
+    coinEvents.emit('calibration', null);
+    return result;
+  }
+
+  getCalibration(): CalibrationStatus | null {
+    if (!this.calibration) return null;
+    return {
+      ...this.calibration,
+      pulses: this.calibration.pulses.map(pulse => ({ ...pulse })),
+      suggestion: suggestCalibration(this.calibration.pulses, this.calibration.expectedCoins)
+    };
+  }
+
+  private scheduleStuckCheck(channel: AcceptorChannel): void {
+    if (channel.stuckTimer) {
+      clearTimeout(channel.stuckTimer);
+      channel.stuckTimer = null;
+    }
+    if (!channel.detector.isWatchingLevel()) return;
+    channel.stuckTimer = setTimeout(() => {
+      channel.stuckTimer = null;
+      if (channel.detector.isStuck(Date.now())) {
+        this.raiseFault(channel, 'stuck_low', `Pin ${channel.settings.pin} held low for over ${channel.detector.getStuckLowMs()} ms`);
+      }
+    }, channel.detector.getStuckLowMs());
+  }
+
+  /**
+   * Closes the coin slot and records a persistent alert. Money already
+   * inserted by the current customer is saved to their wallet, and the
+   * line is dropped since nobody can insert until an admin clears it.
+   */
+  private raiseFault(channel: AcceptorChannel, kind: CoinFaultKind, message: string): void {
+    const source = channel.settings.kind;
+    if (this.alerts.some(alert => alert.kind === kind && alert.source === source)) return;
+
+    if (channel.timer) {
+      clearTimeout(channel.timer);
+      channel.timer = null;
+    }
+    channel.decoder.discard();
+    channel.burstSimulated = false;
+
+    try {
+      this.alerts.unshift(raiseHardwareAlert({ kind, source, message }));
+    } catch (error) {
+      console.error('Error saving hardware alert:', error);
+      this.alerts.unshift({ id: 0, kind, source, message, raisedAt: new Date().toISOString(), clearedAt: null, clearedBy: null });
+    }
+    console.error(`Coin slot fault on ${source} acceptor: ${message}`);
 
-    // Update active coin session
     if (this.activeCoinSession) {
-      this.activeCoinSession.amount++;
+      this.coinQueue = [];
+      this.clearCoinSession();
+    } else {
+      this.updateInhibitOutput();
+    }
+  }
+
+  getAlerts(): HardwareAlert[] {
+    return [...this.alerts];
+  }
+
+  // Returns false when the alert is not active; the slot reopens once none are left
+  clearAlert(id: number, actor?: string | null): boolean {
+    const index = this.alerts.findIndex(alert => alert.id === id);
+    if (index === -1) return false;
+    clearHardwareAlert(id, actor);
+    this.alerts.splice(index, 1);
+    if (this.alerts.length === 0) {
+      for (const channel of this.channels.values()) {
+        channel.detector.reset();
+      }
+      console.log('Coin slot faults cleared');
+    }
+    this.updateInhibitOutput();
+    return true;
+  }
+
+  private scheduleBurstEnd(channel: AcceptorChannel): void {
+    if (channel.timer) {
+      clearTimeout(channel.timer);
+    }
+    channel.timer = setTimeout(() => {
+      channel.timer = null;
+      channel.decoder.tick();
+      if (channel.decoder.isPending()) {
+        this.scheduleBurstEnd(channel);
+      }
+    }, channel.decoder.getTimeoutMs());
+  }
+
+  private resetDailyCounters(now: Date): void {
+    if (now.getDate() === this.lastPulseReset.getDate()) return;
+    this.status.totalCoinsToday = 0;
+    for (const channel of this.channels.values()) {
+      channel.countToday = 0;
+      channel.amountToday = 0;
+    }
+    this.lastPulseReset = now;
+  }
+
+  private handleDecodedCoin(channel: AcceptorChannel, coin: DecodedCoin): void {
+    const { kind, pin } = channel.settings;
+    const simulated = channel.burstSimulated;
+    channel.burstSimulated = false;
+
+    if (!coin.recognized) {
+      console.warn(`Ignoring burst of ${coin.pulses} pulses on ${kind} pin ${pin}: no value configured for that count`);
+      return;
+    }
+
+    const now = new Date(coin.endedAt);
+    this.resetDailyCounters(now);
+
+    // A burst that started before the slot changed hands belongs to the device that had it
+    const previous = this.lastCoinSession && now.getTime() - this.lastCoinSession.endedAt <= ORPHAN_COIN_GRACE_MS
+      ? this.lastCoinSession
+      : null;
+    const session = previous && coin.startedAt < previous.endedAt ? null : this.activeCoinSession;
+
+    channel.countToday++;
+    channel.amountToday += coin.value;
+    if (kind === 'coin') {
+      this.status.totalCoinsToday++;
+    }
+
+    // Every coin or bill is money in the box, whether or not a client claimed it
+    if (!simulated) {
+      try {
+        recordTransaction({
+          type: kind,
+          amount: coin.value,
+          minutes: 0,
+          macAddress: session?.macAddress || previous?.macAddress || null,
+          reference: `pin ${pin}`
+        });
+      } catch (error) {
+        console.error(`Error recording ${kind} transaction:`, error);
+      }
+    }
+
+    // Update active coin session
+    if (session) {
+      session.amount += coin.value;
       this.refreshCoinSession(); // Keep session alive
-      console.log(`Credit added to session ${this.activeCoinSession.macAddress}: ${this.activeCoinSession.amount}`);
+      console.log(`Credit added to session ${session.macAddress}: ${session.amount}`);
+    } else if (previous) {
+      // Arrived just after the session closed; keep it for the device that opened it
+      this.creditWallet(previous.macAddress, coin.value);
     } else {
-      console.log(`Coin pulse detected on pin ${pin} (${this.coinPulseCount} total) - No active session`);
+      console.log(`${kind} detected on pin ${pin} - No active session`);
+      const fault = simulated ? null : channel.detector.unclaimedBurst(coin.endedAt);
+      if (fault) {
+        this.raiseFault(channel, fault, `${this.faultDetection.unclaimedBurstLimit} ${kind === 'coin' ? 'coins' : 'bills'} inserted with no coin session open`);
+      }
     }
 
-    console.log(`Coin pulse detected on pin ${pin} (${this.coinPulseCount} total, ${this.status.totalCoinsToday} today)`);
+    console.log(`${kind} worth ${coin.value} detected on pin ${pin} (${coin.pulses} pulses, ${channel.countToday} today)`);
 
     // Trigger callback
     if (this.coinCallback) {
       this.coinCallback(pin);
     }
-    // Emit global coin event for subscribers
+    // Emit global coin event for subscribers; amount is the running session total
     coinEvents.emit('coin', { 
       pin, 
+      source: kind,
       timestamp: now.toISOString(),
-      amount: this.activeCoinSession?.amount || 0,
-      targetMac: this.activeCoinSession?.macAddress
+      value: coin.value,
+      pulses: coin.pulses,
+      amount: session?.amount || 0,
+      targetMac: session?.macAddress
     });
 
     // Visual feedback - blink status LED
     this.blinkStatusLED(200);
   }
 
+  // Throws when the resulting acceptor setup is invalid
+  updateAcceptor(kind: AcceptorKind, changes: Partial<Omit<AcceptorSettings, 'kind'>>): AcceptorSettings {
+    const acceptors = Array.from(this.channels.values()).map(channel =>
+      channel.settings.kind === kind ? { ...channel.settings, ...changes, kind } : channel.settings
+    );
+    const validationError = validateAcceptors(acceptors, this.status.statusLEDPin);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const gpioActive = !!this.gpio;
+    if (gpioActive) {
+      try {
+        this.closePins();
+      } catch (error) {
+        console.warn('Error closing existing pins:', error);
+      }
+    }
+
+    this.configureAcceptors(acceptors);
+    this.status.coinSlotPin = this.channels.get('coin')!.settings.pin;
+
+    if (gpioActive) {
+      this.reopenPins();
+    }
+
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        coinSlotPin: this.status.coinSlotPin,
+        acceptors
+      }
+    });
+
+    console.log(`${kind} acceptor updated`);
+    return this.channels.get(kind)!.settings;
+  }
+
+  // Lights the LED for `duration`, then the blink code starts over
   blinkStatusLED(duration: number = 500): void {
-    if (this.status.mockMode || !this.rpio) {
+    if (!this.gpio) {
       console.log(`[MOCK] Status LED blink for ${duration}ms`);
       return;
     }
-
-    try {
-      this.rpio.write(this.status.statusLEDPin, this.rpio.HIGH);
-      setTimeout(() => {
-        this.rpio.write(this.status.statusLEDPin, this.rpio.LOW);
-      }, duration);
-    } catch (error) {
-      console.error('Error blinking status LED:', error);
-    }
+    this.led.flash(duration);
   }
 
+  // Manual override for testing the LED; the blink code comes back on the next state change
   setStatusLED(state: boolean): void {
-    if (this.status.mockMode || !this.rpio) {
+    if (!this.gpio) {
       console.log(`[MOCK] Status LED ${state ? 'ON' : 'OFF'}`);
       return;
     }
+    this.led.stop();
+    this.writeStatusLED(state ? 1 : 0);
+  }
 
-    try {
-      this.rpio.write(this.status.statusLEDPin, state ? this.rpio.HIGH : this.rpio.LOW);
-    } catch (error) {
-      console.error('Error setting status LED:', error);
+  // Throws when a state or pattern is invalid; states left out keep their pattern
+  updateLedPatterns(changes: Partial<LedPatternMap>): LedPatternMap {
+    for (const [state, pattern] of Object.entries(changes)) {
+      if (!LED_STATES.includes(state as LedState)) {
+        throw new Error(`Unknown LED state: ${state}`);
+      }
+      const patternError = validateLedPattern(pattern);
+      if (patternError) {
+        throw new Error(`${LED_STATE_LABELS[state as LedState]}: ${patternError}`);
+      }
     }
+
+    this.ledPatterns = { ...this.ledPatterns, ...changes };
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        ledPatterns: this.ledPatterns
+      }
+    });
+
+    this.updateLed(true);
+    console.log('Status LED patterns updated');
+    return this.ledPatterns;
   }
 
   updatePinConfiguration(coinSlotPin: number, statusLEDPin: number): void {
     // Clean up existing pins if GPIO is active
-    if (!this.status.mockMode && this.rpio) {
+    if (this.gpio) {
       try {
-        this.rpio.close(this.status.coinSlotPin);
-        this.rpio.close(this.status.statusLEDPin);
+        this.closePins();
       } catch (error) {
         console.warn('Error closing existing pins:', error);
       }
@@ -306,13 +903,12 @@ export class HardwareManager {
     // Update configuration
     this.status.coinSlotPin = coinSlotPin;
     this.status.statusLEDPin = statusLEDPin;
+    const coin = this.channels.get('coin')!;
+    coin.settings = { ...coin.settings, pin: coinSlotPin };
 
     // Reinitialize pins if GPIO is active
-    if (!this.status.mockMode && this.rpio) {
-      this.initializeGPIO();
-      if (this.coinCallback) {
-        this.setupCoinDetection(this.coinCallback);
-      }
+    if (this.gpio) {
+      this.reopenPins();
     }
 
     // Update database
@@ -329,7 +925,144 @@ export class HardwareManager {
   }
 
   getHardwareStatus(): HardwareStatus {
-    return { ...this.status };
+    return {
+      ...this.status,
+      acceptors: Array.from(this.channels.values()).map(channel => ({
+        ...channel.settings,
+        lastPulse: channel.lastPulse,
+        countToday: channel.countToday,
+        amountToday: channel.amountToday
+      })),
+      alerts: [...this.alerts],
+      led: {
+        state: this.ledState,
+        label: LED_STATE_LABELS[this.ledState],
+        pattern: this.ledPatterns[this.ledState],
+        patterns: { ...this.ledPatterns },
+        portalActive: this.portalActive
+      },
+      inhibit: {
+        ...this.inhibitSettings,
+        state: this.inhibitState,
+        label: INHIBIT_STATE_LABELS[this.inhibitState],
+        acceptingCoins: acceptsCoins(this.inhibitState),
+        maintenance: this.maintenance,
+        internetUp: this.internetUp,
+        since: this.inhibitSince
+      }
+    };
+  }
+
+  getCoinSlotState(): InhibitState {
+    return this.inhibitState;
+  }
+
+  setMaintenanceMode(enabled: boolean): void {
+    this.maintenance = enabled;
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        maintenanceMode: enabled
+      }
+    });
+    this.updateInhibitOutput();
+  }
+
+  setInternetAvailable(up: boolean): void {
+    if (up === this.internetUp) return;
+    this.internetUp = up;
+    console.log(`Internet ${up ? 'restored' : 'lost'}`);
+    this.updateInhibitOutput();
+  }
+
+  // Polls WAN connectivity so the coin slot closes during an outage
+  watchInternet(check: () => Promise<boolean>, intervalMs: number = 30000): void {
+    if (this.internetTimer) {
+      clearInterval(this.internetTimer);
+    }
+    this.internetTimer = this.poll(check, (up) => this.setInternetAvailable(up), 'internet connection', intervalMs);
+  }
+
+  setCaptivePortalActive(active: boolean): void {
+    if (active === this.portalActive) return;
+    this.portalActive = active;
+    console.log(`Captive portal ${active ? 'active' : 'inactive'}`);
+    this.updateLed();
+  }
+
+  // Polls the captive portal firewall rules for the status LED
+  watchCaptivePortal(check: () => Promise<boolean>, intervalMs: number = 30000): void {
+    if (this.portalTimer) {
+      clearInterval(this.portalTimer);
+    }
+    this.portalTimer = this.poll(check, (active) => this.setCaptivePortalActive(active), 'captive portal', intervalMs);
+  }
+
+  // Runs `check` now and every `intervalMs`, skipping a round while the previous one is still running
+  private poll(check: () => Promise<boolean>, apply: (value: boolean) => void, what: string, intervalMs: number): NodeJS.Timeout {
+    let checking = false;
+    const run = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        apply(await check());
+      } catch (error) {
+        console.error(`Error checking ${what}:`, error);
+      } finally {
+        checking = false;
+      }
+    };
+    run();
+    return setInterval(run, intervalMs);
+  }
+
+  // Called once the server has finished starting; the LED leaves its boot pattern
+  markReady(): void {
+    this.booting = false;
+    this.updateLed();
+  }
+
+  // Throws when the inhibit pin clashes with another pin
+  updateInhibitSettings(changes: Partial<InhibitSettings>): InhibitSettings {
+    const next = { ...this.inhibitSettings, ...changes };
+    if (!Number.isInteger(next.pin) || next.pin <= 0) {
+      throw new Error('Inhibit pin is required');
+    }
+    if (next.inhibitLevel !== 'high' && next.inhibitLevel !== 'low') {
+      throw new Error('inhibitLevel must be high or low');
+    }
+    const usedPins = [this.status.statusLEDPin, ...this.enabledChannels().map(channel => channel.settings.pin)];
+    if (next.enabled && usedPins.includes(next.pin)) {
+      throw new Error(`Pin ${next.pin} is already in use`);
+    }
+
+    const gpioActive = !!this.gpio;
+    if (gpioActive) {
+      try {
+        this.closePins();
+      } catch (error) {
+        console.warn('Error closing existing pins:', error);
+      }
+    }
+
+    this.inhibitSettings = next;
+
+    if (gpioActive) {
+      this.reopenPins();
+    }
+
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        inhibit: next
+      }
+    });
+
+    this.updateInhibitOutput(true);
+    console.log(`Coin inhibit updated - ${next.enabled ? `pin ${next.pin}, inhibit ${next.inhibitLevel}` : 'disabled'}`);
+    return next;
   }
 
   getAvailablePins(): number[] {
@@ -349,10 +1082,42 @@ export class HardwareManager {
   }
 
   cleanup(): void {
-    if (!this.status.mockMode && this.rpio) {
+    if (this.handoffTimer) {
+      clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+    if (this.calibrationTimeout) {
+      clearTimeout(this.calibrationTimeout);
+      this.calibrationTimeout = null;
+    }
+    if (this.internetTimer) {
+      clearInterval(this.internetTimer);
+      this.internetTimer = null;
+    }
+    if (this.portalTimer) {
+      clearInterval(this.portalTimer);
+      this.portalTimer = null;
+    }
+    this.led.stop();
+    for (const channel of this.channels.values()) {
+      if (channel.timer) {
+        clearTimeout(channel.timer);
+        channel.timer = null;
+      }
+      if (channel.stuckTimer) {
+        clearTimeout(channel.stuckTimer);
+        channel.stuckTimer = null;
+      }
+      // Credit money that was still going in
+      channel.decoder.flush();
+    }
+    // Reject coins while the server is down
+    this.writeInhibitPin(true);
+
+    if (this.gpio) {
       try {
-        this.rpio.close(this.status.coinSlotPin);
-        this.rpio.close(this.status.statusLEDPin);
+        this.closePins();
+        this.gpio.dispose();
         console.log('GPIO pins cleaned up');
       } catch (error) {
         console.error('Error cleaning up GPIO pins:', error);
@@ -377,45 +1142,83 @@ export class HardwareManager {
         const platform = this.detectPlatform();
         this.status.platform = platform.type;
         this.status.gpioAvailable = platform.gpioSupported;
-        if (platform.gpioSupported) {
-          this.initializeGPIO();
-          if (this.coinCallback) {
-            this.setupCoinDetection(this.coinCallback);
-          }
-        }
+        this.reopenPins();
       } catch (e) {
         this.status.mockMode = true;
       }
-    } else {
-      if (this.rpio) {
-        try {
-          this.rpio.close(this.status.coinSlotPin);
-          this.rpio.close(this.status.statusLEDPin);
-        } catch {}
-        this.rpio = null;
-        this.status.rpioLoaded = false;
-      }
+    } else if (this.gpio?.name !== 'simulator') {
+      this.releaseBackend();
     }
 
     return prev !== this.status.mockMode;
   }
 
-  public startCoinSession(macAddress: string, ipAddress: string): boolean {
+  // Switches pin I/O to another backend; resolves once the new backend is up (or failed)
+  // Options left out keep their current value
+  async setGpioBackend(kind: GpioBackendKind, changes: GpioOptions = {}): Promise<GpioBackendName | null> {
+    this.releaseBackend();
+    this.status.gpioBackendSetting = kind;
+    this.gpioOptions = {
+      chip: changes.chip ?? this.gpioOptions.chip,
+      lineMap: changes.lineMap ?? this.gpioOptions.lineMap
+    };
+
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        gpioBackend: kind,
+        gpioChip: this.gpioOptions.chip,
+        gpioLineMap: this.gpioOptions.lineMap
+      }
+    });
+
+    await this.initializeGPIO();
+    if (this.coinCallback) {
+      this.setupCoinDetection(this.coinCallback);
+    }
+    this.updateInhibitOutput(true);
+    console.log(`GPIO backend set to ${kind} (${this.gpio?.name || 'none'})`);
+    return this.gpio?.name || null;
+  }
+
+  // The simulator, when it is the active backend
+  getSimulator(): SimulatorBackend | null {
+    return this.gpio instanceof SimulatorBackend ? this.gpio : null;
+  }
+
+  // Gives the slot to the device if it is free, otherwise puts it at the back of the line
+  public startCoinSession(macAddress: string, ipAddress: string): CoinSlotPosition {
     if (this.activeCoinSession) {
       // If same user, just refresh
       if (this.activeCoinSession.macAddress === macAddress) {
         this.refreshCoinSession();
-        return true;
+        return this.getCoinSlotPosition(macAddress);
       }
       // If different user, check if timed out
       const now = new Date();
-      if (now.getTime() - this.activeCoinSession.lastActivity.getTime() > 120000) { // 2 mins
-        this.clearCoinSession();
+      if (now.getTime() - this.activeCoinSession.lastActivity.getTime() > this.insertWindowSeconds * 1000) {
+        this.clearCoinSession(); // Hands the slot to whoever is next
+      }
+    }
+
+    if (!this.activeCoinSession && !this.handoffTimer) {
+      this.activateCoinSession(macAddress, ipAddress);
+    } else if (this.activeCoinSession?.macAddress !== macAddress) {
+      const queued = this.coinQueue.find(entry => entry.macAddress === macAddress);
+      if (queued) {
+        queued.ipAddress = ipAddress;
       } else {
-        return false; // Busy
+        this.coinQueue.push({ macAddress, ipAddress, queuedAt: new Date() });
+        console.log(`${macAddress} queued for the coin slot (position ${this.coinQueue.length})`);
+        this.emitQueue();
       }
     }
+    return this.getCoinSlotPosition(macAddress);
+  }
 
+  private activateCoinSession(macAddress: string, ipAddress: string): void {
+    this.coinQueue = this.coinQueue.filter(entry => entry.macAddress !== macAddress);
     this.activeCoinSession = {
       macAddress,
       ipAddress,
@@ -425,9 +1228,79 @@ export class HardwareManager {
 
     // Set timeout to clear session automatically
     this.refreshCoinSession();
+    this.updateInhibitOutput();
 
     console.log(`Coin session started for ${macAddress} (${ipAddress})`);
-    return true;
+    this.emitQueue();
+  }
+
+  // "Done inserting": frees the slot, or leaves the line if still waiting
+  public releaseCoinSlot(macAddress: string): void {
+    if (this.activeCoinSession?.macAddress === macAddress) {
+      this.clearCoinSession();
+      return;
+    }
+    const before = this.coinQueue.length;
+    this.coinQueue = this.coinQueue.filter(entry => entry.macAddress !== macAddress);
+    if (this.coinQueue.length !== before) {
+      this.emitQueue();
+    }
+  }
+
+  private activeRemainingSeconds(): number {
+    if (!this.activeCoinSession) return 0;
+    const elapsed = (Date.now() - this.activeCoinSession.lastActivity.getTime()) / 1000;
+    return Math.max(0, Math.ceil(this.insertWindowSeconds - elapsed));
+  }
+
+  // Worst case: everyone ahead uses their full insert window
+  private estimatedWaitSeconds(position: number): number {
+    return this.activeRemainingSeconds() + (position - 1) * this.insertWindowSeconds;
+  }
+
+  getCoinSlotPosition(macAddress: string): CoinSlotPosition {
+    const insertWindowSeconds = this.insertWindowSeconds;
+    if (this.activeCoinSession?.macAddress === macAddress) {
+      return { status: 'active', position: 0, estimatedWaitSeconds: 0, insertWindowSeconds };
+    }
+    const index = this.coinQueue.findIndex(entry => entry.macAddress === macAddress);
+    if (index === -1) {
+      return { status: 'none', position: 0, estimatedWaitSeconds: 0, insertWindowSeconds };
+    }
+    return { status: 'queued', position: index + 1, estimatedWaitSeconds: this.estimatedWaitSeconds(index + 1), insertWindowSeconds };
+  }
+
+  getCoinQueue(): CoinQueueSnapshot {
+    return {
+      active: this.activeCoinSession
+        ? { macAddress: this.activeCoinSession.macAddress, amount: this.activeCoinSession.amount, remainingSeconds: this.activeRemainingSeconds() }
+        : null,
+      queue: this.coinQueue.map((entry, index) => ({
+        ...entry,
+        position: index + 1,
+        estimatedWaitSeconds: this.estimatedWaitSeconds(index + 1)
+      })),
+      insertWindowSeconds: this.insertWindowSeconds
+    };
+  }
+
+  private emitQueue(): void {
+    coinEvents.emit('queue', this.getCoinQueue());
+  }
+
+  setInsertWindow(seconds: number): void {
+    this.insertWindowSeconds = seconds;
+    const settings = getSettings();
+    updateSettings({
+      hardware: {
+        ...settings.hardware,
+        coinInsertWindowSeconds: seconds
+      }
+    });
+    if (this.activeCoinSession) {
+      this.refreshCoinSession();
+    }
+    this.emitQueue();
   }
 
   private refreshCoinSession() {
@@ -440,15 +1313,83 @@ export class HardwareManager {
     this.coinSessionTimeout = setTimeout(() => {
       console.log('Coin session timed out');
       this.clearCoinSession();
-    }, 120000); // 2 minutes
+    }, this.insertWindowSeconds * 1000);
   }
 
-  public clearCoinSession() {
+  private creditWallet(macAddress: string, amount: number): void {
+    try {
+      const balance = adjustWallet({ macAddress, amount, reason: 'orphan_coin' });
+      console.log(`Unclaimed credit of ${amount} saved to wallet of ${macAddress} (balance ${balance})`);
+    } catch (error) {
+      console.error('Error saving unclaimed credit to wallet:', error);
+    }
+  }
+
+  // Takes what the device has inserted so far, to be turned into time or data.
+  // Coins that land afterwards stay in the session and reach the wallet when it closes.
+  public takeCoinCredit(macAddress: string): number {
+    const session = this.getCoinSession(macAddress);
+    if (!session) return 0;
+    const amount = session.amount;
+    session.amount = 0;
+    return amount;
+  }
+
+  // Gives back credit from takeCoinCredit when the purchase fell through
+  public returnCoinCredit(macAddress: string, amount: number): void {
+    if (amount <= 0) return;
+    const session = this.getCoinSession(macAddress);
+    if (session) {
+      session.amount += amount;
+    } else {
+      this.creditWallet(macAddress, amount);
+    }
+  }
+
+  // Pass claimed=true once the inserted amount has been turned into time or data;
+  // otherwise whatever is left is saved to the device's wallet
+  public clearCoinSession(claimed: boolean = false) {
+    if (this.activeCoinSession) {
+      const { macAddress, amount } = this.activeCoinSession;
+      if (!claimed && amount > 0) {
+        this.creditWallet(macAddress, amount);
+      }
+      this.lastCoinSession = { macAddress, endedAt: Date.now() };
+    }
     this.activeCoinSession = null;
     if (this.coinSessionTimeout) {
       clearTimeout(this.coinSessionTimeout);
       this.coinSessionTimeout = null;
     }
+
+    this.handOffCoinSlot();
+  }
+
+  // Next in line gets the slot, but not while a coin is still being decoded:
+  // its remaining pulses would otherwise be credited to the new holder
+  private handOffCoinSlot(): void {
+    if (this.handoffTimer) {
+      clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+    const decoding = [...this.channels.values()].filter(channel => channel.decoder.isPending());
+    if (decoding.length > 0) {
+      this.handoffTimer = setTimeout(() => {
+        this.handoffTimer = null;
+        this.handOffCoinSlot();
+      }, Math.max(...decoding.map(channel => channel.decoder.getTimeoutMs())));
+      this.updateInhibitOutput();
+      this.emitQueue();
+      return;
+    }
+
+    const next = this.coinQueue.shift();
+    if (next) {
+      this.activateCoinSession(next.macAddress, next.ipAddress);
+    } else {
+      this.updateInhibitOutput();
+      this.emitQueue();
+    }
   }
 
   public getCoinSession(macAddress: string): CoinSession | null {
@@ -0,0 +1,151 @@
+import type { PinLevel } from './gpio.js';
+
+// The status LED blinks a code for the most pressing thing about the machine,
+// so an operator can read its state from across the room without a screen.
+
+export type LedState = 'booting' | 'fault' | 'maintenance' | 'no_wan' | 'portal_off' | 'coin_session' | 'idle';
+
+// Highest priority first
+export const LED_STATES: LedState[] = ['booting', 'fault', 'maintenance', 'no_wan', 'portal_off', 'coin_session', 'idle'];
+
+// 'on' and 'off' hold the LED steady; a list alternates on/off durations in ms, starting on, and repeats
+export type LedPattern = 'on' | 'off' | number[];
+
+export type LedPatternMap = Record<LedState, LedPattern>;
+
+export const LED_STATE_LABELS: Record<LedState, string> = {
+  booting: 'Starting up',
+  fault: 'Hardware fault',
+  maintenance: 'Maintenance mode',
+  no_wan: 'Internet is down',
+  portal_off: 'Captive portal off',
+  coin_session: 'Coin session open',
+  idle: 'Running'
+};
+
+export const DEFAULT_LED_PATTERNS: LedPatternMap = {
+  booting: [100, 100],
+  fault: [150, 150, 150, 150, 150, 1200],
+  maintenance: [1000, 1000],
+  no_wan: [400, 400, 400, 1600],
+  portal_off: [400, 1600],
+  coin_session: 'on',
+  idle: [50, 2950]
+};
+
+export const MIN_LED_STEP_MS = 50;
+export const MAX_LED_STEP_MS = 10000;
+export const MAX_LED_STEPS = 16;
+
+export interface LedInputs {
+  booting: boolean;
+  faulted: boolean;
+  maintenance: boolean;
+  internetUp: boolean;
+  portalActive: boolean;
+  coinSessionOpen: boolean;
+}
+
+export function resolveLedState(inputs: LedInputs): LedState {
+  if (inputs.booting) return 'booting';
+  if (inputs.faulted) return 'fault';
+  if (inputs.maintenance) return 'maintenance';
+  if (!inputs.internetUp) return 'no_wan';
+  if (!inputs.portalActive) return 'portal_off';
+  return inputs.coinSessionOpen ? 'coin_session' : 'idle';
+}
+
+// Stored overrides on top of the defaults
+export function resolveLedPatterns(stored?: Partial<LedPatternMap>): LedPatternMap {
+  return { ...DEFAULT_LED_PATTERNS, ...(stored || {}) };
+}
+
+// Returns an error message, or null when the pattern can be played
+export function validateLedPattern(pattern: unknown): string | null {
+  if (pattern === 'on' || pattern === 'off') return null;
+  if (!Array.isArray(pattern) || pattern.length === 0) return 'pattern must be on, off or a list of durations';
+  if (pattern.length % 2 !== 0) return 'pattern needs an off duration after every on duration';
+  if (pattern.length > MAX_LED_STEPS) return `pattern is limited to ${MAX_LED_STEPS} steps`;
+  for (const step of pattern) {
+    if (!Number.isInteger(step) || step < MIN_LED_STEP_MS || step > MAX_LED_STEP_MS) {
+      return `durations must be whole numbers between ${MIN_LED_STEP_MS} and ${MAX_LED_STEP_MS} ms`;
+    }
+  }
+  return null;
+}
+
+// LED level `elapsedMs` into the pattern
+export function patternLevelAt(pattern: LedPattern, elapsedMs: number): PinLevel {
+  if (pattern === 'on') return 1;
+  if (pattern === 'off') return 0;
+  const cycle = pattern.reduce((sum, step) => sum + step, 0);
+  let offset = elapsedMs % cycle;
+  for (let i = 0; i < pattern.length; i++) {
+    if (offset < pattern[i]) return i % 2 === 0 ? 1 : 0;
+    offset -= pattern[i];
+  }
+  return 0;
+}
+
+/**
+ * Plays a pattern on the LED through `write`, one timer per step. A flash
+ * interrupts the pattern briefly, e.g. for a coin, and then it starts over.
+ * Timers are unref'd so a blinking LED never keeps the process alive.
+ */
+export class LedPatternPlayer {
+  private write: (level: PinLevel) => void;
+  private pattern: LedPattern = 'off';
+  private step = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(write: (level: PinLevel) => void) {
+    this.write = write;
+  }
+
+  play(pattern: LedPattern): void {
+    this.pattern = pattern;
+    this.restart();
+  }
+
+  flash(durationMs: number): void {
+    this.clearTimer();
+    this.write(1);
+    this.timer = setTimeout(() => this.restart(), durationMs);
+    this.timer.unref();
+  }
+
+  getPattern(): LedPattern {
+    return this.pattern;
+  }
+
+  stop(): void {
+    this.clearTimer();
+  }
+
+  private restart(): void {
+    this.clearTimer();
+    this.step = 0;
+    this.advance();
+  }
+
+  private advance(): void {
+    const pattern = this.pattern;
+    if (pattern === 'on' || pattern === 'off') {
+      this.write(pattern === 'on' ? 1 : 0);
+      return;
+    }
+    this.write(this.step % 2 === 0 ? 1 : 0);
+    this.timer = setTimeout(() => {
+      this.step = (this.step + 1) % pattern.length;
+      this.advance();
+    }, pattern[this.step]);
+    this.timer.unref();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { Request, Response, NextFunction } from 'express';
+import { requireAdminAuth, requirePermission, hasPermission, getRequestAdmin, type AdminPermission } from './auth.js';
+import { resolveMACByIP, getClientIp } from '../utils/network.js';
+
+// Who may call an endpoint:
+//  public - anyone on the LAN, no identity needed (portal config, rates, login)
+//  client - a captive client acting on its own device, identified by IP/MAC
+//  admin  - an authenticated admin session, optionally with a permission
+export type RouteAccess = 'public' | 'client' | 'admin';
+
+export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RoutePolicy {
+  method: RouteMethod;
+  path: string;
+  access: RouteAccess;
+  permission?: AdminPermission;
+}
+
+// Every API endpoint must be listed here; api/tests/access-policy.test.ts fails
+// when a route is registered without a policy. More specific paths go first.
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  // Health
+  { method: 'GET', path: '/api/health', access: 'public' },
+
+  // Admin authentication
+  { method: 'POST', path: '/api/auth/login', access: 'public' },
+  { method: 'GET', path: '/api/auth/status', access: 'public' },
+  { method: 'POST', path: '/api/auth/logout', access: 'public' },
+  { method: 'POST', path: '/api/auth/register', access: 'public' },
+  { method: 'POST', path: '/api/auth/change-password', access: 'admin' },
+  { method: 'POST', path: '/api/auth/logout-all', access: 'admin' },
+  { method: 'GET', path: '/api/auth/sessions', access: 'admin' },
+  { method: 'GET', path: '/api/auth/accounts', access: 'admin', permission: 'accounts:manage' },
+  { method: 'POST', path: '/api/auth/accounts', access: 'admin', permission: 'accounts:manage' },
+  { method: 'PUT', path: '/api/auth/accounts/:id', access: 'admin', permission: 'accounts:manage' },
+  { method: 'POST', path: '/api/auth/accounts/:id/reset-password', access: 'admin', permission: 'accounts:manage' },
+
+  // Hardware
+  { method: 'GET', path: '/api/hardware/status', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/hardware/pins', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/config', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/acceptors/:kind', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/inhibit', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/maintenance', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/led', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/led/blink', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/led/patterns', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/mock-mode', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/simulate-coin', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/gpio-backend', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/hardware/alerts', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/alerts/:id/clear', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/hardware/calibration', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/calibration/start', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/calibration/stop', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/hardware/calibration/stream', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/simulator/replay', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/hardware/collections', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/collections', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/start-coin-session', access: 'client' },
+  { method: 'GET', path: '/api/hardware/coin-session', access: 'client' },
+  { method: 'GET', path: '/api/hardware/coin/stream', access: 'client' },
+  { method: 'POST', path: '/api/hardware/release-coin-session', access: 'client' },
+  { method: 'GET', path: '/api/hardware/coin-queue/stream', access: 'client' },
+  { method: 'GET', path: '/api/hardware/coin-queue', access: 'admin', permission: 'hardware:manage' },
+  { method: 'POST', path: '/api/hardware/insert-window', access: 'admin', permission: 'hardware:manage' },
+
+  // Network
+  { method: 'GET', path: '/api/network/status', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/wan', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/vlan', access: 'admin', permission: 'network:manage' },
+  { method: 'DELETE', path: '/api/network/vlan/:vlanName', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/hotspot', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/captive/enable', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/captive/disable', access: 'admin', permission: 'network:manage' },
+  { method: 'GET', path: '/api/network/iptables', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/restart', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/network/client/reinit', access: 'client' },
+  { method: 'GET', path: '/api/network/client/verify', access: 'client' },
+  { method: 'POST', path: '/api/network/client/recover', access: 'client' },
+
+  // Sessions
+  { method: 'POST', path: '/api/session/start', access: 'admin', permission: 'sessions:manage' },
+  { method: 'GET', path: '/api/session/active', access: 'admin', permission: 'sessions:manage' },
+  { method: 'POST', path: '/api/session/end-all', access: 'admin', permission: 'sessions:manage' },
+  { method: 'GET', path: '/api/session/stats/overview', access: 'admin', permission: 'dashboard:view' },
+  { method: 'POST', path: '/api/session/coin/detected', access: 'admin', permission: 'hardware:manage' },
+  { method: 'GET', path: '/api/session/:id', access: 'admin', permission: 'sessions:manage' },
+  { method: 'DELETE', path: '/api/session/:id', access: 'admin', permission: 'sessions:manage' },
+  { method: 'POST', path: '/api/session/:id/extend', access: 'admin', permission: 'sessions:manage' },
+
+  // Admin panel
+  { method: 'GET', path: '/api/admin/dashboard', access: 'admin', permission: 'dashboard:view' },
+  { method: 'POST', path: '/api/admin/clock/acknowledge', access: 'admin', permission: 'dashboard:view' },
+  { method: 'GET', path: '/api/admin/rates', access: 'admin' },
+  { method: 'POST', path: '/api/admin/rates', access: 'admin', permission: 'settings:manage' },
+  { method: 'POST', path: '/api/admin/rates/preview', access: 'admin' },
+  { method: 'GET', path: '/api/admin/transactions', access: 'admin', permission: 'dashboard:view' },
+  { method: 'GET', path: '/api/admin/reports', access: 'admin', permission: 'dashboard:view' },
+  { method: 'POST', path: '/api/admin/transactions/refund', access: 'admin', permission: 'sessions:manage' },
+  { method: 'GET', path: '/api/admin/portal', access: 'admin' },
+  { method: 'POST', path: '/api/admin/portal', access: 'admin', permission: 'settings:manage' },
+  { method: 'GET', path: '/api/admin/settings', access: 'admin', permission: 'settings:manage' },
+  { method: 'POST', path: '/api/admin/settings', access: 'admin', permission: 'network:manage' },
+  { method: 'GET', path: '/api/admin/logs', access: 'admin', permission: 'logs:view' },
+  { method: 'POST', path: '/api/admin/maintenance', access: 'admin', permission: 'network:manage' },
+
+  // Captive portal
+  { method: 'GET', path: '/api/portal/config', access: 'public' },
+  { method: 'GET', path: '/api/portal/settings', access: 'public' },
+  { method: 'GET', path: '/api/portal/rates', access: 'public' },
+  { method: 'GET', path: '/api/portal/device-info', access: 'client' },
+  { method: 'GET', path: '/api/portal/ping-check/stream', access: 'client' },
+  { method: 'GET', path: '/api/portal/events', access: 'client' },
+  { method: 'POST', path: '/api/portal/ping-check', access: 'client' },
+  { method: 'GET', path: '/api/portal/ping-logs', access: 'admin', permission: 'logs:view' },
+  { method: 'GET', path: '/api/portal/status', access: 'client' },
+  { method: 'POST', path: '/api/portal/connect', access: 'client' },
+  { method: 'POST', path: '/api/portal/extend', access: 'client' },
+  { method: 'POST', path: '/api/portal/disconnect', access: 'client' },
+  { method: 'POST', path: '/api/portal/redeem-voucher', access: 'client' },
+  { method: 'GET', path: '/api/portal/check-internet', access: 'client' },
+  { method: 'GET', path: '/api/portal/debug', access: 'client' },
+  { method: 'GET', path: '/api/portal/validate-firewall', access: 'client' },
+  { method: 'POST', path: '/api/portal/pause', access: 'client' },
+  { method: 'POST', path: '/api/portal/resume', access: 'client' },
+
+  // Database, devices, bandwidth and vouchers
+  { method: 'GET', path: '/api/db/settings', access: 'admin', permission: 'database:manage' },
+  { method: 'POST', path: '/api/db/settings', access: 'admin', permission: 'database:manage' },
+  { method: 'GET', path: '/api/db/kv', access: 'admin', permission: 'database:manage' },
+  { method: 'POST', path: '/api/db/kv', access: 'admin', permission: 'database:manage' },
+  { method: 'GET', path: '/api/db/export', access: 'admin', permission: 'database:manage' },
+  { method: 'POST', path: '/api/db/reset', access: 'admin', permission: 'database:manage' },
+  { method: 'POST', path: '/api/db/restore', access: 'admin', permission: 'database:manage' },
+  { method: 'GET', path: '/api/devices', access: 'admin', permission: 'devices:manage' },
+  { method: 'POST', path: '/api/devices', access: 'admin', permission: 'devices:manage' },
+  { method: 'GET', path: '/api/devices/usage', access: 'admin', permission: 'devices:manage' },
+  { method: 'POST', path: '/api/devices/cap', access: 'admin', permission: 'devices:manage' },
+  { method: 'PUT', path: '/api/devices/:mac', access: 'admin', permission: 'devices:manage' },
+  { method: 'DELETE', path: '/api/devices/:mac', access: 'admin', permission: 'devices:manage' },
+  { method: 'GET', path: '/api/devices/:mac/wallet', access: 'admin', permission: 'devices:manage' },
+  { method: 'POST', path: '/api/devices/:mac/wallet', access: 'admin', permission: 'devices:manage' },
+  { method: 'GET', path: '/api/devices/:mac/events', access: 'admin', permission: 'devices:manage' },
+  { method: 'POST', path: '/api/qos/cake/enable', access: 'admin', permission: 'network:manage' },
+  { method: 'POST', path: '/api/qos/cake/disable', access: 'admin', permission: 'network:manage' },
+  { method: 'GET', path: '/api/vouchers', access: 'admin', permission: 'vouchers:manage' },
+  { method: 'POST', path: '/api/vouchers/generate', access: 'admin', permission: 'vouchers:manage' },
+  { method: 'DELETE', path: '/api/vouchers/:code', access: 'admin', permission: 'vouchers:manage' }
+];
+
+// Express matches routes case-insensitively, so the policy has to as well
+const compiledPolicies = ROUTE_POLICIES.map(policy => ({
+  policy,
+  pattern: new RegExp('^' + policy.path.replace(/:[^/]+/g, '[^/]+') + '/?$', 'i')
+}));
+
+// Find the policy for a request; HEAD is treated as GET like Express does
+export function findRoutePolicy(method: string, path: string): RoutePolicy | null {
+  const verb = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+  const match = compiledPolicies.find(({ policy, pattern }) => policy.method === verb && pattern.test(path));
+  return match ? match.policy : null;
+}
+
+function normalizeMac(mac: string): string {
+  return mac.trim().toLowerCase().replace(/-/g, ':');
+}
+
+// MAC a client-level request wants to act on, if it names one explicitly
+function getRequestedMac(req: Request): string | null {
+  const candidate = req.body?.macAddress || req.query.mac || req.query.macAddress;
+  return typeof candidate === 'string' && candidate ? normalizeMac(candidate) : null;
+}
+
+// Client routes act on the caller's own device. Naming a different MAC is
+// only allowed for admins who manage sessions (e.g. pause from DevicesTab).
+async function enforceClientSelf(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const requestedMac = getRequestedMac(req);
+  if (!requestedMac) {
+    next();
+    return;
+  }
+
+  const admin = getRequestAdmin(req);
+  if (admin && hasPermission(admin.role, 'sessions:manage')) {
+    next();
+    return;
+  }
+
+  const callerMac = await resolveMACByIP(getClientIp(req));
+  if (callerMac && normalizeMac(callerMac) === requestedMac) {
+    next();
+    return;
+  }
+
+  res.status(403).json({ success: false, error: 'Not allowed to act on another device' });
+}
+
+// Central access control for /api; mounted once in app.ts before the routers
+export function enforceAccessPolicy(req: Request, res: Response, next: NextFunction): void {
+  const path = req.path;
+  if (!path.toLowerCase().startsWith('/api/')) {
+    next();
+    return;
+  }
+
+  const policy = findRoutePolicy(req.method, path);
+  if (!policy) {
+    // Unclassified endpoints are admin-only until someone adds a policy
+    requireAdminAuth(req, res, next);
+    return;
+  }
+
+  switch (policy.access) {
+    case 'public':
+      next();
+      return;
+    case 'client':
+      enforceClientSelf(req, res, next).catch(next);
+      return;
+    case 'admin':
+      if (policy.permission) {
+        requirePermission(policy.permission)(req, res, next);
+      } else {
+        requireAdminAuth(req, res, next);
+      }
+      return;
+  }
+}
@@ -1,14 +1,100 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import {
+  addAdmin,
+  getAdminById,
+  getAdminByUsername,
+  getAdmins,
+  updateAdmin,
+  addAdminSession,
+  getAdminSession,
+  touchAdminSession,
+  revokeAdminSession as revokeStoredSession,
+  revokeAdminSessionsForAdmin,
+  cleanupAdminSessions,
+  AdminAccount,
+  AdminRole,
+  AdminSession
+} from '../database.js';
+import { kvGet, kvSet } from '../sqlite.js';
 
-// Admin credentials storage
-interface AdminCredentials {
-  username: string;
-  passwordHash: string;
-  salt: string;
+export type AdminPermission =
+  | 'dashboard:view'
+  | 'vouchers:manage'
+  | 'sessions:manage'
+  | 'devices:manage'
+  | 'hardware:manage'
+  | 'settings:manage'
+  | 'logs:view'
+  | 'network:manage'
+  | 'database:manage'
+  | 'accounts:manage';
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'operator', 'cashier'];
+
+// What each role is allowed to do. Owners can do everything, operators run the
+// shop day to day, cashiers can only look at the dashboard and print vouchers.
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: [
+    'dashboard:view',
+    'vouchers:manage',
+    'sessions:manage',
+    'devices:manage',
+    'hardware:manage',
+    'settings:manage',
+    'logs:view',
+    'network:manage',
+    'database:manage',
+    'accounts:manage'
+  ],
+  operator: [
+    'dashboard:view',
+    'vouchers:manage',
+    'sessions:manage',
+    'devices:manage',
+    'hardware:manage',
+    'settings:manage',
+    'logs:view'
+  ],
+  cashier: [
+    'dashboard:view',
+    'vouchers:manage'
+  ]
+};
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+// Sessions expire after 12 hours regardless of activity, or after 30 idle minutes
+const SESSION_LIFETIME_MS = 12 * 60 * 60 * 1000;
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Avoid a database write on every request just to bump lastSeen
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Login throttling: failures are counted per username, whichever address they
+// come from, and separately per IP so one device cannot sweep many usernames
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_ACCOUNT = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+interface LoginAttempts {
+  failures: number;
+  firstFailure: number;
+  lockedUntil: number;
 }
 
-let adminCredentials: AdminCredentials | null = null;
+const loginAttempts = new Map<string, LoginAttempts>();
+
+// Request carrying the authenticated admin account and session
+export interface AdminRequest extends Request {
+  admin?: AdminAccount;
+  adminSession?: AdminSession;
+  // Set by checkAdminAuth on routes that serve both admins and clients
+  isAdmin?: boolean;
+}
+
+// Account shape that is safe to send to the client
+export type PublicAdminAccount = Omit<AdminAccount, 'passwordHash' | 'salt'>;
 
 // Hash password with salt
 function hashPassword(password: string, salt: string): string {
@@ -20,88 +106,284 @@ function generateSalt(): string {
   return crypto.randomBytes(16).toString('hex');
 }
 
-// Initialize default admin credentials
+// Constant-time comparison of two hex hashes
+function hashesMatch(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && (ADMIN_ROLES as string[]).includes(role);
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+export function getRolePermissions(role: AdminRole): AdminPermission[] {
+  return [...(ROLE_PERMISSIONS[role] || [])];
+}
+
+export function toPublicAccount(account: AdminAccount): PublicAdminAccount {
+  return {
+    id: account.id,
+    username: account.username,
+    role: account.role,
+    disabled: account.disabled,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+    lastLogin: account.lastLogin || null
+  };
+}
+
+// Seed the default owner account the first time the system boots
 export function initializeAdminCredentials() {
-  const defaultUsername = 'admin';
-  const defaultPassword = 'admin123';
+  if (getAdmins().length > 0) {
+    console.log('✓ Admin accounts loaded');
+    return;
+  }
+
+  createAdminAccount('admin', 'admin123', 'owner');
+  console.log('✓ Default admin account created (username: admin, password: admin123)');
+}
+
+// Create a new admin account
+export function createAdminAccount(username: string, password: string, role: AdminRole): AdminAccount {
+  if (getAdminByUsername(username)) {
+    throw new Error('Username already exists');
+  }
+
+  const salt = generateSalt();
+  const id = addAdmin({
+    username,
+    passwordHash: hashPassword(password, salt),
+    salt,
+    role,
+    disabled: false
+  });
+
+  return getAdminById(id)!;
+}
+
+// Update an admin account password
+export function updateAdminPassword(id: number, newPassword: string): boolean {
+  if (!getAdminById(id)) return false;
+
   const salt = generateSalt();
-  const passwordHash = hashPassword(defaultPassword, salt);
-  
-  adminCredentials = {
-    username: defaultUsername,
-    passwordHash,
+  updateAdmin(id, {
+    passwordHash: hashPassword(newPassword, salt),
     salt
+  });
+
+  return true;
+}
+
+// Count owners that can still log in, so the last one cannot be locked out
+export function countActiveOwners(): number {
+  return getAdmins().filter(a => a.role === 'owner' && !a.disabled).length;
+}
+
+// Authenticate admin, returning the account on success
+export function authenticateAdmin(username: string, password: string): AdminAccount | null {
+  if (!username || !password) return null;
+
+  const account = getAdminByUsername(username);
+  if (!account || account.disabled) return null;
+
+  const passwordHash = hashPassword(password, account.salt);
+  return hashesMatch(passwordHash, account.passwordHash) ? account : null;
+}
+
+// Secret used to sign session tokens, generated on first use
+function getSessionSecret(): string {
+  let secret = kvGet<string | null>('auth.sessionSecret', null);
+  if (!secret) {
+    secret = crypto.randomBytes(32).toString('hex');
+    kvSet('auth.sessionSecret', secret);
+  }
+  return secret;
+}
+
+function signSessionId(id: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(id).digest('hex');
+}
+
+// Create a server-side session and return its signed token
+export function createAdminSession(account: AdminAccount, ipAddress?: string, userAgent?: string): { token: string; session: AdminSession } {
+  const now = new Date();
+  const id = crypto.randomBytes(24).toString('hex');
+  const session: AdminSession = {
+    id,
+    adminId: account.id,
+    createdAt: now.toISOString(),
+    lastSeen: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_LIFETIME_MS).toISOString(),
+    revoked: false,
+    ipAddress: ipAddress || null,
+    userAgent: userAgent || null
   };
-  
-  console.log('✓ Default admin credentials initialized (username: admin, password: admin123)');
+  addAdminSession(session);
+  cleanupAdminSessions();
+  return { token: `${id}.${signSessionId(id)}`, session };
 }
 
-// Get current admin credentials
-export function getAdminCredentials(): AdminCredentials | null {
-  return adminCredentials;
+// Resolve a token to its session and account, enforcing expiry and idle timeout
+export function validateAdminSession(token: string): { account: AdminAccount; session: AdminSession } | null {
+  const [id, signature] = token.split('.');
+  if (!id || !signature || !hashesMatch(signSessionId(id), signature)) return null;
+
+  const session = getAdminSession(id);
+  if (!session || session.revoked) return null;
+
+  const now = Date.now();
+  if (new Date(session.expiresAt).getTime() <= now) return null;
+  if (now - new Date(session.lastSeen).getTime() > SESSION_IDLE_TIMEOUT_MS) {
+    revokeStoredSession(id);
+    return null;
+  }
+
+  const account = getAdminById(session.adminId);
+  if (!account || account.disabled) return null;
+
+  if (now - new Date(session.lastSeen).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    session.lastSeen = new Date(now).toISOString();
+    touchAdminSession(id, session.lastSeen);
+  }
+
+  return { account, session };
 }
 
-// Update admin password
-export function updateAdminPassword(newPassword: string): boolean {
-  if (!adminCredentials) return false;
-  
-  const salt = generateSalt();
-  const passwordHash = hashPassword(newPassword, salt);
-  
-  adminCredentials = {
-    ...adminCredentials,
-    passwordHash,
-    salt
+export function revokeAdminSession(id: string) {
+  revokeStoredSession(id);
+}
+
+// Revoke every session of an account, optionally keeping the caller's own
+export function revokeAllAdminSessions(adminId: number, exceptSessionId?: string): number {
+  return revokeAdminSessionsForAdmin(adminId, exceptSessionId);
+}
+
+export function getSessionCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: 'strict' as const,
+    secure: process.env.NODE_ENV === 'production' && process.env.ADMIN_COOKIE_SECURE === 'true',
+    maxAge: SESSION_LIFETIME_MS,
+    path: '/'
   };
-  
-  return true;
 }
 
-// Authenticate admin
-export function authenticateAdmin(username: string, password: string): boolean {
-  if (!adminCredentials) return false;
-  
-  if (username !== adminCredentials.username) return false;
-  
-  const passwordHash = hashPassword(password, adminCredentials.salt);
-  return passwordHash === adminCredentials.passwordHash;
+// Returns the remaining lockout in seconds, or 0 if the login may proceed
+export function getLoginLockout(ipAddress: string, username: string): number {
+  const now = Date.now();
+  let lockedUntil = 0;
+  for (const key of [`ip:${ipAddress}`, `user:${username.toLowerCase()}`]) {
+    const attempts = loginAttempts.get(key);
+    if (attempts && attempts.lockedUntil > now) {
+      lockedUntil = Math.max(lockedUntil, attempts.lockedUntil);
+    }
+  }
+  return lockedUntil ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+export function recordLoginFailure(ipAddress: string, username: string): void {
+  const now = Date.now();
+  const keys: Array<[string, number]> = [
+    [`ip:${ipAddress}`, MAX_FAILURES_PER_IP],
+    [`user:${username.toLowerCase()}`, MAX_FAILURES_PER_ACCOUNT]
+  ];
+  for (const [key, limit] of keys) {
+    let attempts = loginAttempts.get(key);
+    if (!attempts || now - attempts.firstFailure > LOGIN_WINDOW_MS) {
+      attempts = { failures: 0, firstFailure: now, lockedUntil: 0 };
+      loginAttempts.set(key, attempts);
+    }
+    attempts.failures++;
+    if (attempts.failures >= limit) {
+      attempts.lockedUntil = now + LOGIN_LOCKOUT_MS;
+      console.warn(`Admin login locked for ${key} after ${attempts.failures} failed attempts`);
+    }
+  }
+}
+
+export function clearLoginFailures(username: string): void {
+  loginAttempts.delete(`user:${username.toLowerCase()}`);
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+// Token from "Authorization: Bearer ..." or the session cookie
+function getSessionToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.slice('Bearer '.length).trim() || null;
+  }
+  return readCookie(req, ADMIN_SESSION_COOKIE);
 }
 
 // Authentication middleware
 export function requireAdminAuth(req: Request, res: Response, next: NextFunction): void {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Basic ')) {
-    res.setHeader('WWW-Authenticate', 'Basic realm="Admin Panel"');
+  const token = getSessionToken(req);
+
+  if (!token) {
     res.status(401).json({ error: 'Authentication required' });
     return;
   }
-  
-  const credentials = Buffer.from(authHeader.split(' ')[1], 'base64').toString();
-  const [username, password] = credentials.split(':');
-  
-  if (!authenticateAdmin(username, password)) {
-    res.setHeader('WWW-Authenticate', 'Basic realm="Admin Panel"');
-    res.status(401).json({ error: 'Invalid credentials' });
+
+  const result = validateAdminSession(token);
+  if (!result) {
+    res.status(401).json({ error: 'Session expired or invalid' });
     return;
   }
-  
+
+  (req as AdminRequest).admin = result.account;
+  (req as AdminRequest).adminSession = result.session;
   next();
 }
 
+// Per-route permission check; authenticates first if nothing upstream did
+export function requirePermission(permission: AdminPermission) {
+  const checkPermission = (req: Request, res: Response, next: NextFunction): void => {
+    const account = (req as AdminRequest).admin;
+    if (!account || !hasPermission(account.role, permission)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+    next();
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if ((req as AdminRequest).admin) {
+      checkPermission(req, res, next);
+      return;
+    }
+    requireAdminAuth(req, res, () => checkPermission(req, res, next));
+  };
+}
+
+// Resolve the admin behind a request, if any, without rejecting it
+export function getRequestAdmin(req: Request): AdminAccount | null {
+  if ((req as AdminRequest).admin) return (req as AdminRequest).admin!;
+
+  const token = getSessionToken(req);
+  const result = token ? validateAdminSession(token) : null;
+  if (!result) return null;
+
+  (req as AdminRequest).admin = result.account;
+  (req as AdminRequest).adminSession = result.session;
+  return result.account;
+}
+
 // Optional authentication middleware for checking if user is admin
 export function checkAdminAuth(req: Request, res: Response, next: NextFunction): void {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader || !authHeader.startsWith('Basic ')) {
-    (req as any).isAdmin = false;
-    next();
-    return;
-  }
-  
-  const credentials = Buffer.from(authHeader.split(' ')[1], 'base64').toString();
-  const [username, password] = credentials.split(':');
-  
-  (req as any).isAdmin = authenticateAdmin(username, password);
+  (req as AdminRequest).isAdmin = !!getRequestAdmin(req);
   next();
-}
\ No newline at end of file
+}
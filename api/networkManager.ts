@@ -1,8 +1,12 @@
-import { exec, execSync } from 'child_process';
+import { exec, execFile, execSync } from 'child_process';
 import { promisify } from 'util';
+import fs from 'fs';
+import net from 'net';
 import { getSettings, updateSettings, upsertDevice, getDevices, updateDevice } from './database.js';
+import { parseNeighborTable, parseStationDump, parseDhcpLeases, mergeSightings, type Sightings } from './presence.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface NetworkInterface {
   name: string;
@@ -35,6 +39,16 @@ export interface HotspotConfig {
   dhcpRange: string;
 }
 
+export interface UsageCounters {
+  uploadBytes: number;
+  downloadBytes: number;
+  totalBytes: number;
+}
+
+const ACCOUNTING_CHAIN = 'PISOWIFI_ACCT';
+// Lease time handed out by dnsmasq
+const DHCP_LEASE_HOURS = 24;
+
 export class NetworkManager {
   private currentConfig: HotspotConfig | null = null;
   private iptablesRules: string[] = [];
@@ -490,7 +504,7 @@ ${isOpen ? '' : 'rsn_pairwise=CCMP'}
     const dnsmasqConfig = `
 interface=${config.interface}
 bind-interfaces
-dhcp-range=${start},${end},255.255.255.0,24h
+dhcp-range=${start},${end},255.255.255.0,${DHCP_LEASE_HOURS}h
 dhcp-option=3,${config.ipAddress}
 dhcp-option=6,${config.ipAddress}
 server=8.8.8.8
@@ -1110,8 +1124,8 @@ server=8.8.4.4
     const paths = await this.getLeasePaths();
     for (const p of paths) {
       try {
-        const { stdout } = await execAsync(`cat ${p}`);
-        const lines = stdout.split('\n');
+        if (!fs.existsSync(p)) continue;
+        const lines = (await fs.promises.readFile(p, 'utf8')).split('\n');
         const filtered = lines.filter(l => {
           const parts = l.trim().split(/\s+/);
           const mac = (parts[1] || '').toLowerCase();
@@ -1120,7 +1134,7 @@ server=8.8.4.4
           if (ipAddress && ip === ipAddress) return false;
           return true;
         }).join('\n');
-        await execAsync(`printf "%s" "${filtered}" > ${p}`);
+        await fs.promises.writeFile(p, filtered);
       } catch (e) {
         console.warn(`Failed to process leases at ${p}:`, e instanceof Error ? e.message : String(e));
       }
@@ -1140,16 +1154,16 @@ server=8.8.4.4
 
   private async flushNeighbor(ipAddress?: string): Promise<void> {
     if (process.platform === 'win32') return;
-    if (!ipAddress) return;
+    if (!ipAddress || !net.isIP(ipAddress)) return;
     const settings = getSettings();
     const lan = settings.network.lanInterface;
     try {
-      await execAsync(`ip neigh del ${ipAddress} dev ${lan}`);
+      await execFileAsync('ip', ['neigh', 'del', ipAddress, 'dev', lan]);
     } catch (e) {
       console.warn('Failed to delete neighbor via ip:', e instanceof Error ? e.message : String(e));
     }
     try {
-      await execAsync(`arp -d ${ipAddress}`);
+      await execFileAsync('arp', ['-d', ipAddress]);
     } catch (e) {
       console.warn('Failed to delete ARP entry:', e instanceof Error ? e.message : String(e));
     }
@@ -1161,6 +1175,8 @@ server=8.8.4.4
     neighborFlushed: boolean;
   }> {
     const normalizedMac = this.normalizeMac(macAddress);
+    // Goes into firewall rules; anything that is not an address is dropped
+    if (ipAddress && !net.isIP(ipAddress)) ipAddress = undefined;
     let allowed = false;
     let leaseRefreshed = false;
     let neighborFlushed = false;
@@ -1323,14 +1339,129 @@ server=8.8.4.4
     }
   }
 
-  async getDeviceUsage(iface: string, ip: string): Promise<{ bytes: number }> {
+  // Per-client byte counters live in their own mangle chain so flushing the
+  // filter FORWARD chain (captive portal on/off) does not reset them.
+  private async ensureAccountingChain(ipt: string): Promise<void> {
+    await execAsync(`${ipt} -t mangle -N ${ACCOUNTING_CHAIN}`).catch(() => {});
+    const jumpExists = await execAsync(`${ipt} -t mangle -C FORWARD -j ${ACCOUNTING_CHAIN}`).then(() => true).catch(() => false);
+    if (!jumpExists) {
+      await execAsync(`${ipt} -t mangle -I FORWARD 1 -j ${ACCOUNTING_CHAIN}`);
+    }
+  }
+
+  // Start counting traffic for a client: uploads by source MAC, downloads by IP
+  async startUsageAccounting(macAddress: string, ipAddress?: string): Promise<void> {
+    const normalizedMac = this.normalizeMac(macAddress);
+    if (process.platform === 'win32') {
+      console.log(`Windows detected: Skipping usage accounting for ${normalizedMac} (mock mode)`);
+      return;
+    }
+    try {
+      const ipt = await this.getIptablesCmd();
+      if (!ipt) return;
+      await this.ensureAccountingChain(ipt);
+      await this.stopUsageAccounting(normalizedMac);
+      await execAsync(`${ipt} -t mangle -A ${ACCOUNTING_CHAIN} -m mac --mac-source ${normalizedMac} -m comment --comment "pisowifi-up ${normalizedMac}" -j RETURN`);
+      if (ipAddress) {
+        await execAsync(`${ipt} -t mangle -A ${ACCOUNTING_CHAIN} -d ${ipAddress} -m comment --comment "pisowifi-down ${normalizedMac}" -j RETURN`);
+      }
+    } catch (error) {
+      console.error(`Error starting usage accounting for ${normalizedMac}:`, error);
+    }
+  }
+
+  async stopUsageAccounting(macAddress: string): Promise<void> {
+    const normalizedMac = this.normalizeMac(macAddress);
+    if (process.platform === 'win32') return;
+    try {
+      const ipt = await this.getIptablesCmd();
+      if (!ipt) return;
+      const { stdout } = await execAsync(`${ipt} -t mangle -L ${ACCOUNTING_CHAIN} --line-numbers -n`).catch(() => ({ stdout: '' }));
+      // Delete from the bottom so earlier line numbers stay valid
+      const lines = stdout.split('\n').reverse();
+      for (const line of lines) {
+        if (!line.includes(`pisowifi-up ${normalizedMac}`) && !line.includes(`pisowifi-down ${normalizedMac}`)) continue;
+        const match = line.match(/^\s*(\d+)/);
+        if (match) {
+          await execAsync(`${ipt} -t mangle -D ${ACCOUNTING_CHAIN} ${match[1]}`).catch(() => {});
+        }
+      }
+    } catch (error) {
+      console.error(`Error stopping usage accounting for ${normalizedMac}:`, error);
+    }
+  }
+
+  // Read every client's counters in one pass, keyed by MAC
+  async getUsageCounters(): Promise<Map<string, UsageCounters>> {
+    const counters = new Map<string, UsageCounters>();
+    if (process.platform === 'win32') return counters;
+    try {
+      const ipt = await this.getIptablesCmd();
+      if (!ipt) return counters;
+      const { stdout } = await execAsync(`${ipt} -t mangle -L ${ACCOUNTING_CHAIN} -v -n -x`);
+      for (const line of stdout.split('\n')) {
+        const match = line.match(/\/\* pisowifi-(up|down) (([0-9a-f]{2}:){5}[0-9a-f]{2}) \*\//);
+        if (!match) continue;
+        const bytes = parseInt(line.trim().split(/\s+/)[1], 10) || 0;
+        const entry = counters.get(match[2]) || { uploadBytes: 0, downloadBytes: 0, totalBytes: 0 };
+        if (match[1] === 'up') {
+          entry.uploadBytes += bytes;
+        } else {
+          entry.downloadBytes += bytes;
+        }
+        entry.totalBytes = entry.uploadBytes + entry.downloadBytes;
+        counters.set(match[2], entry);
+      }
+    } catch {
+      // Chain does not exist yet: nobody is being counted
+    }
+    return counters;
+  }
+
+  // When each device on the hotspot was last heard from, or null when no presence source could be read
+  async getClientSightings(): Promise<Sightings | null> {
+    if (process.platform === 'win32') return null;
+    const lan = getSettings().network.lanInterface;
+    const sources: Sightings[] = [];
+
+    // Stations associated with hostapd
+    const iwCmd = await this.getIwCmd();
+    if (iwCmd) {
+      try {
+        const { stdout } = await execAsync(`${iwCmd} dev ${lan} station dump`);
+        sources.push(parseStationDump(stdout, Date.now()));
+      } catch {
+        // Interface is not an access point
+      }
+    }
+
+    // Wired clients, and wireless ones on an access point iw cannot see
     try {
-      const { stdout } = await execAsync(`iptables -L FORWARD -v -n | grep ${ip} | awk '{print $2}' | head -n 1`);
-      const bytes = parseInt(stdout.trim(), 10);
-      return { bytes: isNaN(bytes) ? 0 : bytes };
+      const { stdout } = await execAsync(`ip -json -s neigh show dev ${lan}`);
+      sources.push(parseNeighborTable(stdout, Date.now()));
     } catch {
-      return { bytes: 0 };
+      // LAN interface is missing
+    }
+
+    // Renewals only add to the above: on their own every device would look
+    // gone between renewals
+    if (sources.length === 0) return null;
+    for (const p of await this.getLeasePaths()) {
+      try {
+        const { stdout } = await execAsync(`cat ${p}`);
+        sources.push(parseDhcpLeases(stdout, DHCP_LEASE_HOURS * 3600));
+      } catch {
+        // No leases file at this path
+      }
     }
+
+    return mergeSightings(...sources);
+  }
+
+  async getDeviceUsage(macAddress: string): Promise<UsageCounters & { bytes: number }> {
+    const counters = await this.getUsageCounters();
+    const usage = counters.get(this.normalizeMac(macAddress)) || { uploadBytes: 0, downloadBytes: 0, totalBytes: 0 };
+    return { ...usage, bytes: usage.totalBytes };
   }
 }
 
@@ -0,0 +1,110 @@
+// Rules that stop a cheap session from being parked indefinitely. They apply
+// to customer pauses; admins can always pause and resume, and auto-pauses are
+// only held to the long-pause expiry.
+
+export type PausedExpiryAction = 'resume' | 'expire';
+
+export interface PauseLimits {
+  // 0 turns a limit off
+  maxPauses: number;
+  maxPausedMinutes: number;
+  minRemainingMinutes: number;
+  // A single pause longer than this is resumed or ends the session
+  pausedExpiryMinutes: number;
+  pausedExpiryAction: PausedExpiryAction;
+}
+
+export const DEFAULT_PAUSE_LIMITS: PauseLimits = {
+  maxPauses: 0,
+  maxPausedMinutes: 0,
+  minRemainingMinutes: 0,
+  pausedExpiryMinutes: 7 * 24 * 60,
+  pausedExpiryAction: 'expire'
+};
+
+export interface PauseUsage {
+  pauseCount: number;
+  // Total paused time, including a pause in progress
+  pausedSeconds: number;
+  remainingSeconds: number;
+}
+
+// What is left of a session's pauses; null fields are unlimited
+export interface PauseAllowance {
+  canPause: boolean;
+  reason: string | null;
+  pausesLeft: number | null;
+  pausedMinutesLeft: number | null;
+  maxPauseMinutes: number | null;
+  pausedExpiryAction: PausedExpiryAction;
+}
+
+// Stored limits on top of the defaults
+export function resolvePauseLimits(stored?: Partial<PauseLimits>): PauseLimits {
+  return { ...DEFAULT_PAUSE_LIMITS, ...(stored || {}) };
+}
+
+// Returns an error message, or null when the limits are usable
+export function validatePauseLimits(input: Partial<PauseLimits>): string | null {
+  const fields: Array<keyof PauseLimits> = ['maxPauses', 'maxPausedMinutes', 'minRemainingMinutes', 'pausedExpiryMinutes'];
+  for (const field of fields) {
+    const value = input[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return `pauseLimits ${field} must be a whole number, 0 for no limit`;
+    }
+  }
+  if (input.pausedExpiryAction !== 'resume' && input.pausedExpiryAction !== 'expire') {
+    return 'pauseLimits pausedExpiryAction must be resume or expire';
+  }
+  return null;
+}
+
+export function getPauseAllowance(limits: PauseLimits, usage: PauseUsage): PauseAllowance {
+  const pausesLeft = limits.maxPauses ? Math.max(0, limits.maxPauses - usage.pauseCount) : null;
+  const pausedMinutesLeft = limits.maxPausedMinutes
+    ? Math.max(0, Math.floor((limits.maxPausedMinutes * 60 - usage.pausedSeconds) / 60))
+    : null;
+
+  let reason: string | null = null;
+  if (pausesLeft === 0) {
+    reason = 'No pauses left for this session';
+  } else if (pausedMinutesLeft === 0) {
+    reason = 'Pause time used up for this session';
+  } else if (limits.minRemainingMinutes && usage.remainingSeconds < limits.minRemainingMinutes * 60) {
+    reason = `At least ${limits.minRemainingMinutes} minutes must be left to pause`;
+  }
+
+  return {
+    canPause: reason === null,
+    reason,
+    pausesLeft,
+    pausedMinutesLeft,
+    maxPauseMinutes: limits.pausedExpiryMinutes || null,
+    pausedExpiryAction: limits.pausedExpiryAction
+  };
+}
+
+// Seconds until pausedSessionAction has something to do, or null when no limit applies
+export function secondsUntilPauseAction(
+  limits: PauseLimits,
+  usage: { pausedSeconds: number; currentPauseSeconds: number }
+): number | null {
+  const waits: number[] = [];
+  if (limits.maxPausedMinutes) waits.push(limits.maxPausedMinutes * 60 - usage.pausedSeconds);
+  if (limits.pausedExpiryMinutes) waits.push(limits.pausedExpiryMinutes * 60 - usage.currentPauseSeconds);
+  return waits.length > 0 ? Math.max(0, Math.min(...waits)) : null;
+}
+
+// What to do with a paused session, or null to leave it paused
+export function pausedSessionAction(
+  limits: PauseLimits,
+  usage: { pausedSeconds: number; currentPauseSeconds: number }
+): { action: PausedExpiryAction; note: string } | null {
+  if (limits.maxPausedMinutes && usage.pausedSeconds >= limits.maxPausedMinutes * 60) {
+    return { action: 'resume', note: 'Pause time used up' };
+  }
+  if (limits.pausedExpiryMinutes && usage.currentPauseSeconds >= limits.pausedExpiryMinutes * 60) {
+    return { action: limits.pausedExpiryAction, note: `Paused for over ${limits.pausedExpiryMinutes} minutes` };
+  }
+  return null;
+}
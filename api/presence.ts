@@ -0,0 +1,142 @@
+import type { SessionType } from './database.js';
+
+// Customers expect their time to stop when they walk away from the vendo. Each
+// source says when it last heard from a device: the access point's station
+// inactivity, the kernel's last neighbor confirmation and the last DHCP
+// renewal. Neighbor states alone mislead both ways: an entry stays REACHABLE
+// for a while after the device leaves, and goes STALE while it sits idle.
+
+// When each device was last heard from, in ms since the epoch
+export type Sightings = Map<string, number>;
+
+export interface AutoPauseSettings {
+  // Which plans pause when their device leaves
+  time: boolean;
+  data: boolean;
+  // How long a device must be gone before its session pauses
+  absenceMinutes: number;
+}
+
+export const DEFAULT_AUTO_PAUSE: AutoPauseSettings = {
+  time: false,
+  data: false,
+  absenceMinutes: 5
+};
+
+export const MAX_ABSENCE_MINUTES = 120;
+
+// Neighbor entries that say nothing about when the device was last around
+const IGNORED_NEIGHBOR_STATES = ['INCOMPLETE', 'FAILED', 'NOARP', 'PERMANENT'];
+
+const MAC_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+
+// Stored settings on top of the defaults
+export function resolveAutoPause(stored?: Partial<AutoPauseSettings>): AutoPauseSettings {
+  return { ...DEFAULT_AUTO_PAUSE, ...(stored || {}) };
+}
+
+export function autoPauseApplies(settings: AutoPauseSettings, sessionType: SessionType = 'time'): boolean {
+  return sessionType === 'data' ? settings.data : settings.time;
+}
+
+// Returns an error message, or null when the settings are usable
+export function validateAutoPause(input: Partial<AutoPauseSettings>): string | null {
+  if (typeof input.time !== 'boolean' || typeof input.data !== 'boolean') {
+    return 'autoPause time and data must be true or false';
+  }
+  const minutes = input.absenceMinutes;
+  if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ABSENCE_MINUTES) {
+    return `autoPause absenceMinutes must be a whole number from 1 to ${MAX_ABSENCE_MINUTES}`;
+  }
+  return null;
+}
+
+// Keeps the newer of two sightings of a device
+function addSighting(sightings: Sightings, macAddress: string, seenAt: number): void {
+  const mac = macAddress.toLowerCase();
+  sightings.set(mac, Math.max(sightings.get(mac) ?? seenAt, seenAt));
+}
+
+// Newest sighting of each device across all sources
+export function mergeSightings(...sources: Sightings[]): Sightings {
+  const merged: Sightings = new Map();
+  for (const source of sources) {
+    source.forEach((seenAt, macAddress) => addSighting(merged, macAddress, seenAt));
+  }
+  return merged;
+}
+
+// Last confirmations from `ip -json -s neigh` output, read at `at`. The kernel
+// reports them in seconds ago.
+export function parseNeighborTable(json: string, at: number): Sightings {
+  const sightings: Sightings = new Map();
+  const entries = JSON.parse(json);
+  for (const entry of (Array.isArray(entries) ? entries : []) as { lladdr?: string; state?: string[]; confirmed?: number }[]) {
+    if (!entry.lladdr || typeof entry.confirmed !== 'number') continue;
+    if ((entry.state || []).some(state => IGNORED_NEIGHBOR_STATES.includes(state))) continue;
+    addSighting(sightings, entry.lladdr, at - entry.confirmed * 1000);
+  }
+  return sightings;
+}
+
+// Stations associated with the access point, from `iw dev <lan> station dump`
+// read at `at`, as of their last frame
+export function parseStationDump(text: string, at: number): Sightings {
+  const sightings: Sightings = new Map();
+  let station: string | null = null;
+  for (const line of text.split('\n')) {
+    const header = line.match(/^Station\s+(([0-9a-fA-F]{2}:){5}[0-9a-fA-F]{2})/);
+    if (header) {
+      station = header[1].toLowerCase();
+      sightings.set(station, at);
+      continue;
+    }
+    const inactive = line.match(/^\s+inactive time:\s+(\d+) ms/);
+    if (station && inactive) {
+      sightings.set(station, at - Number(inactive[1]));
+    }
+  }
+  return sightings;
+}
+
+// Last renewals from a dnsmasq leases file, one `<expiry> <mac> <ip> <hostname>
+// <client-id>` per line. Devices ask again whenever they rejoin, so a renewal
+// is a sighting.
+export function parseDhcpLeases(text: string, leaseSeconds: number): Sightings {
+  const sightings: Sightings = new Map();
+  for (const line of text.split('\n')) {
+    const [expiry, macAddress] = line.trim().split(/\s+/);
+    // An expiry of 0 is an infinite lease, which never renews
+    if (!Number(expiry) || !MAC_PATTERN.test(macAddress || '')) continue;
+    addSighting(sightings, macAddress, (Number(expiry) - leaseSeconds) * 1000);
+  }
+  return sightings;
+}
+
+/**
+ * Remembers when each device was last seen. Time is passed in by the caller,
+ * like PulseAnomalyDetector, so absences can be driven by synthetic timings.
+ */
+export class PresenceTracker {
+  private lastSeen: Map<string, number> = new Map();
+
+  // How long the device has been gone as of `at`, given when the sources last
+  // saw it. A device that was never seen is counted from its first check.
+  observe(macAddress: string, seenAt: number | undefined, at: number): number {
+    const previous = this.lastSeen.get(macAddress) ?? at;
+    const lastSeen = Math.max(previous, seenAt ?? previous);
+    this.lastSeen.set(macAddress, lastSeen);
+    return Math.max(0, at - lastSeen);
+  }
+
+  getLastSeen(macAddress: string): number | undefined {
+    return this.lastSeen.get(macAddress);
+  }
+
+  // Drop devices that no longer have a session
+  retain(macAddresses: Set<string>): void {
+    for (const macAddress of this.lastSeen.keys()) {
+      if (!macAddresses.has(macAddress)) this.lastSeen.delete(macAddress);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { getSettings, type Rate, type DataRate, type RateSchedule, type RatesSettings } from './database.js';
+import { validateAutoPause } from './presence.js';
+import { validatePauseLimits } from './pausePolicy.js';
+import { validateExpiryWarnings } from './sessionNotifications.js';
+
+export interface PriceLine {
+  pesos: number;
+  minutes: number;
+  count: number;
+}
+
+export interface PriceQuote {
+  pesos: number;
+  minutes: number;
+  // Tiers used, largest first, plus the per-peso remainder
+  lines: PriceLine[];
+  remainderPesos: number;
+  remainderMinutes: number;
+  bonusMinutes: number;
+  schedule: { id: string; name: string } | null;
+}
+
+// Work in centavos so 0.5-peso tiers do not accumulate float error
+const toCents = (pesos: number): number => Math.round(pesos * 100);
+
+function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Whether a schedule covers the given moment. Windows that wrap past midnight
+// belong to the day they started on, so Friday 22:00-02:00 covers Saturday 01:00.
+export function isScheduleActive(schedule: RateSchedule, at: Date): boolean {
+  if (!schedule.enabled) return false;
+  const start = parseClock(schedule.startTime);
+  const end = parseClock(schedule.endTime);
+  if (start === null || end === null || start === end) return false;
+
+  const minuteOfDay = at.getHours() * 60 + at.getMinutes();
+  const day = at.getDay();
+  const days = schedule.days || [];
+  const onDay = (d: number) => days.length === 0 || days.includes(d);
+
+  if (start < end) {
+    return onDay(day) && minuteOfDay >= start && minuteOfDay < end;
+  }
+  if (minuteOfDay >= start) return onDay(day);
+  if (minuteOfDay < end) return onDay((day + 6) % 7);
+  return false;
+}
+
+export function getActiveSchedule(rates: RatesSettings, at: Date = new Date()): RateSchedule | null {
+  return (rates.schedules || []).find(schedule => isScheduleActive(schedule, at)) || null;
+}
+
+/**
+ * Price an amount of pesos. The amount is split greedily across the tiers,
+ * largest first, and whatever is left is charged at timePerPeso. An active
+ * schedule can replace the tiers and/or timePerPeso and add bonus minutes.
+ */
+export function quotePesos(pesos: number, rates: RatesSettings = getSettings().rates, at: Date = new Date()): PriceQuote {
+  const schedule = getActiveSchedule(rates, at);
+  const tiers: Rate[] = (schedule?.rates && schedule.rates.length > 0 ? schedule.rates : rates.rates)
+    .filter(rate => rate.pesos > 0 && rate.minutes > 0)
+    .sort((a, b) => b.pesos - a.pesos);
+  const timePerPeso = schedule?.timePerPeso || rates.timePerPeso;
+
+  let remainingCents = Math.max(0, toCents(pesos));
+  let minutes = 0;
+  const lines: PriceLine[] = [];
+
+  for (const tier of tiers) {
+    const tierCents = toCents(tier.pesos);
+    const count = Math.floor(remainingCents / tierCents);
+    if (count === 0) continue;
+    remainingCents -= count * tierCents;
+    minutes += count * tier.minutes;
+    lines.push({ pesos: tier.pesos, minutes: tier.minutes, count });
+  }
+
+  const remainderPesos = remainingCents / 100;
+  const remainderMinutes = Math.floor(remainderPesos * timePerPeso);
+  minutes += remainderMinutes;
+
+  const bonusMinutes = schedule?.bonusPercent ? Math.floor(minutes * schedule.bonusPercent / 100) : 0;
+
+  return {
+    pesos,
+    minutes: minutes + bonusMinutes,
+    lines,
+    remainderPesos,
+    remainderMinutes,
+    bonusMinutes,
+    schedule: schedule ? { id: schedule.id, name: schedule.name } : null
+  };
+}
+
+// Minutes bought by an amount of pesos at the current rates
+export function pesosToMinutes(pesos: number, at: Date = new Date()): number {
+  return quotePesos(pesos, getSettings().rates, at).minutes;
+}
+
+export interface DataQuote {
+  pesos: number;
+  megabytes: number;
+  quotaBytes: number;
+  validityMinutes: number;
+  lines: Array<{ pesos: number; megabytes: number; count: number }>;
+  remainderPesos: number;
+}
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+const DEFAULT_DATA_VALIDITY_MINUTES = 1440;
+
+export function hasDataPlans(rates: RatesSettings): boolean {
+  return (rates.dataRates || []).length > 0 || (rates.megabytesPerPeso || 0) > 0;
+}
+
+// Price an amount of pesos as a data quota, using the same greedy split as time
+export function quoteDataPesos(pesos: number, rates: RatesSettings = getSettings().rates): DataQuote {
+  const tiers: DataRate[] = (rates.dataRates || [])
+    .filter(rate => rate.pesos > 0 && rate.megabytes > 0)
+    .sort((a, b) => b.pesos - a.pesos);
+
+  let remainingCents = Math.max(0, toCents(pesos));
+  let megabytes = 0;
+  const lines: DataQuote['lines'] = [];
+
+  for (const tier of tiers) {
+    const tierCents = toCents(tier.pesos);
+    const count = Math.floor(remainingCents / tierCents);
+    if (count === 0) continue;
+    remainingCents -= count * tierCents;
+    megabytes += count * tier.megabytes;
+    lines.push({ pesos: tier.pesos, megabytes: tier.megabytes, count });
+  }
+
+  const remainderPesos = remainingCents / 100;
+  megabytes += Math.floor(remainderPesos * (rates.megabytesPerPeso || 0));
+
+  return {
+    pesos,
+    megabytes,
+    quotaBytes: megabytes * BYTES_PER_MEGABYTE,
+    validityMinutes: rates.dataValidityMinutes || DEFAULT_DATA_VALIDITY_MINUTES,
+    lines,
+    remainderPesos
+  };
+}
+
+// Returns an error message, or null when the rates payload is usable
+export function validateRatesSettings(input: Partial<RatesSettings>): string | null {
+  const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+  const validTiers = (tiers: unknown) =>
+    Array.isArray(tiers) && tiers.every(rate => rate && isPositive(rate.pesos) && isPositive(rate.minutes));
+
+  if (!isPositive(input.timePerPeso)) return 'timePerPeso must be a positive number';
+  if (!validTiers(input.rates)) return 'Each rate must have positive pesos and minutes values';
+
+  if (input.dataRates !== undefined) {
+    const validData = Array.isArray(input.dataRates) &&
+      input.dataRates.every(rate => rate && isPositive(rate.pesos) && isPositive(rate.megabytes));
+    if (!validData) return 'Each data plan must have positive pesos and megabytes values';
+  }
+  if (input.megabytesPerPeso !== undefined && (typeof input.megabytesPerPeso !== 'number' || input.megabytesPerPeso < 0)) {
+    return 'megabytesPerPeso cannot be negative';
+  }
+  if (input.dataValidityMinutes !== undefined && !isPositive(input.dataValidityMinutes)) {
+    return 'dataValidityMinutes must be a positive number';
+  }
+  if (input.autoPause !== undefined) {
+    const autoPauseError = validateAutoPause(input.autoPause);
+    if (autoPauseError) return autoPauseError;
+  }
+  if (input.pauseLimits !== undefined) {
+    const pauseLimitsError = validatePauseLimits(input.pauseLimits);
+    if (pauseLimitsError) return pauseLimitsError;
+  }
+  if (input.expiryWarnings !== undefined) {
+    const expiryWarningsError = validateExpiryWarnings(input.expiryWarnings);
+    if (expiryWarningsError) return expiryWarningsError;
+  }
+
+  if (input.schedules === undefined) return null;
+  if (!Array.isArray(input.schedules)) return 'schedules must be an array';
+
+  for (const schedule of input.schedules) {
+    const label = schedule?.name || 'Schedule';
+    if (!schedule || !schedule.id || !schedule.name) return 'Each schedule needs an id and a name';
+    if (parseClock(schedule.startTime) === null || parseClock(schedule.endTime) === null) {
+      return `${label}: start and end must be HH:MM`;
+    }
+    if (schedule.startTime === schedule.endTime) return `${label}: start and end cannot be the same`;
+    if (!Array.isArray(schedule.days) || schedule.days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return `${label}: days must be numbers from 0 (Sunday) to 6 (Saturday)`;
+    }
+    if (schedule.timePerPeso !== undefined && !isPositive(schedule.timePerPeso)) {
+      return `${label}: timePerPeso must be a positive number`;
+    }
+    if (schedule.rates !== undefined && !validTiers(schedule.rates)) {
+      return `${label}: each rate must have positive pesos and minutes values`;
+    }
+    if (schedule.bonusPercent !== undefined && (typeof schedule.bonusPercent !== 'number' || schedule.bonusPercent < 0)) {
+      return `${label}: bonusPercent cannot be negative`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+import { getTransactions, getSessionHistory, type Transaction, type SessionHistoryEntry } from './database.js';
+
+export type ReportGrouping = 'hour' | 'day' | 'month';
+
+export interface SalesBucket {
+  period: string;
+  revenue: number;
+  coins: number;
+  bills: number;
+  refunds: number;
+  voucherRedemptions: number;
+  voucherValue: number;
+  adminGrants: number;
+  uniqueClients: number;
+  sessions: number;
+  averageSessionMinutes: number;
+}
+
+export interface SalesReport {
+  from: string;
+  to: string;
+  groupBy: ReportGrouping;
+  totals: Omit<SalesBucket, 'period'>;
+  buckets: SalesBucket[];
+}
+
+// Hourly reports over long ranges would produce thousands of rows
+export const MAX_REPORT_BUCKETS = 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Bucket label in server local time
+export function periodKey(date: Date, groupBy: ReportGrouping): string {
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  if (groupBy === 'month') return month;
+  const day = `${month}-${pad(date.getDate())}`;
+  if (groupBy === 'day') return day;
+  return `${day} ${pad(date.getHours())}:00`;
+}
+
+function nextPeriod(date: Date, groupBy: ReportGrouping): Date {
+  if (groupBy === 'month') return new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  if (groupBy === 'day') return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours() + 1);
+}
+
+function periodStart(date: Date, groupBy: ReportGrouping): Date {
+  if (groupBy === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+  if (groupBy === 'day') return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours());
+}
+
+// Every period between from (inclusive) and to (exclusive), so charts show empty gaps
+export function listPeriods(from: Date, to: Date, groupBy: ReportGrouping): string[] {
+  const periods: string[] = [];
+  for (let cursor = periodStart(from, groupBy); cursor < to; cursor = nextPeriod(cursor, groupBy)) {
+    periods.push(periodKey(cursor, groupBy));
+    if (periods.length > MAX_REPORT_BUCKETS) {
+      throw new Error(`Date range is too large for ${groupBy}ly grouping`);
+    }
+  }
+  return periods;
+}
+
+interface BucketAccumulator extends Omit<SalesBucket, 'period' | 'uniqueClients' | 'averageSessionMinutes'> {
+  clients: Set<string>;
+  sessionMinutes: number;
+}
+
+const emptyAccumulator = (): BucketAccumulator => ({
+  revenue: 0,
+  coins: 0,
+  bills: 0,
+  refunds: 0,
+  voucherRedemptions: 0,
+  voucherValue: 0,
+  adminGrants: 0,
+  sessions: 0,
+  clients: new Set(),
+  sessionMinutes: 0
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function finish(acc: BucketAccumulator): Omit<SalesBucket, 'period'> {
+  return {
+    revenue: round2(acc.revenue),
+    coins: acc.coins,
+    bills: acc.bills,
+    refunds: round2(acc.refunds),
+    voucherRedemptions: acc.voucherRedemptions,
+    voucherValue: round2(acc.voucherValue),
+    adminGrants: acc.adminGrants,
+    uniqueClients: acc.clients.size,
+    sessions: acc.sessions,
+    averageSessionMinutes: acc.sessions > 0 ? Math.round(acc.sessionMinutes / acc.sessions) : 0
+  };
+}
+
+function addTransaction(acc: BucketAccumulator, tx: Transaction): void {
+  switch (tx.type) {
+    case 'coin':
+      acc.revenue += tx.amount;
+      acc.coins += tx.amount;
+      break;
+    case 'bill':
+      acc.revenue += tx.amount;
+      acc.bills += tx.amount;
+      break;
+    case 'refund':
+      // Stored negative in the ledger
+      acc.revenue += tx.amount;
+      acc.refunds += -tx.amount;
+      break;
+    case 'voucher':
+      acc.voucherRedemptions++;
+      acc.voucherValue += tx.amount;
+      break;
+    case 'admin_grant':
+      acc.adminGrants++;
+      break;
+  }
+  if (tx.macAddress) acc.clients.add(tx.macAddress);
+}
+
+function addSession(acc: BucketAccumulator, entry: SessionHistoryEntry): void {
+  acc.sessions++;
+  acc.sessionMinutes += entry.durationMinutes;
+  acc.clients.add(entry.macAddress);
+}
+
+/**
+ * Group ledger entries and finished sessions into periods. Transactions are
+ * bucketed by when they happened and sessions by when they started.
+ */
+export function summarizeSales(
+  transactions: Transaction[],
+  history: SessionHistoryEntry[],
+  from: Date,
+  to: Date,
+  groupBy: ReportGrouping
+): SalesReport {
+  const buckets = new Map<string, BucketAccumulator>();
+  for (const period of listPeriods(from, to, groupBy)) {
+    buckets.set(period, emptyAccumulator());
+  }
+  const total = emptyAccumulator();
+
+  for (const tx of transactions) {
+    const bucket = buckets.get(periodKey(new Date(tx.createdAt), groupBy));
+    if (!bucket) continue;
+    addTransaction(bucket, tx);
+    addTransaction(total, tx);
+  }
+
+  for (const entry of history) {
+    const bucket = buckets.get(periodKey(new Date(entry.startTime), groupBy));
+    if (!bucket) continue;
+    addSession(bucket, entry);
+    addSession(total, entry);
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    groupBy,
+    totals: finish(total),
+    buckets: Array.from(buckets.entries()).map(([period, acc]) => ({ period, ...finish(acc) }))
+  };
+}
+
+export function buildSalesReport(from: Date, to: Date, groupBy: ReportGrouping): SalesReport {
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+  return summarizeSales(getTransactions({ from: fromIso, to: toIso }), getSessionHistory(fromIso, toIso), from, to, groupBy);
+}
+
+const CSV_COLUMNS: Array<keyof SalesBucket> = [
+  'period',
+  'revenue',
+  'coins',
+  'bills',
+  'refunds',
+  'voucherRedemptions',
+  'voucherValue',
+  'adminGrants',
+  'uniqueClients',
+  'sessions',
+  'averageSessionMinutes'
+];
+
+export function salesReportToCsv(report: SalesReport): string {
+  const rows = report.buckets.map(bucket => CSV_COLUMNS.map(column => String(bucket[column])).join(','));
+  const totals = CSV_COLUMNS.map(column => (column === 'period' ? 'TOTAL' : String(report.totals[column as Exclude<keyof SalesBucket, 'period'>])));
+  return [CSV_COLUMNS.join(','), ...rows, totals.join(',')].join('\n') + '\n';
+}
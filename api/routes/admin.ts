@@ -1,11 +1,16 @@
 import express from 'express';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { getSettings, updateSettings } from '../database.js';
+import { getSettings, updateSettings, getTransactions, recordTransaction, getClockCorrections, acknowledgeClockCorrections, type RatesSettings, type TransactionType } from '../database.js';
+import { getRequestAdmin, requireAdminAuth, requirePermission } from '../middleware/auth.js';
+import { quotePesos, validateRatesSettings } from '../pricing.js';
+import { resolveAutoPause } from '../presence.js';
+import { resolvePauseLimits } from '../pausePolicy.js';
+import { resolveExpiryWarnings } from '../sessionNotifications.js';
+import { buildSalesReport, salesReportToCsv, type ReportGrouping } from '../reports.js';
 import { sessionManager } from '../sessionManager.js';
 import { hardwareManager } from '../hardwareManager.js';
 import { networkManager } from '../networkManager.js';
-import { requireAdminAuth } from '../middleware/auth.js';
 
 const execAsync = promisify(exec);
 const router = express.Router();
@@ -14,7 +19,7 @@ const router = express.Router();
 router.use(requireAdminAuth);
 
 // Get dashboard statistics
-router.get('/dashboard', async (req, res) => {
+router.get('/dashboard', requirePermission('dashboard:view'), async (req, res) => {
   try {
     const sessionStats = sessionManager.getSessionStats();
     const hardwareStatus = hardwareManager.getHardwareStatus();
@@ -55,6 +60,10 @@ router.get('/dashboard', async (req, res) => {
         uptime: process.uptime(),
         memory: { used: mem.heapUsed, total: mem.heapTotal },
         timestamp: new Date().toISOString()
+      },
+      clock: {
+        ...sessionManager.getClockStatus(),
+        corrections: getClockCorrections().filter(correction => !correction.acknowledgedAt)
       }
     };
 
@@ -71,6 +80,24 @@ router.get('/dashboard', async (req, res) => {
   }
 });
 
+// Dismiss the clock correction alert once session times have been checked
+router.post('/clock/acknowledge', requirePermission('dashboard:view'), async (req, res) => {
+  try {
+    const acknowledged = acknowledgeClockCorrections(getRequestAdmin(req)?.username);
+    res.json({
+      success: true,
+      message: 'Clock corrections acknowledged',
+      data: { acknowledged }
+    });
+  } catch (error) {
+    console.error('Error acknowledging clock corrections:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to acknowledge clock corrections'
+    });
+  }
+});
+
 // Get current rates
 router.get('/rates', async (req, res) => {
   try {
@@ -78,7 +105,12 @@ router.get('/rates', async (req, res) => {
     
     res.json({
       success: true,
-      data: settings.rates
+      data: {
+        ...settings.rates,
+        autoPause: resolveAutoPause(settings.rates.autoPause),
+        pauseLimits: resolvePauseLimits(settings.rates.pauseLimits),
+        expiryWarnings: resolveExpiryWarnings(settings.rates.expiryWarnings)
+      }
     });
   } catch (error) {
     console.error('Error getting rates:', error);
@@ -90,9 +122,9 @@ router.get('/rates', async (req, res) => {
 });
 
 // Update rates
-router.post('/rates', async (req, res) => {
+router.post('/rates', requirePermission('settings:manage'), async (req, res) => {
   try {
-    const { timePerPeso, rates } = req.body;
+    const { timePerPeso, rates, schedules, dataRates, megabytesPerPeso, dataValidityMinutes, autoPause, pauseLimits, expiryWarnings } = req.body;
 
     if (!timePerPeso || !rates || !Array.isArray(rates)) {
       return res.status(400).json({
@@ -101,44 +133,217 @@ router.post('/rates', async (req, res) => {
       });
     }
 
-    if (typeof timePerPeso !== 'number' || timePerPeso <= 0) {
+    const newRates: RatesSettings = {
+      timePerPeso,
+      rates,
+      schedules: schedules || [],
+      dataRates: dataRates || [],
+      megabytesPerPeso: megabytesPerPeso || 0,
+      dataValidityMinutes: dataValidityMinutes || 1440,
+      autoPause: resolveAutoPause(autoPause),
+      pauseLimits: resolvePauseLimits(pauseLimits),
+      expiryWarnings: resolveExpiryWarnings(expiryWarnings)
+    };
+
+    const validationError = validateRatesSettings(newRates);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    updateSettings({ rates: newRates });
+
+    res.json({
+      success: true,
+      message: 'Rates updated successfully',
+      data: newRates
+    });
+  } catch (error) {
+    console.error('Error updating rates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update rates'
+    });
+  }
+});
+
+// Preview what an amount buys, optionally against unsaved rates and a given time
+router.post('/rates/preview', async (req, res) => {
+  try {
+    const { pesos, rates, at } = req.body;
+
+    if (typeof pesos !== 'number' || pesos <= 0) {
       return res.status(400).json({
         success: false,
-        error: 'timePerPeso must be a positive number'
+        error: 'pesos must be a positive number'
       });
     }
 
-    // Validate rates array
-    for (const rate of rates) {
-      if (!rate.pesos || !rate.minutes || 
-          typeof rate.pesos !== 'number' || 
-          typeof rate.minutes !== 'number' ||
-          rate.pesos <= 0 || 
-          rate.minutes <= 0) {
+    if (rates) {
+      const validationError = validateRatesSettings(rates);
+      if (validationError) {
         return res.status(400).json({
           success: false,
-          error: 'Each rate must have positive pesos and minutes values'
+          error: validationError
         });
       }
     }
 
-    const newRates = {
-      timePerPeso,
-      rates
-    };
+    const when = at ? new Date(at) : new Date();
+    if (isNaN(when.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid preview time'
+      });
+    }
 
-    updateSettings({ rates: newRates });
+    res.json({
+      success: true,
+      data: quotePesos(pesos, rates || getSettings().rates, when)
+    });
+  } catch (error) {
+    console.error('Error previewing rates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview rates'
+    });
+  }
+});
+
+const TRANSACTION_TYPES: TransactionType[] = ['coin', 'bill', 'voucher', 'admin_grant', 'refund'];
+
+// List ledger entries, newest first
+router.get('/transactions', requirePermission('dashboard:view'), async (req, res) => {
+  try {
+    const { from, to, type, mac } = req.query as Record<string, string | undefined>;
+    const limit = Math.min(parseInt((req.query.limit as string) || '200', 10) || 200, 1000);
+
+    if (type && !TRANSACTION_TYPES.includes(type as TransactionType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid transaction type'
+      });
+    }
 
     res.json({
       success: true,
-      message: 'Rates updated successfully',
-      data: newRates
+      data: getTransactions({
+        from,
+        to,
+        types: type ? [type as TransactionType] : undefined,
+        macAddress: mac ? mac.replace(/-/g, ':').toLowerCase() : undefined,
+        limit
+      })
     });
   } catch (error) {
-    console.error('Error updating rates:', error);
+    console.error('Error getting transactions:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update rates'
+      error: 'Failed to get transactions'
+    });
+  }
+});
+
+// Record cash handed back to a customer
+router.post('/transactions/refund', requirePermission('sessions:manage'), async (req, res) => {
+  try {
+    const { amount, macAddress, note } = req.body;
+
+    if (typeof amount !== 'number' || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'amount must be a positive number'
+      });
+    }
+
+    const id = recordTransaction({
+      type: 'refund',
+      amount,
+      minutes: 0,
+      macAddress: macAddress || null,
+      actor: getRequestAdmin(req)?.username || null,
+      note: note || null
+    });
+
+    res.json({
+      success: true,
+      message: `Refund of ${amount} pesos recorded`,
+      data: { id }
+    });
+  } catch (error) {
+    console.error('Error recording refund:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record refund'
+    });
+  }
+});
+
+// A YYYY-MM-DD date is a local calendar day; anything else is parsed as a timestamp
+function parseReportDate(value: string | undefined, endOfDay: boolean): Date | null {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + (endOfDay ? 1 : 0));
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const periodLabel = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+// Sales report grouped by hour, day or month, as JSON or CSV
+router.get('/reports', requirePermission('dashboard:view'), async (req, res) => {
+  try {
+    const { from, to, groupBy = 'day', format = 'json' } = req.query as Record<string, string | undefined>;
+
+    if (!['hour', 'day', 'month'].includes(groupBy)) {
+      return res.status(400).json({
+        success: false,
+        error: 'groupBy must be hour, day or month'
+      });
+    }
+
+    // Default to the last 7 days including today
+    const now = new Date();
+    const start = parseReportDate(from, false) || new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6);
+    const end = parseReportDate(to, true) || new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    if (start >= end) {
+      return res.status(400).json({
+        success: false,
+        error: 'from must be before to'
+      });
+    }
+
+    let report;
+    try {
+      report = buildSalesReport(start, end, groupBy as ReportGrouping);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid report range'
+      });
+    }
+
+    if (format === 'csv') {
+      const filename = `sales-${periodLabel(start)}-to-${periodLabel(new Date(end.getTime() - 1))}.csv`;
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(salesReportToCsv(report));
+    }
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error building sales report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build sales report'
     });
   }
 });
@@ -162,7 +367,7 @@ router.get('/portal', async (req, res) => {
 });
 
 // Update portal settings
-router.post('/portal', async (req, res) => {
+router.post('/portal', requirePermission('settings:manage'), async (req, res) => {
   try {
     const { title, backgroundImage, welcomeMessage } = req.body;
 
@@ -196,7 +401,7 @@ router.post('/portal', async (req, res) => {
 });
 
 // Get system settings
-router.get('/settings', async (req, res) => {
+router.get('/settings', requirePermission('settings:manage'), async (req, res) => {
   try {
     const settings = getSettings();
     
@@ -214,7 +419,7 @@ router.get('/settings', async (req, res) => {
 });
 
 // Update system settings
-router.post('/settings', async (req, res) => {
+router.post('/settings', requirePermission('network:manage'), async (req, res) => {
   try {
     const { hardware, network, rates, portal } = req.body;
 
@@ -258,7 +463,7 @@ router.post('/settings', async (req, res) => {
 });
 
 // Get system logs
-router.get('/logs', async (req, res) => {
+router.get('/logs', requirePermission('logs:view'), async (req, res) => {
   try {
     const service = (req.query.service as string) || 'dnsmasq';
     const lines = (req.query.lines as string) || '50';
@@ -297,7 +502,7 @@ router.get('/logs', async (req, res) => {
 });
 
 // System maintenance operations
-router.post('/maintenance', async (req, res) => {
+router.post('/maintenance', requirePermission('network:manage'), async (req, res) => {
   try {
     const { operation } = req.body;
 
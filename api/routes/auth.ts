@@ -3,7 +3,30 @@
  * Handle admin login and password management
  */
 import { Router, type Request, type Response } from 'express'
-import { authenticateAdmin, updateAdminPassword, getAdminCredentials } from '../middleware/auth.js'
+import {
+  authenticateAdmin,
+  updateAdminPassword,
+  createAdminAccount,
+  countActiveOwners,
+  isAdminRole,
+  toPublicAccount,
+  getRolePermissions,
+  requireAdminAuth,
+  requirePermission,
+  checkAdminAuth,
+  createAdminSession,
+  revokeAdminSession,
+  revokeAllAdminSessions,
+  getSessionCookieOptions,
+  getLoginLockout,
+  recordLoginFailure,
+  clearLoginFailures,
+  ADMIN_SESSION_COOKIE,
+  ADMIN_ROLES,
+  type AdminRequest
+} from '../middleware/auth.js'
+import { getAdmins, getAdminById, updateAdmin, getActiveAdminSessions } from '../database.js'
+import { getClientIp } from '../utils/network.js'
 
 const router = Router()
 
@@ -11,23 +34,42 @@ const router = Router()
  * Admin Login
  * POST /api/auth/login
  * Body: { username: string, password: string }
+ * Issues a session token (also set as an HttpOnly cookie)
  */
 router.post('/login', async (req: Request, res: Response): Promise<void> => {
   try {
     const { username, password } = req.body
+    const ip = getClientIp(req)
     
     if (!username || !password) {
       res.status(400).json({ error: 'Username and password are required' })
       return
     }
+
+    const lockout = getLoginLockout(ip, String(username))
+    if (lockout > 0) {
+      res.setHeader('Retry-After', String(lockout))
+      res.status(429).json({ error: `Too many failed login attempts. Try again in ${Math.ceil(lockout / 60)} minutes.` })
+      return
+    }
     
-    if (authenticateAdmin(username, password)) {
+    const account = authenticateAdmin(username, password)
+    if (account) {
+      clearLoginFailures(String(username))
+      updateAdmin(account.id, { lastLogin: new Date().toISOString() })
+      const { token, session } = createAdminSession(account, ip, req.headers['user-agent'])
+      res.cookie(ADMIN_SESSION_COOKIE, token, getSessionCookieOptions())
       res.json({ 
         success: true, 
         message: 'Login successful',
-        username: username
+        token,
+        expiresAt: session.expiresAt,
+        username: account.username,
+        role: account.role,
+        permissions: getRolePermissions(account.role)
       })
     } else {
+      recordLoginFailure(ip, String(username))
       res.status(401).json({ error: 'Invalid credentials' })
     }
   } catch (error) {
@@ -41,7 +83,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
  * POST /api/auth/change-password
  * Body: { currentPassword: string, newPassword: string }
  */
-router.post('/change-password', async (req: Request, res: Response): Promise<void> => {
+router.post('/change-password', requireAdminAuth, async (req: Request, res: Response): Promise<void> => {
   try {
     const { currentPassword, newPassword } = req.body
     
@@ -55,20 +97,18 @@ router.post('/change-password', async (req: Request, res: Response): Promise<voi
       return
     }
     
-    const credentials = getAdminCredentials()
-    if (!credentials) {
-      res.status(500).json({ error: 'Admin credentials not initialized' })
-      return
-    }
+    const account = (req as AdminRequest).admin!
     
     // Verify current password
-    if (!authenticateAdmin(credentials.username, currentPassword)) {
+    if (!authenticateAdmin(account.username, currentPassword)) {
       res.status(401).json({ error: 'Current password is incorrect' })
       return
     }
     
     // Update password
-    if (updateAdminPassword(newPassword)) {
+    if (updateAdminPassword(account.id, newPassword)) {
+      // Sign out every other device that used the old password
+      revokeAllAdminSessions(account.id, (req as AdminRequest).adminSession?.id)
       res.json({ 
         success: true, 
         message: 'Password updated successfully'
@@ -86,12 +126,14 @@ router.post('/change-password', async (req: Request, res: Response): Promise<voi
  * Get Admin Status
  * GET /api/auth/status
  */
-router.get('/status', async (req: Request, res: Response): Promise<void> => {
+router.get('/status', checkAdminAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const credentials = getAdminCredentials()
+    const account = (req as AdminRequest).admin
     res.json({
-      initialized: !!credentials,
-      username: credentials?.username || null
+      initialized: getAdmins().length > 0,
+      username: account?.username || null,
+      role: account?.role || null,
+      permissions: account ? getRolePermissions(account.role) : []
     })
   } catch (error) {
     console.error('Status error:', error)
@@ -100,13 +142,61 @@ router.get('/status', async (req: Request, res: Response): Promise<void> => {
 })
 
 /**
- * User Logout (placeholder for future session management)
+ * Admin Logout
  * POST /api/auth/logout
+ * Revokes the current session
  */
-router.post('/logout', async (req: Request, res: Response): Promise<void> => {
+router.post('/logout', checkAdminAuth, async (req: Request, res: Response): Promise<void> => {
+  const session = (req as AdminRequest).adminSession
+  if (session) {
+    revokeAdminSession(session.id)
+  }
+  res.clearCookie(ADMIN_SESSION_COOKIE, { path: '/' })
   res.json({ success: true, message: 'Logged out successfully' })
 })
 
+/**
+ * Log Out All Sessions
+ * POST /api/auth/logout-all
+ * Revokes every session of the current account, including this one
+ */
+router.post('/logout-all', requireAdminAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const account = (req as AdminRequest).admin!
+    const revoked = revokeAllAdminSessions(account.id)
+    res.clearCookie(ADMIN_SESSION_COOKIE, { path: '/' })
+    res.json({ success: true, message: `Logged out of ${revoked} session(s)` })
+  } catch (error) {
+    console.error('Logout all error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * List Active Sessions of the current account
+ * GET /api/auth/sessions
+ */
+router.get('/sessions', requireAdminAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const account = (req as AdminRequest).admin!
+    const currentId = (req as AdminRequest).adminSession?.id
+    res.json({
+      success: true,
+      data: getActiveAdminSessions(account.id).map(session => ({
+        createdAt: session.createdAt,
+        lastSeen: session.lastSeen,
+        expiresAt: session.expiresAt,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        current: session.id === currentId
+      }))
+    })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 /**
  * User Registration (not implemented for admin system)
  * POST /api/auth/register
@@ -115,4 +205,136 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
   res.status(403).json({ error: 'Registration not allowed' })
 })
 
+/**
+ * List Admin Accounts
+ * GET /api/auth/accounts
+ */
+router.get('/accounts', requirePermission('accounts:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: getAdmins().map(toPublicAccount),
+      roles: ADMIN_ROLES
+    })
+  } catch (error) {
+    console.error('List accounts error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Create Admin Account
+ * POST /api/auth/accounts
+ * Body: { username: string, password: string, role: 'owner' | 'operator' | 'cashier' }
+ */
+router.post('/accounts', requirePermission('accounts:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password, role } = req.body || {}
+
+    if (!username || typeof username !== 'string' || !/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+      res.status(400).json({ error: 'Username must be 3-32 letters, numbers, dots, dashes or underscores' })
+      return
+    }
+
+    if (!password || typeof password !== 'string' || password.length < 6) {
+      res.status(400).json({ error: 'Password must be at least 6 characters long' })
+      return
+    }
+
+    if (!isAdminRole(role)) {
+      res.status(400).json({ error: `Role must be one of: ${ADMIN_ROLES.join(', ')}` })
+      return
+    }
+
+    const account = createAdminAccount(username, password, role)
+    res.json({
+      success: true,
+      message: 'Account created successfully',
+      data: toPublicAccount(account)
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Username already exists') {
+      res.status(409).json({ error: error.message })
+      return
+    }
+    console.error('Create account error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Update Admin Account (role or disabled flag)
+ * PUT /api/auth/accounts/:id
+ * Body: { role?: string, disabled?: boolean }
+ */
+router.put('/accounts/:id', requirePermission('accounts:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = Number(req.params.id)
+    const account = getAdminById(id)
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' })
+      return
+    }
+
+    const { role, disabled } = req.body || {}
+    if (role !== undefined && !isAdminRole(role)) {
+      res.status(400).json({ error: `Role must be one of: ${ADMIN_ROLES.join(', ')}` })
+      return
+    }
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      res.status(400).json({ error: 'disabled must be a boolean' })
+      return
+    }
+
+    const nextRole = role ?? account.role
+    const nextDisabled = disabled ?? account.disabled
+    const losesOwner = account.role === 'owner' && !account.disabled && (nextRole !== 'owner' || nextDisabled)
+    if (losesOwner && countActiveOwners() <= 1) {
+      res.status(400).json({ error: 'At least one active owner account is required' })
+      return
+    }
+
+    updateAdmin(id, { role: nextRole, disabled: nextDisabled })
+    if (nextDisabled) {
+      revokeAllAdminSessions(id)
+    }
+    res.json({
+      success: true,
+      message: 'Account updated successfully',
+      data: toPublicAccount(getAdminById(id)!)
+    })
+  } catch (error) {
+    console.error('Update account error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Reset Admin Account Password
+ * POST /api/auth/accounts/:id/reset-password
+ * Body: { newPassword: string }
+ */
+router.post('/accounts/:id/reset-password', requirePermission('accounts:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = Number(req.params.id)
+    const { newPassword } = req.body || {}
+
+    if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 6) {
+      res.status(400).json({ error: 'New password must be at least 6 characters long' })
+      return
+    }
+
+    if (!updateAdminPassword(id, newPassword)) {
+      res.status(404).json({ error: 'Account not found' })
+      return
+    }
+    revokeAllAdminSessions(id)
+
+    res.json({ success: true, message: 'Password reset successfully' })
+  } catch (error) {
+    console.error('Reset password error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 export default router
@@ -4,10 +4,14 @@ import { kvAll, kvGet, kvSet, closeDB } from '../sqlite.js';
 import path from 'path';
 import fs from 'fs';
 import multer from 'multer';
+import { requirePermission } from '../middleware/auth.js';
 
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Settings, raw key/value access and backups are owner-only
+router.use(requirePermission('database:manage'));
+
 router.get('/settings', async (req, res) => {
   const settings = getSettings();
   res.json({ success: true, data: settings });
@@ -1,8 +1,9 @@
 import express from 'express';
-import { upsertDevice, getDevices, getDevice, updateDevice, deleteDevice } from '../database.js';
+import { upsertDevice, getDevices, getDevice, updateDevice, deleteDevice, recordTransaction, getWallets, getWalletBalance, getWalletEntries, adjustWallet, getSessionEvents } from '../database.js';
 import { networkManager } from '../networkManager.js';
 import { sessionManager } from '../sessionManager.js';
 import { getSettings } from '../database.js';
+import { getRequestAdmin } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -31,9 +32,10 @@ router.get('/', async (req, res) => {
       });
     }
 
+    const balances = new Map(getWallets().map(w => [w.macAddress, w.balance]));
     const all = getDevices().map(d => {
       const isActive = discovered.some(x => x.macAddress.toLowerCase() === d.macAddress.toLowerCase());
-      return { ...d, connected: isActive || !!d.connected };
+      return { ...d, connected: isActive || !!d.connected, walletBalance: balances.get(d.macAddress.toLowerCase()) || 0 };
     });
 
     res.json({ success: true, data: all });
@@ -81,17 +83,26 @@ router.put('/:mac', async (req, res) => {
     updateDevice(mac, req.body || {});
 
     const t = req.body?.timeLimitMinutes;
+    const admin = { source: 'admin' as const, actor: getRequestAdmin(req)?.username };
     if (typeof t === 'number') {
       if (t > 0) {
         const existing = sessionManager.getSession(mac);
         if (existing?.active) {
-          await sessionManager.endSession(mac);
+          await sessionManager.endSession(mac, admin);
         }
-        await sessionManager.startTimedSession(mac, t);
+        await sessionManager.startTimedSession(mac, t, { ...admin, note: 'Device time limit' });
+        recordTransaction({
+          type: 'admin_grant',
+          amount: 0,
+          minutes: t,
+          macAddress: mac,
+          actor: getRequestAdmin(req)?.username || null,
+          note: 'Device time limit'
+        });
       } else {
         const existing = sessionManager.getSession(mac);
         if (existing?.active) {
-          await sessionManager.endSession(mac);
+          await sessionManager.endSession(mac, admin);
         }
       }
     }
@@ -104,6 +115,54 @@ router.put('/:mac', async (req, res) => {
   }
 });
 
+// Wallet balance and recent credit movements for one device
+router.get('/:mac/wallet', async (req, res) => {
+  try {
+    const mac = req.params.mac;
+    res.json({ success: true, data: { balance: getWalletBalance(mac), entries: getWalletEntries(mac) } });
+  } catch (e) {
+    console.error('Error getting wallet:', e);
+    res.status(500).json({ success: false, error: 'Failed to get wallet' });
+  }
+});
+
+// Session history for one device, newest first, for settling disputes about time
+router.get('/:mac/events', async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 500);
+    res.json({ success: true, data: getSessionEvents(req.params.mac, limit) });
+  } catch (e) {
+    console.error('Error getting session events:', e);
+    res.status(500).json({ success: false, error: 'Failed to get session events' });
+  }
+});
+
+router.post('/:mac/wallet', async (req, res) => {
+  try {
+    const mac = req.params.mac;
+    const { amount, note } = req.body;
+    if (typeof amount !== 'number' || amount === 0 || !Number.isFinite(amount)) {
+      return res.status(400).json({ success: false, error: 'amount must be a non-zero number' });
+    }
+    let balance: number;
+    try {
+      balance = adjustWallet({
+        macAddress: mac,
+        amount,
+        reason: 'admin_adjust',
+        actor: getRequestAdmin(req)?.username || null,
+        note: note || null
+      });
+    } catch (e) {
+      return res.status(400).json({ success: false, error: e instanceof Error ? e.message : 'Failed to adjust wallet' });
+    }
+    res.json({ success: true, data: { balance } });
+  } catch (e) {
+    console.error('Error adjusting wallet:', e);
+    res.status(500).json({ success: false, error: 'Failed to adjust wallet' });
+  }
+});
+
 router.delete('/:mac', async (req, res) => {
   try {
     const mac = req.params.mac;
@@ -116,13 +175,16 @@ router.delete('/:mac', async (req, res) => {
 
 router.get('/usage', async (req, res) => {
   try {
-    const { ip } = req.query as any;
-    if (!ip) {
-      return res.status(400).json({ success: false, error: 'ip is required' });
+    const { mac, ip } = req.query as { mac?: string; ip?: string };
+    if ((mac !== undefined && typeof mac !== 'string') || (ip !== undefined && typeof ip !== 'string')) {
+      return res.status(400).json({ success: false, error: 'mac and ip must be single values' });
     }
-    const settings = getSettings();
-    const iface = settings.network.lanInterface;
-    const usage = await networkManager.getDeviceUsage(iface, String(ip));
+    // Counters are kept per MAC; an IP is mapped through the active session
+    const macAddress = mac || (ip ? sessionManager.getSessionByIp(ip)?.macAddress : undefined);
+    if (!macAddress) {
+      return res.status(400).json({ success: false, error: 'mac or ip of an active session is required' });
+    }
+    const usage = await networkManager.getDeviceUsage(macAddress);
     res.json({ success: true, data: usage });
   } catch (e) {
     res.status(500).json({ success: false, error: 'Failed to get usage' });
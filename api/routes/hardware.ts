@@ -1,10 +1,27 @@
 import express from 'express';
 import { hardwareManager } from '../hardwareManager.js';
-import { resolveMACByIP } from '../utils/network.js';
+import { resolveMACByIP, getClientIp } from '../utils/network.js';
+import { openEventStream } from '../utils/eventStreams.js';
 import { coinEvents } from '../coinEvents.js';
+import { getPendingCollection, getCollectionHistory, recordCollection } from '../coinCollections.js';
+import { getRequestAdmin } from '../middleware/auth.js';
+import { getHardwareAlerts } from '../database.js';
+import { ACCEPTOR_KINDS, type AcceptorKind } from '../acceptors.js';
+import { blocksCoinSessions, INHIBIT_STATE_LABELS } from '../coinInhibit.js';
+import { GPIO_BACKEND_KINDS, validateTimeline, type GpioBackendKind, type RecordedPulse } from '../gpio.js';
 
 const router = express.Router();
 
+// MAC from the request, else from the ARP table; mock mode falls back to a placeholder
+async function resolveClientMac(req: express.Request, provided?: unknown): Promise<string | null> {
+  let macAddress = typeof provided === 'string' && provided ? provided : await resolveMACByIP(getClientIp(req));
+  if (!macAddress && hardwareManager.getHardwareStatus().mockMode) {
+    // In mock mode, allow random MAC if not found (for testing on localhost)
+    macAddress = '00:00:00:00:00:00';
+  }
+  return macAddress || null;
+}
+
 // Get hardware status
 router.get('/status', async (req, res) => {
   try {
@@ -73,6 +90,105 @@ router.post('/config', async (req, res) => {
   }
 });
 
+// Update one money input (coin slot or bill acceptor)
+router.post('/acceptors/:kind', async (req, res) => {
+  try {
+    const kind = req.params.kind as AcceptorKind;
+    if (!ACCEPTOR_KINDS.includes(kind)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown acceptor'
+      });
+    }
+
+    const { pin, enabled, pulseTimeoutMs, debounceMs, values } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ pin, enabled, pulseTimeoutMs, debounceMs, values }).filter(([, value]) => value !== undefined)
+    );
+
+    let acceptor;
+    try {
+      acceptor = hardwareManager.updateAcceptor(kind, changes);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid acceptor settings'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: acceptor,
+      message: `${kind === 'coin' ? 'Coin' : 'Bill'} acceptor updated successfully`
+    });
+  } catch (error) {
+    console.error('Error updating acceptor:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update acceptor'
+    });
+  }
+});
+
+// Configure the coin acceptor inhibit output
+router.post('/inhibit', async (req, res) => {
+  try {
+    const { enabled, pin, inhibitLevel } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ enabled, pin, inhibitLevel }).filter(([, value]) => value !== undefined)
+    );
+
+    let inhibit;
+    try {
+      inhibit = hardwareManager.updateInhibitSettings(changes);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid inhibit settings'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: inhibit,
+      message: 'Coin inhibit updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating coin inhibit:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update coin inhibit'
+    });
+  }
+});
+
+// Close or reopen the coin slot for maintenance
+router.post('/maintenance', async (req, res) => {
+  try {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'enabled must be a boolean'
+      });
+    }
+
+    hardwareManager.setMaintenanceMode(enabled);
+
+    res.json({
+      success: true,
+      message: `Maintenance mode ${enabled ? 'enabled' : 'disabled'}`
+    });
+  } catch (error) {
+    console.error('Error setting maintenance mode:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set maintenance mode'
+    });
+  }
+});
+
 // Control status LED
 router.post('/led', async (req, res) => {
   try {
@@ -127,6 +243,42 @@ router.post('/led/blink', async (req, res) => {
   }
 });
 
+// Set the status LED blink code for one or more machine states
+router.post('/led/patterns', async (req, res) => {
+  try {
+    const { patterns } = req.body;
+
+    if (!patterns || typeof patterns !== 'object' || Array.isArray(patterns)) {
+      return res.status(400).json({
+        success: false,
+        error: 'patterns must map LED states to patterns'
+      });
+    }
+
+    let updated;
+    try {
+      updated = hardwareManager.updateLedPatterns(patterns);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid LED patterns'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: updated,
+      message: 'Status LED patterns updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating LED patterns:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update LED patterns'
+    });
+  }
+});
+
 // Toggle mock mode
 router.post('/mock-mode', async (req, res) => {
   try {
@@ -156,15 +308,222 @@ router.post('/mock-mode', async (req, res) => {
   }
 });
 
+// Coin line faults, newest first
+router.get('/alerts', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        active: hardwareManager.getAlerts(),
+        history: getHardwareAlerts()
+      }
+    });
+  } catch (error) {
+    console.error('Error getting hardware alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get hardware alerts'
+    });
+  }
+});
+
+// Acknowledge a fault once the line has been checked; reopens the slot when none are left
+router.post('/alerts/:id/clear', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!hardwareManager.clearAlert(id, getRequestAdmin(req)?.username)) {
+      return res.status(404).json({
+        success: false,
+        error: 'No active alert with that id'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert cleared',
+      data: hardwareManager.getHardwareStatus()
+    });
+  } catch (error) {
+    console.error('Error clearing hardware alert:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clear hardware alert'
+    });
+  }
+});
+
+// Current calibration run with its live suggestion, or null
+router.get('/calibration', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: hardwareManager.getCalibration()
+    });
+  } catch (error) {
+    console.error('Error getting calibration:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get calibration'
+    });
+  }
+});
+
+// Start recording pulse timings for a number of test coins
+router.post('/calibration/start', async (req, res) => {
+  try {
+    const { kind = 'coin', coins } = req.body;
+    if (!ACCEPTOR_KINDS.includes(kind)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown acceptor'
+      });
+    }
+
+    let calibration;
+    try {
+      calibration = hardwareManager.startCalibration(kind as AcceptorKind, coins);
+    } catch (error) {
+      return res.status(409).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Cannot start calibration'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Insert ${coins} test coin${coins === 1 ? '' : 's'}`,
+      data: calibration
+    });
+  } catch (error) {
+    console.error('Error starting calibration:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start calibration'
+    });
+  }
+});
+
+// Stop recording; the suggested values are saved through /acceptors/:kind
+router.post('/calibration/stop', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      message: 'Calibration stopped',
+      data: hardwareManager.stopCalibration()
+    });
+  } catch (error) {
+    console.error('Error stopping calibration:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to stop calibration'
+    });
+  }
+});
+
+// Choose how pins are driven: rpio, libgpiod, the simulator, or auto-detect
+router.post('/gpio-backend', async (req, res) => {
+  try {
+    const { backend, chip, lineMap } = req.body;
+
+    if (!GPIO_BACKEND_KINDS.includes(backend)) {
+      return res.status(400).json({
+        success: false,
+        error: `backend must be one of ${GPIO_BACKEND_KINDS.join(', ')}`
+      });
+    }
+    if (chip !== undefined && (typeof chip !== 'string' || !/^gpiochip\d+$/.test(chip))) {
+      return res.status(400).json({
+        success: false,
+        error: 'chip must look like gpiochip0'
+      });
+    }
+    if (lineMap !== undefined && (typeof lineMap !== 'object' || lineMap === null
+      || Object.values(lineMap).some(line => !Number.isInteger(line) || (line as number) < 0))) {
+      return res.status(400).json({
+        success: false,
+        error: 'lineMap must map pins to line offsets'
+      });
+    }
+
+    const active = await hardwareManager.setGpioBackend(backend as GpioBackendKind, { chip, lineMap });
+
+    res.json({
+      success: true,
+      message: active ? `GPIO backend ${active} active` : 'No GPIO backend available, running in mock mode',
+      data: hardwareManager.getHardwareStatus()
+    });
+  } catch (error) {
+    console.error('Error setting GPIO backend:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set GPIO backend'
+    });
+  }
+});
+
+// Play a recorded pulse timeline through the simulator backend in real time
+router.post('/simulator/replay', async (req, res) => {
+  try {
+    const simulator = hardwareManager.getSimulator();
+    if (!simulator) {
+      return res.status(409).json({
+        success: false,
+        error: 'The simulator GPIO backend is not active'
+      });
+    }
+
+    const { timeline } = req.body;
+    const validationError = validateTimeline(timeline);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      });
+    }
+
+    simulator.play(timeline as RecordedPulse[]);
+    res.json({
+      success: true,
+      message: `Replaying ${timeline.length} pulses`
+    });
+  } catch (error) {
+    console.error('Error replaying pulse timeline:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay pulse timeline'
+    });
+  }
+});
+
 // Simulate coin pulse (for testing/mock mode)
 router.post('/simulate-coin', async (req, res) => {
   try {
-    const { pin = 3 } = req.body;
-    hardwareManager.handleCoinPulse(pin);
+    const { kind, pulses = 1 } = req.body;
+    // Pulse the named acceptor's pin, or the given pin (coin slot by default)
+    const acceptor = hardwareManager.getHardwareStatus().acceptors.find(entry => entry.kind === kind);
+    if (acceptor && !acceptor.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: `The ${kind} acceptor is disabled`
+      });
+    }
+    const pin = acceptor ? acceptor.pin : (req.body.pin ?? 3);
+
+    if (!Number.isInteger(pulses) || pulses < 1 || pulses > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'pulses must be a whole number between 1 and 100'
+      });
+    }
+
+    // Sent back to back, so the decoder sees one burst
+    for (let i = 0; i < pulses; i++) {
+      hardwareManager.handleCoinPulse(pin, true);
+    }
     
     res.json({
       success: true,
-      message: `Simulated coin pulse on pin ${pin}`
+      message: `Simulated ${pulses} coin pulse${pulses === 1 ? '' : 's'} on pin ${pin}`
     });
   } catch (error) {
     console.error('Error simulating coin pulse:', error);
@@ -175,21 +534,121 @@ router.post('/simulate-coin', async (req, res) => {
   }
 });
 
+// Coin box contents expected since the last collection, plus past collections
+router.get('/collections', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        pending: getPendingCollection(),
+        history: getCollectionHistory()
+      }
+    });
+  } catch (error) {
+    console.error('Error getting coin collections:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get coin collections'
+    });
+  }
+});
+
+// Record emptying the coin box
+router.post('/collections', async (req, res) => {
+  try {
+    const { countedAmount, collectedAt, note } = req.body;
+
+    if (typeof countedAmount !== 'number' || countedAmount < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'countedAmount must be a non-negative number'
+      });
+    }
+
+    const when = collectedAt ? new Date(collectedAt) : undefined;
+    if (when && isNaN(when.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid collection time'
+      });
+    }
+
+    let collection;
+    try {
+      collection = recordCollection({
+        countedAmount,
+        collectedAt: when,
+        actor: getRequestAdmin(req)?.username || null,
+        note
+      });
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid collection'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: collection.status === 'ok'
+        ? 'Collection recorded'
+        : `Collection recorded: box is ${collection.status} by ${Math.abs(collection.discrepancy)} pesos`,
+      data: collection
+    });
+  } catch (error) {
+    console.error('Error recording coin collection:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record coin collection'
+    });
+  }
+});
+
 // Start coin session
 router.post('/start-coin-session', async (req, res) => {
   try {
-    const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '').replace('::ffff:', '');
-    let { macAddress } = req.body;
+    const ip = getClientIp(req);
+    const macAddress = await resolveClientMac(req, req.body.macAddress);
 
     if (!macAddress) {
-      macAddress = await resolveMACByIP(ip);
+      return res.status(400).json({
+        success: false,
+        error: 'Could not resolve MAC address'
+      });
     }
 
-    if (!macAddress && hardwareManager.getHardwareStatus().mockMode) {
-       // In mock mode, allow random MAC if not found (for testing on localhost)
-       macAddress = '00:00:00:00:00:00';
+    const slotState = hardwareManager.getCoinSlotState();
+    if (blocksCoinSessions(slotState)) {
+      return res.status(503).json({
+        success: false,
+        error: `Coin slot is unavailable: ${INHIBIT_STATE_LABELS[slotState]}`
+      });
     }
 
+    // A busy slot queues the device instead of turning it away
+    const position = hardwareManager.startCoinSession(macAddress, ip);
+
+    res.json({
+      success: true,
+      message: position.status === 'active'
+        ? 'Coin session started'
+        : `Coin slot is in use. You are number ${position.position} in line.`,
+      data: position
+    });
+  } catch (error) {
+    console.error('Error starting coin session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start coin session'
+    });
+  }
+});
+
+// Done inserting: free the slot (or leave the line) for the next device
+router.post('/release-coin-session', async (req, res) => {
+  try {
+    const macAddress = await resolveClientMac(req, req.body.macAddress);
+
     if (!macAddress) {
       return res.status(400).json({
         success: false,
@@ -197,24 +656,58 @@ router.post('/start-coin-session', async (req, res) => {
       });
     }
 
-    const success = hardwareManager.startCoinSession(macAddress, ip);
+    hardwareManager.releaseCoinSlot(macAddress);
+    res.json({
+      success: true,
+      message: 'Coin slot released'
+    });
+  } catch (error) {
+    console.error('Error releasing coin session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to release coin session'
+    });
+  }
+});
 
-    if (success) {
-      res.json({
-        success: true,
-        message: 'Coin session started'
-      });
-    } else {
-      res.status(409).json({
+// Everyone holding or waiting for the coin slot
+router.get('/coin-queue', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: hardwareManager.getCoinQueue()
+    });
+  } catch (error) {
+    console.error('Error getting coin queue:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get coin queue'
+    });
+  }
+});
+
+// How long each device may hold the slot without inserting
+router.post('/insert-window', async (req, res) => {
+  try {
+    const { seconds } = req.body;
+
+    if (!Number.isInteger(seconds) || seconds < 15 || seconds > 600) {
+      return res.status(400).json({
         success: false,
-        error: 'Coin slot is busy. Please try again in a moment.'
+        error: 'seconds must be a whole number between 15 and 600'
       });
     }
+
+    hardwareManager.setInsertWindow(seconds);
+    res.json({
+      success: true,
+      message: `Insert window set to ${seconds} seconds`
+    });
   } catch (error) {
-    console.error('Error starting coin session:', error);
+    console.error('Error setting insert window:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to start coin session'
+      error: 'Failed to set insert window'
     });
   }
 });
@@ -222,7 +715,7 @@ router.post('/start-coin-session', async (req, res) => {
 // Get current coin session
 router.get('/coin-session', async (req, res) => {
   try {
-    const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '').replace('::ffff:', '');
+    const ip = getClientIp(req);
     let { macAddress } = req.query;
 
     if (!macAddress) {
@@ -251,10 +744,7 @@ export default router;
  
 // Server-Sent Events: coin stream
 router.get('/coin/stream', (req, res) => {
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.flushHeaders?.();
+  openEventStream(res);
 
   const heartbeat = setInterval(() => {
     res.write(`event: ping\ndata: ${Date.now()}\n\n`);
@@ -271,3 +761,48 @@ router.get('/coin/stream', (req, res) => {
     coinEvents.off('coin', listener);
   });
 });
+
+// Server-Sent Events: this device's place in the coin slot line
+router.get('/coin-queue/stream', async (req, res) => {
+  const macAddress = await resolveClientMac(req, req.query.mac);
+
+  openEventStream(res);
+
+  const send = () => {
+    const position = macAddress ? hardwareManager.getCoinSlotPosition(macAddress) : null;
+    res.write(`event: queue\ndata: ${JSON.stringify(position)}\n\n`);
+  };
+  send();
+
+  const heartbeat = setInterval(() => {
+    res.write(`event: ping\ndata: ${Date.now()}\n\n`);
+  }, 25000);
+
+  coinEvents.on('queue', send);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    coinEvents.off('queue', send);
+  });
+});
+
+// Server-Sent Events: pulses recorded by the running calibration
+router.get('/calibration/stream', (req, res) => {
+  openEventStream(res);
+
+  const send = (calibration: unknown) => {
+    res.write(`event: calibration\ndata: ${JSON.stringify(calibration)}\n\n`);
+  };
+  send(hardwareManager.getCalibration());
+
+  const heartbeat = setInterval(() => {
+    res.write(`event: ping\ndata: ${Date.now()}\n\n`);
+  }, 25000);
+
+  coinEvents.on('calibration', send);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    coinEvents.off('calibration', send);
+  });
+});
@@ -1,10 +1,26 @@
 import express from 'express';
+import net from 'net';
 import { networkManager } from '../networkManager.js';
+import { hardwareManager } from '../hardwareManager.js';
+import { sessionManager } from '../sessionManager.js';
+import { requirePermission } from '../middleware/auth.js';
+import { resolveMACByIP, getClientIp } from '../utils/network.js';
 
 const router = express.Router();
 
+// The calling device, if it has time running. Re-allowing a device that has not
+// paid would let it past the portal, so the address never comes from the body.
+async function resolvePayingClient(req: express.Request): Promise<{ macAddress: string; ipAddress: string } | null> {
+  const ipAddress = getClientIp(req);
+  if (!net.isIP(ipAddress)) return null;
+  const macAddress = await resolveMACByIP(ipAddress);
+  const session = macAddress ? sessionManager.getSession(macAddress) : undefined;
+  if (!session || !session.active || session.paused) return null;
+  return { macAddress: session.macAddress, ipAddress };
+}
+
 // Get network status
-router.get('/status', async (req, res) => {
+router.get('/status', requirePermission('network:manage'), async (req, res) => {
   try {
     const status = await networkManager.getNetworkStatus();
     res.json({
@@ -21,7 +37,7 @@ router.get('/status', async (req, res) => {
 });
 
 // Configure WAN interface
-router.post('/wan', async (req, res) => {
+router.post('/wan', requirePermission('network:manage'), async (req, res) => {
   try {
     const { interfaceName, type, ipAddress, netmask, gateway, dns } = req.body;
 
@@ -63,7 +79,7 @@ router.post('/wan', async (req, res) => {
 });
 
 // Create VLAN
-router.post('/vlan', async (req, res) => {
+router.post('/vlan', requirePermission('network:manage'), async (req, res) => {
   try {
     const { parentInterface, vlanId } = req.body;
 
@@ -97,7 +113,7 @@ router.post('/vlan', async (req, res) => {
 });
 
 // Remove VLAN
-router.delete('/vlan/:vlanName', async (req, res) => {
+router.delete('/vlan/:vlanName', requirePermission('network:manage'), async (req, res) => {
   try {
     const { vlanName } = req.params;
 
@@ -124,7 +140,7 @@ router.delete('/vlan/:vlanName', async (req, res) => {
 });
 
 // Setup hotspot
-router.post('/hotspot', async (req, res) => {
+router.post('/hotspot', requirePermission('network:manage'), async (req, res) => {
   try {
     const { interface: interfaceName, ssid, password, channel, ipAddress, dhcpRange, security } = req.body;
 
@@ -170,9 +186,10 @@ router.post('/hotspot', async (req, res) => {
 });
 
 // Enable captive portal
-router.post('/captive/enable', async (req, res) => {
+router.post('/captive/enable', requirePermission('network:manage'), async (req, res) => {
   try {
     await networkManager.enableCaptivePortal();
+    hardwareManager.setCaptivePortalActive(true);
 
     res.json({
       success: true,
@@ -188,9 +205,10 @@ router.post('/captive/enable', async (req, res) => {
 });
 
 // Disable captive portal
-router.post('/captive/disable', async (req, res) => {
+router.post('/captive/disable', requirePermission('network:manage'), async (req, res) => {
   try {
     await networkManager.disableCaptivePortal();
+    hardwareManager.setCaptivePortalActive(false);
 
     res.json({
       success: true,
@@ -206,7 +224,7 @@ router.post('/captive/disable', async (req, res) => {
 });
 
 // Get iptables rules
-router.get('/iptables', async (req, res) => {
+router.get('/iptables', requirePermission('network:manage'), async (req, res) => {
   try {
     const rules = await networkManager.getIptablesRules();
     res.json({
@@ -223,7 +241,7 @@ router.get('/iptables', async (req, res) => {
 });
 
 // Restart networking services
-router.post('/restart', async (req, res) => {
+router.post('/restart', requirePermission('network:manage'), async (req, res) => {
   try {
     await networkManager.restartNetworking();
 
@@ -243,10 +261,11 @@ router.post('/restart', async (req, res) => {
 // Reinitialize client connectivity
 router.post('/client/reinit', async (req, res) => {
   try {
-    const { macAddress, ipAddress } = req.body;
-    if (!macAddress) {
-      return res.status(400).json({ success: false, error: 'macAddress is required' });
+    const client = await resolvePayingClient(req);
+    if (!client) {
+      return res.status(403).json({ success: false, error: 'No running session for this device' });
     }
+    const { macAddress, ipAddress } = client;
     const result = await networkManager.reinitializeClientNetwork(macAddress, ipAddress);
     const verify = await networkManager.verifyClientConnectivity(macAddress, ipAddress);
     res.json({ success: true, data: { reinit: result, verify } });
@@ -275,10 +294,11 @@ router.get('/client/verify', async (req, res) => {
 // Recover client if connectivity inactive
 router.post('/client/recover', async (req, res) => {
   try {
-    const { macAddress, ipAddress } = req.body;
-    if (!macAddress) {
-      return res.status(400).json({ success: false, error: 'macAddress is required' });
+    const client = await resolvePayingClient(req);
+    if (!client) {
+      return res.status(403).json({ success: false, error: 'No running session for this device' });
     }
+    const { macAddress, ipAddress } = client;
     const verify1 = await networkManager.verifyClientConnectivity(macAddress, ipAddress);
     if (verify1.firewallAllowed && verify1.ipAssigned && verify1.gatewayReachable) {
       return res.json({ success: true, data: { verify: verify1, action: 'noop' } });
@@ -1,14 +1,64 @@
 import express from 'express';
-import { getSettings } from '../database.js';
+import { getSettings, getWalletBalance, adjustWallet, type SessionEventContext } from '../database.js';
 import { sessionManager } from '../sessionManager.js';
-import { resolveMACByIP } from '../utils/network.js';
+import { resolveMACByIP, getClientIp } from '../utils/network.js';
+import { openEventStream } from '../utils/eventStreams.js';
 import { networkManager } from '../networkManager.js';
 import { hardwareManager } from '../hardwareManager.js';
 import dns from 'dns/promises';
 
 import { voucherManager } from '../voucherManager.js';
+import { pesosToMinutes, hasDataPlans } from '../pricing.js';
+import { resolveAutoPause, autoPauseApplies } from '../presence.js';
+import { getRequestAdmin } from '../middleware/auth.js';
+import { sessionNotifications, type SessionNotice } from '../sessionNotifications.js';
 
 const router = express.Router();
+
+// Only an admin may name an amount; customers pay through the coin slot or their wallet
+function acceptsRequestedPesos(req: express.Request): boolean {
+  return req.body?.pesos === undefined || !!getRequestAdmin(req);
+}
+
+// Wallet credit the client asked to put towards this purchase
+function requestedWalletPesos(body: { walletPesos?: unknown } | undefined): number | null {
+  const walletPesos = body?.walletPesos ?? 0;
+  return typeof walletPesos === 'number' && walletPesos >= 0 ? walletPesos : null;
+}
+
+// Takes the credit up front; returns an error message if the balance is too low
+function spendWallet(macAddress: string, walletPesos: number, note: string): string | null {
+  if (walletPesos <= 0) return null;
+  try {
+    adjustWallet({ macAddress, amount: -walletPesos, reason: 'spend', note });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Could not use wallet credit';
+  }
+}
+
+function returnWallet(macAddress: string, walletPesos: number): void {
+  if (walletPesos <= 0) return;
+  try {
+    adjustWallet({ macAddress, amount: walletPesos, reason: 'spend', note: 'Returned: purchase failed' });
+  } catch (error) {
+    console.error('Error returning wallet credit:', error);
+  }
+}
+
+// What paid for a purchase, for the session history
+function paymentContext(coinPesos: number, walletPesos: number): SessionEventContext {
+  if (coinPesos > 0) {
+    return { source: 'coin', note: walletPesos > 0 ? `₱${walletPesos} from wallet` : null };
+  }
+  return { source: walletPesos > 0 ? 'wallet' : 'portal' };
+}
+
+// Pause and resume are also used by admins from DevicesTab
+function actingContext(req: express.Request): SessionEventContext {
+  const admin = getRequestAdmin(req);
+  return admin ? { source: 'admin', actor: admin.username } : { source: 'portal' };
+}
 const pingSubscribers = new Map<string, Set<express.Response>>();
 const pingLogs: Array<{
   ts: string;
@@ -186,7 +236,9 @@ router.get('/config', async (req, res) => {
         title: settings.portal.title,
         backgroundImage: settings.portal.backgroundImage,
         welcomeMessage: settings.portal.welcomeMessage,
-        rates: settings.rates.rates
+        rates: settings.rates.rates,
+        dataRates: settings.rates.dataRates || [],
+        dataPlansEnabled: hasDataPlans(settings.rates)
       }
     });
   } catch (error) {
@@ -201,7 +253,7 @@ router.get('/config', async (req, res) => {
 // Device info for current client
 router.get('/device-info', async (req, res) => {
   try {
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
     const mac = await resolveMACByIP(ip);
     const list = await networkManager.listActiveDevices().catch(() => []);
     const fromList = list.find(d => d.ipAddress === ip || (mac && d.macAddress === mac));
@@ -246,10 +298,7 @@ router.get('/ping-check/stream', async (req, res) => {
       res.status(400).end();
       return;
     }
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
+    openEventStream(res);
     res.write('\n');
     let set = pingSubscribers.get(mac);
     if (!set) {
@@ -269,10 +318,39 @@ router.get('/ping-check/stream', async (req, res) => {
   }
 });
 
+// Session notices for this device: expiry warnings, pauses, extensions and the end
+router.get('/events', async (req, res) => {
+  try {
+    const ip = getClientIp(req);
+    const mac = String(req.query.mac || (await resolveMACByIP(ip)) || '').replace(/-/g, ':').toLowerCase();
+    if (!mac) {
+      res.status(400).end();
+      return;
+    }
+    openEventStream(res);
+    res.write('\n');
+
+    const onNotice = (notice: SessionNotice) => {
+      if (notice.macAddress === mac) {
+        res.write(`data: ${JSON.stringify(notice)}\n\n`);
+      }
+    };
+    sessionNotifications.on('notice', onNotice);
+    // Keeps phones and proxies from dropping a quiet stream
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      sessionNotifications.off('notice', onNotice);
+    });
+  } catch {
+    res.status(500).end();
+  }
+});
+
 router.post('/ping-check', async (req, res) => {
   try {
     let { macAddress, timeoutMs, retries } = req.body || {};
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
     }
@@ -301,7 +379,7 @@ router.get('/ping-logs', async (req, res) => {
 router.get('/status', async (req, res) => {
   try {
     let macAddress = (req.query.mac as string) || '';
-    let ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    let ip = getClientIp(req);
     const serverTime = Date.now();
     
     // Attempt resolution if MAC is missing
@@ -360,6 +438,7 @@ router.get('/status', async (req, res) => {
     const timeRemaining = session ? sessionManager.getSessionTimeRemaining(session.macAddress) : 0;
     const sessionEndTime = session ? session.endTime?.toISOString?.() : null;
     const isPaused = session?.paused || false;
+    const autoPause = resolveAutoPause(getSettings().rates.autoPause);
 
     res.json({
       success: true,
@@ -373,7 +452,14 @@ router.get('/status', async (req, res) => {
         sessionEndTime, // Helpful for UI and debugging
         isPaused, // Add pause status
         pausedAt: session?.pausedAt || null,
-        pausedDuration: session?.pausedDuration || 0
+        pausedDuration: session?.pausedDuration || 0,
+        pauseReason: session?.pauseReason || null,
+        // Minutes away before the session pauses itself, null when the plan does not auto-pause
+        autoPauseMinutes: session && autoPauseApplies(autoPause, session.sessionType) ? autoPause.absenceMinutes : null,
+        pauseAllowance: session ? sessionManager.getPauseAllowance(session.macAddress) : null,
+        sessionType: session?.sessionType || 'time',
+        dataRemainingBytes: session ? sessionManager.getSessionDataRemaining(session.macAddress) : null,
+        walletBalance: getWalletBalance(macAddress)
       }
     });
   } catch (error) {
@@ -388,8 +474,16 @@ router.get('/status', async (req, res) => {
 // Connect to WiFi (start session)
 router.post('/connect', async (req, res) => {
   try {
+    if (!acceptsRequestedPesos(req)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Pesos are taken from the coin slot or your wallet'
+      });
+    }
+
     let { macAddress, pesos } = req.body;
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const plan = req.body.plan === 'data' ? 'data' : 'time';
+    const ip = getClientIp(req);
 
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -413,7 +507,15 @@ router.post('/connect', async (req, res) => {
       }
     }
 
-    if (!macAddress || !pesos) {
+    const walletPesos = requestedWalletPesos(req.body);
+    if (walletPesos === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'walletPesos must be a positive number'
+      });
+    }
+
+    if (!macAddress || (!pesos && !walletPesos)) {
       return res.status(400).json({
         success: false,
         error: 'MAC address and pesos are required'
@@ -429,7 +531,8 @@ router.post('/connect', async (req, res) => {
       });
     }
 
-    if (typeof pesos !== 'number' || pesos <= 0) {
+    pesos = pesos || 0;
+    if (typeof pesos !== 'number' || pesos < 0) {
       return res.status(400).json({
         success: false,
         error: 'Pesos must be a positive number'
@@ -445,10 +548,40 @@ router.post('/connect', async (req, res) => {
       });
     }
 
+    if (plan === 'data' && !hasDataPlans(getSettings().rates)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Data plans are not available'
+      });
+    }
+
+    const walletError = spendWallet(macAddress, walletPesos, plan === 'data' ? 'Data plan' : 'Time session');
+    if (walletError) {
+      return res.status(400).json({
+        success: false,
+        error: walletError
+      });
+    }
+
+    // Taken before the session starts; coins that land meanwhile go to the wallet
+    const coinPesos = hardwareManager.takeCoinCredit(macAddress);
+    if (coinPesos > 0) pesos = coinPesos;
+
     // Start new session
-    const session = await sessionManager.startSession(macAddress, pesos, ip);
+    const totalPesos = pesos + walletPesos;
+    const payment = paymentContext(coinPesos, walletPesos);
+    let session;
+    try {
+      session = plan === 'data'
+        ? await sessionManager.startDataSession(macAddress, totalPesos, ip, payment)
+        : await sessionManager.startSession(macAddress, totalPesos, ip, payment);
+    } catch (error) {
+      returnWallet(macAddress, walletPesos);
+      hardwareManager.returnCoinCredit(macAddress, coinPesos);
+      throw error;
+    }
 
-    // Clear coin session if it was used
+    // Close the coin session; anything inserted since is saved to the wallet
     if (hardwareManager.getCoinSession(macAddress)) {
       hardwareManager.clearCoinSession();
     }
@@ -458,7 +591,9 @@ router.post('/connect', async (req, res) => {
 
     res.json({
       success: true,
-      message: `Connected successfully! Your session will last ${session.minutes} minutes.`,
+      message: plan === 'data'
+        ? `Connected successfully! You have ${Math.round((session.quotaBytes || 0) / 1048576)} MB of data.`
+        : `Connected successfully! Your session will last ${session.minutes} minutes.`,
       data: {
         session,
         timeRemaining,
@@ -478,14 +613,35 @@ router.post('/connect', async (req, res) => {
 // Extend session
 router.post('/extend', async (req, res) => {
   try {
+    if (!acceptsRequestedPesos(req)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Pesos are taken from the coin slot or your wallet'
+      });
+    }
+
     let { macAddress, pesos } = req.body;
 
     if (!macAddress) {
-      const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+      const ip = getClientIp(req);
       macAddress = (await resolveMACByIP(ip)) || '';
     }
 
-    if (!macAddress || !pesos) {
+    // Coins inserted for this device are the amount (server-side verified credits)
+    const coinSession = macAddress ? hardwareManager.getCoinSession(macAddress) : null;
+    if (coinSession && coinSession.amount > 0) {
+      pesos = coinSession.amount;
+    }
+
+    const walletPesos = requestedWalletPesos(req.body);
+    if (walletPesos === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'walletPesos must be a positive number'
+      });
+    }
+
+    if (!macAddress || (!pesos && !walletPesos)) {
       return res.status(400).json({
         success: false,
         error: 'MAC address and pesos are required'
@@ -501,7 +657,8 @@ router.post('/extend', async (req, res) => {
       });
     }
 
-    if (typeof pesos !== 'number' || pesos <= 0) {
+    pesos = pesos || 0;
+    if (typeof pesos !== 'number' || pesos < 0) {
       return res.status(400).json({
         success: false,
         error: 'Pesos must be a positive number'
@@ -517,15 +674,38 @@ router.post('/extend', async (req, res) => {
       });
     }
 
-    // Calculate additional minutes based on pesos
-    const settings = getSettings();
-    const rate = settings.rates.rates.find(r => r.pesos === pesos);
-    const additionalMinutes = rate ? rate.minutes : pesos * settings.rates.timePerPeso;
+    // Data plans are topped up with more quota instead of more time
+    const isDataSession = existingSession.sessionType === 'data';
+
+    const walletError = spendWallet(macAddress, walletPesos, isDataSession ? 'Data top-up' : 'Session extension');
+    if (walletError) {
+      return res.status(400).json({
+        success: false,
+        error: walletError
+      });
+    }
+
+    // Taken before extending; coins that land meanwhile go to the wallet
+    const coinPesos = hardwareManager.takeCoinCredit(macAddress);
+    if (coinPesos > 0) pesos = coinPesos;
+    const totalPesos = pesos + walletPesos;
+    const additionalMinutes = isDataSession ? 0 : pesosToMinutes(totalPesos);
 
     // Extend session
-    await sessionManager.extendSession(macAddress, additionalMinutes);
-    
-    // Clear coin session if it was used
+    const payment = paymentContext(coinPesos, walletPesos);
+    try {
+      if (isDataSession) {
+        await sessionManager.extendDataSession(macAddress, totalPesos, payment);
+      } else {
+        await sessionManager.extendSession(macAddress, additionalMinutes, { ...payment, pesos: totalPesos });
+      }
+    } catch (error) {
+      returnWallet(macAddress, walletPesos);
+      hardwareManager.returnCoinCredit(macAddress, coinPesos);
+      throw error;
+    }
+
+    // Close the coin session; anything inserted since is saved to the wallet
     if (hardwareManager.getCoinSession(macAddress)) {
       hardwareManager.clearCoinSession();
     }
@@ -535,9 +715,10 @@ router.post('/extend', async (req, res) => {
 
     res.json({
       success: true,
-      message: `Session extended by ${additionalMinutes} minutes!`,
+      message: isDataSession ? 'Data added to your session!' : `Session extended by ${additionalMinutes} minutes!`,
       data: {
         timeRemaining,
+        dataRemainingBytes: sessionManager.getSessionDataRemaining(macAddress),
         serverTime,
         sessionEndTime: sessionManager.getSession(macAddress)?.endTime?.toISOString?.() || null
       }
@@ -575,7 +756,7 @@ router.post('/disconnect', async (req, res) => {
     let { macAddress } = req.body;
 
     if (!macAddress) {
-      const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+      const ip = getClientIp(req);
       macAddress = (await resolveMACByIP(ip)) || '';
     }
 
@@ -605,7 +786,7 @@ router.post('/disconnect', async (req, res) => {
     }
 
     // End session
-    await sessionManager.endSession(macAddress);
+    await sessionManager.endSession(macAddress, { source: 'portal' });
 
     res.json({
       success: true,
@@ -624,7 +805,7 @@ router.post('/disconnect', async (req, res) => {
 router.post('/redeem-voucher', async (req, res) => {
   try {
     let { macAddress, code } = req.body;
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
 
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -678,7 +859,7 @@ router.post('/redeem-voucher', async (req, res) => {
 router.get('/check-internet', async (req, res) => {
   try {
     let macAddress = (req.query.mac as string) || '';
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
 
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -726,7 +907,7 @@ router.get('/check-internet', async (req, res) => {
 router.get('/debug', async (req, res) => {
   try {
     let macAddress = (req.query.mac as string) || '';
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
     }
@@ -788,7 +969,7 @@ router.get('/debug', async (req, res) => {
 router.get('/validate-firewall', async (req, res) => {
   try {
     let macAddress = (req.query.mac as string) || '';
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
     
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -843,7 +1024,7 @@ router.get('/validate-firewall', async (req, res) => {
 router.post('/pause', async (req, res) => {
   try {
     let { macAddress } = req.body;
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
 
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -882,15 +1063,27 @@ router.post('/pause', async (req, res) => {
       });
     }
 
+    // Customers are held to the pause limits; admins are not
+    const context = actingContext(req);
+    const allowance = sessionManager.getPauseAllowance(macAddress);
+    if (context.source !== 'admin' && allowance && !allowance.canPause) {
+      return res.status(403).json({
+        success: false,
+        error: allowance.reason,
+        data: { pauseAllowance: allowance }
+      });
+    }
+
     // Pause the session
-    await sessionManager.pauseSession(macAddress);
+    await sessionManager.pauseSession(macAddress, context);
 
     res.json({
       success: true,
       message: 'Session paused successfully',
       data: {
         timeRemaining: sessionManager.getSessionTimeRemaining(macAddress),
-        pausedTime: new Date().toISOString()
+        pausedTime: new Date().toISOString(),
+        pauseAllowance: sessionManager.getPauseAllowance(macAddress)
       }
     });
   } catch (error) {
@@ -906,7 +1099,7 @@ router.post('/pause', async (req, res) => {
 router.post('/resume', async (req, res) => {
   try {
     let { macAddress } = req.body;
-    const ip = String((req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || (req.ip || '')).replace('::ffff:', '');
+    const ip = getClientIp(req);
 
     if (!macAddress) {
       macAddress = (await resolveMACByIP(ip)) || '';
@@ -946,7 +1139,7 @@ router.post('/resume', async (req, res) => {
     }
 
     // Resume the session
-    await sessionManager.resumeSession(macAddress);
+    await sessionManager.resumeSession(macAddress, actingContext(req));
 
     res.json({
       success: true,
@@ -1,8 +1,16 @@
 import express from 'express';
 import { sessionManager } from '../sessionManager.js';
+import { pesosToMinutes } from '../pricing.js';
+import { recordTransaction, getSessionRecord } from '../database.js';
+import { getRequestAdmin } from '../middleware/auth.js';
 
 const router = express.Router();
 
+const parseSessionId = (value: string): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
 // Start a new session
 router.post('/start', async (req, res) => {
   try {
@@ -31,7 +39,14 @@ router.post('/start', async (req, res) => {
       });
     }
 
-    const session = await sessionManager.startSession(macAddress, pesos);
+    const session = await sessionManager.startSession(macAddress, pesos, undefined, { source: 'admin', actor: getRequestAdmin(req)?.username });
+    recordTransaction({
+      type: 'admin_grant',
+      amount: pesos,
+      minutes: session.minutes,
+      macAddress: session.macAddress,
+      actor: getRequestAdmin(req)?.username || null
+    });
 
     res.json({
       success: true,
@@ -48,22 +63,30 @@ router.post('/start', async (req, res) => {
 });
 
 // End a session
-router.delete('/:macAddress', async (req, res) => {
+router.delete('/:id', async (req, res) => {
   try {
-    const { macAddress } = req.params;
+    const id = parseSessionId(req.params.id);
 
-    if (!macAddress) {
+    if (!id) {
       return res.status(400).json({
         success: false,
-        error: 'macAddress is required'
+        error: 'Invalid session ID'
       });
     }
 
-    await sessionManager.endSession(macAddress);
+    const session = sessionManager.getSessionById(id);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found or already ended'
+      });
+    }
+
+    await sessionManager.endSession(session.macAddress, { source: 'admin', actor: getRequestAdmin(req)?.username });
 
     res.json({
       success: true,
-      message: `Session ended for ${macAddress}`
+      message: `Session #${id} ended for ${session.macAddress}`
     });
   } catch (error) {
     console.error('Error ending session:', error);
@@ -74,6 +97,25 @@ router.delete('/:macAddress', async (req, res) => {
   }
 });
 
+// End every active session, e.g. before maintenance; a restart keeps them
+router.post('/end-all', async (req, res) => {
+  try {
+    const ended = await sessionManager.endAllSessions({ source: 'admin', actor: getRequestAdmin(req)?.username });
+
+    res.json({
+      success: true,
+      message: `Ended ${ended} session(s)`,
+      data: { ended }
+    });
+  } catch (error) {
+    console.error('Error ending all sessions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to end all sessions'
+    });
+  }
+});
+
 // Get active sessions
 router.get('/active', async (req, res) => {
   try {
@@ -98,23 +140,30 @@ router.get('/active', async (req, res) => {
   }
 });
 
-// Get specific session
-router.get('/:macAddress', async (req, res) => {
+// Get specific session, including ones that have ended
+router.get('/:id', async (req, res) => {
   try {
-    const { macAddress } = req.params;
+    const id = parseSessionId(req.params.id);
 
-    if (!macAddress) {
+    if (!id) {
       return res.status(400).json({
         success: false,
-        error: 'macAddress is required'
+        error: 'Invalid session ID'
       });
     }
 
-    const session = sessionManager.getSession(macAddress);
+    const session = sessionManager.getSessionById(id);
     if (!session) {
-      return res.status(404).json({
-        success: false,
-        error: 'Session not found'
+      const record = getSessionRecord(id);
+      if (!record) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        });
+      }
+      return res.json({
+        success: true,
+        data: { ...record, timeRemaining: 0 }
       });
     }
 
@@ -122,7 +171,7 @@ router.get('/:macAddress', async (req, res) => {
       success: true,
       data: {
         ...session,
-        timeRemaining: sessionManager.getSessionTimeRemaining(macAddress)
+        timeRemaining: sessionManager.getSessionTimeRemaining(session.macAddress)
       }
     });
   } catch (error) {
@@ -135,15 +184,15 @@ router.get('/:macAddress', async (req, res) => {
 });
 
 // Extend session
-router.post('/:macAddress/extend', async (req, res) => {
+router.post('/:id/extend', async (req, res) => {
   try {
-    const { macAddress } = req.params;
+    const id = parseSessionId(req.params.id);
     const { additionalMinutes } = req.body;
 
-    if (!macAddress) {
+    if (!id) {
       return res.status(400).json({
         success: false,
-        error: 'macAddress is required'
+        error: 'Invalid session ID'
       });
     }
 
@@ -154,7 +203,22 @@ router.post('/:macAddress/extend', async (req, res) => {
       });
     }
 
-    await sessionManager.extendSession(macAddress, additionalMinutes);
+    const session = sessionManager.getSessionById(id);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found or already ended'
+      });
+    }
+
+    await sessionManager.extendSession(session.macAddress, additionalMinutes, { source: 'admin', actor: getRequestAdmin(req)?.username });
+    recordTransaction({
+      type: 'admin_grant',
+      amount: 0,
+      minutes: additionalMinutes,
+      macAddress: session.macAddress,
+      actor: getRequestAdmin(req)?.username || null
+    });
 
     res.json({
       success: true,
@@ -202,22 +266,31 @@ router.post('/coin/detected', async (req, res) => {
     // Check if user already has an active session
     const existingSession = sessionManager.getSession(macAddress);
     
-    if (existingSession && existingSession.active) {
-      // Extend existing session by 30 minutes (1 peso)
-      await sessionManager.extendSession(macAddress, 30);
+    if (existingSession && existingSession.active && existingSession.sessionType === 'data') {
+      await sessionManager.extendDataSession(macAddress, 1, { source: 'coin' });
+
+      res.json({
+        success: true,
+        message: 'Data session topped up with 1 peso',
+        action: 'extended'
+      });
+    } else if (existingSession && existingSession.active) {
+      // Extend existing session by what 1 peso buys right now
+      const minutes = pesosToMinutes(1);
+      await sessionManager.extendSession(macAddress, minutes, { source: 'coin', pesos: 1 });
       
       res.json({
         success: true,
-        message: 'Session extended by 30 minutes',
+        message: `Session extended by ${minutes} minutes`,
         action: 'extended'
       });
     } else {
-      // Start new session with 1 peso (30 minutes)
-      const session = await sessionManager.startSession(macAddress, 1);
+      // Start new session with 1 peso
+      const session = await sessionManager.startSession(macAddress, 1, undefined, { source: 'coin' });
       
       res.json({
         success: true,
-        message: 'New session started: 30 minutes',
+        message: `New session started: ${session.minutes} minutes`,
         action: 'started',
         data: session
       });
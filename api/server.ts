@@ -4,9 +4,10 @@
 import app from './app.js';
 import { initializeDatabase } from './database.js';
 import { hardwareManager } from './hardwareManager.js';
-import { sessionManager } from './sessionManager.js';
+import { sessionManager, type ShutdownMode } from './sessionManager.js';
 import { networkManager } from './networkManager.js';
 import { initializeAdminCredentials } from './middleware/auth.js';
+import { closeEventStreams } from './utils/eventStreams.js';
 import path from 'path';
 import fs from 'fs';
 
@@ -21,6 +22,9 @@ if (!fs.existsSync(dataDir)) {
  */
 const PORT = process.env.PORT || 3001;
 
+// Paid sessions survive a restart unless SHUTDOWN_SESSIONS=end
+const SHUTDOWN_MODE: ShutdownMode = process.env.SHUTDOWN_SESSIONS === 'end' ? 'end' : 'freeze';
+
 // Initialize PISOWIFI system
 async function initializePisoWiFi() {
   try {
@@ -43,6 +47,10 @@ async function initializePisoWiFi() {
       // Handle coin detection - this could trigger session creation
       // For now, we'll just log it
     });
+
+    // Close the coin slot while the WAN is down
+    hardwareManager.watchInternet(() => networkManager.checkInternetConnection());
+    hardwareManager.watchCaptivePortal(() => networkManager.isCaptivePortalActive());
     
     // Ensure captive portal rules are enabled
     try {
@@ -81,6 +89,7 @@ async function initializePisoWiFi() {
       console.warn('Hotspot autostart failed:', e instanceof Error ? e.message : e);
     }
     
+    hardwareManager.markReady();
     console.log('✓ PisoWiFi system initialized successfully');
   } catch (error) {
     console.error('Failed to initialize PisoWiFi system:', error);
@@ -97,20 +106,24 @@ initializePisoWiFi().then(() => {
   });
 
   // Graceful shutdown
-  process.on('SIGTERM', () => {
+  process.on('SIGTERM', async () => {
     console.log('SIGTERM signal received');
-    sessionManager.cleanup();
+    await sessionManager.cleanup(SHUTDOWN_MODE);
     hardwareManager.cleanup();
+    // Open event streams would keep server.close() waiting
+    closeEventStreams();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
     });
   });
 
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     console.log('SIGINT signal received');
-    sessionManager.cleanup();
+    await sessionManager.cleanup(SHUTDOWN_MODE);
     hardwareManager.cleanup();
+    // Open event streams would keep server.close() waiting
+    closeEventStreams();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
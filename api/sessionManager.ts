@@ -1,7 +1,15 @@
 import { networkManager } from './networkManager.js';
-import { addSession, updateSession, removeSession, getActiveSessions, cleanupExpiredSessions, getSessions, getSettings, getDB } from './database.js';
+import { addSession, updateSession, removeSession, getActiveSessions, cleanupExpiredSessions, getSessions, getDB, getRevenue, getSettings, recordSessionHistory, recordSessionEvent, recordClockCorrection, type SessionType, type PauseReason, type SessionEventType, type SessionEventContext } from './database.js';
+import { pesosToMinutes, quoteDataPesos } from './pricing.js';
+import { PresenceTracker, resolveAutoPause, autoPauseApplies, type Sightings } from './presence.js';
+import { resolvePauseLimits, getPauseAllowance, pausedSessionAction, secondsUntilPauseAction, type PauseAllowance, type PauseLimits } from './pausePolicy.js';
+import { DeadlineScheduler } from './deadlineScheduler.js';
+import { sessionNotifications, resolveExpiryWarnings, nextWarningMinutes, type SessionNotice, type SessionNoticeType } from './sessionNotifications.js';
+import { ClockJumpDetector, readNtpSynchronized, describeClockJump, type ClockCorrection } from './clockGuard.js';
 
 export interface UserSession {
+  // Database ID; a device gets a new one for every session
+  id: number;
   macAddress: string;
   ipAddress?: string;
   startTime: Date;
@@ -12,6 +20,12 @@ export interface UserSession {
   paused?: boolean;
   pausedAt?: Date;
   pausedDuration?: number;
+  pauseReason?: PauseReason | null;
+  pauseCount?: number;
+  awayPausedDuration?: number;
+  sessionType?: SessionType;
+  quotaBytes?: number | null;
+  usedBytes?: number;
 }
 
 export interface SessionStats {
@@ -21,14 +35,38 @@ export interface SessionStats {
   averageSessionDuration: number;
 }
 
+// On shutdown, 'freeze' keeps paid sessions for the next start; 'end' finishes them
+export type ShutdownMode = 'freeze' | 'end';
+
+const USAGE_POLL_INTERVAL_MS = 10000;
+const PRESENCE_POLL_INTERVAL_MS = 30000;
+const CLOCK_CHECK_INTERVAL_MS = 10000;
+
+// Session events the customer is told about on the portal
+const NOTICE_EVENTS: SessionEventType[] = ['paused', 'resumed', 'extended', 'expired', 'ended'];
+
+// Default event sources: the customer on the portal, and the server's own timers
+const CUSTOMER: SessionEventContext = { source: 'portal' };
+const SYSTEM: SessionEventContext = { source: 'system' };
+
 export class SessionManager {
   private activeSessions: Map<string, UserSession> = new Map();
   private ipToMacMap: Map<string, string> = new Map(); // Fallback for IP-based lookup
-  private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Expiry, next expiry warning and pause-limit deadlines, keyed "<kind>:<mac>"
+  private deadlines: DeadlineScheduler;
   private cleanupInterval: NodeJS.Timeout | null = null;
-
-  constructor() {
+  private usageInterval: NodeJS.Timeout | null = null;
+  // Last counter reading per MAC, so each poll only adds the new bytes
+  private usageBaselines: Map<string, { ipAddress?: string; lastCounter: number }> = new Map();
+  private presenceInterval: NodeJS.Timeout | null = null;
+  private presence = new PresenceTracker();
+  private clockInterval: NodeJS.Timeout | null = null;
+  private clockJumps = new ClockJumpDetector();
+  private ntpSynchronized: boolean | null = null;
+
+  constructor(deadlines: DeadlineScheduler = new DeadlineScheduler()) {
     // Initialization is now called explicitly from server.ts
+    this.deadlines = deadlines;
   }
 
   public async initialize(): Promise<void> {
@@ -54,33 +92,39 @@ export class SessionManager {
       };
       
       const now = new Date();
-      
-      // Handle paused sessions - keep them paused and don't auto-resume
-      if (userSession.paused && userSession.pausedAt) {
+
+      if (typeof session.remainingSeconds === 'number') {
+        // Only the time the box ran counts; the clock may be wrong this early after boot
+        this.recoverFromCheckpoint(userSession, session.remainingSeconds, session.checkpointAt, now);
+      } else if (userSession.paused && userSession.pausedAt) {
+        // Handle paused sessions - keep them paused and don't auto-resume
         console.log(`Session for ${normalizedMac} is paused. Keeping paused state.`);
         // Don't auto-resume - just update the pause duration to account for server downtime
         const pauseDuration = Math.floor((now.getTime() - userSession.pausedAt.getTime()) / 1000);
-        userSession.pausedDuration = (userSession.pausedDuration || 0) + pauseDuration;
+        this.addPausedTime(userSession, pauseDuration);
         userSession.pausedAt = now; // Reset pause time to now to prevent accumulating pause duration
         
         // Update database to reflect the updated pause duration but keep paused state
-        updateSession(normalizedMac, {
+        updateSession(userSession.id, {
           pausedDuration: userSession.pausedDuration,
+          awayPausedDuration: userSession.awayPausedDuration || 0,
           pausedAt: now.toISOString()
         });
       }
       
-      if (userSession.endTime <= now) {
+      if (!userSession.paused && userSession.endTime <= now) {
          // Session expired while down
          console.log(`Session for ${normalizedMac} expired during downtime (Expired: ${userSession.endTime.toISOString()})`);
          // Ensure it's marked inactive in DB
-         updateSession(normalizedMac, { active: false });
+         updateSession(userSession.id, { active: false });
+         this.logEvent(userSession, 'expired', { ...SYSTEM, note: 'Expired while the server was down' });
          expiredCount++;
          continue;
       }
 
       // Restore active session
       await this.syncSessionState(userSession);
+      this.logEvent(userSession, 'restored', SYSTEM);
       restoredCount++;
       console.log(`Restored active session for ${normalizedMac} (Expires: ${userSession.endTime.toISOString()})`);
     }
@@ -89,8 +133,26 @@ export class SessionManager {
     this.cleanupInterval = setInterval(() => {
       this.performCleanup();
       this.verifySessionConsistency();
+      this.checkpointSessions();
+      this.refreshNtpState();
     }, 60000); // Clean up every minute
 
+    // First check only records the reference point
+    this.checkClock();
+    this.refreshNtpState();
+    this.clockInterval = setInterval(() => {
+      this.checkClock();
+    }, CLOCK_CHECK_INTERVAL_MS);
+
+    // Poll traffic counters often enough that data plans do not overrun much
+    this.usageInterval = setInterval(() => {
+      this.checkDataUsage();
+    }, USAGE_POLL_INTERVAL_MS);
+
+    this.presenceInterval = setInterval(() => {
+      this.checkPresence();
+    }, PRESENCE_POLL_INTERVAL_MS);
+
     console.log(`Session Recovery Complete: ${restoredCount} restored, ${expiredCount} expired/cleaned.`);
   }
 
@@ -100,7 +162,7 @@ export class SessionManager {
   private async verifySessionConsistency(): Promise<void> {
     try {
       const dbSessions = getActiveSessions();
-      const dbSessionMap = new Map(dbSessions.map(s => [s.macAddress.replace(/-/g, ':').toLowerCase(), s]));
+      const dbSessionIds = new Set(dbSessions.map(s => s.id));
       const now = new Date();
 
       // 1. DB -> Memory Sync (Restore missing)
@@ -125,9 +187,9 @@ export class SessionManager {
 
       // 2. Memory -> DB Sync (Detect ghosts)
       for (const [mac, memSession] of this.activeSessions) {
-        if (!dbSessionMap.has(mac)) {
+        if (!dbSessionIds.has(memSession.id)) {
            console.warn(`[Consistency Check] FOUND INCONSISTENCY: Session for ${mac} in memory but not active in DB. Ending session...`);
-           await this.endSession(mac);
+           await this.endSession(mac, { ...SYSTEM, note: 'Session row was missing from the database' });
         }
       }
     } catch (error) {
@@ -160,15 +222,15 @@ export class SessionManager {
   }
 
   // Synchronous DB update only - safe for transactions
-  startSessionDB(macAddress: string, pesos: number, ipAddress?: string): UserSession {
+  startSessionDB(macAddress: string, pesos: number, ipAddress?: string, context: SessionEventContext = CUSTOMER): UserSession {
       const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
       // Calculate session duration based on pesos
       const minutes = this.calculateSessionDuration(pesos);
       const startTime = new Date();
       const endTime = new Date(startTime.getTime() + minutes * 60000); // Add minutes in milliseconds
 
-      // Create session object
-      const session: UserSession = {
+      // Add to database
+      const session = this.insertSession({
         macAddress: normalizedMac,
         ipAddress,
         startTime,
@@ -178,19 +240,148 @@ export class SessionManager {
         active: true,
         paused: false,
         pausedDuration: 0
-      };
-
-      // Add to database
-      addSession({
-        ...session,
-        startTime: session.startTime.toISOString(),
-        endTime: session.endTime.toISOString(),
-        pausedAt: null
       });
+      this.logEvent(session, 'started', { ...context, pesos }, minutes);
       
       return session;
   }
   
+  // Synchronous DB update only - data plan variant of startSessionDB
+  startDataSessionDB(macAddress: string, pesos: number, ipAddress?: string, context: SessionEventContext = CUSTOMER): UserSession {
+      const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
+      const quote = quoteDataPesos(pesos);
+      if (quote.quotaBytes <= 0) {
+        throw new Error('No data plan available for this amount');
+      }
+
+      // Data plans also expire after their validity window
+      const startTime = new Date();
+      const endTime = new Date(startTime.getTime() + quote.validityMinutes * 60000);
+
+      const session = this.insertSession({
+        macAddress: normalizedMac,
+        ipAddress,
+        startTime,
+        endTime,
+        pesos,
+        minutes: quote.validityMinutes,
+        active: true,
+        paused: false,
+        pausedDuration: 0,
+        sessionType: 'data',
+        quotaBytes: quote.quotaBytes,
+        usedBytes: 0
+      });
+      this.logEvent(session, 'started', { ...context, pesos, note: context.note || `${Math.round(quote.quotaBytes / 1048576)} MB data plan` }, quote.validityMinutes);
+
+      return session;
+  }
+
+  // Adds the row and returns the session with its new ID
+  private insertSession(session: Omit<UserSession, 'id'>): UserSession {
+    const id = addSession({
+      ...session,
+      startTime: session.startTime.toISOString(),
+      endTime: session.endTime.toISOString(),
+      pausedAt: null,
+      remainingSeconds: Math.floor((session.endTime.getTime() - session.startTime.getTime()) / 1000),
+      checkpointAt: session.startTime.toISOString()
+    });
+    return { ...session, id };
+  }
+
+  // Rebuild a session's times from its last checkpoint, counting none of the downtime
+  private recoverFromCheckpoint(session: UserSession, remainingSeconds: number, checkpointAt: string | null | undefined, now: Date): void {
+    if (session.paused && session.pausedAt) {
+      // The current pause lasted until the checkpoint
+      const pausedUntil = checkpointAt ? new Date(checkpointAt).getTime() : session.pausedAt.getTime();
+      this.addPausedTime(session, Math.max(0, Math.floor((pausedUntil - session.pausedAt.getTime()) / 1000)));
+      session.pausedAt = now;
+    }
+    session.endTime = new Date(now.getTime() + remainingSeconds * 1000);
+
+    updateSession(session.id, {
+      endTime: session.endTime.toISOString(),
+      pausedAt: session.pausedAt ? session.pausedAt.toISOString() : null,
+      pausedDuration: session.pausedDuration,
+      awayPausedDuration: session.awayPausedDuration || 0,
+      ...this.checkpointFields(session, now)
+    });
+  }
+
+  // Time left is stored alongside every change to a session's times
+  private checkpointFields(session: UserSession, now: Date = new Date()): { remainingSeconds: number; checkpointAt: string } {
+    return { remainingSeconds: this.remainingSecondsAt(session, now), checkpointAt: now.toISOString() };
+  }
+
+  private remainingSecondsAt(session: UserSession, now: Date): number {
+    // A paused session keeps the time it had when it was paused
+    const from = session.paused && session.pausedAt ? session.pausedAt : now;
+    return Math.max(0, Math.floor((session.endTime.getTime() - from.getTime()) / 1000));
+  }
+
+  private checkpointSessions(now: Date = new Date()): void {
+    try {
+      for (const session of this.activeSessions.values()) {
+        updateSession(session.id, this.checkpointFields(session, now));
+      }
+    } catch (error) {
+      console.error('Error checkpointing sessions:', error);
+    }
+  }
+
+  /**
+   * Looks for a wall clock jump since the previous check. Running and paused
+   * sessions move with the clock so their remaining time is unchanged, and
+   * the correction is kept for the admin. Times are passed in so tests can
+   * jump the clock.
+   */
+  public checkClock(wall: number = Date.now(), monotonic: number = performance.now()): ClockCorrection | null {
+    const jump = this.clockJumps.check(wall, monotonic);
+    if (jump === null) return null;
+
+    const now = new Date(wall);
+    for (const session of this.activeSessions.values()) {
+      session.startTime = new Date(session.startTime.getTime() + jump);
+      session.endTime = new Date(session.endTime.getTime() + jump);
+      if (session.pausedAt) {
+        session.pausedAt = new Date(session.pausedAt.getTime() + jump);
+      }
+      updateSession(session.id, {
+        startTime: session.startTime.toISOString(),
+        endTime: session.endTime.toISOString(),
+        pausedAt: session.pausedAt ? session.pausedAt.toISOString() : null,
+        ...this.checkpointFields(session, now)
+      });
+      this.scheduleDeadlines(session);
+    }
+
+    const correction: ClockCorrection = {
+      detectedAt: now.toISOString(),
+      jumpSeconds: Math.round(jump / 1000),
+      ntpSynchronized: this.ntpSynchronized,
+      sessionsAdjusted: this.activeSessions.size,
+      acknowledgedAt: null,
+      acknowledgedBy: null
+    };
+    recordClockCorrection(correction);
+    console.warn(`⏰ ${describeClockJump(correction.jumpSeconds)}; moved ${correction.sessionsAdjusted} session(s) with it`);
+    return correction;
+  }
+
+  private async refreshNtpState(): Promise<void> {
+    const synchronized = await readNtpSynchronized();
+    if (synchronized && this.ntpSynchronized === false) {
+      console.log('⏰ Clock synchronized with NTP');
+    }
+    this.ntpSynchronized = synchronized;
+  }
+
+  // Null when the NTP state could not be read
+  getClockStatus(): { ntpSynchronized: boolean | null } {
+    return { ntpSynchronized: this.ntpSynchronized };
+  }
+
   // Update in-memory state and network access
   async syncSessionState(session: UserSession): Promise<void> {
       const normalizedMac = session.macAddress;
@@ -201,6 +392,8 @@ export class SessionManager {
         this.ipToMacMap.set(session.ipAddress, normalizedMac);
       }
 
+      await this.ensureUsageAccounting(session);
+
       // Handle paused sessions - don't allow internet access
       if (session.paused) {
         console.log(`Session ${normalizedMac} is paused, blocking internet access`);
@@ -209,7 +402,8 @@ export class SessionManager {
         } catch (e) {
           console.error(`Failed to block network access for paused session ${normalizedMac}:`, e);
         }
-        return; // Don't schedule expiration for paused sessions
+        this.scheduleDeadlines(session); // Only the pause limits, a paused session does not expire
+        return;
       }
 
       // Allow internet access for active sessions
@@ -228,12 +422,12 @@ export class SessionManager {
       }
 
       // Schedule session expiration
-      this.scheduleSessionExpiration(normalizedMac, session.endTime);
+      this.scheduleDeadlines(session);
   }
 
-  async startSession(macAddress: string, pesos: number, ipAddress?: string): Promise<UserSession> {
+  async startSession(macAddress: string, pesos: number, ipAddress?: string, context: SessionEventContext = CUSTOMER): Promise<UserSession> {
     try {
-      const session = this.startSessionDB(macAddress, pesos, ipAddress);
+      const session = this.startSessionDB(macAddress, pesos, ipAddress, context);
       
       await this.syncSessionState(session);
 
@@ -246,7 +440,22 @@ export class SessionManager {
     }
   }
 
-  async startTimedSession(macAddress: string, minutes: number): Promise<UserSession> {
+  async startDataSession(macAddress: string, pesos: number, ipAddress?: string, context: SessionEventContext = CUSTOMER): Promise<UserSession> {
+    try {
+      const session = this.startDataSessionDB(macAddress, pesos, ipAddress, context);
+
+      await this.syncSessionState(session);
+
+      console.log(`Data session started for ${session.macAddress} (IP: ${ipAddress || 'unknown'}): ${pesos} pesos = ${Math.round((session.quotaBytes || 0) / 1048576)} MB`);
+
+      return session;
+    } catch (error) {
+      console.error('Error starting data session:', error);
+      throw error;
+    }
+  }
+
+  async startTimedSession(macAddress: string, minutes: number, context: SessionEventContext = { source: 'admin' }): Promise<UserSession> {
     try {
       if (typeof minutes !== 'number' || minutes <= 0) {
         throw new Error('minutes must be a positive number');
@@ -254,7 +463,7 @@ export class SessionManager {
       const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
       const now = new Date();
       const endTime = new Date(now.getTime() + minutes * 60000);
-      const session: UserSession = {
+      const session = this.insertSession({
         macAddress: normalizedMac,
         startTime: now,
         endTime,
@@ -263,13 +472,8 @@ export class SessionManager {
         active: true,
         paused: false,
         pausedDuration: 0
-      };
-      addSession({
-        ...session,
-        startTime: session.startTime.toISOString(),
-        endTime: session.endTime.toISOString(),
-        pausedAt: null
       });
+      this.logEvent(session, 'started', context, minutes);
       
       await this.syncSessionState(session);
       
@@ -281,29 +485,66 @@ export class SessionManager {
     }
   }
 
-  async endSession(macAddress: string): Promise<void> {
+  async endSession(macAddress: string, context: SessionEventContext = SYSTEM): Promise<void> {
+    return this.finishSession(macAddress, 'ended', context);
+  }
+
+  // Returns how many sessions were ended
+  async endAllSessions(context: SessionEventContext = SYSTEM): Promise<number> {
+    const macAddresses = [...this.activeSessions.keys()];
+    for (const macAddress of macAddresses) {
+      await this.endSession(macAddress, context);
+    }
+    return macAddresses.length;
+  }
+
+  private async expireSession(macAddress: string, note?: string): Promise<void> {
+    return this.finishSession(macAddress, 'expired', { ...SYSTEM, note });
+  }
+
+  private async finishSession(macAddress: string, type: SessionEventType, context: SessionEventContext): Promise<void> {
     try {
       const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
       const session = this.activeSessions.get(normalizedMac);
       
       // Even if not in memory, ensure DB is updated
-      updateSession(normalizedMac, { active: false });
+      const ids = session ? [session.id] : getActiveSessions()
+        .filter(row => row.macAddress.replace(/-/g, ':').toLowerCase() === normalizedMac)
+        .map(row => row.id);
+      for (const id of ids) {
+        updateSession(id, { active: false });
+      }
 
       if (session) {
          session.active = false;
          this.activeSessions.delete(normalizedMac);
+
+         const endedAt = new Date();
+         const openPauseSeconds = session.paused && session.pausedAt ? (endedAt.getTime() - session.pausedAt.getTime()) / 1000 : 0;
+         const connectedSeconds = (endedAt.getTime() - session.startTime.getTime()) / 1000 - (session.pausedDuration || 0) - openPauseSeconds;
+         const durationMinutes = Math.max(0, Math.round(connectedSeconds / 6) / 10);
+         recordSessionHistory({
+           macAddress: normalizedMac,
+           sessionType: session.sessionType || 'time',
+           startTime: session.startTime.toISOString(),
+           endedAt: endedAt.toISOString(),
+           pesos: session.pesos,
+           minutes: session.minutes,
+           durationMinutes,
+           usedBytes: session.usedBytes || 0
+         });
+         this.logEvent(session, type, context, durationMinutes);
       }
 
       // Cancel expiration timer
-      const timer = this.sessionTimers.get(normalizedMac);
-      if (timer) {
-        clearTimeout(timer);
-        this.sessionTimers.delete(normalizedMac);
-      }
+      this.clearDeadlines(normalizedMac);
 
       // Block internet access
       await networkManager.blockMACAddress(normalizedMac);
 
+      this.usageBaselines.delete(normalizedMac);
+      await networkManager.stopUsageAccounting(normalizedMac);
+
       console.log(`Session ended for ${normalizedMac}`);
     } catch (error) {
       console.error('Error ending session:', error);
@@ -311,47 +552,99 @@ export class SessionManager {
     }
   }
 
-  private calculateSessionDuration(pesos: number): number {
-    // Get rates configuration from database
-    const { rates } = getSettings();
-    
-    // Find matching rate or use default calculation
-    const rate = rates.rates.find((r: any) => r.pesos === pesos);
-    if (rate) {
-      return rate.minutes;
+  // The history is best effort; a failed write must not stop the session change itself
+  private logEvent(session: UserSession, type: SessionEventType, context: SessionEventContext, minutes: number = 0): void {
+    try {
+      recordSessionEvent({
+        sessionId: session.id,
+        macAddress: session.macAddress,
+        type,
+        source: context.source,
+        pesos: context.pesos || 0,
+        minutes,
+        endTime: session.endTime.toISOString(),
+        actor: context.actor || null,
+        note: context.note || null
+      });
+    } catch (error) {
+      console.error('Error recording session event:', error);
+    }
+    if (NOTICE_EVENTS.includes(type)) {
+      this.notify(session, type as SessionNoticeType);
     }
+  }
 
-    // Default calculation: 1 peso = 30 minutes
-    return pesos * rates.timePerPeso;
+  private notify(session: UserSession, type: SessionNoticeType, minutesLeft?: number): void {
+    const notice: SessionNotice = {
+      type,
+      sessionId: session.id,
+      macAddress: session.macAddress,
+      endTime: session.endTime.toISOString(),
+      secondsLeft: type === 'expired' || type === 'ended' ? 0 : this.remainingSecondsAt(session, new Date()),
+      minutesLeft
+    };
+    sessionNotifications.emit('notice', notice);
+  }
+
+  private calculateSessionDuration(pesos: number): number {
+    // Tiers, schedules and promos are all resolved by the pricing engine
+    return pesosToMinutes(pesos);
   }
 
-  private scheduleSessionExpiration(macAddress: string, endTime: Date): void {
-    const now = new Date();
-    const timeUntilExpiration = endTime.getTime() - now.getTime();
+  // Replace a session's deadlines: expiry and its warnings while running, the pause limits while paused
+  private scheduleDeadlines(session: UserSession): void {
+    const macAddress = session.macAddress;
+    this.clearDeadlines(macAddress);
 
-    // Clear existing timer if any
-    if (this.sessionTimers.has(macAddress)) {
-        clearTimeout(this.sessionTimers.get(macAddress));
+    if (session.paused && session.pausedAt) {
+      const wait = secondsUntilPauseAction(this.pauseLimitsFor(session), this.pauseUsage(session));
+      if (wait !== null) {
+        this.deadlines.schedule(`pause:${macAddress}`, wait * 1000, () => this.enforcePauseLimits());
+      }
+      return;
     }
 
-    if (timeUntilExpiration <= 0) {
+    if (session.endTime.getTime() <= Date.now()) {
       // Session already expired
-      this.endSession(macAddress);
+      this.expireSession(macAddress);
       return;
     }
 
-    // Schedule session expiration
-    const timer = setTimeout(() => {
-      this.endSession(macAddress);
-    }, timeUntilExpiration);
+    this.deadlines.scheduleAt(`expire:${macAddress}`, session.endTime, () => this.expireSession(macAddress));
+    this.scheduleWarning(session);
+  }
+
+  // Only the next warning is scheduled; each one schedules the one after it
+  private scheduleWarning(session: UserSession, below?: number): void {
+    const settings = resolveExpiryWarnings(getSettings().rates.expiryWarnings);
+    const minutes = nextWarningMinutes(settings, this.remainingSecondsAt(session, new Date()), below);
+    if (minutes === null) return;
+    const warnAt = new Date(session.endTime.getTime() - minutes * 60000);
+    this.deadlines.scheduleAt(`warn:${session.macAddress}`, warnAt, () => this.warnExpiring(session.macAddress, minutes));
+  }
 
-    this.sessionTimers.set(macAddress, timer);
+  private clearDeadlines(macAddress: string): void {
+    for (const kind of ['expire', 'warn', 'pause']) {
+      this.deadlines.cancel(`${kind}:${macAddress}`);
+    }
+  }
+
+  private warnExpiring(macAddress: string, minutes: number): void {
+    const session = this.activeSessions.get(macAddress);
+    if (!session || session.paused) return;
+    this.notify(session, 'expiring', minutes);
+    this.scheduleWarning(session, minutes);
   }
 
   getSession(macAddress: string): UserSession | undefined {
     return this.activeSessions.get(macAddress.replace(/-/g, ':').toLowerCase());
   }
 
+  // Active session with this ID; older sessions are only in the database
+  getSessionById(id: number): UserSession | undefined {
+    return Array.from(this.activeSessions.values()).find(session => session.id === id);
+  }
+
   isSessionActive(macAddress: string): boolean {
     const session = this.activeSessions.get(macAddress.replace(/-/g, ':').toLowerCase());
     return !!(session && session.active);
@@ -404,17 +697,10 @@ export class SessionManager {
       return 0;
     }
 
-    // If session is paused, return the time remaining when it was paused
-    if (session.paused) {
-      return Math.max(0, Math.floor((session.endTime.getTime() - session.pausedAt!.getTime()) / 1000));
-    }
-
-    const now = new Date();
-    const timeRemaining = session.endTime.getTime() - now.getTime();
-    return Math.max(0, Math.floor(timeRemaining / 1000)); // Return seconds
+    return this.remainingSecondsAt(session, new Date()); // Return seconds
   }
 
-  extendSessionDB(macAddress: string, additionalMinutes: number): UserSession {
+  extendSessionDB(macAddress: string, additionalMinutes: number, context: SessionEventContext = CUSTOMER): UserSession {
     const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
     
     const session = this.activeSessions.get(normalizedMac);
@@ -427,20 +713,156 @@ export class SessionManager {
     const newMinutes = session.minutes + additionalMinutes;
 
     // Update database
-    updateSession(normalizedMac, {
+    updateSession(session.id, {
       endTime: newEndTime.toISOString(),
-      minutes: newMinutes
+      minutes: newMinutes,
+      ...this.checkpointFields({ ...session, endTime: newEndTime })
     });
     
     // Return updated session object (copy)
-    return {
+    const updated = {
         ...session,
         endTime: newEndTime,
         minutes: newMinutes
     };
+    this.logEvent(updated, 'extended', context, additionalMinutes);
+    return updated;
   }
 
-  async extendSession(macAddress: string, additionalMinutes: number): Promise<void> {
+  extendDataSessionDB(macAddress: string, pesos: number, context: SessionEventContext = CUSTOMER): UserSession {
+    const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
+
+    const session = this.activeSessions.get(normalizedMac);
+    if (!session || !session.active) {
+      throw new Error('Session not found or inactive');
+    }
+    if (session.sessionType !== 'data') {
+      throw new Error('Session is not a data plan');
+    }
+
+    const quote = quoteDataPesos(pesos);
+    if (quote.quotaBytes <= 0) {
+      throw new Error('No data plan available for this amount');
+    }
+
+    // Top up the quota and restart the validity window if it would be shorter
+    const newQuota = (session.quotaBytes || 0) + quote.quotaBytes;
+    const validUntil = Date.now() + quote.validityMinutes * 60000;
+    const newEndTime = new Date(Math.max(session.endTime.getTime(), validUntil));
+
+    updateSession(session.id, {
+      quotaBytes: newQuota,
+      endTime: newEndTime.toISOString(),
+      ...this.checkpointFields({ ...session, endTime: newEndTime })
+    });
+
+    const updated = {
+      ...session,
+      quotaBytes: newQuota,
+      endTime: newEndTime
+    };
+    this.logEvent(updated, 'extended', { ...context, pesos, note: context.note || `+${Math.round(quote.quotaBytes / 1048576)} MB` });
+    return updated;
+  }
+
+  async extendDataSession(macAddress: string, pesos: number, context: SessionEventContext = CUSTOMER): Promise<void> {
+    const updatedSession = this.extendDataSessionDB(macAddress, pesos, context);
+
+    await this.syncSessionState(updatedSession);
+
+    console.log(`Data session topped up for ${updatedSession.macAddress}: ${pesos} pesos, quota now ${updatedSession.quotaBytes} bytes`);
+  }
+
+  // Bytes left on a data plan, or null for time-based sessions
+  getSessionDataRemaining(macAddress: string): number | null {
+    const session = this.activeSessions.get(macAddress.replace(/-/g, ':').toLowerCase());
+    if (!session || session.sessionType !== 'data') {
+      return null;
+    }
+    return Math.max(0, (session.quotaBytes || 0) - (session.usedBytes || 0));
+  }
+
+  // (Re)create the traffic counters for a client when first seen or its IP changes
+  private async ensureUsageAccounting(session: UserSession): Promise<void> {
+    const baseline = this.usageBaselines.get(session.macAddress);
+    if (baseline && baseline.ipAddress === session.ipAddress) return;
+
+    // Recreating the rules resets the counters to zero
+    this.usageBaselines.set(session.macAddress, { ipAddress: session.ipAddress, lastCounter: 0 });
+    await networkManager.startUsageAccounting(session.macAddress, session.ipAddress);
+  }
+
+  // Add new traffic to each session and end data plans that used up their quota
+  private async checkDataUsage(): Promise<void> {
+    if (this.usageBaselines.size === 0) return;
+
+    try {
+      const counters = await networkManager.getUsageCounters();
+
+      for (const [macAddress, baseline] of this.usageBaselines) {
+        const session = this.activeSessions.get(macAddress);
+        if (!session) continue;
+
+        const current = counters.get(macAddress)?.totalBytes || 0;
+        const delta = current >= baseline.lastCounter ? current - baseline.lastCounter : current;
+        baseline.lastCounter = current;
+        if (delta === 0 || session.paused) continue;
+
+        session.usedBytes = (session.usedBytes || 0) + delta;
+        updateSession(session.id, { usedBytes: session.usedBytes });
+
+        if (session.sessionType === 'data' && session.quotaBytes && session.usedBytes >= session.quotaBytes) {
+          console.log(`Data quota used up for ${macAddress} (${session.usedBytes}/${session.quotaBytes} bytes), ending session`);
+          await this.expireSession(macAddress, 'Data quota used up');
+        }
+      }
+    } catch (error) {
+      console.error('Error checking data usage:', error);
+    }
+  }
+
+  // Pause sessions of devices that left the hotspot, on plans with auto-pause
+  private async checkPresence(): Promise<void> {
+    const settings = resolveAutoPause(getSettings().rates.autoPause);
+    if (this.activeSessions.size === 0 || (!settings.time && !settings.data)) return;
+
+    try {
+      const sightings = await networkManager.getClientSightings();
+      // Without a presence source every device would look gone
+      if (sightings) {
+        await this.applyPresence(sightings);
+      }
+    } catch (error) {
+      console.error('Error checking client presence:', error);
+    }
+  }
+
+  async applyPresence(sightings: Sightings, at: Date = new Date()): Promise<void> {
+    const settings = resolveAutoPause(getSettings().rates.autoPause);
+    this.presence.retain(new Set(this.activeSessions.keys()));
+
+    for (const session of Array.from(this.activeSessions.values())) {
+      if (!autoPauseApplies(settings, session.sessionType)) continue;
+      const macAddress = session.macAddress;
+      const absentMs = this.presence.observe(macAddress, sightings.get(macAddress), at.getTime());
+      const away = absentMs >= settings.absenceMinutes * 60000;
+
+      try {
+        // Only a sighting after the pause brings the device back under the limit
+        if (!away && session.paused && session.pauseReason === 'away') {
+          await this.resumeSession(macAddress, SYSTEM);
+        } else if (!session.paused && away) {
+          // Time away before the pause is given back on resume
+          const lastSeen = Math.max(this.presence.getLastSeen(macAddress)!, session.startTime.getTime());
+          await this.pauseSession(macAddress, { ...SYSTEM, note: 'Device left the hotspot' }, 'away', new Date(lastSeen));
+        }
+      } catch (error) {
+        console.error(`Error applying auto-pause for ${macAddress}:`, error);
+      }
+    }
+  }
+
+  async extendSession(macAddress: string, additionalMinutes: number, context: SessionEventContext = CUSTOMER): Promise<void> {
     const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
     
     // Check existence first
@@ -449,7 +871,7 @@ export class SessionManager {
       throw new Error('Session not found or inactive');
     }
 
-    const updatedSession = this.extendSessionDB(normalizedMac, additionalMinutes);
+    const updatedSession = this.extendSessionDB(normalizedMac, additionalMinutes, context);
     
     await this.syncSessionState(updatedSession);
 
@@ -458,37 +880,102 @@ export class SessionManager {
 
   private async performCleanup(): Promise<void> {
     try {
+      // A jump the clock check has not seen yet would otherwise expire sessions by the wrong time
+      this.checkClock();
+
       // Clean up expired sessions from database
       cleanupExpiredSessions();
 
-      // Clean up expired sessions from memory
+      // Backup for the deadline scheduler, e.g. after the pause limits were changed
       const now = new Date();
       const expiredSessions: string[] = [];
 
+      // Paused sessions keep their time; the pause limits decide when they stop
       for (const [macAddress, session] of this.activeSessions) {
-        if (session.endTime <= now) {
+        if (!session.paused && session.endTime <= now) {
           expiredSessions.push(macAddress);
         }
       }
 
       // End expired sessions
       for (const macAddress of expiredSessions) {
-        await this.endSession(macAddress);
+        await this.expireSession(macAddress);
       }
 
       if (expiredSessions.length > 0) {
         console.log(`Cleaned up ${expiredSessions.length} expired sessions`);
       }
+
+      await this.enforcePauseLimits(now);
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
   }
 
+  // Resume or end sessions that have been paused for too long
+  async enforcePauseLimits(now: Date = new Date()): Promise<void> {
+    for (const session of Array.from(this.activeSessions.values())) {
+      if (!session.paused || !session.pausedAt) continue;
+      const decision = pausedSessionAction(this.pauseLimitsFor(session), this.pauseUsage(session, now.getTime()));
+      if (!decision) continue;
+
+      try {
+        console.log(`Pause limit reached for ${session.macAddress} (${decision.note}), ${decision.action === 'resume' ? 'resuming' : 'ending'} session`);
+        if (decision.action === 'resume') {
+          await this.resumeSession(session.macAddress, { ...SYSTEM, note: decision.note });
+        } else {
+          await this.expireSession(session.macAddress, decision.note);
+        }
+      } catch (error) {
+        console.error(`Error enforcing pause limits for ${session.macAddress}:`, error);
+      }
+    }
+  }
+
+  // Pauses left for a session under the current limits, or null without an active session
+  getPauseAllowance(macAddress: string): PauseAllowance | null {
+    const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
+    const session = this.activeSessions.get(normalizedMac);
+    if (!session || !session.active) return null;
+
+    return getPauseAllowance(resolvePauseLimits(getSettings().rates.pauseLimits), {
+      pauseCount: session.pauseCount || 0,
+      pausedSeconds: this.pauseUsage(session).pausedSeconds,
+      remainingSeconds: this.getSessionTimeRemaining(normalizedMac)
+    });
+  }
+
+  // Auto-pauses are not the customer's doing, so their time is left out of the
+  // pause allowance and only the long-pause expiry applies while one is running
+  private pauseLimitsFor(session: UserSession): PauseLimits {
+    const limits = resolvePauseLimits(getSettings().rates.pauseLimits);
+    return session.pauseReason === 'away' ? { ...limits, maxPausedMinutes: 0 } : limits;
+  }
+
+  private pauseUsage(session: UserSession, now: number = Date.now()): { pausedSeconds: number; currentPauseSeconds: number } {
+    const currentPauseSeconds = session.paused && session.pausedAt
+      ? Math.floor((now - session.pausedAt.getTime()) / 1000)
+      : 0;
+    const pausedSeconds = (session.pausedDuration || 0) - (session.awayPausedDuration || 0);
+    return {
+      pausedSeconds: pausedSeconds + (session.pauseReason === 'away' ? 0 : currentPauseSeconds),
+      currentPauseSeconds
+    };
+  }
+
+  // Adds a finished stretch of the current pause to the session's paused time
+  private addPausedTime(session: UserSession, seconds: number): void {
+    session.pausedDuration = (session.pausedDuration || 0) + seconds;
+    if (session.pauseReason === 'away') {
+      session.awayPausedDuration = (session.awayPausedDuration || 0) + seconds;
+    }
+  }
+
   getSessionStats(): SessionStats {
     const sessions = getActiveSessions();
     const totalSessions = sessions.length;
     const activeSessions = this.activeSessions.size;
-    const totalRevenue = sessions.reduce((sum, session) => sum + session.pesos, 0);
+    const totalRevenue = getRevenue();
     
     const completedSessions = sessions.filter(s => !s.active);
     const averageSessionDuration = completedSessions.length > 0 
@@ -511,17 +998,14 @@ export class SessionManager {
   }
 
   getTotalRevenue(): number {
-    const sessions = getSessions();
-    return sessions.reduce((sum: number, session: any) => sum + session.pesos, 0);
+    return getRevenue();
   }
 
+  // Cash taken on the given local calendar day
   getRevenueForDate(date: Date): number {
-    const sessions = getSessions();
-    const dateString = date.toISOString().split('T')[0];
-    
-    return sessions
-      .filter((session: any) => session.startTime.startsWith(dateString))
-      .reduce((sum: number, session: any) => sum + session.pesos, 0);
+    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    return getRevenue(dayStart.toISOString(), dayEnd.toISOString());
   }
 
   getActiveSessionsForDate(date: Date): number {
@@ -533,7 +1017,7 @@ export class SessionManager {
     ).length;
   }
 
-  async pauseSession(macAddress: string): Promise<void> {
+  async pauseSession(macAddress: string, context: SessionEventContext = CUSTOMER, reason: PauseReason = 'manual', since: Date = new Date()): Promise<void> {
     const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
     const session = this.activeSessions.get(normalizedMac);
     
@@ -549,26 +1033,37 @@ export class SessionManager {
       throw new Error('Session is already paused');
     }
 
+    // Admins and auto-pauses are not held to the pause limits
+    const limited = context.source !== 'admin' && reason !== 'away';
+    if (limited) {
+      const allowance = this.getPauseAllowance(normalizedMac);
+      if (allowance && !allowance.canPause) {
+        console.warn(`⚠️  Pause refused for MAC: ${normalizedMac}: ${allowance.reason}`);
+        throw new Error(allowance.reason || 'Pause not allowed');
+      }
+    }
+
     try {
       // Update session state
       session.paused = true;
-      session.pausedAt = new Date();
+      session.pausedAt = since;
       session.pausedDuration = session.pausedDuration || 0;
+      session.pauseReason = reason;
+      session.pauseCount = (session.pauseCount || 0) + (limited ? 1 : 0);
 
       // Update database
-      updateSession(normalizedMac, {
+      updateSession(session.id, {
         paused: true,
         pausedAt: session.pausedAt.toISOString(),
-        pausedDuration: session.pausedDuration
+        pausedDuration: session.pausedDuration,
+        pauseReason: reason,
+        pauseCount: session.pauseCount,
+        ...this.checkpointFields(session)
       });
 
-      // Cancel the existing timer since we're pausing
-      const timer = this.sessionTimers.get(normalizedMac);
-      if (timer) {
-        clearTimeout(timer);
-        this.sessionTimers.delete(normalizedMac);
-        console.log(`⏰ Cancelled session timer for MAC: ${normalizedMac}`);
-      }
+      // Expiry stops while paused; only the pause limits can end it now
+      this.scheduleDeadlines(session);
+      console.log(`⏰ Expiry stopped for paused MAC: ${normalizedMac}`);
 
       console.log(`🔒 Blocking internet access for MAC: ${normalizedMac}`);
       
@@ -582,6 +1077,7 @@ export class SessionManager {
         throw new Error('Failed to properly block MAC address - still showing as allowed');
       }
       
+      this.logEvent(session, 'paused', context);
       console.log(`✅ Session successfully paused for MAC: ${normalizedMac} at ${session.pausedAt.toISOString()}`);
       
     } catch (error) {
@@ -590,12 +1086,14 @@ export class SessionManager {
       // Rollback on failure
       session.paused = false;
       session.pausedAt = undefined;
+      session.pauseReason = null;
+      session.pauseCount = (session.pauseCount || 0) - (limited ? 1 : 0);
       
       throw new Error(`Failed to pause session: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async resumeSession(macAddress: string): Promise<void> {
+  async resumeSession(macAddress: string, context: SessionEventContext = CUSTOMER): Promise<void> {
     const normalizedMac = macAddress.replace(/-/g, ':').toLowerCase();
     const session = this.activeSessions.get(normalizedMac);
     
@@ -615,7 +1113,7 @@ export class SessionManager {
       // Calculate paused duration
       const now = new Date();
       const pauseDuration = Math.floor((now.getTime() - session.pausedAt.getTime()) / 1000); // in seconds
-      session.pausedDuration = (session.pausedDuration || 0) + pauseDuration;
+      this.addPausedTime(session, pauseDuration);
 
       // Extend session end time by the pause duration
       const additionalMs = pauseDuration * 1000;
@@ -624,13 +1122,17 @@ export class SessionManager {
       // Reset pause state
       session.paused = false;
       session.pausedAt = undefined;
+      session.pauseReason = null;
 
       // Update database
-      updateSession(normalizedMac, {
+      updateSession(session.id, {
         paused: false,
         pausedAt: null,
         pausedDuration: session.pausedDuration,
-        endTime: session.endTime.toISOString()
+        awayPausedDuration: session.awayPausedDuration || 0,
+        pauseReason: null,
+        endTime: session.endTime.toISOString(),
+        ...this.checkpointFields(session, now)
       });
 
       console.log(`🔓 Restoring internet access for MAC: ${normalizedMac}`);
@@ -646,7 +1148,8 @@ export class SessionManager {
       }
       
       // Reschedule session expiration
-      this.scheduleSessionExpiration(normalizedMac, session.endTime);
+      this.scheduleDeadlines(session);
+      this.logEvent(session, 'resumed', { ...context, note: context.note || `Paused for ${Math.round(pauseDuration / 6) / 10} minutes` });
 
       console.log(`✅ Session successfully resumed for MAC: ${normalizedMac}. Extended by ${pauseDuration} seconds. New end time: ${session.endTime.toISOString()}`);
       
@@ -661,24 +1164,40 @@ export class SessionManager {
     }
   }
 
-  cleanup(): void {
+  async cleanup(mode: ShutdownMode = 'freeze'): Promise<void> {
     // Clear cleanup interval
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    if (this.usageInterval) {
+      clearInterval(this.usageInterval);
+      this.usageInterval = null;
+    }
+    if (this.presenceInterval) {
+      clearInterval(this.presenceInterval);
+      this.presenceInterval = null;
+    }
+    if (this.clockInterval) {
+      clearInterval(this.clockInterval);
+      this.clockInterval = null;
+    }
 
     // Clear all session timers
-    for (const timer of this.sessionTimers.values()) {
-      clearTimeout(timer);
-    }
-    this.sessionTimers.clear();
+    this.deadlines.stop();
 
-    // End all active sessions
-    for (const macAddress of this.activeSessions.keys()) {
-      this.endSession(macAddress).catch(error => {
+    if (mode === 'end') {
+      // Finished before returning, so access is revoked before the process exits
+      try {
+        await this.endAllSessions({ ...SYSTEM, note: 'Server shutting down' });
+      } catch (error) {
         console.error(`Error ending session during cleanup: ${error}`);
-      });
+      }
+    } else {
+      // Rows stay active with their time left; initialize() picks them up and
+      // reapplies the allow rules, which are left in place until then
+      this.checkpointSessions();
+      console.log(`Froze ${this.activeSessions.size} session(s) for the next start`);
     }
 
     console.log('Session manager cleaned up');
@@ -0,0 +1,65 @@
+import { EventEmitter } from 'events';
+
+// Customers should not be cut off without notice. The portal listens for
+// these per device and shows them as they happen.
+
+export type SessionNoticeType = 'expiring' | 'paused' | 'resumed' | 'extended' | 'expired' | 'ended';
+
+export interface SessionNotice {
+  type: SessionNoticeType;
+  sessionId: number;
+  macAddress: string;
+  endTime: string;
+  secondsLeft: number;
+  // The warning threshold that was reached, for 'expiring'
+  minutesLeft?: number;
+}
+
+export interface ExpiryWarningSettings {
+  enabled: boolean;
+  // Minutes before the end to warn at
+  minutes: number[];
+}
+
+export const DEFAULT_EXPIRY_WARNINGS: ExpiryWarningSettings = {
+  enabled: true,
+  minutes: [5, 1]
+};
+
+export const MAX_EXPIRY_WARNINGS = 5;
+export const MAX_WARNING_MINUTES = 60;
+
+// Stored settings on top of the defaults
+export function resolveExpiryWarnings(stored?: Partial<ExpiryWarningSettings>): ExpiryWarningSettings {
+  return { ...DEFAULT_EXPIRY_WARNINGS, ...(stored || {}) };
+}
+
+// Returns an error message, or null when the settings are usable
+export function validateExpiryWarnings(input: Partial<ExpiryWarningSettings>): string | null {
+  if (typeof input.enabled !== 'boolean') {
+    return 'expiryWarnings enabled must be true or false';
+  }
+  const minutes = input.minutes;
+  if (!Array.isArray(minutes) || minutes.length > MAX_EXPIRY_WARNINGS) {
+    return `expiryWarnings minutes must be a list of up to ${MAX_EXPIRY_WARNINGS} values`;
+  }
+  if (!minutes.every(value => Number.isInteger(value) && value >= 1 && value <= MAX_WARNING_MINUTES)) {
+    return `expiryWarnings minutes must be whole numbers from 1 to ${MAX_WARNING_MINUTES}`;
+  }
+  return null;
+}
+
+// The largest threshold still ahead of a session with `secondsLeft`, or null when none is.
+// Thresholds from `below` up have already been sent.
+export function nextWarningMinutes(settings: ExpiryWarningSettings, secondsLeft: number, below: number = Infinity): number | null {
+  if (!settings.enabled) return null;
+  const ahead = settings.minutes.filter(minutes => minutes * 60 < secondsLeft && minutes < below);
+  return ahead.length > 0 ? Math.max(...ahead) : null;
+}
+
+class SessionNotifications extends EventEmitter {}
+
+// 'notice' is emitted with a SessionNotice for anything the customer should hear about
+export const sessionNotifications = new SessionNotifications();
+// One listener per open portal
+sessionNotifications.setMaxListeners(0);
@@ -1,9 +1,16 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
+import type { Session, AdminAccount, AdminSession, Transaction, SessionHistoryEntry, CoinCollection, Wallet, WalletEntry, HardwareAlert, SessionEvent } from './database.js';
 
 export interface KVItem { key: string; value: string }
 
+// SQLite has no boolean type; these columns come back as 0 or 1
+type StoredRow<T, K extends keyof T> = Omit<T, K> & Record<K, number>;
+type SessionRow = StoredRow<Session, 'active' | 'paused'> & { id: number };
+
+interface ColumnInfo { name: string }
+
 let db: Database.Database | null = null;
 
 export function getDB(): Database.Database {
@@ -42,11 +49,105 @@ export function getDB(): Database.Database {
       dateGenerated TEXT,
       dateUsed TEXT
     );
+    CREATE TABLE IF NOT EXISTS admins (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT UNIQUE NOT NULL,
+      passwordHash TEXT NOT NULL,
+      salt TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'owner',
+      disabled INTEGER DEFAULT 0,
+      createdAt TEXT,
+      updatedAt TEXT,
+      lastLogin TEXT
+    );
+    CREATE TABLE IF NOT EXISTS admin_sessions (
+      id TEXT PRIMARY KEY,
+      adminId INTEGER NOT NULL,
+      createdAt TEXT,
+      lastSeen TEXT,
+      expiresAt TEXT,
+      revoked INTEGER DEFAULT 0,
+      ipAddress TEXT,
+      userAgent TEXT
+    );
+    CREATE TABLE IF NOT EXISTS transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      amount REAL NOT NULL DEFAULT 0,
+      minutes INTEGER DEFAULT 0,
+      macAddress TEXT,
+      reference TEXT,
+      actor TEXT,
+      note TEXT,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_transactions_createdAt ON transactions(createdAt);
+    CREATE TABLE IF NOT EXISTS session_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      macAddress TEXT NOT NULL,
+      sessionType TEXT DEFAULT 'time',
+      startTime TEXT NOT NULL,
+      endedAt TEXT NOT NULL,
+      pesos REAL DEFAULT 0,
+      minutes INTEGER DEFAULT 0,
+      durationMinutes REAL DEFAULT 0,
+      usedBytes INTEGER DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_session_history_startTime ON session_history(startTime);
+    CREATE TABLE IF NOT EXISTS coin_collections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collectedAt TEXT NOT NULL,
+      periodStart TEXT,
+      expectedAmount REAL NOT NULL DEFAULT 0,
+      countedAmount REAL NOT NULL DEFAULT 0,
+      discrepancy REAL NOT NULL DEFAULT 0,
+      actor TEXT,
+      note TEXT
+    );
+    CREATE TABLE IF NOT EXISTS wallets (
+      macAddress TEXT PRIMARY KEY,
+      balance REAL NOT NULL DEFAULT 0,
+      updatedAt TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS wallet_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      macAddress TEXT NOT NULL,
+      amount REAL NOT NULL,
+      reason TEXT NOT NULL,
+      actor TEXT,
+      note TEXT,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_wallet_entries_mac ON wallet_entries(macAddress);
+    CREATE TABLE IF NOT EXISTS hardware_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      source TEXT NOT NULL,
+      message TEXT NOT NULL,
+      raisedAt TEXT NOT NULL,
+      clearedAt TEXT,
+      clearedBy TEXT
+    );
+    CREATE TABLE IF NOT EXISTS session_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sessionId INTEGER,
+      macAddress TEXT NOT NULL,
+      type TEXT NOT NULL,
+      source TEXT NOT NULL,
+      pesos REAL DEFAULT 0,
+      minutes REAL DEFAULT 0,
+      endTime TEXT,
+      actor TEXT,
+      note TEXT,
+      createdAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_session_events_mac ON session_events(macAddress, createdAt);
   `);
   
   // Create sessions table with new schema
   db.exec(`
     CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
       macAddress TEXT,
       startTime TEXT,
       endTime TEXT,
@@ -56,7 +157,15 @@ export function getDB(): Database.Database {
       ipAddress TEXT,
       paused INTEGER DEFAULT 0,
       pausedAt TEXT,
-      pausedDuration INTEGER DEFAULT 0
+      pausedDuration INTEGER DEFAULT 0,
+      sessionType TEXT DEFAULT 'time',
+      quotaBytes INTEGER,
+      usedBytes INTEGER DEFAULT 0,
+      pauseReason TEXT,
+      pauseCount INTEGER DEFAULT 0,
+      awayPausedDuration INTEGER DEFAULT 0,
+      remainingSeconds INTEGER,
+      checkpointAt TEXT
     );
   `);
   
@@ -96,6 +205,71 @@ export function getDB(): Database.Database {
       
       console.log('✅ Sessions table migration completed successfully!');
     }
+
+    // Data plan columns
+    const columns = (db.prepare('PRAGMA table_info(sessions)').all() as ColumnInfo[]).map(column => column.name);
+    if (!columns.includes('sessionType')) {
+      console.log('🔧 Migrating sessions table to add data plan columns...');
+      db.exec(`ALTER TABLE sessions ADD COLUMN sessionType TEXT DEFAULT 'time'`);
+      db.exec('ALTER TABLE sessions ADD COLUMN quotaBytes INTEGER');
+      db.exec('ALTER TABLE sessions ADD COLUMN usedBytes INTEGER DEFAULT 0');
+    }
+
+    // Session IDs; rows used to be keyed by MAC, so old sessions of a device could be overwritten together
+    if (!columns.includes('id')) {
+      console.log('🔧 Migrating sessions table to add session IDs...');
+      db.transaction(() => {
+        db!.exec(`
+          CREATE TABLE sessions_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            macAddress TEXT,
+            startTime TEXT,
+            endTime TEXT,
+            pesos INTEGER,
+            minutes INTEGER,
+            active INTEGER,
+            ipAddress TEXT,
+            paused INTEGER DEFAULT 0,
+            pausedAt TEXT,
+            pausedDuration INTEGER DEFAULT 0,
+            sessionType TEXT DEFAULT 'time',
+            quotaBytes INTEGER,
+            usedBytes INTEGER DEFAULT 0
+          );
+        `);
+        // IDs follow start order
+        db!.exec(`
+          INSERT INTO sessions_new (macAddress, startTime, endTime, pesos, minutes, active, ipAddress, paused, pausedAt, pausedDuration, sessionType, quotaBytes, usedBytes)
+          SELECT macAddress, startTime, endTime, pesos, minutes, active, ipAddress, paused, pausedAt, pausedDuration, sessionType, quotaBytes, usedBytes
+          FROM sessions ORDER BY startTime, rowid;
+        `);
+        db!.exec('DROP TABLE sessions;');
+        db!.exec('ALTER TABLE sessions_new RENAME TO sessions;');
+      })();
+      console.log('✅ Sessions table migration completed successfully!');
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_sessions_mac ON sessions(macAddress)');
+
+    const sessionColumns = (db.prepare('PRAGMA table_info(sessions)').all() as ColumnInfo[]).map(column => column.name);
+    if (!sessionColumns.includes('pauseReason')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN pauseReason TEXT');
+    }
+    if (!sessionColumns.includes('pauseCount')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN pauseCount INTEGER DEFAULT 0');
+    }
+    if (!sessionColumns.includes('awayPausedDuration')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN awayPausedDuration INTEGER DEFAULT 0');
+    }
+    // Older rows have no checkpoint and are recovered from their end time
+    if (!sessionColumns.includes('remainingSeconds')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN remainingSeconds INTEGER');
+      db.exec('ALTER TABLE sessions ADD COLUMN checkpointAt TEXT');
+    }
+
+    const eventColumns = (db.prepare('PRAGMA table_info(session_events)').all() as ColumnInfo[]).map(column => column.name);
+    if (!eventColumns.includes('sessionId')) {
+      db.exec('ALTER TABLE session_events ADD COLUMN sessionId INTEGER');
+    }
   } catch (error) {
     console.error('❌ Error during sessions table migration:', error);
     throw error;
@@ -134,40 +308,52 @@ export function kvAll(): KVItem[] {
   return dbi.prepare('SELECT key,value FROM kv').all() as KVItem[];
 }
 
-export function sessionsInsert(session: any): void {
+// Returns the new session ID
+export function sessionsInsert(session: Session): number {
   const dbi = getDB();
-  dbi.prepare(`
-    INSERT INTO sessions(macAddress,startTime,endTime,pesos,minutes,active,ipAddress,paused,pausedAt,pausedDuration)
-    VALUES(@macAddress,@startTime,@endTime,@pesos,@minutes,@active,@ipAddress,@paused,@pausedAt,@pausedDuration)
+  const info = dbi.prepare(`
+    INSERT INTO sessions(macAddress,startTime,endTime,pesos,minutes,active,ipAddress,paused,pausedAt,pausedDuration,sessionType,quotaBytes,usedBytes,remainingSeconds,checkpointAt)
+    VALUES(@macAddress,@startTime,@endTime,@pesos,@minutes,@active,@ipAddress,@paused,@pausedAt,@pausedDuration,@sessionType,@quotaBytes,@usedBytes,@remainingSeconds,@checkpointAt)
   `).run({
     ...session,
     active: session.active ? 1 : 0,
     ipAddress: session.ipAddress || null,
     paused: session.paused ? 1 : 0,
     pausedAt: session.pausedAt || null,
-    pausedDuration: session.pausedDuration || 0
+    pausedDuration: session.pausedDuration || 0,
+    sessionType: session.sessionType || 'time',
+    quotaBytes: session.quotaBytes ?? null,
+    usedBytes: session.usedBytes || 0,
+    remainingSeconds: session.remainingSeconds ?? null,
+    checkpointAt: session.checkpointAt || null
   });
+  return Number(info.lastInsertRowid);
+}
+
+export function sessionsGet(id: number): Session | null {
+  const dbi = getDB();
+  const row = dbi.prepare('SELECT * FROM sessions WHERE id=?').get(id) as SessionRow | undefined;
+  return row ? { ...row, active: !!row.active, paused: !!row.paused } : null;
 }
 
-export function sessionsUpdate(macAddress: string, updates: Partial<any>): void {
+export function sessionsUpdate(id: number, updates: Partial<Session>): void {
   const dbi = getDB();
-  const existing = dbi.prepare('SELECT * FROM sessions WHERE macAddress=? ORDER BY startTime DESC LIMIT 1').get(macAddress) as any;
+  const existing = dbi.prepare('SELECT * FROM sessions WHERE id=?').get(id) as SessionRow | undefined;
   if (!existing) return;
   
   const next = { ...existing, ...updates };
   
   // Use proper UPDATE instead of DELETE+INSERT for atomicity
-  const fields = Object.keys(updates).map(key => `${key}=@${key}`).join(', ');
+  const fields = Object.keys(updates).filter(key => key !== 'id').map(key => `${key}=@${key}`).join(', ');
   if (!fields) return;
 
   dbi.prepare(`
     UPDATE sessions SET 
       ${fields}
-    WHERE macAddress=@macAddress AND startTime=@originalStartTime
+    WHERE id=@id
   `).run({
     ...updates,
-    macAddress,
-    originalStartTime: existing.startTime,
+    id,
     active: next.active ? 1 : 0,
     paused: next.paused ? 1 : 0,
     pausedAt: next.pausedAt || null,
@@ -175,14 +361,14 @@ export function sessionsUpdate(macAddress: string, updates: Partial<any>): void
   });
 }
 
-export function sessionsRemove(macAddress: string): void {
+export function sessionsRemove(id: number): void {
   const dbi = getDB();
-  dbi.prepare('DELETE FROM sessions WHERE macAddress=?').run(macAddress);
+  dbi.prepare('DELETE FROM sessions WHERE id=?').run(id);
 }
 
-export function sessionsAll(): any[] {
+export function sessionsAll(): Array<Session & { id: number }> {
   const dbi = getDB();
-  const rows = dbi.prepare('SELECT * FROM sessions').all() as any[];
+  const rows = dbi.prepare('SELECT * FROM sessions').all() as SessionRow[];
   return rows.map(r => ({ 
     ...r, 
     active: !!r.active,
@@ -190,9 +376,9 @@ export function sessionsAll(): any[] {
   }));
 }
 
-export function sessionsActive(): any[] {
+export function sessionsActive(): Array<Session & { id: number }> {
   const dbi = getDB();
-  const rows = dbi.prepare('SELECT * FROM sessions WHERE active=1').all() as any[];
+  const rows = dbi.prepare('SELECT * FROM sessions WHERE active=1').all() as SessionRow[];
   return rows.map(r => ({ 
     ...r, 
     active: true,
@@ -203,7 +389,8 @@ export function sessionsActive(): any[] {
 export function sessionsCleanupExpired(): void {
   const dbi = getDB();
   const now = new Date().toISOString();
-  dbi.prepare('DELETE FROM sessions WHERE endTime < ?').run(now);
+  // A paused session's end time only moves when it resumes
+  dbi.prepare('DELETE FROM sessions WHERE endTime < ? AND paused = 0').run(now);
 }
 
 export function devicesUpsert(device: any): void {
@@ -319,3 +506,299 @@ export function vouchersAll(): any[] {
   const rows = dbi.prepare('SELECT * FROM vouchers').all() as any[];
   return rows.map(r => ({ ...r, isUsed: !!r.isUsed }));
 }
+
+export function adminsInsert(admin: Omit<AdminAccount, 'id' | 'createdAt' | 'updatedAt'> & Partial<Pick<AdminAccount, 'createdAt' | 'updatedAt'>>): number {
+  const dbi = getDB();
+  const now = new Date().toISOString();
+  const info = dbi.prepare(`
+    INSERT INTO admins(username,passwordHash,salt,role,disabled,createdAt,updatedAt,lastLogin)
+    VALUES(@username,@passwordHash,@salt,@role,@disabled,@createdAt,@updatedAt,@lastLogin)
+  `).run({
+    ...admin,
+    disabled: admin.disabled ? 1 : 0,
+    createdAt: admin.createdAt || now,
+    updatedAt: admin.updatedAt || now,
+    lastLogin: admin.lastLogin || null
+  });
+  return Number(info.lastInsertRowid);
+}
+
+export function adminsGetById(id: number): AdminAccount | null {
+  const dbi = getDB();
+  const row = dbi.prepare('SELECT * FROM admins WHERE id=?').get(id) as StoredRow<AdminAccount, 'disabled'> | undefined;
+  if (!row) return null;
+  return { ...row, disabled: !!row.disabled };
+}
+
+export function adminsGetByUsername(username: string): AdminAccount | null {
+  const dbi = getDB();
+  const row = dbi.prepare('SELECT * FROM admins WHERE username=? COLLATE NOCASE').get(username) as StoredRow<AdminAccount, 'disabled'> | undefined;
+  if (!row) return null;
+  return { ...row, disabled: !!row.disabled };
+}
+
+export function adminsUpdate(id: number, updates: Partial<AdminAccount>): void {
+  const dbi = getDB();
+  const existing = adminsGetById(id);
+  if (!existing) return;
+
+  const next = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+  dbi.prepare(`
+    UPDATE admins SET
+      username=@username,
+      passwordHash=@passwordHash,
+      salt=@salt,
+      role=@role,
+      disabled=@disabled,
+      updatedAt=@updatedAt,
+      lastLogin=@lastLogin
+    WHERE id=@id
+  `).run({
+    ...next,
+    id,
+    disabled: next.disabled ? 1 : 0,
+    lastLogin: next.lastLogin || null
+  });
+}
+
+export function adminsDelete(id: number): void {
+  const dbi = getDB();
+  dbi.prepare('DELETE FROM admins WHERE id=?').run(id);
+}
+
+export function adminsAll(): AdminAccount[] {
+  const dbi = getDB();
+  const rows = dbi.prepare('SELECT * FROM admins ORDER BY id').all() as StoredRow<AdminAccount, 'disabled'>[];
+  return rows.map(r => ({ ...r, disabled: !!r.disabled }));
+}
+
+export function adminSessionsInsert(session: AdminSession): void {
+  const dbi = getDB();
+  dbi.prepare(`
+    INSERT INTO admin_sessions(id,adminId,createdAt,lastSeen,expiresAt,revoked,ipAddress,userAgent)
+    VALUES(@id,@adminId,@createdAt,@lastSeen,@expiresAt,@revoked,@ipAddress,@userAgent)
+  `).run({
+    ...session,
+    revoked: session.revoked ? 1 : 0,
+    ipAddress: session.ipAddress || null,
+    userAgent: session.userAgent || null
+  });
+}
+
+export function adminSessionsGet(id: string): AdminSession | null {
+  const dbi = getDB();
+  const row = dbi.prepare('SELECT * FROM admin_sessions WHERE id=?').get(id) as StoredRow<AdminSession, 'revoked'> | undefined;
+  if (!row) return null;
+  return { ...row, revoked: !!row.revoked };
+}
+
+export function adminSessionsTouch(id: string, lastSeen: string): void {
+  const dbi = getDB();
+  dbi.prepare('UPDATE admin_sessions SET lastSeen=? WHERE id=?').run(lastSeen, id);
+}
+
+export function adminSessionsRevoke(id: string): void {
+  const dbi = getDB();
+  dbi.prepare('UPDATE admin_sessions SET revoked=1 WHERE id=?').run(id);
+}
+
+export function adminSessionsRevokeForAdmin(adminId: number, exceptId?: string): number {
+  const dbi = getDB();
+  const info = dbi.prepare('UPDATE admin_sessions SET revoked=1 WHERE adminId=? AND revoked=0 AND id<>?').run(adminId, exceptId || '');
+  return info.changes;
+}
+
+export function adminSessionsActiveForAdmin(adminId: number, now: string): AdminSession[] {
+  const dbi = getDB();
+  const rows = dbi.prepare('SELECT * FROM admin_sessions WHERE adminId=? AND revoked=0 AND expiresAt>? ORDER BY lastSeen DESC').all(adminId, now) as StoredRow<AdminSession, 'revoked'>[];
+  return rows.map(r => ({ ...r, revoked: false }));
+}
+
+export function adminSessionsCleanup(now: string): void {
+  const dbi = getDB();
+  dbi.prepare('DELETE FROM admin_sessions WHERE revoked=1 OR expiresAt<?').run(now);
+}
+
+export function transactionsInsert(tx: Omit<Transaction, 'id' | 'createdAt'> & { createdAt?: string }): number {
+  const dbi = getDB();
+  const info = dbi.prepare(`
+    INSERT INTO transactions(type,amount,minutes,macAddress,reference,actor,note,createdAt)
+    VALUES(@type,@amount,@minutes,@macAddress,@reference,@actor,@note,@createdAt)
+  `).run({
+    ...tx,
+    amount: tx.amount || 0,
+    minutes: tx.minutes || 0,
+    macAddress: tx.macAddress || null,
+    reference: tx.reference || null,
+    actor: tx.actor || null,
+    note: tx.note || null,
+    createdAt: tx.createdAt || new Date().toISOString()
+  });
+  return Number(info.lastInsertRowid);
+}
+
+interface TransactionQuery {
+  from?: string;
+  to?: string;
+  types?: string[];
+  macAddress?: string;
+  limit?: number;
+}
+
+function transactionsWhere(filter: TransactionQuery): { clause: string; params: Record<string, unknown> } {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+  if (filter.from) { conditions.push('createdAt>=@from'); params.from = filter.from; }
+  if (filter.to) { conditions.push('createdAt<@to'); params.to = filter.to; }
+  if (filter.macAddress) { conditions.push('macAddress=@macAddress'); params.macAddress = filter.macAddress; }
+  if (filter.types && filter.types.length > 0) {
+    filter.types.forEach((type, i) => { params[`type${i}`] = type; });
+    conditions.push(`type IN (${filter.types.map((_, i) => `@type${i}`).join(',')})`);
+  }
+  return { clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+export function transactionsQuery(filter: TransactionQuery): Transaction[] {
+  const dbi = getDB();
+  const { clause, params } = transactionsWhere(filter);
+  const limit = filter.limit ? ` LIMIT ${Math.floor(filter.limit)}` : '';
+  return dbi.prepare(`SELECT * FROM transactions ${clause} ORDER BY createdAt DESC, id DESC${limit}`).all(params) as Transaction[];
+}
+
+export function transactionsSum(filter: TransactionQuery): number {
+  const dbi = getDB();
+  const { clause, params } = transactionsWhere(filter);
+  const row = dbi.prepare(`SELECT COALESCE(SUM(amount), 0) AS total FROM transactions ${clause}`).get(params) as { total: number };
+  return row.total;
+}
+
+export function sessionHistoryInsert(entry: SessionHistoryEntry): void {
+  const dbi = getDB();
+  dbi.prepare(`
+    INSERT INTO session_history(macAddress,sessionType,startTime,endedAt,pesos,minutes,durationMinutes,usedBytes)
+    VALUES(@macAddress,@sessionType,@startTime,@endedAt,@pesos,@minutes,@durationMinutes,@usedBytes)
+  `).run({
+    ...entry,
+    sessionType: entry.sessionType || 'time',
+    pesos: entry.pesos || 0,
+    minutes: entry.minutes || 0,
+    durationMinutes: entry.durationMinutes || 0,
+    usedBytes: entry.usedBytes || 0
+  });
+}
+
+export function sessionHistoryBetween(from: string, to: string): SessionHistoryEntry[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM session_history WHERE startTime>=? AND startTime<? ORDER BY startTime').all(from, to) as SessionHistoryEntry[];
+}
+
+export function collectionsInsert(collection: Omit<CoinCollection, 'id'>): number {
+  const dbi = getDB();
+  const info = dbi.prepare(`
+    INSERT INTO coin_collections(collectedAt,periodStart,expectedAmount,countedAmount,discrepancy,actor,note)
+    VALUES(@collectedAt,@periodStart,@expectedAmount,@countedAmount,@discrepancy,@actor,@note)
+  `).run({
+    ...collection,
+    periodStart: collection.periodStart || null,
+    actor: collection.actor || null,
+    note: collection.note || null
+  });
+  return Number(info.lastInsertRowid);
+}
+
+export function collectionsAll(limit: number): CoinCollection[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM coin_collections ORDER BY collectedAt DESC, id DESC LIMIT ?').all(limit) as CoinCollection[];
+}
+
+export function collectionsLatest(): CoinCollection | null {
+  const dbi = getDB();
+  return (dbi.prepare('SELECT * FROM coin_collections ORDER BY collectedAt DESC, id DESC LIMIT 1').get() as CoinCollection | undefined) || null;
+}
+
+export function walletsGet(macAddress: string): Wallet | null {
+  const dbi = getDB();
+  return (dbi.prepare('SELECT * FROM wallets WHERE macAddress=?').get(macAddress) as Wallet | undefined) || null;
+}
+
+export function walletsAll(): Wallet[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM wallets WHERE balance != 0 ORDER BY updatedAt DESC').all() as Wallet[];
+}
+
+// Logs the entry and moves the balance in one transaction; refuses to go below zero
+export function walletsApply(entry: Omit<WalletEntry, 'id'>): number {
+  const dbi = getDB();
+  const apply = dbi.transaction(() => {
+    const current = (dbi.prepare('SELECT balance FROM wallets WHERE macAddress=?').get(entry.macAddress) as Pick<Wallet, 'balance'> | undefined)?.balance || 0;
+    const balance = Math.round((current + entry.amount) * 100) / 100;
+    if (balance < 0) {
+      throw new Error('Insufficient wallet balance');
+    }
+    dbi.prepare(`
+      INSERT INTO wallet_entries(macAddress,amount,reason,actor,note,createdAt)
+      VALUES(@macAddress,@amount,@reason,@actor,@note,@createdAt)
+    `).run({
+      ...entry,
+      actor: entry.actor || null,
+      note: entry.note || null
+    });
+    dbi.prepare(`
+      INSERT INTO wallets(macAddress,balance,updatedAt) VALUES(?,?,?)
+      ON CONFLICT(macAddress) DO UPDATE SET balance=excluded.balance, updatedAt=excluded.updatedAt
+    `).run(entry.macAddress, balance, entry.createdAt);
+    return balance;
+  });
+  return apply();
+}
+
+export function walletEntriesFor(macAddress: string, limit: number): WalletEntry[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM wallet_entries WHERE macAddress=? ORDER BY createdAt DESC, id DESC LIMIT ?').all(macAddress, limit) as WalletEntry[];
+}
+
+export function hardwareAlertsInsert(alert: Pick<HardwareAlert, 'kind' | 'source' | 'message' | 'raisedAt'>): number {
+  const dbi = getDB();
+  const info = dbi.prepare(`
+    INSERT INTO hardware_alerts(kind,source,message,raisedAt) VALUES(@kind,@source,@message,@raisedAt)
+  `).run(alert);
+  return Number(info.lastInsertRowid);
+}
+
+export function hardwareAlertsActive(): HardwareAlert[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM hardware_alerts WHERE clearedAt IS NULL ORDER BY raisedAt DESC, id DESC').all() as HardwareAlert[];
+}
+
+export function hardwareAlertsRecent(limit: number): HardwareAlert[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM hardware_alerts ORDER BY raisedAt DESC, id DESC LIMIT ?').all(limit) as HardwareAlert[];
+}
+
+export function hardwareAlertsClear(id: number, clearedAt: string, clearedBy: string | null): boolean {
+  const dbi = getDB();
+  const info = dbi.prepare('UPDATE hardware_alerts SET clearedAt=?, clearedBy=? WHERE id=? AND clearedAt IS NULL').run(clearedAt, clearedBy, id);
+  return info.changes > 0;
+}
+
+export function sessionEventsInsert(event: Omit<SessionEvent, 'id' | 'sessionId'> & { sessionId?: number | null }): number {
+  const dbi = getDB();
+  const info = dbi.prepare(`
+    INSERT INTO session_events(sessionId,macAddress,type,source,pesos,minutes,endTime,actor,note,createdAt)
+    VALUES(@sessionId,@macAddress,@type,@source,@pesos,@minutes,@endTime,@actor,@note,@createdAt)
+  `).run({
+    ...event,
+    sessionId: event.sessionId ?? null,
+    pesos: event.pesos || 0,
+    minutes: event.minutes || 0,
+    endTime: event.endTime || null,
+    actor: event.actor || null,
+    note: event.note || null
+  });
+  return Number(info.lastInsertRowid);
+}
+
+export function sessionEventsFor(macAddress: string, limit: number): SessionEvent[] {
+  const dbi = getDB();
+  return dbi.prepare('SELECT * FROM session_events WHERE macAddress=? ORDER BY createdAt DESC, id DESC LIMIT ?').all(macAddress, limit) as SessionEvent[];
+}
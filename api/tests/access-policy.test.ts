@@ -0,0 +1,149 @@
+import type { Router } from 'express';
+import type { AddressInfo } from 'net';
+import app, { apiRoutes } from '../app';
+import { findRoutePolicy } from '../middleware/accessPolicy';
+import { createAdminAccount, createAdminSession } from '../middleware/auth';
+
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+  };
+}
+
+// Every method/path pair registered on the mounted API routers
+const listRegisteredRoutes = (): Array<{ method: string; path: string }> => {
+  const routes: Array<{ method: string; path: string }> = [];
+  for (const [mountPath, router] of apiRoutes) {
+    const stack = (router as unknown as Router & { stack: RouteLayer[] }).stack;
+    for (const layer of stack) {
+      if (!layer.route) continue;
+      for (const method of Object.keys(layer.route.methods)) {
+        const path = layer.route.path === '/' ? mountPath : mountPath + layer.route.path;
+        routes.push({ method: method.toUpperCase(), path });
+      }
+    }
+  }
+  return routes;
+};
+
+const runAccessPolicyTests = async () => {
+  console.log('Running Access Policy Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const call = async (method: string, path: string, body?: object, token?: string) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return response.status;
+  };
+
+  try {
+    // Test 1: Every registered route is classified
+    console.log('\n🧪 Testing every registered route has a policy...');
+    const routes = listRegisteredRoutes();
+    assert('Routes were discovered', routes.length > 50, true);
+    for (const route of routes) {
+      const samplePath = route.path.replace(/:[^/]+/g, 'sample');
+      assert(`${route.method} ${route.path} has a policy`, !!findRoutePolicy(route.method, samplePath), true);
+    }
+
+    // Test 2: Classification of sensitive endpoints
+    console.log('\n🧪 Testing classification...');
+    assert('POST /api/db/restore is admin', findRoutePolicy('POST', '/api/db/restore')?.access, 'admin');
+    assert('POST /api/vouchers/generate is admin', findRoutePolicy('POST', '/api/vouchers/generate')?.access, 'admin');
+    assert('PUT /api/devices/:mac is admin', findRoutePolicy('PUT', '/api/devices/aa:bb:cc:dd:ee:ff')?.access, 'admin');
+    assert('POST /api/hardware/simulate-coin is admin', findRoutePolicy('POST', '/api/hardware/simulate-coin')?.access, 'admin');
+    assert('POST /api/portal/connect is client', findRoutePolicy('POST', '/api/portal/connect')?.access, 'client');
+    assert('GET /api/portal/config is public', findRoutePolicy('GET', '/api/portal/config')?.access, 'public');
+    assert('Unknown route has no policy', findRoutePolicy('GET', '/api/nope'), null);
+    assert('Mixed-case path finds the same policy', findRoutePolicy('GET', '/API/Db/KV')?.permission, 'database:manage');
+
+    // Test 3: Anonymous callers are rejected from admin endpoints
+    console.log('\n🧪 Testing anonymous access...');
+    assert('Anonymous POST /api/db/restore', await call('POST', '/api/db/restore'), 401);
+    assert('Anonymous POST /api/db/kv', await call('POST', '/api/db/kv', { key: 'x', value: 1 }), 401);
+    assert('Anonymous POST /api/vouchers/generate', await call('POST', '/api/vouchers/generate', { count: 1 }), 401);
+    assert('Anonymous PUT /api/devices/:mac', await call('PUT', '/api/devices/aa:bb:cc:dd:ee:ff', { timeLimitMinutes: 600 }), 401);
+    assert('Anonymous POST /api/hardware/simulate-coin', await call('POST', '/api/hardware/simulate-coin'), 401);
+    assert('Anonymous unknown API route', await call('GET', '/api/nope'), 401);
+    assert('Anonymous GET /API/db/kv', await call('GET', '/API/db/kv'), 401);
+    assert('Anonymous GET /Api/Db/Kv', await call('GET', '/Api/Db/Kv'), 401);
+    assert('Anonymous GET /api/DB/settings/', await call('GET', '/api/DB/settings/'), 401);
+    assert('Anonymous POST /API/vouchers/generate', await call('POST', '/API/vouchers/generate', { count: 1 }), 401);
+    assert('Anonymous GET /API/Admin/Dashboard', await call('GET', '/API/Admin/Dashboard'), 401);
+
+    // Test 4: Clients cannot act on someone else's device
+    console.log('\n🧪 Testing client-self enforcement...');
+    assert('Pause for another MAC is forbidden', await call('POST', '/api/portal/pause', { macAddress: 'aa:bb:cc:dd:ee:ff' }), 403);
+    assert('Client cannot name its own amount', await call('POST', '/api/portal/connect', { pesos: 100 }), 403);
+    assert('Client cannot name its own extension', await call('POST', '/api/portal/extend', { pesos: 100 }), 403);
+    assert('Reinit without a running session is forbidden', await call('POST', '/api/network/client/reinit', { ipAddress: '10.0.0.5; reboot' }), 403);
+    assert('Recover without a running session is forbidden', await call('POST', '/api/network/client/recover', {}), 403);
+
+    // nginx appends the address it saw; whatever the client sent comes before it
+    const deviceInfo = await fetch(baseUrl + '/api/portal/device-info', {
+      headers: { 'X-Forwarded-For': '10.0.0.99, 10.0.0.5' }
+    }).then(response => response.json());
+    assert('Client-sent forwarded address is ignored', deviceInfo.data?.ip, '10.0.0.5');
+
+    // Test 5: Role permissions apply centrally
+    console.log('\n🧪 Testing role permissions...');
+    const cashier = createAdminAccount(`cashier-${Date.now()}`, 'cashier123', 'cashier');
+    const { token } = createAdminSession(cashier);
+    assert('Cashier POST /api/db/kv', await call('POST', '/api/db/kv', { key: 'x', value: 1 }, token), 403);
+    assert('Cashier GET /API/DB/KV', await call('GET', '/API/DB/KV', undefined, token), 403);
+    assert('Cashier POST /api/network/restart', await call('POST', '/api/network/restart', {}, token), 403);
+    assert('Cashier GET /api/vouchers', await call('GET', '/api/vouchers', undefined, token), 200);
+
+    // Test 6: Login throttling follows the account, not a forwarded address
+    console.log('\n🧪 Testing login throttling...');
+    const login = (forwardedFor: string) => fetch(baseUrl + '/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwardedFor },
+      body: JSON.stringify({ username: cashier.username, password: 'wrong' })
+    }).then(response => response.status);
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await login(`10.0.1.${attempt}`);
+    }
+    assert('Account locks after repeated failures from many addresses', await login('10.0.1.9'), 429);
+
+    console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+    if (failed > 0) {
+      console.log('❌ Some tests failed');
+      process.exitCode = 1;
+    } else {
+      console.log('✅ All access policy tests passed!');
+    }
+  } catch (error) {
+    console.error('❌ Test suite failed with error:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runAccessPolicyTests().catch(console.error);
+}
+
+export { runAccessPolicyTests };
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ClockJumpDetector, parseNtpSynchronized, describeClockJump } from '../clockGuard';
+
+const runClockGuardTests = async () => {
+  console.log('Running Clock Guard Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const HOUR = 60 * 60 * 1000;
+
+  // Test 1: Jump detection
+  console.log('\n🧪 Testing jump detection...');
+  const detector = new ClockJumpDetector();
+  assert('First check is the reference', detector.check(1000000, 0), null);
+  assert('Drift is ignored', detector.check(1000000 + 10500, 10000), null);
+  assert('Forward jump is reported', detector.check(1000000 + 3 * HOUR + 20500, 20000), 3 * HOUR);
+  assert('Backward jump is reported', detector.check(1000000 + 30500, 30000), -3 * HOUR);
+  assert('Jumps are described', describeClockJump(-3 * 3600), 'Clock set back by 3 hours');
+
+  // Test 2: NTP state
+  console.log('\n🧪 Testing NTP state...');
+  assert('Synchronized', parseNtpSynchronized('NTPSynchronized=yes\n'), true);
+  assert('Not synchronized', parseNtpSynchronized('NTPSynchronized=no\n'), false);
+  assert('Unknown', parseNtpSynchronized(''), null);
+
+  // A fresh database, so recovery only sees the rows written here
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pisowifi-clock-'));
+  fs.mkdirSync(path.join(dir, 'data'));
+  process.chdir(dir);
+  const { addSession, getSessionRecord, getClockCorrections, acknowledgeClockCorrections } = await import('../database');
+  const { SessionManager } = await import('../sessionManager');
+
+  // Test 3: Recovery
+  console.log('\n🧪 Testing recovery...');
+  // Written by a box whose clock was a year behind when it lost power
+  const wrongNow = Date.now() - 365 * 24 * HOUR;
+  const runningId = addSession({
+    macAddress: 'aa:bb:cc:dd:ee:51',
+    startTime: new Date(wrongNow - 20 * 60000).toISOString(),
+    endTime: new Date(wrongNow + 10 * 60000).toISOString(),
+    pesos: 5, minutes: 30, active: true,
+    remainingSeconds: 15 * 60,
+    checkpointAt: new Date(wrongNow - 5 * 60000).toISOString()
+  });
+  const pausedId = addSession({
+    macAddress: 'aa:bb:cc:dd:ee:52',
+    startTime: new Date(wrongNow - 20 * 60000).toISOString(),
+    endTime: new Date(wrongNow + 10 * 60000).toISOString(),
+    pesos: 5, minutes: 30, active: true,
+    paused: true,
+    pausedAt: new Date(wrongNow - 4 * 60000).toISOString(),
+    pausedDuration: 60,
+    remainingSeconds: 14 * 60,
+    checkpointAt: new Date(wrongNow - 60000).toISOString()
+  });
+
+  const manager = new SessionManager();
+  await manager.initialize();
+  const running = manager.getSession('aa:bb:cc:dd:ee:51');
+  assert('Wrong clock does not expire the session', running?.active, true);
+  assert('Checkpointed time is kept', Math.round(manager.getSessionTimeRemaining('aa:bb:cc:dd:ee:51') / 60), 15);
+  assert('Restored end time is saved', getSessionRecord(runningId)?.endTime, running?.endTime.toISOString());
+  assert('Paused session keeps its time', Math.round(manager.getSessionTimeRemaining('aa:bb:cc:dd:ee:52') / 60), 14);
+  assert('Pause counts only until the checkpoint', getSessionRecord(pausedId)?.pausedDuration, 60 + 3 * 60);
+
+  // Test 4: Clock corrections
+  console.log('\n🧪 Testing clock corrections...');
+  const endBefore = running!.endTime.getTime();
+  const wall = Date.now();
+  manager.checkClock(wall, 0);
+  const correction = manager.checkClock(wall + 3 * HOUR + 10000, 10000);
+  assert('Correction is reported', correction?.jumpSeconds, 3 * 3600);
+  assert('Sessions move with the clock', manager.getSession('aa:bb:cc:dd:ee:51')?.endTime.getTime(), endBefore + 3 * HOUR);
+  assert('Moved end time is saved', getSessionRecord(runningId)?.endTime, new Date(endBefore + 3 * HOUR).toISOString());
+  assert('Remaining time is checkpointed', Math.round((getSessionRecord(runningId)?.remainingSeconds || 0) / 60), 15);
+  assert('Correction is kept for the admin', getClockCorrections()[0]?.sessionsAdjusted, 2);
+  assert('Acknowledging clears the alert', acknowledgeClockCorrections('admin'), 1);
+  assert('Nothing left to acknowledge', getClockCorrections().filter(c => !c.acknowledgedAt).length, 0);
+
+  manager.cleanup();
+  await new Promise(resolve => setTimeout(resolve, 100));
+  process.chdir(os.tmpdir());
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All clock guard tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runClockGuardTests();
+}
+
+export { runClockGuardTests };
@@ -0,0 +1,112 @@
+import { suggestCalibration, type CalibrationPulse } from '../coinCalibration';
+import { HardwareManager } from '../hardwareManager';
+import { coinEvents } from '../coinEvents';
+import type { RecordedPulse } from '../gpio';
+
+const runCoinCalibrationTests = async () => {
+  console.log('Running Coin Calibration Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Coins of `counts` pulses, 50 ms apart inside a coin and 800 ms between coins
+  const record = (counts: number[], widthMs: number | null = 25): CalibrationPulse[] => {
+    const pulses: CalibrationPulse[] = [];
+    let at = 0;
+    for (const count of counts) {
+      for (let i = 0; i < count; i++) {
+        pulses.push({ at, widthMs });
+        at += 50;
+      }
+      at += 750;
+    }
+    return pulses;
+  };
+
+  // Test 1: Suggestions
+  console.log('\n🧪 Testing suggestions...');
+  assert('Nothing recorded gives no suggestion', suggestCalibration([], 3), null);
+  const clean = suggestCalibration(record([5, 1, 10]), 3)!;
+  assert('Coins are split by the long gaps', clean.coins.join(','), '5,1,10');
+  assert('Expected count is met', clean.matchesExpected, true);
+  assert('Longest gap inside a coin', clean.maxGapWithinCoinMs, 50);
+  assert('Shortest gap between coins', clean.minGapBetweenCoinsMs, 800);
+  assert('Timeout clears the pulse spacing', clean.pulseTimeoutMs, 75);
+  assert('Debounce is half the narrowest pulse', clean.debounceMs, 12);
+  assert('Pulse width is reported', clean.minWidthMs, 25);
+
+  const bouncy = record([5, 1, 10], null);
+  bouncy.splice(2, 0, { at: bouncy[1].at + 3, widthMs: null });
+  const withBounce = suggestCalibration(bouncy, 3)!;
+  assert('Bounce is not counted as a pulse', withBounce.coins.join(','), '5,1,10');
+  assert('Bounce is reported', withBounce.bounces, 1);
+  assert('Debounce covers the bounce', withBounce.debounceMs, 6);
+
+  const partial = suggestCalibration(record([5, 1, 10]), 20)!;
+  assert('Unknown split falls back to the gap jump', partial.coins.join(','), '5,1,10');
+  assert('Missing coins are flagged', partial.matchesExpected, false);
+
+  // Test 2: Calibration runs on the hardware manager
+  console.log('\n🧪 Testing calibration runs...');
+  const hardware = new HardwareManager();
+  await hardware.setGpioBackend('simulator');
+  hardware.setupCoinDetection(() => {});
+  const simulator = hardware.getSimulator()!;
+  const pin = hardware.getHardwareStatus().coinSlotPin;
+
+  let credited = 0;
+  const onCoin = () => credited++;
+  coinEvents.on('coin', onCoin);
+
+  hardware.startCalibration('coin', 2);
+  assert('Calibration opens the acceptor', hardware.getCoinSlotState(), 'calibrating');
+  const timeline: RecordedPulse[] = [0, 40, 80, 600].map(at => ({ pin, at, widthMs: 20 }));
+  simulator.replay(timeline, 1_000_000);
+  const run = hardware.getCalibration()!;
+  assert('Every pulse is recorded', run.pulses.length, 4);
+  assert('Rising edge gives the width', run.pulses[0].widthMs, 20);
+  assert('Live suggestion sees both coins', run.suggestion?.coins.join(','), '3,1');
+  assert('Test coins are not credited', credited, 0);
+
+  const result = hardware.stopCalibration();
+  assert('Stop returns the recording', result?.pulses.length, 4);
+  assert('Stopping closes the acceptor again', hardware.getCoinSlotState(), 'idle');
+
+  hardware.startCoinSession('aa:bb:cc:dd:ee:10', '10.0.0.10');
+  let refused = false;
+  try {
+    hardware.startCalibration('coin', 2);
+  } catch {
+    refused = true;
+  }
+  assert('Calibration waits for the customer to finish', refused, true);
+  hardware.clearCoinSession(true);
+
+  coinEvents.off('coin', onCoin);
+  hardware.cleanup();
+  await hardware.setGpioBackend('auto');
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All coin calibration tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinCalibrationTests();
+}
+
+export { runCoinCalibrationTests };
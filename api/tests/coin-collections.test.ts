@@ -0,0 +1,70 @@
+import { recordTransaction } from '../database';
+import { getPendingCollection, recordCollection, getCollectionHistory, getCollectionStatus } from '../coinCollections';
+
+const runCoinCollectionTests = () => {
+  console.log('Running Coin Collection Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000);
+
+  // Test 1: Status classification
+  console.log('\n🧪 Testing status...');
+  assert('Exact count is ok', getCollectionStatus(0), 'ok');
+  assert('Negative difference is short', getCollectionStatus(-3), 'short');
+  assert('Positive difference is over', getCollectionStatus(2), 'over');
+
+  // Test 2: Reconciling against the coin ledger
+  console.log('\n🧪 Testing reconciliation...');
+  const baseline = recordCollection({ countedAmount: 0, collectedAt: minutesAgo(60) });
+  for (let i = 0; i < 5; i++) {
+    recordTransaction({ type: 'coin', amount: 1, minutes: 0, createdAt: minutesAgo(30).toISOString() });
+  }
+  recordTransaction({ type: 'voucher', amount: 20, minutes: 600, createdAt: minutesAgo(30).toISOString() });
+  assert('Pending counts coins since last collection', getPendingCollection().expectedAmount, 5);
+  assert('Pending starts at last collection', getPendingCollection().periodStart, baseline.collectedAt);
+
+  const short = recordCollection({ countedAmount: 3, collectedAt: minutesAgo(20), actor: 'owner' });
+  assert('Expected amount is stored', short.expectedAmount, 5);
+  assert('Discrepancy is counted - expected', short.discrepancy, -2);
+  assert('Short box is flagged', short.status, 'short');
+
+  recordTransaction({ type: 'coin', amount: 1, minutes: 0, createdAt: minutesAgo(10).toISOString() });
+  assert('Next period only counts new coins', getPendingCollection().expectedAmount, 1);
+  assert('History is newest first', getCollectionHistory()[0].id, short.id);
+
+  // Test 3: Validation
+  console.log('\n🧪 Testing validation...');
+  let rejected = false;
+  try {
+    recordCollection({ countedAmount: 1, collectedAt: minutesAgo(30) });
+  } catch {
+    rejected = true;
+  }
+  assert('Collection before the previous one is rejected', rejected, true);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All coin collection tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinCollectionTests();
+}
+
+export { runCoinCollectionTests };
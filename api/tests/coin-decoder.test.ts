@@ -0,0 +1,131 @@
+import { PulseTrainDecoder, validateCoinSettings, type DecodedCoin } from '../coinDecoder';
+import { resolveAcceptors, validateAcceptors } from '../acceptors';
+
+const runCoinDecoderTests = () => {
+  console.log('Running Coin Decoder Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const coins: DecodedCoin[] = [];
+  const decoder = new PulseTrainDecoder(coin => coins.push(coin), { timeoutMs: 100 });
+
+  // Feed a burst of pulses starting at `start`, `gap` ms apart
+  const burst = (count: number, start: number, gap = 30) => {
+    for (let i = 0; i < count; i++) {
+      decoder.pulse(start + i * gap);
+    }
+    return start + (count - 1) * gap;
+  };
+
+  // Test 1: Single bursts
+  console.log('\n🧪 Testing single coins...');
+  let end = burst(1, 1000);
+  decoder.tick(end + 50);
+  assert('Burst is open before the timeout', coins.length, 0);
+  decoder.tick(end + 100);
+  assert('Burst closes at the timeout', coins.length, 1);
+  assert('One pulse is one peso', coins[0].value, 1);
+
+  end = burst(5, 2000);
+  decoder.tick(end + 100);
+  assert('Five pulses decode as one coin', coins.length, 2);
+  assert('Five pulses are worth five', coins[1].value, 5);
+  assert('Burst start is the first pulse', coins[1].startedAt, 2000);
+  assert('Burst end is the last pulse', coins[1].endedAt, 2120);
+
+  end = burst(20, 5000, 45);
+  decoder.tick(end + 100);
+  assert('Twenty pulses are worth twenty', coins[2].value, 20);
+
+  // Test 2: Back-to-back coins
+  console.log('\n🧪 Testing consecutive coins...');
+  coins.length = 0;
+  end = burst(10, 10000);
+  burst(5, end + 150);
+  assert('A late pulse closes the previous burst', coins.length, 1);
+  assert('First coin is ten', coins[0].value, 10);
+  decoder.flush();
+  assert('Flush closes the pending burst', coins.length, 2);
+  assert('Second coin is five', coins[1].value, 5);
+  decoder.flush();
+  assert('Flush with nothing pending is a no-op', coins.length, 2);
+
+  // Test 3: Unknown pulse counts
+  console.log('\n🧪 Testing unrecognized bursts...');
+  coins.length = 0;
+  end = burst(3, 20000);
+  decoder.tick(end + 100);
+  assert('Unknown count is reported', coins[0].pulses, 3);
+  assert('Unknown count is not recognized', coins[0].recognized, false);
+  assert('Unknown count is worth nothing', coins[0].value, 0);
+
+  // Test 4: Custom value map
+  console.log('\n🧪 Testing configuration...');
+  coins.length = 0;
+  decoder.configure({ values: [{ pulses: 2, value: 10 }] });
+  end = burst(2, 30000);
+  decoder.tick(end + 100);
+  assert('Custom map is used', coins[0].value, 10);
+  decoder.configure({ timeoutMs: 300 });
+  end = burst(2, 40000, 250);
+  decoder.tick(end + 100);
+  assert('Longer timeout keeps slow pulses together', coins.length, 1);
+  decoder.tick(end + 300);
+  assert('Custom map survives a timeout change', coins[1].value, 10);
+
+  // Test 5: Debounce
+  console.log('\n🧪 Testing debounce...');
+  coins.length = 0;
+  const bills = new PulseTrainDecoder(coin => coins.push(coin), { timeoutMs: 200, debounceMs: 20, values: [{ pulses: 2, value: 20 }] });
+  bills.pulse(1000);
+  assert('Bounce is dropped', bills.pulse(1005), false);
+  assert('Real pulse is kept', bills.pulse(1060), true);
+  bills.tick(1260);
+  assert('Bounced burst decodes as two pulses', coins[0].pulses, 2);
+  assert('Two bill pulses are twenty', coins[0].value, 20);
+
+  // Test 6: Acceptor settings
+  console.log('\n🧪 Testing acceptors...');
+  const legacy = resolveAcceptors({ coinSlotPin: 15, pulseTimeoutMs: 150 });
+  assert('Legacy settings give a coin acceptor', legacy[0].kind, 'coin');
+  assert('Coin acceptor uses coinSlotPin', legacy[0].pin, 15);
+  assert('Coin acceptor keeps legacy timeout', legacy[0].pulseTimeoutMs, 150);
+  assert('Bill acceptor is off by default', legacy[1].enabled, false);
+  assert('Default setup is valid', validateAcceptors(legacy, 16), null);
+  const clash = legacy.map(acceptor => ({ ...acceptor, enabled: true, pin: 15 }));
+  assert('Shared pin is rejected', validateAcceptors(clash, 16) !== null, true);
+  assert('LED pin is rejected', validateAcceptors(legacy, 15) !== null, true);
+
+  // Test 7: Settings validation
+  console.log('\n🧪 Testing validation...');
+  assert('Defaults are valid', validateCoinSettings(120, [{ pulses: 1, value: 1 }]), null);
+  assert('Tiny timeout is rejected', validateCoinSettings(1, undefined) !== null, true);
+  assert('Duplicate pulse count is rejected', validateCoinSettings(undefined, [{ pulses: 5, value: 5 }, { pulses: 5, value: 10 }]) !== null, true);
+  assert('Zero value is rejected', validateCoinSettings(undefined, [{ pulses: 1, value: 0 }]) !== null, true);
+  assert('Debounce longer than timeout is rejected', validateCoinSettings(100, undefined, 150) !== null, true);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All coin decoder tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinDecoderTests();
+}
+
+export { runCoinDecoderTests };
@@ -0,0 +1,106 @@
+import { PulseAnomalyDetector, DEFAULT_FAULT_DETECTION } from '../coinFaults';
+import { HardwareManager } from '../hardwareManager';
+import { getActiveHardwareAlerts } from '../database';
+import type { RecordedPulse } from '../gpio';
+
+const runCoinFaultTests = async () => {
+  console.log('Running Coin Fault Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Detector
+  console.log('\n🧪 Testing anomaly detector...');
+  const detector = new PulseAnomalyDetector();
+  let fault = null;
+  for (let i = 0; i < 20; i++) {
+    fault = detector.pulse(1000 + i * 50) || fault;
+  }
+  assert('A twenty peso coin is normal', fault, null);
+  for (let i = 0; i < 31; i++) {
+    fault = detector.pulse(5000 + i * 5) || fault;
+  }
+  assert('Thirty-one pulses in a second is a fault', fault, 'pulse_rate');
+
+  detector.reset();
+  detector.pulse(10000);
+  assert('No stuck check before a rising edge is seen', detector.isWatchingLevel(), false);
+  detector.release();
+  detector.pulse(11000);
+  assert('Line held low is not stuck yet', detector.isStuck(11000 + 1999), false);
+  assert('Line held low too long is stuck', detector.isStuck(11000 + 2000), true);
+  detector.release();
+  assert('Release ends the stuck watch', detector.isStuck(20000), false);
+
+  assert('First unclaimed burst is tolerated', detector.unclaimedBurst(0), null);
+  detector.unclaimedBurst(1000);
+  assert('Third unclaimed burst is a fault', detector.unclaimedBurst(2000), 'unclaimed_burst');
+  const quiet = new PulseAnomalyDetector();
+  quiet.unclaimedBurst(0);
+  quiet.unclaimedBurst(1000);
+  assert('Old unclaimed bursts age out', quiet.unclaimedBurst(DEFAULT_FAULT_DETECTION.unclaimedWindowMs + 1000), null);
+
+  // Test 2: Faults on the hardware manager
+  console.log('\n🧪 Testing fault handling...');
+  const hardware = new HardwareManager();
+  await hardware.setGpioBackend('simulator');
+  hardware.setupCoinDetection(() => {});
+  const simulator = hardware.getSimulator()!;
+  const pin = hardware.getHardwareStatus().coinSlotPin;
+  const mac = 'aa:bb:cc:dd:ee:20';
+
+  hardware.startCoinSession(mac, '10.0.0.20');
+  // A shorted line chattering every 5 ms
+  const chatter: RecordedPulse[] = Array.from({ length: 40 }, (_, i) => ({ pin, at: i * 5 }));
+  simulator.replay(chatter, 2_000_000);
+  assert('Chatter raises an alert', hardware.getAlerts()[0]?.kind, 'pulse_rate');
+  assert('Alert is saved', getActiveHardwareAlerts().some(alert => alert.kind === 'pulse_rate'), true);
+  assert('Slot is inhibited on a fault', hardware.getCoinSlotState(), 'fault');
+  assert('Customer is moved off the slot', hardware.getCoinSession(mac), null);
+  assert('Chatter is not credited', hardware.getHardwareStatus().acceptors[0].countToday, 0);
+
+  simulator.replay([{ pin, at: 0 }], 3_000_000);
+  hardware.cleanup();
+  assert('Pulses are ignored while faulted', hardware.getHardwareStatus().acceptors[0].countToday, 0);
+
+  assert('Unknown alert cannot be cleared', hardware.clearAlert(-1), false);
+  assert('Clearing the alert succeeds', hardware.clearAlert(hardware.getAlerts()[0].id, 'tester'), true);
+  assert('Slot reopens once cleared', hardware.getCoinSlotState(), 'idle');
+  assert('Cleared alert is no longer active', getActiveHardwareAlerts().length, 0);
+
+  // Coins keep dropping with nobody inserting
+  const unattended = new HardwareManager();
+  await unattended.setGpioBackend('simulator');
+  unattended.setupCoinDetection(() => {});
+  const fishing: RecordedPulse[] = [0, 1000, 2000].map(at => ({ pin, at }));
+  unattended.getSimulator()!.replay(fishing, 4_000_000);
+  unattended.cleanup();
+  assert('Unclaimed coins raise an alert', unattended.getAlerts()[0]?.kind, 'unclaimed_burst');
+  unattended.clearAlert(unattended.getAlerts()[0]?.id);
+
+  await unattended.setGpioBackend('auto');
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All coin fault tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinFaultTests();
+}
+
+export { runCoinFaultTests };
@@ -0,0 +1,96 @@
+import { HardwareManager } from '../hardwareManager';
+import { getWalletBalance } from '../database';
+import type { RecordedPulse } from '../gpio';
+
+const runCoinQueueTests = async () => {
+  console.log('Running Coin Queue Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const first = 'aa:aa:aa:aa:aa:01';
+  const second = 'aa:aa:aa:aa:aa:02';
+  const third = 'aa:aa:aa:aa:aa:03';
+  const hardware = new HardwareManager();
+
+  // Test 1: Joining the line
+  console.log('\n🧪 Testing FIFO order...');
+  assert('Free slot is granted', hardware.startCoinSession(first, '10.0.0.1').status, 'active');
+  const waiting = hardware.startCoinSession(second, '10.0.0.2');
+  assert('Busy slot queues instead of rejecting', waiting.status, 'queued');
+  assert('Second device is first in line', waiting.position, 1);
+  assert('Third device is second in line', hardware.startCoinSession(third, '10.0.0.3').position, 2);
+  assert('Asking again keeps the place', hardware.startCoinSession(second, '10.0.0.2').position, 1);
+  assert('Queue lists waiting devices', hardware.getCoinQueue().queue.length, 2);
+  assert('Unknown device is not queued', hardware.getCoinSlotPosition('aa:aa:aa:aa:aa:99').status, 'none');
+
+  // Test 2: Wait estimates
+  console.log('\n🧪 Testing estimated wait...');
+  const window = hardware.getCoinQueue().insertWindowSeconds;
+  assert('Next in line waits for the active window', hardware.getCoinSlotPosition(second).estimatedWaitSeconds, window);
+  assert('Each device ahead adds a window', hardware.getCoinSlotPosition(third).estimatedWaitSeconds, window * 2);
+
+  // Test 3: Releasing the slot
+  console.log('\n🧪 Testing release...');
+  hardware.releaseCoinSlot(first);
+  assert('Release promotes the head of the line', hardware.getCoinSlotPosition(second).status, 'active');
+  assert('Others move up', hardware.getCoinSlotPosition(third).position, 1);
+  hardware.releaseCoinSlot(third);
+  assert('Leaving the line drops the device', hardware.getCoinSlotPosition(third).status, 'none');
+  assert('Leaving does not disturb the active device', hardware.getCoinQueue().active?.macAddress, second);
+  hardware.releaseCoinSlot(second);
+  assert('Slot is free once everyone is done', hardware.getCoinQueue().active, null);
+
+  // Test 4: A coin still going in when the slot changes hands
+  console.log('\n🧪 Testing handoff during a coin...');
+  const simulated = new HardwareManager();
+  await simulated.setGpioBackend('simulator');
+  simulated.setupCoinDetection(() => {});
+  const simulator = simulated.getSimulator()!;
+  const pin = simulated.getHardwareStatus().coinSlotPin;
+  const walletBefore = getWalletBalance(first);
+
+  simulated.startCoinSession(first, '10.0.0.1');
+  simulated.startCoinSession(second, '10.0.0.2');
+  const startAt = Date.now();
+  // First half of a five peso coin, then the customer taps "done"
+  simulator.replay([0, 30, 60].map((at): RecordedPulse => ({ pin, at })), startAt);
+  simulated.releaseCoinSlot(first);
+  assert('Slot waits for the coin to finish', simulated.getCoinSlotPosition(second).status, 'queued');
+  assert('Nobody else can take the slot meanwhile', simulated.startCoinSession(third, '10.0.0.3').status, 'queued');
+  simulator.replay([90, 120].map((at): RecordedPulse => ({ pin, at })), startAt);
+  await new Promise(resolve => setTimeout(resolve, 500));
+  assert('Next device gets the slot afterwards', simulated.getCoinSlotPosition(second).status, 'active');
+  assert('Coin is not credited to the next device', simulated.getCoinSession(second)?.amount, 0);
+  assert('Coin goes to the previous device', getWalletBalance(first) - walletBefore, 5);
+
+  simulated.releaseCoinSlot(second);
+  simulated.releaseCoinSlot(third);
+  simulated.cleanup();
+  // Leave the shared settings as other tests expect them
+  await simulated.setGpioBackend('auto');
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All coin queue tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinQueueTests();
+}
+
+export { runCoinQueueTests };
@@ -0,0 +1,164 @@
+import { DeadlineScheduler, type SchedulerClock } from '../deadlineScheduler';
+import { SessionManager } from '../sessionManager';
+import { sessionNotifications, type SessionNotice } from '../sessionNotifications';
+
+// Timers only fire when the test advances the clock; the wall clock can be set on its own
+class FakeClock implements SchedulerClock {
+  wall = Date.now();
+  elapsed = 0;
+  private timers: Map<number, { at: number; callback: () => void }> = new Map();
+  private nextHandle = 1;
+  longestWait = 0;
+
+  now() { return this.wall; }
+  monotonic() { return this.elapsed; }
+
+  setTimer(callback: () => void, ms: number) {
+    this.longestWait = Math.max(this.longestWait, ms);
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.elapsed + ms, callback });
+    return handle;
+  }
+
+  clearTimer(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  advance(ms: number) {
+    const target = this.elapsed + ms;
+    for (;;) {
+      const due = [...this.timers.entries()]
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.wall += due[1].at - this.elapsed;
+      this.elapsed = due[1].at;
+      due[1].callback();
+    }
+    this.wall += target - this.elapsed;
+    this.elapsed = target;
+  }
+}
+
+const runDeadlineSchedulerTests = async () => {
+  console.log('Running Deadline Scheduler Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Ordering
+  console.log('\n🧪 Testing ordering...');
+  let clock = new FakeClock();
+  let scheduler = new DeadlineScheduler(clock);
+  const fired: string[] = [];
+  scheduler.schedule('c', 3000, () => { fired.push('c'); });
+  scheduler.schedule('a', 1000, () => { fired.push('a'); });
+  scheduler.schedule('b', 2000, () => { fired.push('b'); });
+  clock.advance(1500);
+  assert('Only due deadlines fire', fired.join(','), 'a');
+  clock.advance(5000);
+  assert('Deadlines fire in due order', fired.join(','), 'a,b,c');
+  assert('Fired deadlines are removed', scheduler.size, 0);
+
+  // Test 2: Replace and cancel
+  console.log('\n🧪 Testing replace and cancel...');
+  fired.length = 0;
+  scheduler.schedule('x', 1000, () => { fired.push('x1'); });
+  scheduler.schedule('x', 4000, () => { fired.push('x2'); });
+  scheduler.schedule('y', 2000, () => { fired.push('y'); });
+  scheduler.cancel('y');
+  assert('Replaced deadline keeps one entry', scheduler.size, 1);
+  assert('Time left follows the replacement', scheduler.timeUntil('x'), 4000);
+  clock.advance(10000);
+  assert('Only the replacement fires', fired.join(','), 'x2');
+  assert('Cancelled deadline is gone', scheduler.has('y'), false);
+
+  // Test 3: Wall clock jumps
+  console.log('\n🧪 Testing wall clock jumps...');
+  fired.length = 0;
+  scheduler.scheduleAt('end', new Date(clock.now() + 60000), () => { fired.push('end'); });
+  clock.wall += 24 * 60 * 60 * 1000;
+  clock.advance(30000);
+  assert('Setting the clock forward does not fire', fired.length, 0);
+  clock.wall -= 48 * 60 * 60 * 1000;
+  clock.advance(30000);
+  assert('Setting the clock back does not delay', fired.join(','), 'end');
+
+  // Test 4: Long sessions
+  console.log('\n🧪 Testing long deadlines...');
+  clock = new FakeClock();
+  scheduler = new DeadlineScheduler(clock, 60000);
+  let longFired = false;
+  scheduler.schedule('month', 30 * 24 * 60 * 60 * 1000, () => { longFired = true; });
+  clock.advance(29 * 24 * 60 * 60 * 1000);
+  assert('Not fired before it is due', longFired, false);
+  clock.advance(24 * 60 * 60 * 1000);
+  assert('Fires after 30 days', longFired, true);
+  assert('Timer never waits past the cap', clock.longestWait, 60000);
+
+  // Test 5: Failing tasks
+  console.log('\n🧪 Testing failing tasks...');
+  fired.length = 0;
+  scheduler.schedule('bad', 10, () => { throw new Error('boom'); });
+  scheduler.schedule('good', 20, () => { fired.push('good'); });
+  clock.advance(100);
+  assert('A failing task does not stop the others', fired.join(','), 'good');
+
+  // Test 6: Sessions
+  console.log('\n🧪 Testing session deadlines...');
+  clock = new FakeClock();
+  scheduler = new DeadlineScheduler(clock);
+  const manager = new SessionManager(scheduler);
+  const mac = 'aa:bb:cc:dd:ee:41';
+  const warnings: SessionNotice[] = [];
+  const onNotice = (notice: SessionNotice) => {
+    if (notice.type === 'expiring') warnings.push(notice);
+  };
+  sessionNotifications.on('notice', onNotice);
+
+  const session = await manager.startSession(mac, 10, '10.0.0.41');
+  assert('Expiry and warning are scheduled', scheduler.size, 2);
+  clock.advance(session.minutes * 60000 - 6 * 60000);
+  assert('No warning too early', warnings.length, 0);
+  clock.advance(2 * 60000);
+  assert('Warns before expiry', warnings.length, 1);
+  assert('Warning names the session', warnings[0]?.sessionId, session.id);
+
+  await manager.pauseSession(mac);
+  assert('Pausing drops expiry and warning', scheduler.has(`expire:${mac}`), false);
+  assert('Paused session waits on the pause limit', scheduler.has(`pause:${mac}`), true);
+  await manager.resumeSession(mac);
+  assert('Resuming schedules expiry again', scheduler.has(`expire:${mac}`), true);
+
+  clock.advance(5 * 60000);
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert('Session ends at its deadline', manager.getSession(mac), undefined);
+  assert('Nothing left to run', scheduler.size, 0);
+  sessionNotifications.off('notice', onNotice);
+  manager.cleanup();
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All deadline scheduler tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runDeadlineSchedulerTests();
+}
+
+export { runDeadlineSchedulerTests };
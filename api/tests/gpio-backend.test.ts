@@ -0,0 +1,84 @@
+import { resolveGpioBackend, validateTimeline, parseLibgpiodVersion, parseGpiomonEvent, SimulatorBackend, type RecordedPulse } from '../gpio';
+import { HardwareManager } from '../hardwareManager';
+import { coinEvents } from '../coinEvents';
+
+const runGpioBackendTests = async () => {
+  console.log('Running GPIO Backend Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Backend selection
+  console.log('\n🧪 Testing backend selection...');
+  assert('Raspberry Pi uses rpio', resolveGpioBackend('auto', 'raspberry-pi', true, false), 'rpio');
+  assert('Orange Pi uses libgpiod', resolveGpioBackend('auto', 'orange-pi', true, false), 'libgpiod');
+  assert('No GPIO means no backend', resolveGpioBackend('auto', 'ubuntu-x64', false, false), null);
+  assert('Mock mode means no backend', resolveGpioBackend('libgpiod', 'orange-pi', true, true), null);
+  assert('Explicit choice beats detection', resolveGpioBackend('libgpiod', 'unknown', false, false), 'libgpiod');
+  assert('Simulator works in mock mode', resolveGpioBackend('simulator', 'ubuntu-x64', false, true), 'simulator');
+  assert('libgpiod 2.x is recognized', parseLibgpiodVersion('gpioset (libgpiod) v2.1.1\nCopyright (C) 2017-2023 Bartosz Golaszewski\n'), 2);
+  assert('libgpiod 1.x is recognized', parseLibgpiodVersion('gpioset (libgpiod) v1.6.3\n'), 1);
+  assert('Unknown output has no version', parseLibgpiodVersion(''), null);
+  assert('gpiomon edge keeps the kernel time', parseGpiomonEvent('1700000000.123456789 falling')?.at, 1700000000123.4568);
+  assert('gpiomon edge direction', parseGpiomonEvent('1700000000.200000000 rising')?.edge, 'rising');
+  assert('Other gpiomon output is ignored', parseGpiomonEvent('terminating'), null);
+
+  // Test 2: Timelines
+  console.log('\n🧪 Testing timelines...');
+  assert('Recorded timeline is valid', validateTimeline([{ pin: 15, at: 0 }, { pin: 15, at: 30 }]), null);
+  assert('Empty timeline is rejected', validateTimeline([]) !== null, true);
+  assert('Negative offset is rejected', validateTimeline([{ pin: 15, at: -5 }]) !== null, true);
+  const bare = new SimulatorBackend();
+  assert('Unopened pin drops pulses', bare.replay([{ pin: 15, at: 0 }]), 0);
+
+  // Test 3: Replaying coins through the hardware manager
+  console.log('\n🧪 Testing simulator replay...');
+  const hardware = new HardwareManager();
+  await hardware.setGpioBackend('simulator');
+  hardware.setupCoinDetection(() => {});
+  const simulator = hardware.getSimulator();
+  assert('Simulator is the active backend', hardware.getHardwareStatus().gpioBackend, 'simulator');
+
+  const values: number[] = [];
+  const onCoin = (event: { value: number }) => values.push(event.value);
+  coinEvents.on('coin', onCoin);
+
+  const pin = hardware.getHardwareStatus().coinSlotPin;
+  // A five peso coin, a pause, then a one peso coin
+  const timeline: RecordedPulse[] = [0, 30, 60, 90, 120, 1000].map(at => ({ pin, at }));
+  assert('Every pulse reaches the coin input', simulator?.replay(timeline, 1_000_000), 6);
+  assert('Gap closes the first coin', values.length, 1);
+  assert('First coin is five', values[0], 5);
+  hardware.cleanup();
+  assert('Shutdown credits the pending coin', values[1], 1);
+  assert('Status LED starts off', simulator?.writes.find(write => write.pin === hardware.getHardwareStatus().statusLEDPin)?.level, 0);
+  coinEvents.off('coin', onCoin);
+
+  // Leave the shared settings as other tests expect them
+  await hardware.setGpioBackend('auto');
+  assert('Auto without GPIO falls back to mock', hardware.getHardwareStatus().gpioBackend, null);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All GPIO backend tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runGpioBackendTests();
+}
+
+export { runGpioBackendTests };
@@ -0,0 +1,106 @@
+import { resolveLedState, patternLevelAt, validateLedPattern, LedPatternPlayer, DEFAULT_LED_PATTERNS, type LedInputs } from '../ledPatterns';
+import { HardwareManager } from '../hardwareManager';
+import type { PinLevel } from '../gpio';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const runLedPatternTests = async () => {
+  console.log('Running LED Pattern Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: State priority
+  console.log('\n🧪 Testing state priority...');
+  const healthy: LedInputs = { booting: false, faulted: false, maintenance: false, internetUp: true, portalActive: true, coinSessionOpen: false };
+  assert('Healthy and idle', resolveLedState(healthy), 'idle');
+  assert('Coin session open', resolveLedState({ ...healthy, coinSessionOpen: true }), 'coin_session');
+  assert('Portal off wins over a session', resolveLedState({ ...healthy, portalActive: false, coinSessionOpen: true }), 'portal_off');
+  assert('No WAN wins over portal off', resolveLedState({ ...healthy, portalActive: false, internetUp: false }), 'no_wan');
+  assert('Maintenance wins over no WAN', resolveLedState({ ...healthy, internetUp: false, maintenance: true }), 'maintenance');
+  assert('Fault wins over maintenance', resolveLedState({ ...healthy, maintenance: true, faulted: true }), 'fault');
+  assert('Booting wins over everything', resolveLedState({ ...healthy, faulted: true, booting: true }), 'booting');
+
+  // Test 2: Patterns
+  console.log('\n🧪 Testing patterns...');
+  const twoBlinks = [400, 400, 400, 1600];
+  assert('Starts on', patternLevelAt(twoBlinks, 0), 1);
+  assert('Off between blinks', patternLevelAt(twoBlinks, 500), 0);
+  assert('Second blink', patternLevelAt(twoBlinks, 900), 1);
+  assert('Pause after blinks', patternLevelAt(twoBlinks, 2000), 0);
+  assert('Repeats', patternLevelAt(twoBlinks, 2800 + 100), 1);
+  assert('Steady on', patternLevelAt('on', 12345), 1);
+  assert('Defaults are valid', Object.values(DEFAULT_LED_PATTERNS).every(pattern => validateLedPattern(pattern) === null), true);
+  assert('Odd step count is rejected', validateLedPattern([400, 400, 400]) !== null, true);
+  assert('Too short a step is rejected', validateLedPattern([10, 400]) !== null, true);
+  assert('Unknown word is rejected', validateLedPattern('blink') !== null, true);
+
+  const levels: PinLevel[] = [];
+  const player = new LedPatternPlayer(level => levels.push(level));
+  player.play([50, 50]);
+  await sleep(75);
+  assert('Player turns off after the on step', levels.join(''), '10');
+  player.flash(200);
+  assert('Flash lights the LED', levels[levels.length - 1], 1);
+  player.stop();
+
+  // Test 3: Driven by hardware state
+  console.log('\n🧪 Testing hardware manager...');
+  const hardware = new HardwareManager();
+  await hardware.setGpioBackend('simulator');
+  const simulator = hardware.getSimulator()!;
+  const ledPin = hardware.getHardwareStatus().statusLEDPin;
+  hardware.updateLedPatterns({ idle: 'off', coin_session: 'on', portal_off: [1000, 1000] });
+
+  assert('Boots into the boot pattern', hardware.getHardwareStatus().led.state, 'booting');
+  hardware.markReady();
+  assert('Idle once ready', hardware.getHardwareStatus().led.state, 'idle');
+  assert('Idle pattern is played', simulator.level(ledPin), 0);
+
+  hardware.startCoinSession('aa:bb:cc:dd:ee:30', '10.0.0.30');
+  assert('Coin session is shown', hardware.getHardwareStatus().led.state, 'coin_session');
+  assert('Coin session pattern is played', simulator.level(ledPin), 1);
+  hardware.clearCoinSession();
+
+  hardware.setCaptivePortalActive(false);
+  assert('Portal off is shown', hardware.getHardwareStatus().led.label, 'Captive portal off');
+  hardware.setInternetAvailable(false);
+  assert('No WAN is shown', hardware.getHardwareStatus().led.state, 'no_wan');
+
+  let rejected = false;
+  try {
+    hardware.updateLedPatterns({ fault: [5] });
+  } catch {
+    rejected = true;
+  }
+  assert('Invalid pattern is rejected', rejected, true);
+  assert('Rejected pattern is not stored', hardware.getHardwareStatus().led.patterns.fault, DEFAULT_LED_PATTERNS.fault);
+
+  hardware.updateLedPatterns(DEFAULT_LED_PATTERNS);
+  hardware.cleanup();
+  await hardware.setGpioBackend('auto');
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All LED pattern tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runLedPatternTests();
+}
+
+export { runLedPatternTests };
@@ -0,0 +1,110 @@
+import { getPauseAllowance, pausedSessionAction, validatePauseLimits, DEFAULT_PAUSE_LIMITS } from '../pausePolicy';
+import { sessionManager } from '../sessionManager';
+import { getSettings, updateSettings } from '../database';
+
+const runPauseLimitTests = async () => {
+  console.log('Running Pause Limit Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Allowance
+  console.log('\n🧪 Testing allowance...');
+  const limits = { ...DEFAULT_PAUSE_LIMITS, maxPauses: 2, maxPausedMinutes: 30, minRemainingMinutes: 10 };
+  const fresh = getPauseAllowance(limits, { pauseCount: 0, pausedSeconds: 0, remainingSeconds: 3600 });
+  assert('Fresh session can pause', fresh.canPause, true);
+  assert('Pauses left', fresh.pausesLeft, 2);
+  assert('Pause time left', fresh.pausedMinutesLeft, 30);
+  assert('Unlimited by default', getPauseAllowance(DEFAULT_PAUSE_LIMITS, { pauseCount: 9, pausedSeconds: 9999, remainingSeconds: 1 }).pausesLeft, null);
+  assert('Pause count is enforced', getPauseAllowance(limits, { pauseCount: 2, pausedSeconds: 0, remainingSeconds: 3600 }).reason, 'No pauses left for this session');
+  assert('Paused time is enforced', getPauseAllowance(limits, { pauseCount: 1, pausedSeconds: 1800, remainingSeconds: 3600 }).canPause, false);
+  assert('Remaining time is enforced', getPauseAllowance(limits, { pauseCount: 0, pausedSeconds: 0, remainingSeconds: 599 }).canPause, false);
+
+  // Test 2: Long pauses
+  console.log('\n🧪 Testing long pauses...');
+  assert('Short pause is left alone', pausedSessionAction(limits, { pausedSeconds: 600, currentPauseSeconds: 600 }), null);
+  assert('Used up pause time resumes', pausedSessionAction(limits, { pausedSeconds: 1800, currentPauseSeconds: 60 })?.action, 'resume');
+  assert('Expired pause ends the session', pausedSessionAction(DEFAULT_PAUSE_LIMITS, { pausedSeconds: 0, currentPauseSeconds: 7 * 24 * 3600 })?.action, 'expire');
+  assert('Defaults are valid', validatePauseLimits(DEFAULT_PAUSE_LIMITS), null);
+  assert('Negative limit is rejected', validatePauseLimits({ ...DEFAULT_PAUSE_LIMITS, maxPauses: -1 }) !== null, true);
+
+  // Test 3: Sessions
+  console.log('\n🧪 Testing sessions...');
+  const rates = getSettings().rates;
+  updateSettings({ rates: { ...rates, pauseLimits: { ...DEFAULT_PAUSE_LIMITS, maxPauses: 1, pausedExpiryMinutes: 60, pausedExpiryAction: 'resume' } } });
+  const mac = 'aa:bb:cc:dd:ee:41';
+  await sessionManager.startSession(mac, 5, '10.0.0.41');
+
+  await sessionManager.pauseSession(mac);
+  await sessionManager.resumeSession(mac);
+  assert('Pause is counted', sessionManager.getPauseAllowance(mac)?.pausesLeft, 0);
+  let refused = false;
+  try {
+    await sessionManager.pauseSession(mac);
+  } catch {
+    refused = true;
+  }
+  assert('Customer pause over the limit is refused', refused, true);
+
+  await sessionManager.pauseSession(mac, { source: 'admin', actor: 'alice' });
+  assert('Admin pause is allowed', sessionManager.getSession(mac)?.paused, true);
+  assert('Admin pause is not counted', sessionManager.getSession(mac)?.pauseCount, 1);
+
+  const pausedAt = sessionManager.getSession(mac)!.pausedAt!;
+  await sessionManager.enforcePauseLimits(new Date(pausedAt.getTime() + 30 * 60000));
+  assert('Pause within the limit stays', sessionManager.getSession(mac)?.paused, true);
+  await sessionManager.enforcePauseLimits(new Date(pausedAt.getTime() + 61 * 60000));
+  assert('Long pause is resumed', sessionManager.getSession(mac)?.paused, false);
+
+  await sessionManager.endSession(mac);
+
+  // Test 4: Auto-pauses
+  console.log('\n🧪 Testing auto-pauses...');
+  updateSettings({
+    rates: {
+      ...rates,
+      autoPause: { time: true, data: false, absenceMinutes: 5 },
+      pauseLimits: { ...DEFAULT_PAUSE_LIMITS, maxPauses: 1, maxPausedMinutes: 10, pausedExpiryMinutes: 60, pausedExpiryAction: 'resume' }
+    }
+  });
+  const away = 'aa:bb:cc:dd:ee:42';
+  await sessionManager.startSession(away, 5, '10.0.0.42');
+  const start = new Date();
+  await sessionManager.applyPresence(new Map(), start);
+  await sessionManager.applyPresence(new Map(), new Date(start.getTime() + 5 * 60000));
+  assert('Device leaving pauses the session', sessionManager.getSession(away)?.pauseReason, 'away');
+  assert('Auto-pause is not counted', sessionManager.getSession(away)?.pauseCount, 0);
+  await sessionManager.enforcePauseLimits(new Date(start.getTime() + 20 * 60000));
+  assert('Time away does not use up pause time', sessionManager.getSession(away)?.paused, true);
+  await sessionManager.enforcePauseLimits(new Date(start.getTime() + 61 * 60000));
+  assert('Long absence still hits the expiry', sessionManager.getSession(away)?.paused, false);
+  assert('Customer keeps their pauses', sessionManager.getPauseAllowance(away)?.pausesLeft, 1);
+  assert('Customer keeps their pause time', sessionManager.getPauseAllowance(away)?.pausedMinutesLeft, 10);
+
+  await sessionManager.endSession(away);
+  updateSettings({ rates });
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All pause limit tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPauseLimitTests();
+}
+
+export { runPauseLimitTests };
@@ -0,0 +1,134 @@
+import { PresenceTracker, parseNeighborTable, parseStationDump, parseDhcpLeases, mergeSightings, validateAutoPause, autoPauseApplies, DEFAULT_AUTO_PAUSE } from '../presence';
+import { sessionManager } from '../sessionManager';
+import { getSettings, updateSettings } from '../database';
+
+const runPresenceTests = async () => {
+  console.log('Running Presence Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Presence sources
+  console.log('\n🧪 Testing presence sources...');
+  const now = 1000000000;
+  const neighbors = parseNeighborTable(JSON.stringify([
+    { dst: '10.0.0.11', lladdr: 'AA:BB:CC:DD:EE:11', state: ['REACHABLE'], confirmed: 2 },
+    { dst: '10.0.0.12', lladdr: 'aa:bb:cc:dd:ee:12', state: ['STALE'], confirmed: 40 },
+    { dst: '10.0.0.13', state: ['FAILED'] },
+    { dst: '10.0.0.14', lladdr: 'aa:bb:cc:dd:ee:14', state: ['PERMANENT'], confirmed: 0 }
+  ]), now);
+  assert('Neighbors are seen at their last confirmation', neighbors.get('aa:bb:cc:dd:ee:11'), now - 2000);
+  assert('STALE neighbors are still seen', neighbors.get('aa:bb:cc:dd:ee:12'), now - 40000);
+  assert('Static and failed entries are skipped', neighbors.size, 2);
+  const stations = parseStationDump([
+    'Station aa:bb:cc:dd:ee:21 (on wlan0)',
+    '\tinactive time:\t120 ms',
+    'Station AA:BB:CC:DD:EE:22 (on wlan0)',
+    '\tinactive time:\t4000 ms'
+  ].join('\n'), now);
+  assert('Stations are seen at their last frame', stations.get('aa:bb:cc:dd:ee:22'), now - 4000);
+  assert('Every station is listed', stations.size, 2);
+  const leases = parseDhcpLeases([
+    '1003000 aa:bb:cc:dd:ee:12 10.0.0.12 phone 01:aa:bb:cc:dd:ee:12',
+    '0 aa:bb:cc:dd:ee:31 10.0.0.31 printer *'
+  ].join('\n'), 3600);
+  assert('Leases are seen at their last renewal', leases.get('aa:bb:cc:dd:ee:12'), now - 600000);
+  assert('Infinite leases are skipped', leases.has('aa:bb:cc:dd:ee:31'), false);
+  assert('Newest sighting wins', mergeSightings(leases, neighbors).get('aa:bb:cc:dd:ee:12'), now - 40000);
+
+  // Test 2: Absence tracking
+  console.log('\n🧪 Testing absence tracking...');
+  const tracker = new PresenceTracker();
+  assert('First check starts the count', tracker.observe('m1', undefined, 1000), 0);
+  assert('Counts from the first check', tracker.observe('m1', undefined, 61000), 60000);
+  assert('Seen again resets', tracker.observe('m1', 62000, 62000), 0);
+  assert('Counts from the last sighting', tracker.observe('m1', 70000, 90000), 20000);
+  assert('Older sightings are ignored', tracker.observe('m1', 30000, 100000), 30000);
+  tracker.retain(new Set());
+  assert('Devices without a session are dropped', tracker.getLastSeen('m1'), undefined);
+
+  // Test 3: Settings
+  console.log('\n🧪 Testing settings...');
+  assert('Off by default', autoPauseApplies(DEFAULT_AUTO_PAUSE), false);
+  assert('Applies per plan', autoPauseApplies({ ...DEFAULT_AUTO_PAUSE, data: true }, 'data'), true);
+  assert('Zero minutes is rejected', validateAutoPause({ ...DEFAULT_AUTO_PAUSE, absenceMinutes: 0 }) !== null, true);
+  assert('Defaults are valid', validateAutoPause(DEFAULT_AUTO_PAUSE), null);
+
+  // Test 4: Sessions
+  console.log('\n🧪 Testing auto-pause...');
+  const rates = getSettings().rates;
+  updateSettings({ rates: { ...rates, autoPause: { time: true, data: false, absenceMinutes: 5 } } });
+  const mac = 'aa:bb:cc:dd:ee:31';
+  await sessionManager.startSession(mac, 5, '10.0.0.31');
+  const start = new Date();
+
+  await sessionManager.applyPresence(new Map(), start);
+  await sessionManager.applyPresence(new Map(), new Date(start.getTime() + 4 * 60000));
+  assert('Short absence is ignored', sessionManager.getSession(mac)?.paused, false);
+
+  await sessionManager.applyPresence(new Map(), new Date(start.getTime() + 5 * 60000));
+  const away = sessionManager.getSession(mac);
+  assert('Long absence pauses', away?.paused, true);
+  assert('Pause is marked as away', away?.pauseReason, 'away');
+  assert('Pause starts when the device was last seen', away?.pausedAt?.getTime(), start.getTime());
+
+  const back = new Date(start.getTime() + 6 * 60000);
+  await sessionManager.applyPresence(new Map([[mac, back.getTime()]]), back);
+  assert('Return resumes', sessionManager.getSession(mac)?.paused, false);
+
+  await sessionManager.pauseSession(mac);
+  const later = new Date(start.getTime() + 7 * 60000);
+  await sessionManager.applyPresence(new Map([[mac, later.getTime()]]), later);
+  assert('Manual pause is left alone', sessionManager.getSession(mac)?.paused, true);
+  await sessionManager.endSession(mac);
+
+  // Test 5: Idle wired devices
+  console.log('\n🧪 Testing idle devices...');
+  const idle = 'aa:bb:cc:dd:ee:32';
+  await sessionManager.startSession(idle, 5, '10.0.0.32');
+  const idleStart = Date.now();
+  const minute = (n: number) => new Date(idleStart + n * 60000);
+  // The entry goes STALE within a minute of the last reply and lingers after that
+  const neighborAt = (at: Date, lastReply: Date) => parseNeighborTable(JSON.stringify([
+    { dst: '10.0.0.32', lladdr: idle, state: ['STALE'], confirmed: Math.round((at.getTime() - lastReply.getTime()) / 1000) }
+  ]), at.getTime());
+
+  for (const n of [0, 5, 10]) {
+    await sessionManager.applyPresence(neighborAt(minute(n), minute(n - 1)), minute(n));
+  }
+  assert('STALE but answering stays connected', sessionManager.getSession(idle)?.paused, false);
+
+  await sessionManager.applyPresence(neighborAt(minute(14), minute(9)), minute(14));
+  assert('STALE and silent pauses', sessionManager.getSession(idle)?.pauseReason, 'away');
+  assert('Pause starts at the last reply', sessionManager.getSession(idle)?.pausedAt?.getTime(), minute(9).getTime());
+
+  const renewal = `${Math.round(minute(15).getTime() / 1000) + 3600} ${idle} 10.0.0.32 laptop *`;
+  await sessionManager.applyPresence(mergeSightings(neighborAt(minute(15), minute(9)), parseDhcpLeases(renewal, 3600)), minute(15));
+  assert('Lease renewal brings it back', sessionManager.getSession(idle)?.paused, false);
+  await sessionManager.endSession(idle);
+  updateSettings({ rates });
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All presence tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPresenceTests();
+}
+
+export { runPresenceTests };
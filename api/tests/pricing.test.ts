@@ -0,0 +1,113 @@
+import { quotePesos, quoteDataPesos, hasDataPlans, isScheduleActive, validateRatesSettings } from '../pricing';
+import type { RatesSettings, RateSchedule } from '../database';
+
+const runPricingTests = () => {
+  console.log('Running Pricing Engine Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const happyHour: RateSchedule = {
+    id: 'happy',
+    name: 'Happy Hour',
+    enabled: true,
+    days: [1, 2, 3, 4, 5],
+    startTime: '13:00',
+    endTime: '15:00',
+    bonusPercent: 50
+  };
+  const lateNight: RateSchedule = {
+    id: 'late',
+    name: 'Late Night',
+    enabled: true,
+    days: [5],
+    startTime: '22:00',
+    endTime: '02:00',
+    timePerPeso: 60
+  };
+  const rates: RatesSettings = {
+    timePerPeso: 30,
+    rates: [
+      { pesos: 1, minutes: 30 },
+      { pesos: 5, minutes: 240 },
+      { pesos: 10, minutes: 600 }
+    ],
+    schedules: [happyHour, lateNight]
+  };
+  const noTiers: RatesSettings = { ...rates, rates: [] };
+
+  // Wednesday 2026-01-07 and Friday 2026-01-09, local time
+  const wednesdayMorning = new Date(2026, 0, 7, 9, 0);
+  const wednesdayAfternoon = new Date(2026, 0, 7, 14, 30);
+  const fridayNight = new Date(2026, 0, 9, 23, 0);
+  const saturdayEarly = new Date(2026, 0, 10, 1, 0);
+  const sundayEarly = new Date(2026, 0, 11, 1, 0);
+
+  // Test 1: Greedy tier decomposition
+  console.log('\n🧪 Testing tier decomposition...');
+  assert('5 pesos uses the 5-peso tier', quotePesos(5, rates, wednesdayMorning).minutes, 240);
+  assert('6 pesos = 5-peso tier + 1 peso', quotePesos(6, rates, wednesdayMorning).minutes, 270);
+  assert('17 pesos = 10 + 5 + 1 + 1', quotePesos(17, rates, wednesdayMorning).minutes, 900);
+  assert('17 pesos uses three tiers', quotePesos(17, rates, wednesdayMorning).lines.length, 3);
+  assert('Remainder falls back to timePerPeso', quotePesos(3, noTiers, wednesdayMorning).minutes, 90);
+  assert('Half-peso remainder is pro-rated', quotePesos(5.5, rates, wednesdayMorning).remainderMinutes, 15);
+
+  // Test 2: Schedules
+  console.log('\n🧪 Testing schedules...');
+  assert('Happy hour active on a weekday afternoon', isScheduleActive(happyHour, wednesdayAfternoon), true);
+  assert('Happy hour inactive in the morning', isScheduleActive(happyHour, wednesdayMorning), false);
+  assert('Happy hour bonus applies', quotePesos(5, rates, wednesdayAfternoon).minutes, 360);
+  assert('Quote names the schedule', quotePesos(5, rates, wednesdayAfternoon).schedule?.name, 'Happy Hour');
+  assert('Late night active Friday 23:00', isScheduleActive(lateNight, fridayNight), true);
+  assert('Late night wraps into Saturday 01:00', isScheduleActive(lateNight, saturdayEarly), true);
+  assert('Late night not active Sunday 01:00', isScheduleActive(lateNight, sundayEarly), false);
+  assert('Late night per-peso rate applies', quotePesos(2, noTiers, fridayNight).minutes, 120);
+  assert('Disabled schedule is ignored', isScheduleActive({ ...happyHour, enabled: false }, wednesdayAfternoon), false);
+
+  // Test 3: Data plans
+  console.log('\n🧪 Testing data plans...');
+  const dataRates: RatesSettings = {
+    ...rates,
+    dataRates: [{ pesos: 5, megabytes: 300 }, { pesos: 20, megabytes: 1500 }],
+    megabytesPerPeso: 50,
+    dataValidityMinutes: 720
+  };
+  assert('Time-only settings have no data plans', hasDataPlans(rates), false);
+  assert('Data tiers enable data plans', hasDataPlans(dataRates), true);
+  assert('27 pesos = 20 + 5 + 2 at per-peso MB', quoteDataPesos(27, dataRates).megabytes, 1900);
+  assert('Quota is in bytes', quoteDataPesos(5, dataRates).quotaBytes, 300 * 1024 * 1024);
+  assert('Validity comes from settings', quoteDataPesos(5, dataRates).validityMinutes, 720);
+  assert('Validity defaults to a day', quoteDataPesos(5, { ...dataRates, dataValidityMinutes: undefined }).validityMinutes, 1440);
+  assert('Zero-MB data plan is rejected', validateRatesSettings({ ...dataRates, dataRates: [{ pesos: 5, megabytes: 0 }] }) !== null, true);
+
+  // Test 4: Validation
+  console.log('\n🧪 Testing validation...');
+  assert('Valid settings pass', validateRatesSettings(rates), null);
+  assert('Bad clock is rejected', validateRatesSettings({ ...rates, schedules: [{ ...happyHour, startTime: '25:00' }] }) !== null, true);
+  assert('Bad day is rejected', validateRatesSettings({ ...rates, schedules: [{ ...happyHour, days: [7] }] }) !== null, true);
+  assert('Zero-minute tier is rejected', validateRatesSettings({ ...rates, rates: [{ pesos: 1, minutes: 0 }] }) !== null, true);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All pricing tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPricingTests();
+}
+
+export { runPricingTests };
@@ -0,0 +1,108 @@
+import { summarizeSales, salesReportToCsv, listPeriods } from '../reports';
+import type { Transaction, SessionHistoryEntry } from '../database';
+
+const runReportTests = () => {
+  console.log('Running Sales Report Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Local time, 2026-03-01 .. 2026-03-04
+  const at = (day: number, hour: number) => new Date(2026, 2, day, hour).toISOString();
+  const from = new Date(2026, 2, 1);
+  const to = new Date(2026, 2, 4);
+
+  let nextId = 1;
+  const tx = (type: Transaction['type'], amount: number, createdAt: string, macAddress?: string): Transaction => ({
+    id: nextId++,
+    type,
+    amount,
+    minutes: 0,
+    macAddress: macAddress || null,
+    createdAt
+  });
+  const session = (macAddress: string, startTime: string, durationMinutes: number): SessionHistoryEntry => ({
+    macAddress,
+    sessionType: 'time',
+    startTime,
+    endedAt: startTime,
+    pesos: 0,
+    minutes: durationMinutes,
+    durationMinutes,
+    usedBytes: 0
+  });
+
+  const transactions: Transaction[] = [
+    tx('coin', 1, at(1, 9), 'aa:aa:aa:aa:aa:01'),
+    tx('coin', 1, at(1, 9), 'aa:aa:aa:aa:aa:01'),
+    tx('coin', 1, at(1, 10)),
+    tx('voucher', 20, at(2, 12), 'aa:aa:aa:aa:aa:02'),
+    tx('refund', -1, at(2, 13), 'aa:aa:aa:aa:aa:01'),
+    tx('coin', 5, at(9, 9))
+  ];
+  const history: SessionHistoryEntry[] = [
+    session('aa:aa:aa:aa:aa:01', at(1, 9), 30),
+    session('aa:aa:aa:aa:aa:03', at(1, 11), 60),
+    session('aa:aa:aa:aa:aa:02', at(2, 12), 600)
+  ];
+
+  // Test 1: Daily grouping
+  console.log('\n🧪 Testing daily grouping...');
+  const daily = summarizeSales(transactions, history, from, to, 'day');
+  assert('Three daily buckets', daily.buckets.length, 3);
+  assert('Day 1 revenue', daily.buckets[0].revenue, 3);
+  assert('Day 1 unique clients', daily.buckets[0].uniqueClients, 2);
+  assert('Day 1 average session', daily.buckets[0].averageSessionMinutes, 45);
+  assert('Day 2 revenue nets the refund', daily.buckets[1].revenue, -1);
+  assert('Day 2 voucher redemptions', daily.buckets[1].voucherRedemptions, 1);
+  assert('Voucher value is not revenue', daily.buckets[1].voucherValue, 20);
+  assert('Empty day is kept', daily.buckets[2].revenue, 0);
+  assert('Out-of-range coin ignored', daily.totals.revenue, 2);
+  assert('Total unique clients', daily.totals.uniqueClients, 3);
+
+  // Test 2: Hourly and monthly grouping
+  console.log('\n🧪 Testing other groupings...');
+  const hourly = summarizeSales(transactions, history, from, to, 'hour');
+  assert('72 hourly buckets', hourly.buckets.length, 72);
+  assert('09:00 bucket label', hourly.buckets[9].period, '2026-03-01 09:00');
+  assert('09:00 coins', hourly.buckets[9].coins, 2);
+  assert('One monthly bucket', summarizeSales(transactions, history, from, to, 'month').buckets.length, 1);
+  let tooLarge = false;
+  try {
+    listPeriods(new Date(2020, 0, 1), new Date(2026, 0, 1), 'hour');
+  } catch {
+    tooLarge = true;
+  }
+  assert('Oversized hourly range is rejected', tooLarge, true);
+
+  // Test 3: CSV export
+  console.log('\n🧪 Testing CSV export...');
+  const csv = salesReportToCsv(daily).trim().split('\n');
+  assert('Header row', csv[0].startsWith('period,revenue,coins'), true);
+  assert('One row per bucket plus header and total', csv.length, 5);
+  assert('Total row', csv[4].startsWith('TOTAL,2,'), true);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All report tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runReportTests();
+}
+
+export { runReportTests };
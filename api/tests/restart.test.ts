@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const runRestartTests = async () => {
+  console.log('Running Restart Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // A fresh database, so each start only sees the sessions made here
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pisowifi-restart-'));
+  fs.mkdirSync(path.join(dir, 'data'));
+  process.chdir(dir);
+  const { getSessionRecord } = await import('../database');
+  const { SessionManager } = await import('../sessionManager');
+  const { networkManager } = await import('../networkManager');
+
+  const running = 'aa:bb:cc:dd:ee:61';
+  const paused = 'aa:bb:cc:dd:ee:62';
+
+  // Test 1: Shutdown
+  console.log('\n🧪 Testing shutdown...');
+  const first = new SessionManager();
+  await first.initialize();
+  const session = await first.startSession(running, 10, '10.0.0.61');
+  await first.extendSession(running, 15);
+  await first.startSession(paused, 5, '10.0.0.62');
+  await first.pauseSession(paused);
+  const runningLeft = first.getSessionTimeRemaining(running);
+  const pausedLeft = first.getSessionTimeRemaining(paused);
+  await first.cleanup();
+
+  assert('Session stays active', getSessionRecord(session.id)?.active, true);
+  assert('Time left is stored', Math.abs((getSessionRecord(session.id)?.remainingSeconds || 0) - runningLeft) <= 1, true);
+  assert('Access is left in place', networkManager.isMacAllowed(running), true);
+
+  // Test 2: Next start
+  console.log('\n🧪 Testing the next start...');
+  await new Promise(resolve => setTimeout(resolve, 1500));
+  const second = new SessionManager();
+  await second.initialize();
+  assert('Same session is restored', second.getSession(running)?.id, session.id);
+  assert('Downtime is not charged', Math.abs(second.getSessionTimeRemaining(running) - runningLeft) <= 1, true);
+  assert('Paused session stays paused', second.getSession(paused)?.paused, true);
+  assert('Paused session keeps its time', second.getSessionTimeRemaining(paused), pausedLeft);
+  assert('Access is reapplied', networkManager.isMacAllowed(running), true);
+
+  // Test 3: Ending everything
+  console.log('\n🧪 Testing end all...');
+  assert('Every session is ended', await second.endAllSessions({ source: 'admin' }), 2);
+  assert('Row is ended', getSessionRecord(session.id)?.active, false);
+  assert('Access is revoked', networkManager.isMacAllowed(running), false);
+  await second.cleanup();
+
+  // Test 4: Shutting down with SHUTDOWN_SESSIONS=end
+  console.log('\n🧪 Testing shutdown that ends sessions...');
+  const third = new SessionManager();
+  await third.initialize();
+  const ending = await third.startSession(running, 10, '10.0.0.61');
+  await third.cleanup('end');
+  assert('Session is ended by the time cleanup returns', getSessionRecord(ending.id)?.active, false);
+  assert('Access is revoked by the time cleanup returns', networkManager.isMacAllowed(running), false);
+
+  process.chdir(os.tmpdir());
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All restart tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runRestartTests();
+}
+
+export { runRestartTests };
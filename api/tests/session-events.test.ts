@@ -0,0 +1,63 @@
+import { sessionManager } from '../sessionManager';
+import { getSessionEvents, recordSessionEvent } from '../database';
+
+const runSessionEventTests = async () => {
+  console.log('Running Session Event Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const mac = `02:00:00:${Date.now().toString(16).slice(-6).match(/../g)!.join(':')}`;
+
+  // Test 1: Log storage
+  console.log('\n🧪 Testing event log...');
+  recordSessionEvent({ macAddress: mac.toUpperCase().replace(/:/g, '-'), type: 'started', source: 'coin', pesos: 5, minutes: 30, endTime: null });
+  const stored = getSessionEvents(mac);
+  assert('MAC is normalized', stored.length, 1);
+  assert('Source is kept', stored[0].source, 'coin');
+  assert('Amount is kept', stored[0].pesos, 5);
+
+  // Test 2: Session lifecycle
+  console.log('\n🧪 Testing session lifecycle...');
+  const session = await sessionManager.startSession(mac, 10, '10.0.0.40', { source: 'coin' });
+  await sessionManager.extendSession(mac, 15, { source: 'voucher', pesos: 5, note: 'Voucher TEST' });
+  await sessionManager.pauseSession(mac);
+  await sessionManager.resumeSession(mac, { source: 'admin', actor: 'alice' });
+  await sessionManager.endSession(mac, { source: 'admin', actor: 'alice' });
+
+  const events = getSessionEvents(mac).reverse().slice(1);
+  assert('Every change is logged', events.map(event => event.type).join(','), 'started,extended,paused,resumed,ended');
+  assert('Start has its price', events[0].pesos, 10);
+  assert('Start has its minutes', events[0].minutes, session.minutes);
+  assert('Extension records what paid', events[1].source, 'voucher');
+  assert('Extension records minutes added', events[1].minutes, 15);
+  assert('Extension moves the end time', new Date(events[1].endTime!).getTime(), session.endTime.getTime() + 15 * 60000);
+  assert('Customer pause defaults to portal', events[2].source, 'portal');
+  assert('Resume notes the pause', events[3].note?.startsWith('Paused for'), true);
+  assert('Admin end keeps the actor', events[4].actor, 'alice');
+  assert('Older rows are untouched', getSessionEvents(mac).length, 6);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All session event tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSessionEventTests();
+}
+
+export { runSessionEventTests };
@@ -0,0 +1,85 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const runSessionIdTests = async () => {
+  console.log('Running Session ID Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Start from a database written before sessions had IDs
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pisowifi-ids-'));
+  fs.mkdirSync(path.join(dir, 'data'));
+  const legacy = new Database(path.join(dir, 'data', 'pisowifi.db'));
+  legacy.exec(`
+    CREATE TABLE sessions (
+      macAddress TEXT, startTime TEXT, endTime TEXT, pesos INTEGER, minutes INTEGER, active INTEGER,
+      ipAddress TEXT, paused INTEGER DEFAULT 0, pausedAt TEXT, pausedDuration INTEGER DEFAULT 0,
+      sessionType TEXT DEFAULT 'time', quotaBytes INTEGER, usedBytes INTEGER DEFAULT 0
+    );
+    INSERT INTO sessions (macAddress, startTime, endTime, pesos, minutes, active) VALUES
+      ('aa:bb:cc:dd:ee:01', '2024-01-02T10:00:00.000Z', '2024-01-02T10:30:00.000Z', 5, 30, 0),
+      ('aa:bb:cc:dd:ee:01', '2024-01-01T10:00:00.000Z', '2024-01-01T10:30:00.000Z', 5, 30, 0);
+  `);
+  legacy.close();
+  process.chdir(dir);
+
+  const { getSessions, getSessionRecord, getSessionEvents } = await import('../database');
+  const { sessionManager } = await import('../sessionManager');
+
+  // Test 1: Migration
+  console.log('\n🧪 Testing migration...');
+  const migrated = getSessions();
+  assert('Old rows are kept', migrated.length, 2);
+  assert('Oldest session gets the first ID', getSessionRecord(1)?.startTime, '2024-01-01T10:00:00.000Z');
+  assert('IDs follow start order', getSessionRecord(2)?.startTime, '2024-01-02T10:00:00.000Z');
+
+  // Test 2: New sessions
+  console.log('\n🧪 Testing new sessions...');
+  const mac = 'aa:bb:cc:dd:ee:02';
+  const first = await sessionManager.startSession(mac, 5, '10.0.0.50');
+  await sessionManager.endSession(mac);
+  const second = await sessionManager.startSession(mac, 10, '10.0.0.50');
+  assert('Every session gets its own ID', first.id !== second.id, true);
+  assert('Found by ID', sessionManager.getSessionById(second.id)?.macAddress, mac);
+  assert('Ended session is not active', sessionManager.getSessionById(first.id), undefined);
+
+  await sessionManager.extendSession(mac, 15);
+  assert('Extension updates the current session', getSessionRecord(second.id)?.minutes, second.minutes + 15);
+  assert('Earlier session of the device is untouched', getSessionRecord(first.id)?.minutes, first.minutes);
+  assert('Earlier session stays ended', !!getSessionRecord(first.id)?.active, false);
+
+  const events = getSessionEvents(mac);
+  assert('Events point at their session', events.filter(event => event.sessionId === first.id).length, 2);
+  assert('Latest event is for the current session', events[0].sessionId, second.id);
+  await sessionManager.endSession(mac);
+
+  process.chdir(os.tmpdir());
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All session ID tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSessionIdTests();
+}
+
+export { runSessionIdTests };
@@ -0,0 +1,107 @@
+import { DeadlineScheduler, type SchedulerClock } from '../deadlineScheduler';
+import { SessionManager } from '../sessionManager';
+import { sessionNotifications, validateExpiryWarnings, nextWarningMinutes, DEFAULT_EXPIRY_WARNINGS, type SessionNotice } from '../sessionNotifications';
+import { getSettings, updateSettings } from '../database';
+
+const runSessionNotificationTests = async () => {
+  console.log('Running Session Notification Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Test 1: Settings
+  console.log('\n🧪 Testing settings...');
+  assert('Defaults are valid', validateExpiryWarnings(DEFAULT_EXPIRY_WARNINGS), null);
+  assert('Zero minutes is rejected', validateExpiryWarnings({ enabled: true, minutes: [0] }) !== null, true);
+  assert('Too many warnings are rejected', validateExpiryWarnings({ enabled: true, minutes: [1, 2, 3, 4, 5, 6] }) !== null, true);
+  assert('Largest threshold ahead comes first', nextWarningMinutes(DEFAULT_EXPIRY_WARNINGS, 600), 5);
+  assert('Passed thresholds are skipped', nextWarningMinutes(DEFAULT_EXPIRY_WARNINGS, 300), 1);
+  assert('Sent thresholds are skipped', nextWarningMinutes(DEFAULT_EXPIRY_WARNINGS, 600, 5), 1);
+  assert('Nothing when disabled', nextWarningMinutes({ ...DEFAULT_EXPIRY_WARNINGS, enabled: false }, 600), null);
+
+  // Test 2: Notices
+  console.log('\n🧪 Testing notices...');
+  // Deadlines only run when the test moves the clock
+  const clock: SchedulerClock & { wall: number; elapsed: number } = {
+    wall: Date.now(),
+    elapsed: 0,
+    now() { return this.wall; },
+    monotonic() { return this.elapsed; },
+    setTimer: () => null,
+    clearTimer: () => undefined
+  };
+  const scheduler = new DeadlineScheduler(clock);
+  const advance = (ms: number) => {
+    clock.wall += ms;
+    clock.elapsed += ms;
+    scheduler.runDue();
+  };
+
+  const rates = getSettings().rates;
+  updateSettings({ rates: { ...rates, expiryWarnings: { enabled: true, minutes: [10, 2] } } });
+  const manager = new SessionManager(scheduler);
+  const mac = 'aa:bb:cc:dd:ee:71';
+  const notices: SessionNotice[] = [];
+  const onNotice = (notice: SessionNotice) => {
+    if (notice.macAddress === mac) notices.push(notice);
+  };
+  sessionNotifications.on('notice', onNotice);
+  const last = () => notices[notices.length - 1];
+
+  const session = await manager.startSession(mac, 10, '10.0.0.71');
+  advance((session.minutes - 11) * 60000);
+  assert('No notice before the first threshold', notices.length, 0);
+  // A second over, since the session started a moment after the clock was read
+  advance(61000);
+  assert('First threshold', last()?.minutesLeft, 10);
+  advance(8 * 60000);
+  assert('Second threshold', last()?.minutesLeft, 2);
+  assert('Both warnings are expiring notices', notices.filter(notice => notice.type === 'expiring').length, 2);
+
+  await manager.extendSession(mac, 15);
+  assert('Extension is announced', last()?.type, 'extended');
+  advance(7 * 60000);
+  assert('Warnings start over after an extension', last()?.minutesLeft, 10);
+
+  await manager.pauseSession(mac);
+  assert('Pause is announced', last()?.type, 'paused');
+  await manager.resumeSession(mac);
+  assert('Resume is announced', last()?.type, 'resumed');
+
+  await manager.endSession(mac, { source: 'admin' });
+  assert('End is announced', last()?.type, 'ended');
+  assert('Nothing is left at the end', last()?.secondsLeft, 0);
+
+  const expiring = await manager.startSession(mac, 5, '10.0.0.71');
+  advance(expiring.minutes * 60000);
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert('Expiry is announced', last()?.type, 'expired');
+
+  sessionNotifications.off('notice', onNotice);
+  updateSettings({ rates });
+  manager.cleanup();
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All session notification tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSessionNotificationTests();
+}
+
+export { runSessionNotificationTests };
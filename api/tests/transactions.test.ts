@@ -0,0 +1,60 @@
+import { recordTransaction, getTransactions, getRevenue } from '../database';
+
+const runTransactionTests = () => {
+  console.log('Running Transaction Ledger Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  // Use a day far in the past so existing rows do not interfere
+  const day = (hour: number) => new Date(Date.UTC(2001, 0, 1, hour)).toISOString();
+  const from = day(0);
+  const to = new Date(Date.UTC(2001, 0, 2)).toISOString();
+  const mac = 'AA-BB-CC-00-00-01';
+
+  recordTransaction({ type: 'coin', amount: 5, minutes: 0, macAddress: mac, createdAt: day(8) });
+  recordTransaction({ type: 'coin', amount: 1, minutes: 0, createdAt: day(9) });
+  recordTransaction({ type: 'voucher', amount: 10, minutes: 600, macAddress: mac, reference: 'TESTCODE', createdAt: day(10) });
+  recordTransaction({ type: 'admin_grant', amount: 0, minutes: 60, macAddress: mac, actor: 'admin', createdAt: day(11) });
+  recordTransaction({ type: 'refund', amount: 2, minutes: 0, macAddress: mac, createdAt: day(12) });
+
+  // Test 1: Revenue only counts cash
+  console.log('\n🧪 Testing revenue...');
+  assert('Coins minus refunds', getRevenue(from, to), 4);
+  assert('Range excludes later rows', getRevenue(from, day(10)), 6);
+
+  // Test 2: Listing and filters
+  console.log('\n🧪 Testing listing...');
+  const all = getTransactions({ from, to });
+  assert('All rows in range are listed', all.length, 5);
+  assert('Newest first', all[0].type, 'refund');
+  assert('Refund is stored negative', all[0].amount, -2);
+  assert('MAC is normalized', all[0].macAddress, 'aa:bb:cc:00:00:01');
+  assert('Type filter', getTransactions({ from, to, types: ['voucher'] }).length, 1);
+  assert('MAC filter', getTransactions({ from, to, macAddress: 'aa:bb:cc:00:00:01' }).length, 4);
+  assert('Limit', getTransactions({ from, to, limit: 2 }).length, 2);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All transaction tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTransactionTests();
+}
+
+export { runTransactionTests };
@@ -0,0 +1,83 @@
+import { adjustWallet, getWalletBalance, getWalletEntries, getWallets } from '../database';
+import { HardwareManager } from '../hardwareManager';
+
+const runWalletTests = () => {
+  console.log('Running Wallet Tests...');
+  let passed = 0;
+  let failed = 0;
+
+  const assert = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}: Passed`);
+      passed++;
+    } else {
+      console.error(`❌ ${name}: Failed (Expected "${expected}", got "${actual}")`);
+      failed++;
+    }
+  };
+
+  const mac = `02:00:00:${Date.now().toString(16).slice(-6).match(/../g)!.join(':')}`;
+
+  // Test 1: Balance movements
+  console.log('\n🧪 Testing balance...');
+  assert('New device has no credit', getWalletBalance(mac), 0);
+  assert('Credit returns new balance', adjustWallet({ macAddress: mac.toUpperCase().replace(/:/g, '-'), amount: 5, reason: 'orphan_coin' }), 5);
+  assert('MAC is normalized', getWalletBalance(mac), 5);
+  assert('Spend lowers balance', adjustWallet({ macAddress: mac, amount: -3, reason: 'spend' }), 2);
+
+  let rejected = false;
+  try {
+    adjustWallet({ macAddress: mac, amount: -10, reason: 'spend' });
+  } catch {
+    rejected = true;
+  }
+  assert('Overspend is rejected', rejected, true);
+  assert('Rejected spend leaves balance', getWalletBalance(mac), 2);
+  assert('Rejected spend is not logged', getWalletEntries(mac).length, 2);
+  assert('Entries are newest first', getWalletEntries(mac)[0].reason, 'spend');
+  assert('Device is listed with credit', getWallets().some(w => w.macAddress === mac && w.balance === 2), true);
+
+  // Test 2: Unclaimed coin sessions
+  console.log('\n🧪 Testing unclaimed coins...');
+  const hardware = new HardwareManager();
+  hardware.startCoinSession(mac, '10.0.0.9');
+  hardware.getCoinSession(mac)!.amount = 10;
+  hardware.clearCoinSession();
+  assert('Unclaimed amount goes to wallet', getWalletBalance(mac), 12);
+
+  hardware.startCoinSession(mac, '10.0.0.9');
+  hardware.getCoinSession(mac)!.amount = 4;
+  hardware.clearCoinSession(true);
+  assert('Claimed amount is not saved', getWalletBalance(mac), 12);
+
+  // Test 3: Coins that land while a purchase goes through
+  console.log('\n🧪 Testing late coins...');
+  hardware.startCoinSession(mac, '10.0.0.9');
+  hardware.getCoinSession(mac)!.amount = 5;
+  assert('Inserted amount is taken', hardware.takeCoinCredit(mac), 5);
+  hardware.getCoinSession(mac)!.amount += 1;
+  hardware.clearCoinSession();
+  assert('Coin after the purchase goes to wallet', getWalletBalance(mac), 13);
+
+  hardware.startCoinSession(mac, '10.0.0.9');
+  hardware.getCoinSession(mac)!.amount = 3;
+  const taken = hardware.takeCoinCredit(mac);
+  hardware.clearCoinSession();
+  hardware.returnCoinCredit(mac, taken);
+  assert('Failed purchase returns coins to wallet', getWalletBalance(mac), 16);
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed.`);
+  if (failed > 0) {
+    console.log('❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('✅ All wallet tests passed!');
+  }
+};
+
+// Run tests if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runWalletTests();
+}
+
+export { runWalletTests };
@@ -0,0 +1,25 @@
+import type { Response } from 'express';
+
+// Server-Sent Event responses never finish on their own, so server.close()
+// would wait on them forever. Shutdown ends whatever is still open.
+const openStreams: Set<Response> = new Set();
+
+// Sends the event stream headers and keeps the response until the client leaves
+export function openEventStream(res: Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  openStreams.add(res);
+  res.on('close', () => openStreams.delete(res));
+}
+
+// Returns how many streams were ended
+export function closeEventStreams(): number {
+  const count = openStreams.size;
+  for (const res of openStreams) {
+    res.end();
+  }
+  openStreams.clear();
+  return count;
+}
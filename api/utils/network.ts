@@ -1,8 +1,16 @@
 import { promisify } from 'util';
 import { exec } from 'child_process';
+import type { Request } from 'express';
 
 const execAsync = promisify(exec);
 
+// Address of the device behind a request. X-Forwarded-For is only honoured
+// when it comes from the local nginx (see 'trust proxy' in app.ts), so a
+// client cannot name someone else's IP by sending the header itself.
+export function getClientIp(req: Request): string {
+  return (req.ip || req.socket.remoteAddress || '').replace('::ffff:', '');
+}
+
 export async function resolveMACByIP(ip: string): Promise<string | null> {
   // 1. Try ip neigh first (most accurate for active connections)
   try {
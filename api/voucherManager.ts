@@ -5,10 +5,11 @@ import {
   deleteVoucher, 
   getVouchers, 
   Voucher,
-  getSettings,
-  getDB
+  getDB,
+  recordTransaction
 } from './database.js';
 import { sessionManager } from './sessionManager.js';
+import { pesosToMinutes } from './pricing.js';
 
 class VoucherManager {
   /**
@@ -92,18 +93,8 @@ class VoucherManager {
        }
     }
     
-    // Calculate minutes based on amount (pesos)
-    const settings = getSettings();
-    let minutes = 0;
-    
-    // Find rate for this amount
-    const rate = settings.rates.rates.find(r => r.pesos === voucher.amount);
-    if (rate) {
-      minutes = rate.minutes;
-    } else {
-      // Fallback to timePerPeso
-      minutes = voucher.amount * settings.rates.timePerPeso;
-    }
+    // Price the voucher amount the same way as inserted coins
+    const minutes = pesosToMinutes(voucher.amount);
 
     try {
       const dbi = getDB();
@@ -127,11 +118,19 @@ class VoucherManager {
          if (session && session.active) {
             isExtension = true;
             // Extend existing session DB record
-            updatedSession = sessionManager.extendSessionDB(session.macAddress, minutes);
+            updatedSession = sessionManager.extendSessionDB(session.macAddress, minutes, { source: 'voucher', pesos: voucher.amount, note: `Voucher ${code}` });
          } else {
             // Start new session DB record
-            updatedSession = sessionManager.startSessionDB(macAddress, voucher.amount, ipAddress);
+            updatedSession = sessionManager.startSessionDB(macAddress, voucher.amount, ipAddress, { source: 'voucher', note: `Voucher ${code}` });
          }
+
+         recordTransaction({
+            type: 'voucher',
+            amount: voucher.amount,
+            minutes,
+            macAddress: updatedSession.macAddress,
+            reference: code
+         });
       });
 
       // Execute transaction
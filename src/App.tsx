@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import Home from "@/pages/Home";
 import Admin from "@/pages/Admin";
 import Portal from "@/pages/Portal";
+import { Toaster } from "sonner";
 
 export default function App() {
   return (
@@ -11,6 +12,7 @@ export default function App() {
         <Route path="/admin" element={<Admin />} />
         <Route path="/portal" element={<Portal />} />
       </Routes>
+      <Toaster position="top-center" richColors />
     </Router>
   );
 }
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { Lock, LogIn, AlertCircle, Wifi } from 'lucide-react';
+import { type AdminRole } from '../../utils/adminApi';
 
 interface AdminLoginProps {
-  onLogin: () => void;
+  onLogin: (role: AdminRole) => void;
 }
 
 const AdminLogin: React.FC<AdminLoginProps> = ({ onLogin }) => {
@@ -28,6 +29,7 @@ const AdminLogin: React.FC<AdminLoginProps> = ({ onLogin }) => {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'same-origin',
         body: JSON.stringify({ username, password }),
       });
 
@@ -35,11 +37,8 @@ const AdminLogin: React.FC<AdminLoginProps> = ({ onLogin }) => {
 
       if (response.ok) {
         // Store the Basic Auth header for future requests
-        const authHeader = 'Basic ' + btoa(`${username}:${password}`);
-        localStorage.setItem('adminAuth', authHeader);
-        
-        // Login successful
-        onLogin();
+        // Login successful; the session cookie was set by the server
+        onLogin(data.role);
       } else {
         setError(data.error || 'Login failed');
       }
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Activity, AlertTriangle } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 const BandwidthTab: React.FC = () => {
   const [cakeEnabled, setCakeEnabled] = useState(false);
@@ -9,7 +10,7 @@ const BandwidthTab: React.FC = () => {
   const toggleCake = async () => {
     try {
       if (!cakeEnabled) {
-        const res = await fetch('/api/qos/cake/enable', {
+        const res = await adminFetch('/api/qos/cake/enable', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ bandwidthKbps })
@@ -20,7 +21,7 @@ const BandwidthTab: React.FC = () => {
         }
         setCakeEnabled(true);
       } else {
-        const res = await fetch('/api/qos/cake/disable', { method: 'POST' });
+        const res = await adminFetch('/api/qos/cake/disable', { method: 'POST' });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
           throw new Error(data?.error || 'Failed to disable CAKE');
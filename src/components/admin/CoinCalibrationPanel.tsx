@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+type AcceptorKind = 'coin' | 'bill';
+
+interface CalibrationPulse {
+  at: number;
+  widthMs: number | null;
+}
+
+interface CalibrationSuggestion {
+  coins: number[];
+  matchesExpected: boolean;
+  pulseTimeoutMs: number;
+  debounceMs: number;
+  bounces: number;
+  minWidthMs: number | null;
+  maxWidthMs: number | null;
+  maxGapWithinCoinMs: number | null;
+  minGapBetweenCoinsMs: number | null;
+}
+
+interface Calibration {
+  kind: AcceptorKind;
+  pin: number;
+  expectedCoins: number;
+  startedAt: string;
+  pulses: CalibrationPulse[];
+  suggestion: CalibrationSuggestion | null;
+}
+
+const formatMs = (value: number | null): string => (value === null ? '-' : `${value} ms`);
+
+const CoinCalibrationPanel: React.FC<{ onSaved?: () => void }> = ({ onSaved }) => {
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [running, setRunning] = useState(false);
+  const [kind, setKind] = useState<AcceptorKind>('coin');
+  const [coins, setCoins] = useState('5');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCalibration = async () => {
+      try {
+        const response = await adminFetch('/api/hardware/calibration');
+        if (!response.ok) return;
+        const result = await response.json();
+        if (result.data) {
+          setCalibration(result.data);
+          setRunning(true);
+        }
+      } catch (err) {
+        console.error('Error fetching calibration:', err);
+      }
+    };
+    fetchCalibration();
+  }, []);
+
+  // Live pulses while a run is in progress
+  useEffect(() => {
+    if (!running) return;
+    const es = new EventSource('/api/hardware/calibration/stream');
+    es.addEventListener('calibration', (ev) => {
+      try {
+        const payload = JSON.parse((ev as MessageEvent).data);
+        if (payload) {
+          setCalibration(payload);
+        } else {
+          setRunning(false);
+        }
+      } catch (err) {
+        console.error('Calibration stream error:', err);
+      }
+    });
+    return () => es.close();
+  }, [running]);
+
+  const handleStart = async () => {
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/calibration/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, coins: parseInt(coins, 10) })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start calibration');
+      }
+      setCalibration(result.data);
+      setRunning(true);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start calibration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stopCalibration = async (): Promise<Calibration | null> => {
+    const response = await adminFetch('/api/hardware/calibration/stop', { method: 'POST' });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to stop calibration');
+    }
+    setRunning(false);
+    if (result.data) {
+      setCalibration(result.data);
+    }
+    return result.data || calibration;
+  };
+
+  const handleStop = async () => {
+    try {
+      setSaving(true);
+      await stopCalibration();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop calibration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const result = running ? await stopCalibration() : calibration;
+      if (!result?.suggestion) {
+        throw new Error('No pulses were recorded');
+      }
+      const { pulseTimeoutMs, debounceMs } = result.suggestion;
+      const response = await adminFetch(`/api/hardware/acceptors/${result.kind}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pulseTimeoutMs, debounceMs })
+      });
+      const saved = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(saved.error || 'Failed to save calibration');
+      }
+      onSaved?.();
+      alert(`Saved: pulse timeout ${pulseTimeoutMs} ms, debounce ${debounceMs} ms`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save calibration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pulses = calibration?.pulses || [];
+  const suggestion = calibration?.suggestion || null;
+  const firstAt = pulses.length > 0 ? pulses[0].at : 0;
+  const span = pulses.length > 0 ? Math.max(pulses[pulses.length - 1].at + (pulses[pulses.length - 1].widthMs || 0) - firstAt, 1) : 1;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Activity className="h-5 w-5 mr-2 text-blue-600" />
+        Pulse Calibration
+      </h3>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Acceptor</label>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AcceptorKind)}
+            disabled={running}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="coin">Coin acceptor</option>
+            <option value="bill">Bill acceptor</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Test Coins</label>
+          <input
+            type="number"
+            value={coins}
+            onChange={(e) => setCoins(e.target.value)}
+            disabled={running}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="1"
+            max="50"
+          />
+        </div>
+        {running ? (
+          <button
+            onClick={handleStop}
+            disabled={saving}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            Stop Calibration
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Start Calibration
+          </button>
+        )}
+      </div>
+
+      {running && calibration && (
+        <p className="text-sm text-gray-600 mb-4">
+          Insert {calibration.expectedCoins} test coin{calibration.expectedCoins === 1 ? '' : 's'} into the {calibration.kind} acceptor (pin {calibration.pin}).
+          They are not credited to anyone; take them out of the box afterwards.
+        </p>
+      )}
+
+      {calibration && (
+        <>
+          <div className="relative h-12 bg-gray-50 border rounded-md mb-2 overflow-hidden">
+            {pulses.map((pulse, index) => (
+              <div
+                key={index}
+                className={`absolute top-2 bottom-2 ${pulse.widthMs === null ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                style={{
+                  left: `${((pulse.at - firstAt) / span) * 100}%`,
+                  width: `max(2px, ${((pulse.widthMs || 0) / span) * 100}%)`
+                }}
+                title={`+${pulse.at - firstAt} ms, ${pulse.widthMs === null ? 'width unknown' : `${pulse.widthMs} ms low`}`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mb-6">
+            <span>{pulses.length} pulse{pulses.length === 1 ? '' : 's'}</span>
+            <span>{pulses.length > 0 ? `${span} ms` : 'Waiting for the first pulse...'}</span>
+          </div>
+        </>
+      )}
+
+      {suggestion && (
+        <div className="space-y-4">
+          {!suggestion.matchesExpected && (
+            <div className="flex items-center text-sm text-yellow-700 bg-yellow-50 rounded-md p-3">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Seen {suggestion.coins.length} of {calibration?.expectedCoins} coins so far
+            </div>
+          )}
+          <div className="text-sm text-gray-600">
+            Pulses per coin: {suggestion.coins.join(', ')}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-sm text-gray-600">Pulse Width</div>
+              <div className="text-lg font-semibold text-gray-900">
+                {suggestion.minWidthMs === null ? '-' : `${suggestion.minWidthMs}–${suggestion.maxWidthMs} ms`}
+              </div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-sm text-gray-600">Gap Within Coin (max)</div>
+              <div className="text-lg font-semibold text-gray-900">{formatMs(suggestion.maxGapWithinCoinMs)}</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-sm text-gray-600">Gap Between Coins (min)</div>
+              <div className="text-lg font-semibold text-gray-900">{formatMs(suggestion.minGapBetweenCoinsMs)}</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-sm text-gray-600">Bounces</div>
+              <div className="text-lg font-semibold text-gray-900">{suggestion.bounces}</div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between bg-blue-50 rounded-lg p-4">
+            <div className="text-sm text-blue-900">
+              Suggested: pulse timeout <span className="font-semibold">{suggestion.pulseTimeoutMs} ms</span>,
+              debounce <span className="font-semibold">{suggestion.debounceMs} ms</span>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save to Hardware Settings'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoinCalibrationPanel;
@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { Archive, AlertTriangle, CheckCircle } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+type CollectionStatus = 'ok' | 'short' | 'over';
+
+interface CoinCollection {
+  id: number;
+  collectedAt: string;
+  periodStart: string | null;
+  expectedAmount: number;
+  countedAmount: number;
+  discrepancy: number;
+  actor?: string | null;
+  note?: string | null;
+  status: CollectionStatus;
+}
+
+interface PendingCollection {
+  periodStart: string | null;
+  expectedAmount: number;
+  lastCollection: CoinCollection | null;
+}
+
+const STATUS_STYLES: Record<CollectionStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  short: 'bg-red-100 text-red-800',
+  over: 'bg-yellow-100 text-yellow-800'
+};
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency: 'PHP',
+    minimumFractionDigits: 0
+  }).format(amount);
+};
+
+const CoinCollectionsPanel: React.FC = () => {
+  const [pending, setPending] = useState<PendingCollection | null>(null);
+  const [history, setHistory] = useState<CoinCollection[]>([]);
+  const [countedAmount, setCountedAmount] = useState('');
+  const [collectedAt, setCollectedAt] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCollections = async () => {
+    try {
+      const response = await adminFetch('/api/hardware/collections');
+      if (!response.ok) {
+        throw new Error('Failed to load coin collections');
+      }
+      const result = await response.json();
+      setPending(result.data.pending);
+      setHistory(result.data.history || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  useEffect(() => {
+    fetchCollections();
+  }, []);
+
+  const handleRecord = async () => {
+    const amount = parseFloat(countedAmount);
+    if (isNaN(amount) || amount < 0) {
+      alert('Please enter the counted amount');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          countedAmount: amount,
+          collectedAt: collectedAt ? new Date(collectedAt).toISOString() : undefined,
+          note: note || undefined
+        })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to record collection');
+      }
+      setCountedAmount('');
+      setCollectedAt('');
+      setNote('');
+      await fetchCollections();
+      alert(result.message || 'Collection recorded');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record collection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Archive className="h-5 w-5 mr-2 text-blue-600" />
+        Coin Box Collections
+      </h3>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {pending && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              Expected in box {pending.periodStart ? `since ${new Date(pending.periodStart).toLocaleString()}` : '(no previous collection)'}
+            </span>
+            <span className="text-2xl font-bold text-gray-900">{formatCurrency(pending.expectedAmount)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Counted Amount (₱)</label>
+          <input
+            type="number"
+            value={countedAmount}
+            onChange={(e) => setCountedAmount(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Collected At (optional)</label>
+          <input
+            type="datetime-local"
+            value={collectedAt}
+            onChange={(e) => setCollectedAt(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleRecord}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Record Collection'}
+        </button>
+      </div>
+
+      {history.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Collected</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Expected</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Counted</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Difference</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">By</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {history.map(collection => (
+                <tr key={collection.id}>
+                  <td className="px-4 py-2 text-gray-900">{new Date(collection.collectedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(collection.expectedAmount)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(collection.countedAmount)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">
+                    {collection.discrepancy > 0 ? '+' : ''}{formatCurrency(collection.discrepancy)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[collection.status]}`}>
+                      {collection.status === 'ok'
+                        ? <CheckCircle className="h-3 w-3 mr-1" />
+                        : <AlertTriangle className="h-3 w-3 mr-1" />}
+                      {collection.status.toUpperCase()}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{collection.actor || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600">{collection.note || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-6 text-gray-500">No collections recorded yet.</div>
+      )}
+    </div>
+  );
+};
+
+export default CoinCollectionsPanel;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Users } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+interface QueuedDevice {
+  macAddress: string;
+  ipAddress: string;
+  queuedAt: string;
+  position: number;
+  estimatedWaitSeconds: number;
+}
+
+interface CoinQueue {
+  active: { macAddress: string; amount: number; remainingSeconds: number } | null;
+  queue: QueuedDevice[];
+  insertWindowSeconds: number;
+}
+
+const formatWait = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const CoinQueuePanel: React.FC = () => {
+  const [coinQueue, setCoinQueue] = useState<CoinQueue | null>(null);
+  const [insertWindow, setInsertWindow] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = async () => {
+    try {
+      const response = await adminFetch('/api/hardware/coin-queue');
+      if (!response.ok) {
+        throw new Error('Failed to load coin slot queue');
+      }
+      const result = await response.json();
+      setCoinQueue(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+    const interval = setInterval(fetchQueue, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleWindowUpdate = async () => {
+    const seconds = parseInt(insertWindow, 10);
+    if (isNaN(seconds)) {
+      alert('Please enter the insert window in seconds');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/insert-window', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seconds })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update insert window');
+      }
+      setInsertWindow('');
+      await fetchQueue();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update insert window');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Users className="h-5 w-5 mr-2 text-blue-600" />
+        Coin Slot Queue
+      </h3>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {coinQueue && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+          {coinQueue.active ? (
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm text-gray-600">Inserting now</div>
+                <div className="font-mono text-gray-900">{coinQueue.active.macAddress}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-bold text-gray-900">₱{coinQueue.active.amount}</div>
+                <div className="text-xs text-gray-500">{formatWait(coinQueue.active.remainingSeconds)} left</div>
+              </div>
+            </div>
+          ) : (
+            <span className="text-sm text-gray-600">Coin slot is free</span>
+          )}
+        </div>
+      )}
+
+      {coinQueue && coinQueue.queue.length > 0 ? (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">#</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Device</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">IP</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Waiting Since</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Est. Wait</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {coinQueue.queue.map(device => (
+                <tr key={device.macAddress}>
+                  <td className="px-4 py-2 text-gray-900">{device.position}</td>
+                  <td className="px-4 py-2 font-mono text-gray-900">{device.macAddress}</td>
+                  <td className="px-4 py-2 text-gray-600">{device.ipAddress}</td>
+                  <td className="px-4 py-2 text-gray-600">{new Date(device.queuedAt).toLocaleTimeString()}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatWait(device.estimatedWaitSeconds)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-6 text-gray-500">Nobody is waiting.</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Insert Window (seconds{coinQueue ? `, currently ${coinQueue.insertWindowSeconds}` : ''})
+          </label>
+          <input
+            type="number"
+            value={insertWindow}
+            onChange={(e) => setInsertWindow(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="15"
+            max="600"
+          />
+        </div>
+        <button
+          onClick={handleWindowUpdate}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Update Window'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CoinQueuePanel;
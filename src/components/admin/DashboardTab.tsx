@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Users, DollarSign, Clock, Wifi, HardDrive, Activity, TrendingUp, TrendingDown } from 'lucide-react';
+import { Users, DollarSign, Clock, Wifi, HardDrive, Activity, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 interface DashboardData {
   sessions: {
@@ -16,6 +17,12 @@ interface DashboardData {
     mockMode: boolean;
     lastCoinPulse: string | null;
     totalCoinsToday: number;
+    alerts?: Array<{
+      id: number;
+      source: string;
+      message: string;
+      raisedAt: string;
+    }>;
   };
   network: {
     interfaces: number;
@@ -28,8 +35,24 @@ interface DashboardData {
     memory: any;
     timestamp: string;
   };
+  clock?: {
+    ntpSynchronized: boolean | null;
+    // Not yet acknowledged, newest first
+    corrections: Array<{
+      detectedAt: string;
+      jumpSeconds: number;
+      ntpSynchronized: boolean | null;
+      sessionsAdjusted: number;
+    }>;
+  };
 }
 
+const describeClockJump = (jumpSeconds: number): string => {
+  const minutes = Math.round(Math.abs(jumpSeconds) / 60);
+  const amount = minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+  return `Clock set ${jumpSeconds > 0 ? 'forward' : 'back'} by ${amount}`;
+};
+
 const DashboardTab: React.FC = () => {
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -43,16 +66,7 @@ const DashboardTab: React.FC = () => {
 
   const fetchDashboardData = async () => {
     try {
-      const authHeader = localStorage.getItem('adminAuth');
-      const headers: HeadersInit = {};
-      
-      if (authHeader) {
-        headers['Authorization'] = authHeader;
-      }
-
-      const response = await fetch('/api/admin/dashboard', {
-        headers,
-      });
+      const response = await adminFetch('/api/admin/dashboard');
       
       if (!response.ok) {
         throw new Error('Failed to fetch dashboard data');
@@ -67,6 +81,18 @@ const DashboardTab: React.FC = () => {
     }
   };
 
+  const acknowledgeClock = async () => {
+    try {
+      const response = await adminFetch('/api/admin/clock/acknowledge', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to acknowledge clock corrections');
+      }
+      await fetchDashboardData();
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to acknowledge clock corrections');
+    }
+  };
+
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -118,10 +144,59 @@ const DashboardTab: React.FC = () => {
     return null;
   }
 
-  const { sessions, hardware, network, system } = dashboardData;
+  const { sessions, hardware, network, system, clock } = dashboardData;
 
   return (
     <div className="space-y-6">
+      {/* Coin line faults */}
+      {hardware.alerts && hardware.alerts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center mb-2">
+            <AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-sm font-semibold text-red-800">Coin slot disabled by a hardware fault</span>
+          </div>
+          <ul className="space-y-1">
+            {hardware.alerts.map(alert => (
+              <li key={alert.id} className="text-sm text-red-700">
+                {new Date(alert.raisedAt).toLocaleString()} — {alert.source} acceptor: {alert.message}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-red-600 mt-2">Check the coin line, then clear the alert on the Hardware tab.</p>
+        </div>
+      )}
+
+      {/* Wall clock corrections */}
+      {clock && clock.corrections.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center">
+              <Clock className="h-5 w-5 text-yellow-600 mr-2" />
+              <span className="text-sm font-semibold text-yellow-800">The system clock was corrected</span>
+            </div>
+            <button
+              onClick={acknowledgeClock}
+              className="px-3 py-1 text-sm bg-yellow-600 text-white rounded-md hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {clock.corrections.map(correction => (
+              <li key={correction.detectedAt} className="text-sm text-yellow-700">
+                {new Date(correction.detectedAt).toLocaleString()} — {describeClockJump(correction.jumpSeconds)}
+                {correction.sessionsAdjusted > 0 && `, ${correction.sessionsAdjusted} active session(s) kept their remaining time`}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-yellow-600 mt-2">
+            {clock.ntpSynchronized === false
+              ? 'The clock is not synchronized with NTP yet; session start times and reports may be off until it is.'
+              : 'Session start times and reports from before the correction may show the wrong time.'}
+          </p>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Database, Save, RefreshCw, Download } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 export default function DatabaseTab() {
   const [settings, setSettings] = useState<any>(null);
@@ -15,7 +16,7 @@ export default function DatabaseTab() {
   async function fetchSettings() {
     setLoading(true);
     try {
-      const res = await fetch('/api/db/settings');
+      const res = await adminFetch('/api/db/settings');
       const data = await res.json();
       setSettings(data.data);
       setError(null);
@@ -29,7 +30,7 @@ export default function DatabaseTab() {
   async function saveNetwork() {
     setSaving(true);
     try {
-      const res = await fetch('/api/db/settings', {
+      const res = await adminFetch('/api/db/settings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ network: settings.network })
@@ -44,7 +45,7 @@ export default function DatabaseTab() {
   }
 
   async function downloadBackup() {
-    const res = await fetch('/api/db/export');
+    const res = await adminFetch('/api/db/export');
     const blob = await res.blob();
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -56,7 +57,7 @@ export default function DatabaseTab() {
   
   async function resetDefaults() {
     if (!confirm('Reset all settings to defaults?')) return;
-    const res = await fetch('/api/db/reset', { method: 'POST' });
+    const res = await adminFetch('/api/db/reset', { method: 'POST' });
     if (res.ok) {
       await fetchSettings();
       alert('Settings reset to defaults.');
@@ -70,7 +71,7 @@ export default function DatabaseTab() {
     try {
       const form = new FormData();
       form.append('db', file);
-      const res = await fetch('/api/db/restore', { method: 'POST', body: form });
+      const res = await adminFetch('/api/db/restore', { method: 'POST', body: form });
       if (!res.ok) throw new Error('Restore failed');
       await fetchSettings();
       alert('Database restored.');
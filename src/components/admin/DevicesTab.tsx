@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
-import { Users, Plus, Trash2, Edit, Save, Pause, Play } from 'lucide-react';
+import { Users, Plus, Trash2, Edit, Save, Pause, Play, Wallet, History, Square } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+import SessionTimeline from './SessionTimeline';
 
 interface Device {
   macAddress: string;
@@ -13,6 +15,7 @@ interface Device {
   notes?: string;
   bandwidthCapKbps?: number;
   priority?: number;
+  walletBalance?: number;
 }
 
 const DevicesTab: React.FC = () => {
@@ -23,28 +26,33 @@ const DevicesTab: React.FC = () => {
   const [editing, setEditing] = useState<Record<string, Device>>({});
   const [countdown, setCountdown] = useState<Record<string, number>>({});
   const [paused, setPaused] = useState<Record<string, boolean>>({});
+  const [sessionIds, setSessionIds] = useState<Record<string, number>>({});
   const [actionLoading, setActionLoading] = useState<Record<string, boolean>>({});
+  const [historyMac, setHistoryMac] = useState<string | null>(null);
 
   const fetchDevices = async () => {
     try {
-      const res = await fetch('/api/devices');
+      const res = await adminFetch('/api/devices');
       if (!res.ok) throw new Error('Failed to load devices');
       const data = await res.json();
       const list: Device[] = data.data || [];
       setDevices(list);
       try {
-        const sres = await fetch('/api/session/active');
+        const sres = await adminFetch('/api/session/active');
         if (sres.ok) {
           const sdata = await sres.json();
-          const active = (sdata.data || []) as Array<{ macAddress: string; timeRemaining: number; paused?: boolean }>;
+          const active = (sdata.data || []) as Array<{ id: number; macAddress: string; timeRemaining: number; paused?: boolean }>;
           const map: Record<string, number> = {};
           const pmap: Record<string, boolean> = {};
+          const imap: Record<string, number> = {};
           for (const s of active) {
             map[s.macAddress] = s.timeRemaining || 0;
             pmap[s.macAddress] = !!s.paused;
+            imap[s.macAddress] = s.id;
           }
           setCountdown(map);
           setPaused(pmap);
+          setSessionIds(imap);
         }
       } catch {
         setCountdown(prev => prev);
@@ -87,7 +95,7 @@ const DevicesTab: React.FC = () => {
       setError(null);
       setActionBusy(mac, true);
       setPaused(prev => ({ ...prev, [mac]: true }));
-      const res = await fetch('/api/portal/pause', {
+      const res = await adminFetch('/api/portal/pause', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ macAddress: mac })
@@ -110,7 +118,7 @@ const DevicesTab: React.FC = () => {
       setError(null);
       setActionBusy(mac, true);
       setPaused(prev => ({ ...prev, [mac]: false }));
-      const res = await fetch('/api/portal/resume', {
+      const res = await adminFetch('/api/portal/resume', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ macAddress: mac })
@@ -128,10 +136,66 @@ const DevicesTab: React.FC = () => {
     }
   };
 
+  const handleEndSession = async (mac: string) => {
+    const id = sessionIds[mac];
+    if (!id || !window.confirm(`End session #${id} for ${mac}?`)) return;
+    try {
+      setError(null);
+      setActionBusy(mac, true);
+      const res = await adminFetch(`/api/session/${id}`, { method: 'DELETE' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || 'Failed to end session');
+      await fetchDevices();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Error ending session');
+    } finally {
+      setActionBusy(mac, false);
+    }
+  };
+
+  const handleEndAllSessions = async () => {
+    if (!window.confirm('End every active session? Customers lose their remaining time.')) return;
+    try {
+      setError(null);
+      const res = await adminFetch('/api/session/end-all', { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || 'Failed to end sessions');
+      await fetchDevices();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Error ending sessions');
+    }
+  };
+
+  const handleWalletAdjust = async (mac: string) => {
+    const input = window.prompt('Credit to add in pesos (use a negative number to deduct):');
+    if (input === null) return;
+    const amount = parseFloat(input);
+    if (isNaN(amount) || amount === 0) {
+      setError('Enter a non-zero amount');
+      return;
+    }
+    try {
+      setError(null);
+      setActionBusy(mac, true);
+      const res = await adminFetch(`/api/devices/${mac}/wallet`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount, note: 'Adjusted from Devices tab' })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || 'Failed to adjust wallet');
+      await fetchDevices();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Error adjusting wallet');
+    } finally {
+      setActionBusy(mac, false);
+    }
+  };
+
   const handleAdd = async () => {
     try {
       if (!newDevice.macAddress) return;
-      const res = await fetch('/api/devices', {
+      const res = await adminFetch('/api/devices', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ macAddress: newDevice.macAddress, timeLimitMinutes: newDevice.timeLimitMinutes })
@@ -150,8 +214,10 @@ const DevicesTab: React.FC = () => {
 
   const saveEdit = async (mac: string) => {
     try {
-      const payload = editing[mac];
-      const res = await fetch(`/api/devices/${mac}`, {
+      // Wallet credit is adjusted separately
+      const payload = { ...editing[mac] };
+      delete payload.walletBalance;
+      const res = await adminFetch(`/api/devices/${mac}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload)
@@ -168,7 +234,7 @@ const DevicesTab: React.FC = () => {
 
   const handleDelete = async (mac: string) => {
     try {
-      const res = await fetch(`/api/devices/${mac}`, { method: 'DELETE' });
+      const res = await adminFetch(`/api/devices/${mac}`, { method: 'DELETE' });
       if (!res.ok) throw new Error('Failed to delete');
       fetchDevices();
     } catch (e) {
@@ -192,12 +258,21 @@ const DevicesTab: React.FC = () => {
             <Users className="h-5 w-5 mr-2 text-blue-600" />
             Devices
           </h3>
-          <button
-            onClick={fetchDevices}
-            className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-md"
-          >
-            Refresh
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleEndAllSessions}
+              disabled={Object.keys(sessionIds).length === 0}
+              className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50"
+            >
+              End All Sessions
+            </button>
+            <button
+              onClick={fetchDevices}
+              className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-md"
+            >
+              Refresh
+            </button>
+          </div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
           <input
@@ -236,6 +311,7 @@ const DevicesTab: React.FC = () => {
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">First Seen</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Last Seen</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Bandwidth Cap</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Wallet</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500"></th>
               </tr>
             </thead>
@@ -243,108 +319,148 @@ const DevicesTab: React.FC = () => {
               {devices.map(d => {
                 const edit = editing[d.macAddress];
                 return (
-                  <tr key={d.macAddress}>
-                    <td className="px-4 py-2 text-sm">{d.macAddress}</td>
-                    <td className="px-4 py-2 text-sm">{edit ? edit.ipAddress : d.ipAddress}</td>
-                    <td className="px-4 py-2 text-sm">
-                      {edit ? (
-                        <input
-                          value={edit.hostname || ''}
-                          onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, hostname: e.target.value } })}
-                          className="px-2 py-1 border border-gray-300 rounded"
-                        />
-                      ) : (
-                        d.hostname || ''
-                      )}
-                    </td>
-                    <td className="px-4 py-2 text-sm">
-                      <span className={`px-2 py-1 rounded ${d.connected ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'}`}>
-                        {d.connected ? 'Yes' : 'No'}
-                      </span>
-                    </td>
-                    <td className="px-4 py-2 text-sm">
-                      {edit ? (
-                        <input
-                          type="number"
-                          value={edit.timeLimitMinutes || 0}
-                          onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, timeLimitMinutes: parseInt(e.target.value || '0', 10) } })}
-                          className="px-2 py-1 border border-gray-300 rounded w-24"
-                        />
-                      ) : (
-                        d.timeLimitMinutes || 0
-                      )}
-                    </td>
-                    <td className="px-4 py-2 text-sm">
-                      <span className={`font-mono ${((countdown[d.macAddress] || 0) > 5) ? 'text-green-700' : 'text-red-700'}`}>
-                        {(() => {
-                          const s = Math.max(0, countdown[d.macAddress] || 0);
-                          const h = Math.floor(s / 3600);
-                          const m = Math.floor((s % 3600) / 60);
-                          const sec = s % 60;
-                          const hh = h.toString().padStart(2, '0');
-                          const mm = m.toString().padStart(2, '0');
-                          const ss = sec.toString().padStart(2, '0');
-                          return `${hh}:${mm}:${ss}`;
-                        })()}
-                      </span>
-                    </td>
-                    <td className="px-4 py-2 text-sm">
-                      <span className={`px-2 py-1 rounded ${paused[d.macAddress] ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'}`}>
-                        {paused[d.macAddress] ? 'Paused' : 'Running'}
-                      </span>
-                    </td>
-                    <td className="px-4 py-2 text-sm">{d.firstSeen ? new Date(d.firstSeen).toLocaleString() : ''}</td>
-                    <td className="px-4 py-2 text-sm">{d.lastSeen ? new Date(d.lastSeen).toLocaleString() : ''}</td>
-                    <td className="px-4 py-2 text-sm">
-                      {edit ? (
-                        <input
-                          type="number"
-                          value={edit.bandwidthCapKbps || 0}
-                          onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, bandwidthCapKbps: parseInt(e.target.value || '0', 10) } })}
-                          className="px-2 py-1 border border-gray-300 rounded w-24"
-                        />
-                      ) : (
-                        d.bandwidthCapKbps || 0
-                      )}
-                    </td>
-                    <td className="px-4 py-2 text-sm">
-                      {edit ? (
+                  <React.Fragment key={d.macAddress}>
+                    <tr>
+                      <td className="px-4 py-2 text-sm">{d.macAddress}</td>
+                      <td className="px-4 py-2 text-sm">{edit ? edit.ipAddress : d.ipAddress}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {edit ? (
+                          <input
+                            value={edit.hostname || ''}
+                            onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, hostname: e.target.value } })}
+                            className="px-2 py-1 border border-gray-300 rounded"
+                          />
+                        ) : (
+                          d.hostname || ''
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`px-2 py-1 rounded ${d.connected ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'}`}>
+                          {d.connected ? 'Yes' : 'No'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {edit ? (
+                          <input
+                            type="number"
+                            value={edit.timeLimitMinutes || 0}
+                            onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, timeLimitMinutes: parseInt(e.target.value || '0', 10) } })}
+                            className="px-2 py-1 border border-gray-300 rounded w-24"
+                          />
+                        ) : (
+                          d.timeLimitMinutes || 0
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`font-mono ${((countdown[d.macAddress] || 0) > 5) ? 'text-green-700' : 'text-red-700'}`}>
+                          {(() => {
+                            const s = Math.max(0, countdown[d.macAddress] || 0);
+                            const h = Math.floor(s / 3600);
+                            const m = Math.floor((s % 3600) / 60);
+                            const sec = s % 60;
+                            const hh = h.toString().padStart(2, '0');
+                            const mm = m.toString().padStart(2, '0');
+                            const ss = sec.toString().padStart(2, '0');
+                            return `${hh}:${mm}:${ss}`;
+                          })()}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`px-2 py-1 rounded ${paused[d.macAddress] ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'}`}>
+                          {paused[d.macAddress] ? 'Paused' : 'Running'}
+                        </span>
+                        {sessionIds[d.macAddress] && (
+                          <span className="ml-2 text-xs text-gray-500">#{sessionIds[d.macAddress]}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm">{d.firstSeen ? new Date(d.firstSeen).toLocaleString() : ''}</td>
+                      <td className="px-4 py-2 text-sm">{d.lastSeen ? new Date(d.lastSeen).toLocaleString() : ''}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {edit ? (
+                          <input
+                            type="number"
+                            value={edit.bandwidthCapKbps || 0}
+                            onChange={(e) => setEditing({ ...editing, [d.macAddress]: { ...edit, bandwidthCapKbps: parseInt(e.target.value || '0', 10) } })}
+                            className="px-2 py-1 border border-gray-300 rounded w-24"
+                          />
+                        ) : (
+                          d.bandwidthCapKbps || 0
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
                         <button
-                          onClick={() => saveEdit(d.macAddress)}
-                          className="px-3 py-1 bg-green-600 text-white rounded-md flex items-center space-x-2"
+                          onClick={() => handleWalletAdjust(d.macAddress)}
+                          disabled={actionLoading[d.macAddress]}
+                          title="Add or deduct wallet credit"
+                          className="flex items-center space-x-1 text-gray-800 hover:text-blue-600 disabled:opacity-50"
                         >
-                          <Save className="h-4 w-4" />
-                          <span>Save</span>
+                          <Wallet className="h-4 w-4" />
+                          <span>₱{d.walletBalance || 0}</span>
                         </button>
-                      ) : (
-                        <div className="flex items-center space-x-2">
-                          <button
-                            onClick={() => startEdit(d)}
-                            className="px-3 py-1 bg-blue-600 text-white rounded-md flex items-center space-x-2"
-                          >
-                            <Edit className="h-4 w-4" />
-                            <span>Edit</span>
-                          </button>
-                          <button
-                            onClick={() => (paused[d.macAddress] ? handleResume(d.macAddress) : handlePause(d.macAddress))}
-                            disabled={actionLoading[d.macAddress] || (countdown[d.macAddress] || 0) <= 0}
-                            title={paused[d.macAddress] ? 'Resume internet access for this device' : 'Pause internet access and freeze session time'}
-                            className={`px-3 py-1 ${paused[d.macAddress] ? 'bg-green-600' : 'bg-yellow-600'} text-white rounded-md flex items-center space-x-2 disabled:opacity-50`}
-                          >
-                            {paused[d.macAddress] ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
-                            <span>{paused[d.macAddress] ? 'Resume' : 'Pause'}</span>
-                          </button>
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {edit ? (
                           <button
-                            onClick={() => handleDelete(d.macAddress)}
-                            className="px-3 py-1 bg-red-600 text-white rounded-md flex items-center space-x-2"
+                            onClick={() => saveEdit(d.macAddress)}
+                            className="px-3 py-1 bg-green-600 text-white rounded-md flex items-center space-x-2"
                           >
-                            <Trash2 className="h-4 w-4" />
-                            <span>Delete</span>
+                            <Save className="h-4 w-4" />
+                            <span>Save</span>
                           </button>
-                        </div>
-                      )}
-                    </td>
-                  </tr>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => startEdit(d)}
+                              className="px-3 py-1 bg-blue-600 text-white rounded-md flex items-center space-x-2"
+                            >
+                              <Edit className="h-4 w-4" />
+                              <span>Edit</span>
+                            </button>
+                            <button
+                              onClick={() => (paused[d.macAddress] ? handleResume(d.macAddress) : handlePause(d.macAddress))}
+                              disabled={actionLoading[d.macAddress] || (countdown[d.macAddress] || 0) <= 0}
+                              title={paused[d.macAddress] ? 'Resume internet access for this device' : 'Pause internet access and freeze session time'}
+                              className={`px-3 py-1 ${paused[d.macAddress] ? 'bg-green-600' : 'bg-yellow-600'} text-white rounded-md flex items-center space-x-2 disabled:opacity-50`}
+                            >
+                              {paused[d.macAddress] ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                              <span>{paused[d.macAddress] ? 'Resume' : 'Pause'}</span>
+                            </button>
+                            <button
+                              onClick={() => handleEndSession(d.macAddress)}
+                              disabled={actionLoading[d.macAddress] || !sessionIds[d.macAddress]}
+                              title="End this device's current session"
+                              className="px-3 py-1 bg-orange-600 text-white rounded-md flex items-center space-x-2 disabled:opacity-50"
+                            >
+                              <Square className="h-4 w-4" />
+                              <span>End</span>
+                            </button>
+                            <button
+                              onClick={() => setHistoryMac(historyMac === d.macAddress ? null : d.macAddress)}
+                              title="Show what happened to this device's session time"
+                              className="px-3 py-1 bg-gray-600 text-white rounded-md flex items-center space-x-2"
+                            >
+                              <History className="h-4 w-4" />
+                              <span>History</span>
+                            </button>
+                            <button
+                              onClick={() => handleDelete(d.macAddress)}
+                              className="px-3 py-1 bg-red-600 text-white rounded-md flex items-center space-x-2"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Delete</span>
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {historyMac === d.macAddress && (
+                      <tr>
+                        <td colSpan={12} className="px-4 py-2">
+                          <SessionTimeline macAddress={d.macAddress} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+interface HardwareAlert {
+  id: number;
+  kind: 'stuck_low' | 'pulse_rate' | 'unclaimed_burst';
+  source: string;
+  message: string;
+  raisedAt: string;
+  clearedAt: string | null;
+  clearedBy: string | null;
+}
+
+const HardwareAlertsPanel: React.FC<{ onCleared?: () => void }> = ({ onCleared }) => {
+  const [active, setActive] = useState<HardwareAlert[]>([]);
+  const [history, setHistory] = useState<HardwareAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = async () => {
+    try {
+      const response = await adminFetch('/api/hardware/alerts');
+      if (!response.ok) {
+        throw new Error('Failed to load hardware alerts');
+      }
+      const result = await response.json();
+      setActive(result.data.active || []);
+      setHistory(result.data.history || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  useEffect(() => {
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleClear = async (alert: HardwareAlert) => {
+    if (!confirm('Clear this alert and reopen the coin slot? Check the coin line first.')) return;
+    try {
+      const response = await adminFetch(`/api/hardware/alerts/${alert.id}/clear`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to clear alert');
+      }
+      await fetchAlerts();
+      onCleared?.();
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to clear alert');
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 ${active.length > 0 ? 'border-red-300' : ''}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <AlertTriangle className={`h-5 w-5 mr-2 ${active.length > 0 ? 'text-red-600' : 'text-blue-600'}`} />
+        Hardware Alerts
+      </h3>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {active.length > 0 ? (
+        <div className="space-y-3 mb-6">
+          {active.map(alert => (
+            <div key={alert.id} className="flex items-center justify-between bg-red-50 border border-red-200 rounded-lg p-4">
+              <div>
+                <div className="text-sm font-medium text-red-800">{alert.message}</div>
+                <div className="text-xs text-red-600">
+                  {alert.source} acceptor, {new Date(alert.raisedAt).toLocaleString()} — coin slot is inhibited
+                </div>
+              </div>
+              <button
+                onClick={() => handleClear(alert)}
+                className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                Clear
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center text-sm text-green-700 mb-6">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          No active faults
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Raised</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Acceptor</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Fault</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Cleared</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {history.map(alert => (
+                <tr key={alert.id}>
+                  <td className="px-4 py-2 text-gray-900">{new Date(alert.raisedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-gray-600 capitalize">{alert.source}</td>
+                  <td className="px-4 py-2 text-gray-900">{alert.message}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {alert.clearedAt ? `${new Date(alert.clearedAt).toLocaleString()}${alert.clearedBy ? ` by ${alert.clearedBy}` : ''}` : 'Active'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HardwareAlertsPanel;
@@ -1,5 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { Settings, Zap, Circle, Play, Square } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+import CoinCollectionsPanel from './CoinCollectionsPanel';
+import CoinQueuePanel from './CoinQueuePanel';
+import CoinCalibrationPanel from './CoinCalibrationPanel';
+import HardwareAlertsPanel from './HardwareAlertsPanel';
+import StatusLedPanel, { type LedStatus } from './StatusLedPanel';
+
+interface Acceptor {
+  kind: 'coin' | 'bill';
+  pin: number;
+  enabled: boolean;
+  lastPulse: string | null;
+  countToday: number;
+  amountToday: number;
+}
+
+type GpioBackendName = 'rpio' | 'libgpiod' | 'simulator';
+
+const GPIO_BACKEND_OPTIONS: Array<{ value: 'auto' | GpioBackendName; label: string }> = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'rpio', label: 'rpio (Raspberry Pi)' },
+  { value: 'libgpiod', label: 'libgpiod (Orange Pi / other boards)' },
+  { value: 'simulator', label: 'Simulator' }
+];
+
+interface InhibitStatus {
+  enabled: boolean;
+  pin: number;
+  inhibitLevel: 'high' | 'low';
+  state: 'accepting' | 'calibrating' | 'fault' | 'idle' | 'maintenance' | 'offline';
+  label: string;
+  acceptingCoins: boolean;
+  maintenance: boolean;
+  internetUp: boolean;
+  since: string;
+}
 
 interface HardwareStatus {
   platform: string;
@@ -8,8 +44,13 @@ interface HardwareStatus {
   statusLEDPin: number;
   mockMode: boolean;
   rpioLoaded: boolean;
+  gpioBackend: GpioBackendName | null;
+  gpioBackendSetting: 'auto' | GpioBackendName;
   lastCoinPulse: string | null;
   totalCoinsToday: number;
+  acceptors: Acceptor[];
+  inhibit: InhibitStatus;
+  led?: LedStatus;
 }
 
 const HardwareTab: React.FC = () => {
@@ -18,6 +59,9 @@ const HardwareTab: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [config, setConfig] = useState({ coinSlotPin: 15, statusLEDPin: 16 });
+  const [billConfig, setBillConfig] = useState({ enabled: false, pin: 11 });
+  const [inhibitConfig, setInhibitConfig] = useState<{ enabled: boolean; pin: number; inhibitLevel: 'high' | 'low' }>({ enabled: false, pin: 18, inhibitLevel: 'high' });
+  const [backendConfig, setBackendConfig] = useState<{ backend: 'auto' | GpioBackendName; chip: string }>({ backend: 'auto', chip: '' });
   const [saving, setSaving] = useState(false);
   const [ledState, setLedState] = useState(false);
 
@@ -30,7 +74,7 @@ const HardwareTab: React.FC = () => {
 
   const fetchHardwareStatus = async () => {
     try {
-      const response = await fetch('/api/hardware/status');
+      const response = await adminFetch('/api/hardware/status');
       if (!response.ok) {
         throw new Error('Failed to fetch hardware status');
       }
@@ -41,6 +85,17 @@ const HardwareTab: React.FC = () => {
           coinSlotPin: result.data.coinSlotPin,
           statusLEDPin: result.data.statusLEDPin
         });
+        const bill = (result.data.acceptors || []).find((acceptor: Acceptor) => acceptor.kind === 'bill');
+        if (bill) {
+          setBillConfig({ enabled: bill.enabled, pin: bill.pin });
+        }
+        if (result.data.gpioBackendSetting) {
+          setBackendConfig(prev => ({ ...prev, backend: result.data.gpioBackendSetting }));
+        }
+        if (result.data.inhibit) {
+          const { enabled, pin, inhibitLevel } = result.data.inhibit;
+          setInhibitConfig({ enabled, pin, inhibitLevel });
+        }
       }
       setError(null);
     } catch (err) {
@@ -52,7 +107,7 @@ const HardwareTab: React.FC = () => {
 
   const disableMockMode = async () => {
     try {
-      const response = await fetch('/api/hardware/mock-mode', {
+      const response = await adminFetch('/api/hardware/mock-mode', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled: false })
@@ -69,7 +124,7 @@ const HardwareTab: React.FC = () => {
 
   const fetchAvailablePins = async () => {
     try {
-      const response = await fetch('/api/hardware/pins');
+      const response = await adminFetch('/api/hardware/pins');
       if (!response.ok) {
         throw new Error('Failed to fetch available pins');
       }
@@ -83,7 +138,7 @@ const HardwareTab: React.FC = () => {
   const handleConfigUpdate = async () => {
     try {
       setSaving(true);
-      const response = await fetch('/api/hardware/config', {
+      const response = await adminFetch('/api/hardware/config', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -104,9 +159,107 @@ const HardwareTab: React.FC = () => {
     }
   };
 
+  const handleBillUpdate = async () => {
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/acceptors/bill', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(billConfig),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update bill acceptor');
+      }
+
+      await fetchHardwareStatus();
+      alert('Bill acceptor updated successfully!');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update bill acceptor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInhibitUpdate = async () => {
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/inhibit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(inhibitConfig),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update coin inhibit');
+      }
+
+      await fetchHardwareStatus();
+      alert('Coin inhibit updated successfully!');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update coin inhibit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBackendUpdate = async () => {
+    try {
+      setSaving(true);
+      const response = await adminFetch('/api/hardware/gpio-backend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          backend: backendConfig.backend,
+          chip: backendConfig.chip.trim() || undefined
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update GPIO backend');
+      }
+
+      await fetchHardwareStatus();
+      alert(result.message || 'GPIO backend updated successfully!');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update GPIO backend');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMaintenance = async (enabled: boolean) => {
+    try {
+      const response = await adminFetch('/api/hardware/maintenance', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to change maintenance mode');
+      }
+
+      await fetchHardwareStatus();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to change maintenance mode');
+    }
+  };
+
   const handleLEDControl = async (state: boolean) => {
     try {
-      const response = await fetch('/api/hardware/led', {
+      const response = await adminFetch('/api/hardware/led', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -126,7 +279,7 @@ const HardwareTab: React.FC = () => {
 
   const handleLEDBlink = async () => {
     try {
-      const response = await fetch('/api/hardware/led/blink', {
+      const response = await adminFetch('/api/hardware/led/blink', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -144,7 +297,7 @@ const HardwareTab: React.FC = () => {
 
   const simulateCoinPulse = async () => {
     try {
-      const response = await fetch('/api/hardware/simulate-coin', {
+      const response = await adminFetch('/api/hardware/simulate-coin', {
         method: 'POST',
       });
 
@@ -189,6 +342,9 @@ const HardwareTab: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      {/* Coin Line Faults */}
+      <HardwareAlertsPanel onCleared={fetchHardwareStatus} />
+
       {/* Hardware Status */}
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -205,6 +361,7 @@ const HardwareTab: React.FC = () => {
             <div className={`text-lg font-semibold ${hardwareStatus.gpioAvailable ? 'text-green-600' : 'text-red-600'}`}>
               {hardwareStatus.gpioAvailable ? 'Yes' : 'No'}
             </div>
+            <div className="text-xs text-gray-500 mt-1">Backend: {hardwareStatus.gpioBackend || 'none'}</div>
           </div>
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="text-sm text-gray-600">Mock Mode</div>
@@ -217,6 +374,43 @@ const HardwareTab: React.FC = () => {
             <div className="text-lg font-semibold text-gray-900">{hardwareStatus.totalCoinsToday}</div>
           </div>
         </div>
+        {hardwareStatus.acceptors && (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            {hardwareStatus.acceptors.map(acceptor => (
+              <div key={acceptor.kind} className="border rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 capitalize">{acceptor.kind} acceptor (pin {acceptor.pin})</span>
+                  <span className={`text-xs font-medium ${acceptor.enabled ? 'text-green-600' : 'text-gray-400'}`}>
+                    {acceptor.enabled ? 'Enabled' : 'Disabled'}
+                  </span>
+                </div>
+                <div className="mt-2 text-sm text-gray-600">
+                  Today: {acceptor.countToday} inserted, ₱{acceptor.amountToday}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {hardwareStatus.inhibit && (
+          <div className="mt-4 flex items-center justify-between bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center space-x-2">
+              <div className={`w-3 h-3 rounded-full ${hardwareStatus.inhibit.acceptingCoins ? 'bg-green-500' : 'bg-red-500'}`}></div>
+              <span className="text-sm font-medium text-gray-900">
+                Coin acceptor {hardwareStatus.inhibit.acceptingCoins ? 'enabled' : 'inhibited'}: {hardwareStatus.inhibit.label}
+              </span>
+              <span className="text-xs text-gray-500">
+                since {new Date(hardwareStatus.inhibit.since).toLocaleTimeString()}
+                {!hardwareStatus.inhibit.enabled && ' (inhibit output not wired)'}
+              </span>
+            </div>
+            <button
+              onClick={() => toggleMaintenance(!hardwareStatus.inhibit.maintenance)}
+              className={`px-3 py-1 text-sm text-white rounded-md focus:outline-none focus:ring-2 ${hardwareStatus.inhibit.maintenance ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500' : 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-500'}`}
+            >
+              {hardwareStatus.inhibit.maintenance ? 'End Maintenance' : 'Start Maintenance'}
+            </button>
+          </div>
+        )}
         {hardwareStatus.lastCoinPulse && (
           <div className="mt-4 text-sm text-gray-600">
             Last coin pulse: {new Date(hardwareStatus.lastCoinPulse).toLocaleTimeString()}
@@ -281,6 +475,130 @@ const HardwareTab: React.FC = () => {
             {saving ? 'Saving...' : 'Update Configuration'}
           </button>
         </div>
+
+        <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GPIO Backend
+            </label>
+            <select
+              value={backendConfig.backend}
+              onChange={(e) => setBackendConfig({ ...backendConfig, backend: e.target.value as 'auto' | GpioBackendName })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {GPIO_BACKEND_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-1">How the coin, LED and inhibit pins are driven</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GPIO Chip
+            </label>
+            <input
+              type="text"
+              value={backendConfig.chip}
+              onChange={(e) => setBackendConfig({ ...backendConfig, chip: e.target.value })}
+              placeholder="gpiochip0"
+              disabled={backendConfig.backend !== 'libgpiod'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+            <p className="text-sm text-gray-500 mt-1">libgpiod only; leave blank to keep the current chip</p>
+          </div>
+          <div>
+            <button
+              onClick={handleBackendUpdate}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Update Backend'}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bill Acceptor Pin
+            </label>
+            <select
+              value={billConfig.pin}
+              onChange={(e) => setBillConfig({ ...billConfig, pin: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {availablePins.map(pin => (
+                <option key={pin} value={pin}>Pin {pin}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-1">Physical pin number for the bill validator pulse output</p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={billConfig.enabled}
+                onChange={(e) => setBillConfig({ ...billConfig, enabled: e.target.checked })}
+              />
+              <span>Enabled</span>
+            </label>
+            <button
+              onClick={handleBillUpdate}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Update Bill Acceptor'}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Coin Inhibit Pin
+            </label>
+            <select
+              value={inhibitConfig.pin}
+              onChange={(e) => setInhibitConfig({ ...inhibitConfig, pin: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {availablePins.map(pin => (
+                <option key={pin} value={pin}>Pin {pin}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-1">Output wired to the acceptor's inhibit input</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Inhibit Level
+            </label>
+            <select
+              value={inhibitConfig.inhibitLevel}
+              onChange={(e) => setInhibitConfig({ ...inhibitConfig, inhibitLevel: e.target.value as 'high' | 'low' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="high">High rejects coins</option>
+              <option value="low">Low rejects coins</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={inhibitConfig.enabled}
+                onChange={(e) => setInhibitConfig({ ...inhibitConfig, enabled: e.target.checked })}
+              />
+              <span>Enabled</span>
+            </label>
+            <button
+              onClick={handleInhibitUpdate}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Update Inhibit'}
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* LED Control */}
@@ -320,6 +638,18 @@ const HardwareTab: React.FC = () => {
         </div>
       </div>
 
+      {/* Status LED Blink Codes */}
+      {hardwareStatus.led && <StatusLedPanel led={hardwareStatus.led} onSaved={fetchHardwareStatus} />}
+
+      {/* Coin Pulse Calibration */}
+      <CoinCalibrationPanel onSaved={fetchHardwareStatus} />
+
+      {/* Coin Slot Queue */}
+      <CoinQueuePanel />
+
+      {/* Coin Box Collections */}
+      <CoinCollectionsPanel />
+
       {/* Testing Tools */}
       {hardwareStatus.mockMode && (
         <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { RefreshCw, FileText, AlertCircle, Terminal } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 const LogsTab: React.FC = () => {
   const [logs, setLogs] = useState<string>('');
@@ -13,7 +14,7 @@ const LogsTab: React.FC = () => {
     setLoading(true);
     setError('');
     try {
-      const res = await fetch(`/api/admin/logs?service=${service}&lines=${lines}`);
+      const res = await adminFetch(`/api/admin/logs?service=${service}&lines=${lines}`);
       const data = await res.json();
       if (data.success) {
         setLogs(data.data || 'No logs found.');
@@ -34,7 +35,7 @@ const LogsTab: React.FC = () => {
     let active = true;
     const loadPing = async () => {
       try {
-        const res = await fetch('/api/portal/ping-logs');
+        const res = await adminFetch('/api/portal/ping-logs');
         const data = await res.json();
         if (data.success && active) {
           setPingLogs(Array.isArray(data.data) ? data.data.slice(0, 50) : []);
@@ -123,7 +124,7 @@ const LogsTab: React.FC = () => {
           <button
             onClick={async () => {
               try {
-                const res = await fetch('/api/portal/ping-logs');
+                const res = await adminFetch('/api/portal/ping-logs');
                 const data = await res.json();
                 if (data.success) {
                   setPingLogs(Array.isArray(data.data) ? data.data.slice(0, 50) : []);
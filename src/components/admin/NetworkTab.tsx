@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Wifi, Network, Settings, Plus, Trash2, RefreshCw, Shield, Globe } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 interface NetworkInterface {
   name: string;
@@ -51,7 +52,7 @@ const NetworkTab: React.FC = () => {
 
   const fetchNetworkStatus = async () => {
     try {
-      const response = await fetch('/api/network/status');
+      const response = await adminFetch('/api/network/status');
       if (!response.ok) {
         throw new Error('Failed to fetch network status');
       }
@@ -68,7 +69,7 @@ const NetworkTab: React.FC = () => {
   const handleCreateVLAN = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const response = await fetch('/api/network/vlan', {
+      const response = await adminFetch('/api/network/vlan', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -98,7 +99,7 @@ const NetworkTab: React.FC = () => {
     }
 
     try {
-      const response = await fetch(`/api/network/vlan/${vlanName}`, {
+      const response = await adminFetch(`/api/network/vlan/${vlanName}`, {
         method: 'DELETE',
       });
 
@@ -116,7 +117,7 @@ const NetworkTab: React.FC = () => {
   const handleSetupHotspot = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const response = await fetch('/api/network/hotspot', {
+      const response = await adminFetch('/api/network/hotspot', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -147,7 +148,7 @@ const NetworkTab: React.FC = () => {
   const handleToggleCaptivePortal = async (enable: boolean) => {
     try {
       const endpoint = enable ? '/api/network/captive/enable' : '/api/network/captive/disable';
-      const response = await fetch(endpoint, {
+      const response = await adminFetch(endpoint, {
         method: 'POST',
       });
 
@@ -165,7 +166,7 @@ const NetworkTab: React.FC = () => {
   const handleConfigureWan = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const response = await fetch('/api/network/wan', {
+      const response = await adminFetch('/api/network/wan', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -191,7 +192,7 @@ const NetworkTab: React.FC = () => {
     }
 
     try {
-      const response = await fetch('/api/network/restart', {
+      const response = await adminFetch('/api/network/restart', {
         method: 'POST',
       });
 
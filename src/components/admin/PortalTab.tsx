@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Settings, Image, Type, Palette, Eye, Upload } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 interface PortalSettings {
   title: string;
@@ -23,7 +24,7 @@ const PortalTab: React.FC = () => {
 
   const fetchPortalSettings = async () => {
     try {
-      const response = await fetch('/api/admin/portal');
+      const response = await adminFetch('/api/admin/portal');
       if (!response.ok) {
         throw new Error('Failed to fetch portal settings');
       }
@@ -43,7 +44,7 @@ const PortalTab: React.FC = () => {
 
     try {
       setSaving(true);
-      const response = await fetch('/api/admin/portal', {
+      const response = await adminFetch('/api/admin/portal', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,16 +1,94 @@
 import React, { useState, useEffect } from 'react';
-import { DollarSign, Plus, Trash2, Edit3, Save, X } from 'lucide-react';
+import { DollarSign, Plus, Trash2, Edit3, Save, X, Clock, Calculator, Wifi, Pause, Timer, Bell } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 interface Rate {
   pesos: number;
   minutes: number;
 }
 
+interface RateSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  days: number[];
+  startTime: string;
+  endTime: string;
+  timePerPeso?: number;
+  rates?: Rate[];
+  bonusPercent?: number;
+}
+
+interface DataRate {
+  pesos: number;
+  megabytes: number;
+}
+
+interface AutoPauseSettings {
+  time: boolean;
+  data: boolean;
+  absenceMinutes: number;
+}
+
 interface RatesSettings {
   timePerPeso: number;
   rates: Rate[];
+  schedules?: RateSchedule[];
+  dataRates?: DataRate[];
+  megabytesPerPeso?: number;
+  dataValidityMinutes?: number;
+  autoPause?: AutoPauseSettings;
+  pauseLimits?: PauseLimits;
+  expiryWarnings?: ExpiryWarningSettings;
+}
+
+interface ExpiryWarningSettings {
+  enabled: boolean;
+  minutes: number[];
+}
+
+interface PauseLimits {
+  maxPauses: number;
+  maxPausedMinutes: number;
+  minRemainingMinutes: number;
+  pausedExpiryMinutes: number;
+  pausedExpiryAction: 'resume' | 'expire';
+}
+
+const DEFAULT_AUTO_PAUSE: AutoPauseSettings = { time: false, data: false, absenceMinutes: 5 };
+
+const DEFAULT_PAUSE_LIMITS: PauseLimits = {
+  maxPauses: 0,
+  maxPausedMinutes: 0,
+  minRemainingMinutes: 0,
+  pausedExpiryMinutes: 10080,
+  pausedExpiryAction: 'expire'
+};
+
+const DEFAULT_EXPIRY_WARNINGS: ExpiryWarningSettings = { enabled: true, minutes: [5, 1] };
+
+const WARNING_MINUTE_OPTIONS = [1, 2, 3, 5, 10, 15, 30];
+const MAX_EXPIRY_WARNINGS = 5;
+
+const PAUSE_LIMIT_FIELDS: Array<{ field: Exclude<keyof PauseLimits, 'pausedExpiryAction'>; label: string; unit: string }> = [
+  { field: 'maxPauses', label: 'Pauses per session', unit: 'pauses' },
+  { field: 'maxPausedMinutes', label: 'Total paused time', unit: 'minutes' },
+  { field: 'minRemainingMinutes', label: 'Time left needed to pause', unit: 'minutes' },
+  { field: 'pausedExpiryMinutes', label: 'Longest single pause', unit: 'minutes' }
+];
+
+interface PriceQuote {
+  pesos: number;
+  minutes: number;
+  lines: Array<{ pesos: number; minutes: number; count: number }>;
+  remainderPesos: number;
+  remainderMinutes: number;
+  bonusMinutes: number;
+  schedule: { id: string; name: string } | null;
 }
 
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 const RatesTab: React.FC = () => {
   const [ratesSettings, setRatesSettings] = useState<RatesSettings | null>(null);
   const [loading, setLoading] = useState(true);
@@ -18,7 +96,12 @@ const RatesTab: React.FC = () => {
   const [editing, setEditing] = useState(false);
   const [editingRates, setEditingRates] = useState<RatesSettings | null>(null);
   const [newRate, setNewRate] = useState({ pesos: '', minutes: '' });
+  const [newDataRate, setNewDataRate] = useState({ pesos: '', megabytes: '' });
   const [saving, setSaving] = useState(false);
+  const [previewPesos, setPreviewPesos] = useState('');
+  const [previewAt, setPreviewAt] = useState('');
+  const [preview, setPreview] = useState<PriceQuote | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchRates();
@@ -26,7 +109,7 @@ const RatesTab: React.FC = () => {
 
   const fetchRates = async () => {
     try {
-      const response = await fetch('/api/admin/rates');
+      const response = await adminFetch('/api/admin/rates');
       if (!response.ok) {
         throw new Error('Failed to fetch rates');
       }
@@ -46,7 +129,7 @@ const RatesTab: React.FC = () => {
 
     try {
       setSaving(true);
-      const response = await fetch('/api/admin/rates', {
+      const response = await adminFetch('/api/admin/rates', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -55,7 +138,8 @@ const RatesTab: React.FC = () => {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to save rates');
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to save rates');
       }
 
       await fetchRates();
@@ -135,6 +219,156 @@ const RatesTab: React.FC = () => {
     });
   };
 
+  const handleAddDataRate = () => {
+    if (!editingRates) return;
+
+    const pesos = parseFloat(newDataRate.pesos);
+    const megabytes = parseInt(newDataRate.megabytes);
+
+    if (isNaN(pesos) || isNaN(megabytes) || pesos <= 0 || megabytes <= 0) {
+      alert('Please enter valid positive numbers');
+      return;
+    }
+
+    if ((editingRates.dataRates || []).some(rate => rate.pesos === pesos)) {
+      alert('A data plan with this peso amount already exists');
+      return;
+    }
+
+    setEditingRates({
+      ...editingRates,
+      dataRates: [...(editingRates.dataRates || []), { pesos, megabytes }].sort((a, b) => a.pesos - b.pesos)
+    });
+    setNewDataRate({ pesos: '', megabytes: '' });
+  };
+
+  const handleRemoveDataRate = (index: number) => {
+    if (!editingRates) return;
+
+    setEditingRates({
+      ...editingRates,
+      dataRates: (editingRates.dataRates || []).filter((_, i) => i !== index)
+    });
+  };
+
+  const handleDataSettingChange = (field: 'megabytesPerPeso' | 'dataValidityMinutes', value: string) => {
+    if (!editingRates) return;
+
+    const numValue = parseInt(value);
+    if (isNaN(numValue) || numValue < 0) {
+      return;
+    }
+
+    setEditingRates({
+      ...editingRates,
+      [field]: numValue
+    });
+  };
+
+  const updateAutoPause = (changes: Partial<AutoPauseSettings>) => {
+    if (!editingRates) return;
+
+    setEditingRates({
+      ...editingRates,
+      autoPause: { ...(editingRates.autoPause || DEFAULT_AUTO_PAUSE), ...changes }
+    });
+  };
+
+  const updatePauseLimits = (changes: Partial<PauseLimits>) => {
+    if (!editingRates) return;
+
+    setEditingRates({
+      ...editingRates,
+      pauseLimits: { ...(editingRates.pauseLimits || DEFAULT_PAUSE_LIMITS), ...changes }
+    });
+  };
+
+  const updateExpiryWarnings = (changes: Partial<ExpiryWarningSettings>) => {
+    if (!editingRates) return;
+
+    setEditingRates({
+      ...editingRates,
+      expiryWarnings: { ...(editingRates.expiryWarnings || DEFAULT_EXPIRY_WARNINGS), ...changes }
+    });
+  };
+
+  const updateSchedule = (index: number, changes: Partial<RateSchedule>) => {
+    if (!editingRates) return;
+
+    const schedules = [...(editingRates.schedules || [])];
+    schedules[index] = { ...schedules[index], ...changes };
+    setEditingRates({ ...editingRates, schedules });
+  };
+
+  const handleAddSchedule = () => {
+    if (!editingRates) return;
+
+    const schedule: RateSchedule = {
+      id: `schedule-${Date.now()}`,
+      name: 'Happy Hour',
+      enabled: true,
+      days: [],
+      startTime: '13:00',
+      endTime: '15:00',
+      bonusPercent: 20
+    };
+    setEditingRates({ ...editingRates, schedules: [...(editingRates.schedules || []), schedule] });
+  };
+
+  const handleRemoveSchedule = (index: number) => {
+    if (!editingRates) return;
+
+    setEditingRates({
+      ...editingRates,
+      schedules: (editingRates.schedules || []).filter((_, i) => i !== index)
+    });
+  };
+
+  const toggleScheduleDay = (index: number, day: number) => {
+    const schedule = editingRates?.schedules?.[index];
+    if (!schedule) return;
+
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter(d => d !== day)
+      : [...schedule.days, day].sort();
+    updateSchedule(index, { days });
+  };
+
+  const handlePreview = async () => {
+    const pesos = parseFloat(previewPesos);
+    if (isNaN(pesos) || pesos <= 0) {
+      setPreview(null);
+      setPreviewError('Enter a valid amount');
+      return;
+    }
+
+    try {
+      // While editing, preview the unsaved rates so changes can be checked first
+      const response = await adminFetch('/api/admin/rates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pesos,
+          rates: editing ? editingRates : undefined,
+          at: previewAt ? new Date(previewAt).toISOString() : undefined
+        })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to preview rates');
+      }
+      setPreview(result.data);
+      setPreviewError(null);
+    } catch (err) {
+      setPreview(null);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to preview rates');
+    }
+  };
+
+  const describeDays = (days: number[]): string => {
+    return days.length === 0 || days.length === 7 ? 'Every day' : days.map(d => DAY_LABELS[d]).join(', ');
+  };
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-PH', {
       style: 'currency',
@@ -199,7 +433,7 @@ const RatesTab: React.FC = () => {
           )}
         </div>
         <p className="text-sm text-gray-500 mt-2">
-          This is the default rate used when no specific rate is configured for a peso amount.
+          Amounts are split across the rate plans largest first; any pesos left over are charged at this rate.
         </p>
       </div>
 
@@ -323,60 +557,472 @@ const RatesTab: React.FC = () => {
         )}
       </div>
 
-      {/* Rate Calculator */}
+      {/* Rate Schedules */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Clock className="h-5 w-5 mr-2 text-blue-600" />
+            Schedules &amp; Promos
+          </h3>
+          {editing && (
+            <button
+              onClick={handleAddSchedule}
+              className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Schedule</span>
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          During a schedule window the first matching schedule replaces the default time per peso and adds its bonus minutes.
+          Windows ending before they start run past midnight.
+        </p>
+
+        <div className="space-y-3">
+          {((editing ? editingRates?.schedules : ratesSettings.schedules) || []).map((schedule, index) => (
+            <div key={schedule.id} className="p-4 border border-gray-200 rounded-lg">
+              {editing ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <input
+                      type="text"
+                      value={schedule.name}
+                      onChange={(e) => updateSchedule(index, { name: e.target.value })}
+                      className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Name"
+                    />
+                    <input
+                      type="time"
+                      value={schedule.startTime}
+                      onChange={(e) => updateSchedule(index, { startTime: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={schedule.endTime}
+                      onChange={(e) => updateSchedule(index, { endTime: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={schedule.enabled}
+                        onChange={(e) => updateSchedule(index, { enabled: e.target.checked })}
+                      />
+                      <span>Enabled</span>
+                    </label>
+                    <button
+                      onClick={() => handleRemoveSchedule(index)}
+                      className="ml-auto text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {DAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleScheduleDay(index, day)}
+                        className={`px-2 py-1 text-xs rounded-md border ${
+                          schedule.days.includes(day)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <span className="text-xs text-gray-500 self-center">No days selected = every day</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Minutes per peso (optional)</label>
+                      <input
+                        type="number"
+                        value={schedule.timePerPeso ?? ''}
+                        onChange={(e) => updateSchedule(index, { timePerPeso: e.target.value ? parseInt(e.target.value) : undefined })}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        min="1"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Bonus (%)</label>
+                      <input
+                        type="number"
+                        value={schedule.bonusPercent ?? ''}
+                        onChange={(e) => updateSchedule(index, { bonusPercent: e.target.value ? parseFloat(e.target.value) : undefined })}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-semibold text-gray-900">
+                      {schedule.name}
+                      {!schedule.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {describeDays(schedule.days)}, {schedule.startTime} - {schedule.endTime}
+                    </div>
+                  </div>
+                  <div className="text-sm text-gray-700 text-right">
+                    {schedule.timePerPeso && <div>{schedule.timePerPeso} minutes per peso</div>}
+                    {!!schedule.bonusPercent && <div>+{schedule.bonusPercent}% bonus time</div>}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {((editing ? editingRates?.schedules : ratesSettings.schedules) || []).length === 0 && (
+          <div className="text-center py-6 text-gray-500">
+            No schedules configured. Regular rates apply at all times.
+          </div>
+        )}
+      </div>
+
+      {/* Data Plans */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Wifi className="h-5 w-5 mr-2 text-blue-600" />
+          Data Plans
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Clients can buy a data allowance instead of time. The session ends when the allowance is used up or the validity period runs out.
+          Leave both the plans and MB per peso empty to offer time only.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">MB per Peso</label>
+            {editing ? (
+              <input
+                type="number"
+                value={editingRates?.megabytesPerPeso ?? 0}
+                onChange={(e) => handleDataSettingChange('megabytesPerPeso', e.target.value)}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+              />
+            ) : (
+              <span className="text-lg font-semibold text-gray-900">{ratesSettings.megabytesPerPeso || 0} MB</span>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Validity (minutes)</label>
+            {editing ? (
+              <input
+                type="number"
+                value={editingRates?.dataValidityMinutes ?? 1440}
+                onChange={(e) => handleDataSettingChange('dataValidityMinutes', e.target.value)}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="1"
+              />
+            ) : (
+              <span className="text-lg font-semibold text-gray-900">{ratesSettings.dataValidityMinutes || 1440} minutes</span>
+            )}
+          </div>
+        </div>
+
+        {editing && (
+          <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Add Data Plan</h4>
+            <div className="flex items-center space-x-4">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Pesos</label>
+                <input
+                  type="number"
+                  value={newDataRate.pesos}
+                  onChange={(e) => setNewDataRate({ ...newDataRate, pesos: e.target.value })}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Amount"
+                  min="1"
+                  step="0.01"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Megabytes</label>
+                <input
+                  type="number"
+                  value={newDataRate.megabytes}
+                  onChange={(e) => setNewDataRate({ ...newDataRate, megabytes: e.target.value })}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="MB"
+                  min="1"
+                />
+              </div>
+              <button
+                onClick={handleAddDataRate}
+                className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {((editing ? editingRates?.dataRates : ratesSettings.dataRates) || []).map((rate, index) => (
+            <div key={rate.pesos} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-center space-x-4">
+                <div className="text-lg font-semibold text-gray-900">{formatCurrency(rate.pesos)}</div>
+                <div className="text-gray-500">=</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {rate.megabytes >= 1024 ? `${(rate.megabytes / 1024).toFixed(1)} GB` : `${rate.megabytes} MB`}
+                </div>
+              </div>
+              {editing && (
+                <button
+                  onClick={() => handleRemoveDataRate(index)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!editing && (ratesSettings.dataRates || []).length === 0 && !ratesSettings.megabytesPerPeso && (
+          <div className="text-center py-6 text-gray-500">
+            No data plans configured. Clients can only buy time.
+          </div>
+        )}
+      </div>
+
+      {/* Auto-Pause */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Pause className="h-5 w-5 mr-2 text-blue-600" />
+          Auto-Pause When Away
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Pause a session when its device has not been seen on the hotspot for a while, and resume it when the device comes back.
+          The time away is given back to the customer.
+        </p>
+
+        {(() => {
+          const autoPause = (editing ? editingRates?.autoPause : ratesSettings.autoPause) || DEFAULT_AUTO_PAUSE;
+          return (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={autoPause.time}
+                  disabled={!editing}
+                  onChange={(e) => updateAutoPause({ time: e.target.checked })}
+                />
+                <span>Time plans</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={autoPause.data}
+                  disabled={!editing}
+                  onChange={(e) => updateAutoPause({ data: e.target.checked })}
+                />
+                <span>Data plans</span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pause after (minutes away)</label>
+                {editing ? (
+                  <input
+                    type="number"
+                    value={autoPause.absenceMinutes}
+                    onChange={(e) => updateAutoPause({ absenceMinutes: parseInt(e.target.value || '0', 10) })}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="1"
+                    max="120"
+                  />
+                ) : (
+                  <span className="text-lg font-semibold text-gray-900">{autoPause.absenceMinutes} minutes</span>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+      </div>
+
+      {/* Pause Limits */}
       <div className="bg-white rounded-lg shadow-sm border p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Rate Calculator</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Timer className="h-5 w-5 mr-2 text-blue-600" />
+          Pause Limits
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Keep customers from parking a session indefinitely. Use 0 for no limit. Auto-pauses count toward these limits; pauses made here in the admin panel do not.
+        </p>
+
+        {(() => {
+          const limits = (editing ? editingRates?.pauseLimits : ratesSettings.pauseLimits) || DEFAULT_PAUSE_LIMITS;
+          return (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {PAUSE_LIMIT_FIELDS.map(({ field, label, unit }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                  {editing ? (
+                    <input
+                      type="number"
+                      value={limits[field]}
+                      onChange={(e) => updatePauseLimits({ [field]: Math.max(0, parseInt(e.target.value || '0', 10)) })}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      min="0"
+                    />
+                  ) : (
+                    <span className="text-lg font-semibold text-gray-900">{limits[field] ? `${limits[field]} ${unit}` : 'No limit'}</span>
+                  )}
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">When a pause runs too long</label>
+                {editing ? (
+                  <select
+                    value={limits.pausedExpiryAction}
+                    onChange={(e) => updatePauseLimits({ pausedExpiryAction: e.target.value as PauseLimits['pausedExpiryAction'] })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="expire">End the session</option>
+                    <option value="resume">Resume the session</option>
+                  </select>
+                ) : (
+                  <span className="text-lg font-semibold text-gray-900">
+                    {limits.pausedExpiryAction === 'expire' ? 'End the session' : 'Resume the session'}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+      </div>
+
+      {/* Expiry Warnings */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Bell className="h-5 w-5 mr-2 text-blue-600" />
+          Expiry Warnings
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Warn customers on the portal before their time runs out, with a button to add time. Pauses, extensions and the end of a session are always shown.
+        </p>
+
+        {(() => {
+          const warnings = (editing ? editingRates?.expiryWarnings : ratesSettings.expiryWarnings) || DEFAULT_EXPIRY_WARNINGS;
+          const toggleMinutes = (minutes: number, checked: boolean) => {
+            const next = checked ? [...warnings.minutes, minutes] : warnings.minutes.filter(value => value !== minutes);
+            updateExpiryWarnings({ minutes: next.sort((a, b) => b - a) });
+          };
+          return (
+            <div className="space-y-4">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={warnings.enabled}
+                  disabled={!editing}
+                  onChange={(e) => updateExpiryWarnings({ enabled: e.target.checked })}
+                />
+                <span>Send expiry warnings</span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Warn when this much time is left (up to {MAX_EXPIRY_WARNINGS})</label>
+                <div className="flex flex-wrap gap-4">
+                  {WARNING_MINUTE_OPTIONS.map(minutes => {
+                    const checked = warnings.minutes.includes(minutes);
+                    return (
+                      <label key={minutes} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={!editing || !warnings.enabled || (!checked && warnings.minutes.length >= MAX_EXPIRY_WARNINGS)}
+                          onChange={(e) => toggleMinutes(minutes, e.target.checked)}
+                        />
+                        <span>{minutes} min</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+      </div>
+
+      {/* Rate Preview */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Calculator className="h-5 w-5 mr-2 text-blue-600" />
+          What Does It Buy?
+        </h3>
+        <div className="flex flex-wrap items-end gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Enter Amount (Pesos)
+              Amount (Pesos)
             </label>
             <input
               type="number"
+              value={previewPesos}
+              onChange={(e) => setPreviewPesos(e.target.value)}
               placeholder="Enter peso amount"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              onChange={(e) => {
-                const amount = parseFloat(e.target.value);
-                if (!isNaN(amount) && amount > 0) {
-                  const time = calculateTime(amount);
-                  const resultDiv = document.getElementById('calculator-result');
-                  if (resultDiv) {
-                    resultDiv.textContent = `${formatCurrency(amount)} = ${time} minutes`;
-                  }
-                } else {
-                  const resultDiv = document.getElementById('calculator-result');
-                  if (resultDiv) {
-                    resultDiv.textContent = 'Enter a valid amount';
-                  }
-                }
-              }}
+              className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              min="1"
             />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Estimated Time
+              At (optional)
             </label>
-            <div id="calculator-result" className="text-lg font-semibold text-gray-900 py-2">
-              Enter an amount to see the estimated time
-            </div>
+            <input
+              type="datetime-local"
+              value={previewAt}
+              onChange={(e) => setPreviewAt(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
           </div>
+          <button
+            onClick={handlePreview}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            Preview
+          </button>
         </div>
+        {editing && (
+          <p className="text-sm text-gray-500 mt-2">Previewing your unsaved changes.</p>
+        )}
+
+        {previewError && (
+          <p className="text-sm text-red-600 mt-4">{previewError}</p>
+        )}
+
+        {preview && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+            <div className="text-lg font-semibold text-gray-900">
+              {formatCurrency(preview.pesos)} = {preview.minutes} minutes
+            </div>
+            <ul className="mt-2 space-y-1 text-sm text-gray-600">
+              {preview.lines.map(line => (
+                <li key={line.pesos}>
+                  {line.count} × {formatCurrency(line.pesos)} tier = {line.count * line.minutes} minutes
+                </li>
+              ))}
+              {preview.remainderPesos > 0 && (
+                <li>{formatCurrency(preview.remainderPesos)} at per-peso rate = {preview.remainderMinutes} minutes</li>
+              )}
+              {preview.schedule && (
+                <li>
+                  {preview.schedule.name} active{preview.bonusMinutes > 0 ? `: +${preview.bonusMinutes} bonus minutes` : ''}
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
-
-  function calculateTime(pesos: number): number {
-    if (!ratesSettings) return 0;
-    
-    // Check if there's a specific rate for this amount
-    const specificRate = ratesSettings.rates.find(rate => rate.pesos === pesos);
-    if (specificRate) {
-      return specificRate.minutes;
-    }
-    
-    // Use default rate calculation
-    return Math.floor(pesos * ratesSettings.timePerPeso);
-  }
 };
 
 export default RatesTab;
\ No newline at end of file
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DollarSign, Coins, Banknote, Ticket, Users, Clock, Download, RefreshCw } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { adminFetch } from '../../utils/adminApi';
+
+type ReportGrouping = 'hour' | 'day' | 'month';
+
+interface SalesBucket {
+  period: string;
+  revenue: number;
+  coins: number;
+  bills: number;
+  refunds: number;
+  voucherRedemptions: number;
+  voucherValue: number;
+  adminGrants: number;
+  uniqueClients: number;
+  sessions: number;
+  averageSessionMinutes: number;
+}
+
+interface SalesReport {
+  from: string;
+  to: string;
+  groupBy: ReportGrouping;
+  totals: Omit<SalesBucket, 'period'>;
+  buckets: SalesBucket[];
+}
+
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency: 'PHP',
+    minimumFractionDigits: 0
+  }).format(amount);
+};
+
+const ReportsTab: React.FC = () => {
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [groupBy, setGroupBy] = useState<ReportGrouping>('day');
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = useCallback((format: 'json' | 'csv') =>
+    `/api/admin/reports?from=${from}&to=${to}&groupBy=${groupBy}&format=${format}`, [from, to, groupBy]);
+
+  // Re-runs whenever the range or grouping changes
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await adminFetch(query('json'));
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load report');
+      }
+      setReport(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportCsv = async () => {
+    try {
+      const response = await adminFetch(query('csv'));
+      if (!response.ok) throw new Error('Failed to export report');
+      downloadFile(await response.blob(), `sales-${from}-to-${to}.csv`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to export report');
+    }
+  };
+
+  const handleExportJson = () => {
+    if (!report) return;
+    downloadFile(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `sales-${from}-to-${to}.json`);
+  };
+
+  const summaryCards = report ? [
+    { label: 'Revenue', value: formatCurrency(report.totals.revenue), icon: DollarSign, color: 'green' },
+    { label: 'Coins', value: formatCurrency(report.totals.coins), icon: Coins, color: 'orange' },
+    { label: 'Bills', value: formatCurrency(report.totals.bills), icon: Banknote, color: 'teal' },
+    { label: 'Voucher Redemptions', value: `${report.totals.voucherRedemptions} (${formatCurrency(report.totals.voucherValue)})`, icon: Ticket, color: 'purple' },
+    { label: 'Unique Clients', value: String(report.totals.uniqueClients), icon: Users, color: 'blue' },
+    { label: 'Avg Session', value: `${report.totals.averageSessionMinutes}m`, icon: Clock, color: 'gray' }
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Group By</label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as ReportGrouping)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="hour">Hour</option>
+              <option value="day">Day</option>
+              <option value="month">Month</option>
+            </select>
+          </div>
+          <button
+            onClick={fetchReport}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </button>
+          <div className="flex items-center space-x-2 ml-auto">
+            <button
+              onClick={handleExportCsv}
+              disabled={!report}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={handleExportJson}
+              disabled={!report}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>JSON</span>
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-3">
+          Revenue is coin and bill cash minus refunds. Voucher redemptions are shown separately because voucher money is collected when the voucher is sold.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : report && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {summaryCards.map(card => {
+              const Icon = card.icon;
+              return (
+                <div key={card.label} className="bg-white rounded-lg shadow-sm border p-4">
+                  <div className="flex items-center">
+                    <div className={`p-2 bg-${card.color}-100 rounded-lg`}>
+                      <Icon className={`h-5 w-5 text-${card.color}-600`} />
+                    </div>
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-gray-600">{card.label}</p>
+                      <p className="text-lg font-bold text-gray-900">{card.value}</p>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Revenue</h3>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={report.buckets}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    <Bar dataKey="coins" name="Coins" fill="#f59e0b" />
+                    <Bar dataKey="bills" name="Bills" fill="#0d9488" />
+                    <Bar dataKey="voucherValue" name="Vouchers" fill="#8b5cf6" />
+                    <Bar dataKey="revenue" name="Net revenue" fill="#16a34a" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Clients &amp; Sessions</h3>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={report.buckets}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="uniqueClients" name="Unique clients" stroke="#2563eb" />
+                    <Line type="monotone" dataKey="sessions" name="Sessions" stroke="#16a34a" />
+                    <Line type="monotone" dataKey="averageSessionMinutes" name="Avg minutes" stroke="#9ca3af" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Breakdown */}
+          <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Period</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Revenue</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Coins</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Bills</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Refunds</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Vouchers</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Clients</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Sessions</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Avg Session</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.buckets.map(bucket => (
+                  <tr key={bucket.period}>
+                    <td className="px-4 py-2 text-gray-900">{bucket.period}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(bucket.revenue)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(bucket.coins)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(bucket.bills)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(bucket.refunds)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{bucket.voucherRedemptions}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{bucket.uniqueClients}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{bucket.sessions}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{bucket.averageSessionMinutes}m</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportsTab;
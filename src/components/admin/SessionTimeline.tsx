@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+type SessionEventType = 'started' | 'extended' | 'paused' | 'resumed' | 'expired' | 'ended' | 'restored';
+
+interface SessionEvent {
+  id: number;
+  sessionId: number | null;
+  macAddress: string;
+  type: SessionEventType;
+  source: 'portal' | 'coin' | 'wallet' | 'voucher' | 'admin' | 'system';
+  pesos: number;
+  minutes: number;
+  endTime: string | null;
+  actor?: string | null;
+  note?: string | null;
+  createdAt: string;
+}
+
+const EVENT_STYLES: Record<SessionEventType, { label: string; dot: string }> = {
+  started: { label: 'Started', dot: 'bg-green-500' },
+  extended: { label: 'Extended', dot: 'bg-blue-500' },
+  paused: { label: 'Paused', dot: 'bg-yellow-500' },
+  resumed: { label: 'Resumed', dot: 'bg-green-400' },
+  expired: { label: 'Expired', dot: 'bg-gray-400' },
+  ended: { label: 'Ended', dot: 'bg-red-500' },
+  restored: { label: 'Restored after reboot', dot: 'bg-purple-500' }
+};
+
+const SOURCE_LABELS: Record<SessionEvent['source'], string> = {
+  portal: 'Customer',
+  coin: 'Coins',
+  wallet: 'Wallet',
+  voucher: 'Voucher',
+  admin: 'Admin',
+  system: 'System'
+};
+
+const eventLabel = (event: SessionEvent): string =>
+  event.type === 'ended' && event.source === 'admin' ? 'Ended by admin' : EVENT_STYLES[event.type].label;
+
+// Minutes added, or connected time once the session is over
+const eventAmount = (event: SessionEvent): string | null => {
+  const parts: string[] = [];
+  if (event.pesos) parts.push(`₱${event.pesos}`);
+  if (event.minutes) {
+    parts.push(event.type === 'ended' || event.type === 'expired' ? `${event.minutes} min connected` : `+${event.minutes} min`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+const SessionTimeline: React.FC<{ macAddress: string }> = ({ macAddress }) => {
+  const [events, setEvents] = useState<SessionEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const res = await adminFetch(`/api/devices/${macAddress}/events`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok || !data.success) throw new Error(data.error || 'Failed to load session history');
+        setEvents(data.data || []);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Error loading session history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEvents();
+  }, [macAddress]);
+
+  return (
+    <div className="bg-gray-50 rounded-md p-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center">
+        <History className="h-4 w-4 mr-2 text-blue-600" />
+        Session History for {macAddress}
+      </h4>
+      {loading && <div className="text-sm text-gray-500">Loading...</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!loading && !error && events.length === 0 && (
+        <div className="text-sm text-gray-500">No session events recorded for this device</div>
+      )}
+      <ol className="relative border-l border-gray-300 ml-2">
+        {events.map(event => {
+          const amount = eventAmount(event);
+          return (
+            <li key={event.id} className="mb-3 ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_STYLES[event.type].dot}`}></span>
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span className="font-medium text-gray-900">{eventLabel(event)}</span>
+                <span className="text-gray-500">{new Date(event.createdAt).toLocaleString()}</span>
+                {event.sessionId && <span className="text-xs text-gray-500">Session #{event.sessionId}</span>}
+                <span className="px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs">
+                  {SOURCE_LABELS[event.source]}{event.actor ? `: ${event.actor}` : ''}
+                </span>
+              </div>
+              <div className="text-xs text-gray-600">
+                {[amount, event.note, event.endTime && `ends ${new Date(event.endTime).toLocaleString()}`].filter(Boolean).join(' · ')}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default SessionTimeline;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Lightbulb } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
+
+type LedState = 'booting' | 'fault' | 'maintenance' | 'no_wan' | 'portal_off' | 'coin_session' | 'idle';
+
+type LedPattern = 'on' | 'off' | number[];
+
+export interface LedStatus {
+  state: LedState;
+  label: string;
+  pattern: LedPattern;
+  patterns: Record<LedState, LedPattern>;
+  portalActive: boolean;
+}
+
+// Highest priority first, as the server resolves them
+const LED_STATE_ROWS: Array<{ state: LedState; label: string }> = [
+  { state: 'booting', label: 'Starting up' },
+  { state: 'fault', label: 'Hardware fault' },
+  { state: 'maintenance', label: 'Maintenance mode' },
+  { state: 'no_wan', label: 'Internet is down' },
+  { state: 'portal_off', label: 'Captive portal off' },
+  { state: 'coin_session', label: 'Coin session open' },
+  { state: 'idle', label: 'Running' }
+];
+
+const formatPattern = (pattern: LedPattern): string => (Array.isArray(pattern) ? pattern.join(', ') : pattern);
+
+// Accepts "on", "off" or comma separated on/off durations in ms
+const parsePattern = (text: string): LedPattern => {
+  const value = text.trim().toLowerCase();
+  if (value === 'on' || value === 'off') return value;
+  return value.split(/[\s,]+/).filter(Boolean).map(step => Number(step));
+};
+
+const StatusLedPanel: React.FC<{ led: LedStatus; onSaved?: () => void }> = ({ led, onSaved }) => {
+  const [drafts, setDrafts] = useState<Record<LedState, string> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Filled once so the status refresh does not overwrite edits
+  useEffect(() => {
+    if (drafts) return;
+    setDrafts(Object.fromEntries(
+      LED_STATE_ROWS.map(({ state }) => [state, formatPattern(led.patterns[state])])
+    ) as Record<LedState, string>);
+  }, [led, drafts]);
+
+  const handleSave = async () => {
+    if (!drafts) return;
+    try {
+      setSaving(true);
+      const patterns = Object.fromEntries(
+        LED_STATE_ROWS.map(({ state }) => [state, parsePattern(drafts[state])])
+      );
+      const response = await adminFetch('/api/hardware/led/patterns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ patterns })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update LED patterns');
+      }
+      onSaved?.();
+      alert('Status LED patterns updated successfully!');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update LED patterns');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Lightbulb className="h-5 w-5 mr-2 text-blue-600" />
+        Status LED Patterns
+      </h3>
+
+      <div className="flex items-center space-x-2 mb-4">
+        <div className="w-3 h-3 rounded-full bg-green-500"></div>
+        <span className="text-sm text-gray-600">
+          Showing: <span className="font-medium text-gray-900">{led.label}</span> ({formatPattern(led.pattern)})
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Use on, off, or on/off durations in milliseconds starting with on, e.g. 400, 400, 400, 1600 for two blinks.
+        When several states apply, the one higher in the list wins.
+      </p>
+
+      {drafts && (
+        <div className="space-y-3">
+          {LED_STATE_ROWS.map(({ state, label }) => (
+            <div key={state} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+              <label className={`text-sm font-medium ${state === led.state ? 'text-blue-700' : 'text-gray-700'}`}>
+                {label}
+              </label>
+              <input
+                type="text"
+                value={drafts[state]}
+                onChange={(e) => setDrafts({ ...drafts, [state]: e.target.value })}
+                className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <button
+          onClick={handleSave}
+          disabled={saving || !drafts}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Patterns'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatusLedPanel;
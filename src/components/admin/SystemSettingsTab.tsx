@@ -1,9 +1,211 @@
-import React, { useState } from 'react';
-import { Settings, Lock, Save, AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Settings, Lock, Save, AlertCircle, CheckCircle, Users, UserPlus, KeyRound, LogOut } from 'lucide-react';
+import { adminFetch, ADMIN_SESSION_EXPIRED_EVENT, type AdminRole } from '../../utils/adminApi';
 
-interface SystemSettingsTabProps {}
+interface AdminAccount {
+  id: number;
+  username: string;
+  role: AdminRole;
+  disabled: boolean;
+  createdAt: string;
+  lastLogin?: string | null;
+}
 
-const SystemSettingsTab: React.FC<SystemSettingsTabProps> = () => {
+const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner (full access)',
+  operator: 'Operator (no network/database)',
+  cashier: 'Cashier (vouchers, read-only)',
+};
+
+const AdminAccountsSection: React.FC = () => {
+  const [accounts, setAccounts] = useState<AdminAccount[]>([]);
+  const [newAccount, setNewAccount] = useState<{ username: string; password: string; role: AdminRole }>({ username: '', password: '', role: 'cashier' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchAccounts = async () => {
+    try {
+      const res = await adminFetch('/api/auth/accounts');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load accounts');
+      setAccounts(data.data || []);
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load accounts' });
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const runAction = async (request: () => Promise<Response>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await request();
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Request failed');
+      setMessage({ type: 'success', text: successText });
+      await fetchAccounts();
+      return true;
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Request failed' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await runAction(() => adminFetch('/api/auth/accounts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(newAccount),
+    }), `Account "${newAccount.username}" created`);
+    if (ok) setNewAccount({ username: '', password: '', role: 'cashier' });
+  };
+
+  const handleUpdate = (account: AdminAccount, updates: Partial<Pick<AdminAccount, 'role' | 'disabled'>>) => {
+    runAction(() => adminFetch(`/api/auth/accounts/${account.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    }), `Account "${account.username}" updated`);
+  };
+
+  const handleResetPassword = (account: AdminAccount) => {
+    const newPassword = prompt(`New password for ${account.username} (min. 6 characters):`);
+    if (!newPassword) return;
+    runAction(() => adminFetch(`/api/auth/accounts/${account.id}/reset-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ newPassword }),
+    }), `Password reset for "${account.username}"`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <Users className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Admin Accounts</h3>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-4 rounded-lg flex items-center space-x-2 ${
+          message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-800'
+            : 'bg-red-50 border border-red-200 text-red-800'
+        }`}>
+          {message.type === 'success' ? <CheckCircle className="h-5 w-5" /> : <AlertCircle className="h-5 w-5" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <input
+          value={newAccount.username}
+          onChange={(e) => setNewAccount({ ...newAccount, username: e.target.value })}
+          placeholder="Username"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={busy}
+        />
+        <input
+          type="password"
+          value={newAccount.password}
+          onChange={(e) => setNewAccount({ ...newAccount, password: e.target.value })}
+          placeholder="Password (min. 6 characters)"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={busy}
+        />
+        <select
+          value={newAccount.role}
+          onChange={(e) => setNewAccount({ ...newAccount, role: e.target.value as AdminRole })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          disabled={busy}
+        >
+          {(Object.keys(ROLE_LABELS) as AdminRole[]).map(r => (
+            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={busy || !newAccount.username || !newAccount.password}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add Account
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Username</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Role</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Status</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Last Login</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {accounts.map(account => (
+              <tr key={account.id} className={account.disabled ? 'bg-gray-50' : ''}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{account.username}</td>
+                <td className="px-4 py-2 text-sm">
+                  <select
+                    value={account.role}
+                    onChange={(e) => handleUpdate(account, { role: e.target.value as AdminRole })}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                    disabled={busy}
+                  >
+                    {(Object.keys(ROLE_LABELS) as AdminRole[]).map(r => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <span className={`px-2 py-1 rounded ${account.disabled ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-700'}`}>
+                    {account.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500">
+                  {account.lastLogin ? new Date(account.lastLogin).toLocaleString() : 'Never'}
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleUpdate(account, { disabled: !account.disabled })}
+                      disabled={busy}
+                      className={`px-3 py-1 ${account.disabled ? 'bg-green-600' : 'bg-yellow-600'} text-white rounded-md disabled:opacity-50`}
+                    >
+                      {account.disabled ? 'Enable' : 'Disable'}
+                    </button>
+                    <button
+                      onClick={() => handleResetPassword(account)}
+                      disabled={busy}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-md flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                      <span>Reset Password</span>
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+interface SystemSettingsTabProps {
+  role: AdminRole | null;
+}
+
+const SystemSettingsTab: React.FC<SystemSettingsTabProps> = ({ role }) => {
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -38,19 +240,9 @@ const SystemSettingsTab: React.FC<SystemSettingsTabProps> = () => {
     setIsLoading(true);
 
     try {
-      // Use the same authentication as admin panel (Basic Auth)
-      const authHeader = localStorage.getItem('adminAuth');
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-
-      if (authHeader) {
-        headers['Authorization'] = authHeader;
-      }
-
-      const response = await fetch('/api/auth/change-password', {
+      const response = await adminFetch('/api/auth/change-password', {
         method: 'POST',
-        headers,
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           currentPassword,
           newPassword,
@@ -60,7 +252,7 @@ const SystemSettingsTab: React.FC<SystemSettingsTabProps> = () => {
       const data = await response.json();
 
       if (response.ok) {
-        setMessage({ type: 'success', text: 'Password changed successfully!' });
+        setMessage({ type: 'success', text: 'Password changed successfully! Other devices have been signed out.' });
         setCurrentPassword('');
         setNewPassword('');
         setConfirmPassword('');
@@ -75,6 +267,24 @@ const SystemSettingsTab: React.FC<SystemSettingsTabProps> = () => {
     }
   };
 
+  const handleLogoutAll = async () => {
+    if (!confirm('Log out of every admin session, including this one?')) return;
+
+    try {
+      const response = await adminFetch('/api/auth/logout-all', { method: 'POST' });
+      if (response.ok) {
+        // Our own session was revoked too, so go back to the login screen
+        window.dispatchEvent(new Event(ADMIN_SESSION_EXPIRED_EVENT));
+      } else {
+        const data = await response.json();
+        setMessage({ type: 'error', text: data.error || 'Failed to log out sessions' });
+      }
+    } catch (error) {
+      console.error('Logout all error:', error);
+      setMessage({ type: 'error', text: 'Network error. Please try again.' });
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -188,6 +398,28 @@ const SystemSettingsTab: React.FC<SystemSettingsTabProps> = () => {
         </form>
       </div>
 
+      {/* Active Sessions */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Active Sessions</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Sign out every browser logged in to this account, for example after using a shared device.
+            </p>
+          </div>
+          <button
+            onClick={handleLogoutAll}
+            className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Log Out All Sessions
+          </button>
+        </div>
+      </div>
+
+      {/* Admin Accounts (owners only) */}
+      {role === 'owner' && <AdminAccountsSection />}
+
       {/* Additional Settings Info */}
       <div className="bg-gray-50 rounded-lg border p-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Additional Settings</h3>
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Ticket, Plus, Trash2, Copy, Check } from 'lucide-react';
+import { adminFetch } from '../../utils/adminApi';
 
 interface Voucher {
   code: string;
@@ -18,7 +19,7 @@ const VoucherTab: React.FC = () => {
 
   const fetchVouchers = async () => {
     try {
-      const res = await fetch('/api/vouchers');
+      const res = await adminFetch('/api/vouchers');
       if (!res.ok) throw new Error('Failed to load vouchers');
       const data = await res.json();
       setVouchers(data.data || []);
@@ -37,7 +38,7 @@ const VoucherTab: React.FC = () => {
   const handleGenerate = async () => {
     try {
       setLoading(true);
-      const res = await fetch('/api/vouchers/generate', {
+      const res = await adminFetch('/api/vouchers/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(generateConfig)
@@ -56,7 +57,7 @@ const VoucherTab: React.FC = () => {
   const handleDelete = async (code: string) => {
     if (!confirm('Are you sure you want to delete this voucher?')) return;
     try {
-      const res = await fetch(`/api/vouchers/${code}`, {
+      const res = await adminFetch(`/api/vouchers/${code}`, {
         method: 'DELETE'
       });
       if (!res.ok) throw new Error('Failed to delete voucher');
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart3, Wifi, Settings, DollarSign, HardDrive, Network, Database, Users, Activity, Ticket, FileText, Shield } from 'lucide-react';
+import { BarChart3, Wifi, Settings, DollarSign, HardDrive, Network, Database, Users, Activity, Ticket, FileText, Shield, LogOut, TrendingUp } from 'lucide-react';
 import DashboardTab from '../components/admin/DashboardTab';
+import ReportsTab from '../components/admin/ReportsTab';
 import HardwareTab from '../components/admin/HardwareTab';
 import NetworkTab from '../components/admin/NetworkTab';
 import RatesTab from '../components/admin/RatesTab';
@@ -12,50 +13,60 @@ import VoucherTab from '../components/admin/VoucherTab';
 import LogsTab from '../components/admin/LogsTab';
 import SystemSettingsTab from '../components/admin/SystemSettingsTab';
 import AdminLogin from '../components/admin/AdminLogin';
+import { adminFetch, logoutAdmin, ADMIN_SESSION_EXPIRED_EVENT, type AdminRole } from '../utils/adminApi';
 
 const AdminDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<AdminRole | null>(null);
 
   // Check authentication status on component mount
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // Drop back to the login screen when the session times out or is revoked
+  useEffect(() => {
+    const onExpired = () => {
+      setRole(null);
+      setIsAuthenticated(false);
+    };
+    window.addEventListener(ADMIN_SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(ADMIN_SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
   const checkAuthStatus = async () => {
     try {
-      const authHeader = localStorage.getItem('adminAuth');
-      const headers: HeadersInit = {};
+      const response = await adminFetch('/api/auth/status');
+      const data = await response.json().catch(() => ({}));
       
-      if (authHeader) {
-        headers['Authorization'] = authHeader;
-      }
-
-      const response = await fetch('/api/admin/dashboard', {
-        method: 'GET',
-        headers,
-      });
-      
-      if (response.status === 401) {
-        setIsAuthenticated(false);
-        localStorage.removeItem('adminAuth');
-      } else if (response.ok) {
+      if (response.ok && data.username) {
         setIsAuthenticated(true);
+        setRole(data.role);
+      } else {
+        setIsAuthenticated(false);
       }
     } catch (error) {
       console.error('Auth check error:', error);
       setIsAuthenticated(false);
-      localStorage.removeItem('adminAuth');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleLogin = () => {
+  const handleLogin = (loggedInRole: AdminRole) => {
+    setRole(loggedInRole);
     setIsAuthenticated(true);
   };
 
+  const handleLogout = async () => {
+    await logoutAdmin();
+    setRole(null);
+    setActiveTab('dashboard');
+    setIsAuthenticated(false);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -71,24 +82,28 @@ const AdminDashboard: React.FC = () => {
     return <AdminLogin onLogin={handleLogin} />;
   }
 
-  const tabs = [
-    { id: 'dashboard', name: 'Dashboard', icon: BarChart3 },
-    { id: 'hardware', name: 'Hardware', icon: HardDrive },
-    { id: 'network', name: 'Network', icon: Network },
-    { id: 'rates', name: 'Rates', icon: DollarSign },
-    { id: 'portal', name: 'Portal', icon: Settings },
-    { id: 'devices', name: 'Devices', icon: Users },
-    { id: 'bandwidth', name: 'Bandwidth', icon: Activity },
-    { id: 'vouchers', name: 'Vouchers', icon: Ticket },
-    { id: 'logs', name: 'System Logs', icon: FileText },
-    { id: 'database', name: 'Database', icon: Database },
-    { id: 'system', name: 'System Settings', icon: Shield },
+  const allTabs = [
+    { id: 'dashboard', name: 'Dashboard', icon: BarChart3, roles: ['owner', 'operator', 'cashier'] },
+    { id: 'reports', name: 'Reports', icon: TrendingUp, roles: ['owner', 'operator', 'cashier'] },
+    { id: 'hardware', name: 'Hardware', icon: HardDrive, roles: ['owner', 'operator'] },
+    { id: 'network', name: 'Network', icon: Network, roles: ['owner'] },
+    { id: 'rates', name: 'Rates', icon: DollarSign, roles: ['owner', 'operator'] },
+    { id: 'portal', name: 'Portal', icon: Settings, roles: ['owner', 'operator'] },
+    { id: 'devices', name: 'Devices', icon: Users, roles: ['owner', 'operator'] },
+    { id: 'bandwidth', name: 'Bandwidth', icon: Activity, roles: ['owner'] },
+    { id: 'vouchers', name: 'Vouchers', icon: Ticket, roles: ['owner', 'operator', 'cashier'] },
+    { id: 'logs', name: 'System Logs', icon: FileText, roles: ['owner', 'operator'] },
+    { id: 'database', name: 'Database', icon: Database, roles: ['owner'] },
+    { id: 'system', name: 'System Settings', icon: Shield, roles: ['owner', 'operator', 'cashier'] },
   ];
+  const tabs = allTabs.filter(tab => !role || tab.roles.includes(role));
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'dashboard':
         return <DashboardTab />;
+      case 'reports':
+        return <ReportsTab />;
       case 'hardware':
         return <HardwareTab />;
       case 'network':
@@ -108,7 +123,7 @@ const AdminDashboard: React.FC = () => {
       case 'logs':
         return <LogsTab />;
       case 'system':
-        return <SystemSettingsTab />;
+        return <SystemSettingsTab role={role} />;
       default:
         return <DashboardTab />;
     }
@@ -133,6 +148,16 @@ const AdminDashboard: React.FC = () => {
               <div className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-medium">
                 System Online
               </div>
+              {role && (
+                <span className="text-sm text-gray-600 capitalize">{role}</span>
+              )}
+              <button
+                onClick={handleLogout}
+                className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+              >
+                <LogOut className="h-4 w-4" />
+                <span>Logout</span>
+              </button>
             </div>
           </div>
         </div>
@@ -191,6 +216,7 @@ const AdminDashboard: React.FC = () => {
 function getTabDescription(tab: string): string {
   const descriptions = {
     dashboard: 'Overview of system status, sessions, and revenue',
+    reports: 'Sales breakdown by hour, day or month with CSV export',
     hardware: 'Configure GPIO pins and monitor hardware status',
     network: 'Manage network interfaces, VLANs, and hotspot settings',
     rates: 'Set pricing for different time periods',
@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { Wifi, Clock, DollarSign, Power, CheckCircle, AlertCircle, Loader2, Ticket, RefreshCw, Check, Pause, Play } from 'lucide-react';
-import { formatTimeRemaining, calculateTimeProgress } from '../utils/timeUtils';
+import React, { useState, useEffect, useRef } from 'react';
+import { Wifi, Clock, DollarSign, Power, CheckCircle, AlertCircle, Loader2, Ticket, RefreshCw, Check, Pause, Play, Wallet, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatTimeRemaining, formatTimeVerbose, calculateTimeProgress } from '../utils/timeUtils';
 import { getPauseResumeButtonClasses } from '../utils/uiHelpers';
 
 interface PortalSettings {
@@ -8,6 +9,7 @@ interface PortalSettings {
   welcomeMessage: string;
   backgroundImage: string;
   theme: 'light' | 'dark';
+  dataPlansEnabled?: boolean;
 }
 
 interface SessionInfo {
@@ -21,6 +23,22 @@ interface SessionInfo {
   isPaused?: boolean;
   pausedAt?: string | null;
   pausedDuration?: number;
+  pauseReason?: 'manual' | 'away' | null;
+  autoPauseMinutes?: number | null;
+  pauseAllowance?: PauseAllowance | null;
+  sessionType?: 'time' | 'data';
+  quotaBytes?: number | null;
+  dataRemainingBytes?: number | null;
+  walletBalance?: number;
+}
+
+interface PauseAllowance {
+  canPause: boolean;
+  reason: string | null;
+  pausesLeft: number | null;
+  pausedMinutesLeft: number | null;
+  maxPauseMinutes: number | null;
+  pausedExpiryAction: 'resume' | 'expire';
 }
 
 interface DeviceInfo {
@@ -30,6 +48,40 @@ interface DeviceInfo {
   refreshedAt: string;
 }
 
+const formatMegabytes = (bytes: number): string => {
+  const megabytes = bytes / (1024 * 1024);
+  return megabytes >= 1024 ? `${(megabytes / 1024).toFixed(2)} GB` : `${megabytes.toFixed(1)} MB`;
+};
+
+const formatPauseMinutes = (minutes: number): string => {
+  if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440} ${minutes === 1440 ? 'day' : 'days'}`;
+  if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`;
+  return `${minutes} min`;
+};
+
+// What is left of the session's pauses, or why it cannot be paused
+const describePauseAllowance = (allowance: PauseAllowance, paused: boolean): string | null => {
+  if (!paused && !allowance.canPause) return allowance.reason;
+  const parts: string[] = [];
+  if (allowance.pausesLeft !== null) {
+    parts.push(`${allowance.pausesLeft} ${allowance.pausesLeft === 1 ? 'pause' : 'pauses'} left`);
+  }
+  if (allowance.pausedMinutesLeft !== null) {
+    parts.push(`${formatPauseMinutes(allowance.pausedMinutesLeft)} of pause time left`);
+  }
+  if (paused && allowance.maxPauseMinutes) {
+    const limit = formatPauseMinutes(allowance.maxPauseMinutes);
+    parts.push(allowance.pausedExpiryAction === 'resume' ? `Time resumes after ${limit} paused` : `Session ends after ${limit} paused`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+interface SessionNotice {
+  type: 'expiring' | 'paused' | 'resumed' | 'extended' | 'expired' | 'ended';
+  secondsLeft: number;
+  minutesLeft?: number;
+}
+
 const Portal: React.FC = () => {
   const [portalSettings, setPortalSettings] = useState<PortalSettings>({
     title: 'NEXUS PISOWIFI',
@@ -45,9 +97,13 @@ const Portal: React.FC = () => {
   const [showCoinModal, setShowCoinModal] = useState(false);
   const [pesosInserted, setPesosInserted] = useState(0);
   const [countdown, setCountdown] = useState(60);
+  const [insertWindow, setInsertWindow] = useState(60);
+  const [queuePosition, setQueuePosition] = useState<{ position: number; estimatedWaitSeconds: number } | null>(null);
+  const [queueSource, setQueueSource] = useState<EventSource | null>(null);
   const [internetStatus, setInternetStatus] = useState<'checking' | 'online' | 'offline' | null>(null);
   const [verifyingConnection, setVerifyingConnection] = useState(false);
   const [mode, setMode] = useState<'connect' | 'extend'>('connect');
+  const [plan, setPlan] = useState<'time' | 'data'>('time');
   const [displayTimeRemaining, setDisplayTimeRemaining] = useState<number>(0);
   const [syncAnchor, setSyncAnchor] = useState<{ serverMs: number; clientMs: number; remainingSec: number } | null>(null);
   const [debugInfo, setDebugInfo] = useState<Record<string, unknown> | null>(null);
@@ -134,11 +190,8 @@ const Portal: React.FC = () => {
       if (!sessionInfo?.isActive) return;
       if (internetStatus === 'offline') {
         try {
-          const res = await fetch('/api/network/client/recover', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ macAddress: sessionInfo.macAddress, ipAddress: deviceInfo?.ip })
-          });
+          // The server works out the device from the connection
+          const res = await fetch('/api/network/client/recover', { method: 'POST' });
           const data = await res.json();
           setDebugEvents(prev => [{ ts: new Date().toISOString(), type: 'auto-recover', data }, ...prev].slice(0, 50));
           startPingChecker({ timeoutMs: 3000, retries: 2 });
@@ -206,6 +259,55 @@ const Portal: React.FC = () => {
     }
   }, [sessionInfo?.macAddress, isPaused]);
 
+  // Session notices pushed by the server, shown as toasts. The handlers are read
+  // through refs so the stream is only reopened when the device changes.
+  const noticeMac = sessionInfo?.macAddress || deviceInfo?.mac || '';
+  const fetchSessionInfoRef = useRef<typeof fetchSessionInfo>();
+  const openCoinModalRef = useRef<typeof openCoinModal>();
+  useEffect(() => {
+    if (!noticeMac) return;
+    const es = new EventSource(`/api/portal/events?mac=${encodeURIComponent(noticeMac)}`);
+    es.onmessage = (ev) => {
+      let notice: SessionNotice;
+      try {
+        notice = JSON.parse(ev.data);
+      } catch {
+        return;
+      }
+      const addTime = { label: 'Add time', onClick: () => openCoinModalRef.current?.('extend') };
+      switch (notice.type) {
+        case 'expiring': {
+          const minutes = notice.minutesLeft || Math.ceil(notice.secondsLeft / 60);
+          toast.warning(`${minutes} minute${minutes === 1 ? '' : 's'} left`, {
+            description: 'Add time to stay connected.',
+            action: addTime,
+            duration: 15000
+          });
+          break;
+        }
+        case 'paused':
+          toast.info('Session paused', { description: `${formatTimeVerbose(notice.secondsLeft)} saved for later.` });
+          break;
+        case 'resumed':
+          toast.success('Session resumed', { description: `${formatTimeVerbose(notice.secondsLeft)} left.` });
+          break;
+        case 'extended':
+          toast.success('Time added', { description: `${formatTimeVerbose(notice.secondsLeft)} left.` });
+          break;
+        case 'expired':
+        case 'ended':
+          toast.error(notice.type === 'expired' ? 'Your time is up' : 'Your session was ended', {
+            description: 'Insert coins to connect again.',
+            action: { label: 'Add time', onClick: () => openCoinModalRef.current?.('connect') },
+            duration: 15000
+          });
+          break;
+      }
+      fetchSessionInfoRef.current?.();
+    };
+    return () => es.close();
+  }, [noticeMac]);
+
   // Monitor pause state changes and ensure UI consistency
   useEffect(() => {
     if (sessionInfo?.macAddress) {
@@ -301,7 +403,14 @@ const Portal: React.FC = () => {
           sessionEndTime: data.sessionEndTime ?? null,
           isPaused: data.session?.paused || false,
           pausedAt: data.session?.pausedAt || null,
-          pausedDuration: data.session?.pausedDuration || 0
+          pausedDuration: data.session?.pausedDuration || 0,
+          pauseReason: data.pauseReason ?? null,
+          autoPauseMinutes: data.autoPauseMinutes ?? null,
+          pauseAllowance: data.pauseAllowance ?? null,
+          sessionType: data.sessionType || 'time',
+          quotaBytes: data.session?.quotaBytes ?? null,
+          dataRemainingBytes: data.dataRemainingBytes ?? null,
+          walletBalance: data.walletBalance || 0
         });
         setIsPaused(data.isPaused || false);
         if (typeof data.serverTime === 'number') {
@@ -352,7 +461,14 @@ const Portal: React.FC = () => {
           sessionEndTime: data.sessionEndTime ?? null,
           isPaused: data.isPaused || false,
           pausedAt: data.session?.pausedAt || null,
-          pausedDuration: data.session?.pausedDuration || 0
+          pausedDuration: data.session?.pausedDuration || 0,
+          pauseReason: data.pauseReason ?? null,
+          autoPauseMinutes: data.autoPauseMinutes ?? null,
+          pauseAllowance: data.pauseAllowance ?? null,
+          sessionType: data.sessionType || 'time',
+          quotaBytes: data.session?.quotaBytes ?? null,
+          dataRemainingBytes: data.dataRemainingBytes ?? null,
+          walletBalance: data.walletBalance || 0
         };
         
         // Log state changes for debugging
@@ -384,6 +500,7 @@ const Portal: React.FC = () => {
       setError('Failed to fetch session time data');
     }
   };
+  fetchSessionInfoRef.current = fetchSessionInfo;
 
   const formatMAC = (mac: string) => {
     const raw = (mac || '').replace(/[^0-9A-Fa-f]/g, '').toUpperCase();
@@ -430,7 +547,7 @@ const Portal: React.FC = () => {
       const response = await fetch('/api/portal/connect', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pesos: pesosInserted || 1 })
+        body: JSON.stringify({ plan })
       });
 
       const result = await response.json();
@@ -444,7 +561,7 @@ const Portal: React.FC = () => {
         // reset modal state
         setShowCoinModal(false);
         setPesosInserted(0);
-        setCountdown(60);
+        setCountdown(insertWindow);
         eventSource?.close();
         setEventSource(null);
         if (result.data?.serverTime) {
@@ -519,30 +636,48 @@ const Portal: React.FC = () => {
 
 
 
-  // Coin modal controls
-  const openCoinModal = async (newMode: 'connect' | 'extend' = 'connect') => {
-    // Attempt to start coin session on server
+  // Spend saved credit from coins that were never used on a session
+  const handleUseWallet = async (target: 'connect' | 'extend') => {
+    const walletPesos = sessionInfo?.walletBalance || 0;
+    if (walletPesos <= 0) return;
     try {
-      const res = await fetch('/api/hardware/start-coin-session', { 
+      setConnecting(true);
+      setError('');
+      const response = await fetch(`/api/portal/${target}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ macAddress: sessionInfo?.macAddress })
+        body: JSON.stringify({ walletPesos, plan })
       });
-      const data = await res.json();
-      
-      if (!res.ok) {
-        setError(data.error || 'System busy, please try again.');
-        return;
+
+      const result = await response.json();
+      setDebugEvents(prev => [{ ts: new Date().toISOString(), type: `wallet-${target}`, data: result }, ...prev].slice(0, 50));
+
+      if (response.ok && result.success) {
+        setTimeout(() => {
+          fetchSessionInfo();
+        }, 1000);
+        if (result.data?.serverTime) {
+          setSyncAnchor({
+            serverMs: result.data.serverTime,
+            clientMs: Date.now(),
+            remainingSec: result.data.timeRemaining || 0
+          });
+        }
+      } else {
+        setError(result.error || 'Failed to use wallet credit');
       }
-    } catch {
-      console.error('Failed to start coin session');
-      // Fallback: allow opening modal even if API fails (e.g. mock mode issues)
+    } catch (error) {
+      setError('Failed to use wallet credit');
+      console.error('Wallet error:', error);
+    } finally {
+      setConnecting(false);
     }
+  };
 
-    setMode(newMode);
-    setShowCoinModal(true);
-    setPesosInserted(0);
-    setCountdown(60);
+  // Coin modal controls
+  const startInserting = (windowSeconds: number) => {
+    setQueuePosition(null);
+    setCountdown(windowSeconds);
     const es = new EventSource('/api/hardware/coin/stream');
     es.addEventListener('ping', () => {});
     es.onmessage = (ev) => {
@@ -554,7 +689,7 @@ const Portal: React.FC = () => {
           } else {
              setPesosInserted(prev => prev + 1);
           }
-          setCountdown(60);
+          setCountdown(windowSeconds);
         }
       } catch (error) {
         console.error('Coin stream error:', error);
@@ -563,8 +698,71 @@ const Portal: React.FC = () => {
     setEventSource(es);
   };
 
+  // Someone else is at the coin slot: follow our place in line until it is our turn
+  const waitInLine = (macAddress: string | undefined, position: { position: number; estimatedWaitSeconds: number }) => {
+    setQueuePosition(position);
+    const es = new EventSource(`/api/hardware/coin-queue/stream${macAddress ? `?mac=${encodeURIComponent(macAddress)}` : ''}`);
+    es.addEventListener('queue', (ev) => {
+      try {
+        const payload = JSON.parse((ev as MessageEvent).data);
+        if (!payload || payload.status === 'none') {
+          es.close();
+          setQueueSource(null);
+          setQueuePosition(null);
+          setShowCoinModal(false);
+          setError('You are no longer in line for the coin slot. Please try again.');
+        } else if (payload.status === 'active') {
+          es.close();
+          setQueueSource(null);
+          setInsertWindow(payload.insertWindowSeconds);
+          startInserting(payload.insertWindowSeconds);
+        } else {
+          setQueuePosition({ position: payload.position, estimatedWaitSeconds: payload.estimatedWaitSeconds });
+        }
+      } catch (error) {
+        console.error('Coin queue stream error:', error);
+      }
+    });
+    setQueueSource(es);
+  };
+
+  const openCoinModal = async (newMode: 'connect' | 'extend' = 'connect') => {
+    const macAddress = sessionInfo?.macAddress;
+    let slot: { status: string; position: number; estimatedWaitSeconds: number; insertWindowSeconds: number } | null = null;
+    // Attempt to start coin session on server
+    try {
+      const res = await fetch('/api/hardware/start-coin-session', { 
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ macAddress })
+      });
+      const data = await res.json();
+      
+      if (!res.ok) {
+        setError(data.error || 'System busy, please try again.');
+        return;
+      }
+      slot = data.data || null;
+    } catch {
+      console.error('Failed to start coin session');
+      // Fallback: allow opening modal even if API fails (e.g. mock mode issues)
+    }
+
+    const windowSeconds = slot?.insertWindowSeconds || insertWindow;
+    setInsertWindow(windowSeconds);
+    setMode(newMode);
+    setShowCoinModal(true);
+    setPesosInserted(0);
+    if (slot?.status === 'queued') {
+      waitInLine(macAddress, slot);
+    } else {
+      startInserting(windowSeconds);
+    }
+  };
+  openCoinModalRef.current = openCoinModal;
+
   useEffect(() => {
-    if (!showCoinModal) return;
+    if (!showCoinModal || queuePosition) return;
     const timer = setInterval(() => {
       setCountdown(prev => {
         const next = prev - 1;
@@ -579,14 +777,23 @@ const Portal: React.FC = () => {
       });
     }, 1000);
     return () => clearInterval(timer);
-  }, [showCoinModal, eventSource]);
+  }, [showCoinModal, queuePosition, eventSource]);
 
   const cancelCoinModal = () => {
     eventSource?.close();
     setEventSource(null);
+    queueSource?.close();
+    setQueueSource(null);
+    setQueuePosition(null);
     setShowCoinModal(false);
-    setCountdown(60);
+    setCountdown(insertWindow);
     setPesosInserted(0);
+    // Let the next device in line use the coin slot
+    fetch('/api/hardware/release-coin-session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ macAddress: sessionInfo?.macAddress })
+    }).catch(() => console.error('Failed to release coin session'));
   };
 
   const doneCoinModal = async () => {
@@ -654,13 +861,7 @@ const Portal: React.FC = () => {
              startPingChecker({ timeoutMs: 3000, retries: 2 });
              
              try {
-               const mac = data.data.session.macAddress;
-               const ip = deviceInfo?.ip;
-               const res2 = await fetch('/api/network/client/reinit', {
-                 method: 'POST',
-                 headers: { 'Content-Type': 'application/json' },
-                 body: JSON.stringify({ macAddress: mac, ipAddress: ip })
-               });
+               const res2 = await fetch('/api/network/client/reinit', { method: 'POST' });
                const d2 = await res2.json();
                setDebugEvents(prev => [{ ts: new Date().toISOString(), type: 'client-reinit', data: d2 }, ...prev].slice(0, 50));
              } catch (e) {
@@ -905,7 +1106,9 @@ const Portal: React.FC = () => {
                 {isPaused && (
                   <div className="p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-lg flex items-center justify-center">
                     <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
-                    <span className="font-semibold">Time is paused</span>
+                    <span className="font-semibold">
+                      {sessionInfo.pauseReason === 'away' ? 'Time paused while you were away' : 'Time is paused'}
+                    </span>
                   </div>
                 )}
                 <div className={`${isDarkTheme ? 'bg-gray-700' : 'bg-gray-50'} rounded-lg p-4`}>
@@ -918,10 +1121,15 @@ const Portal: React.FC = () => {
                     </div>
                     <span className="font-mono font-bold text-2xl">{formatTimeRemaining(displayTimeRemaining)}</span>
                   </div>
+                  {sessionInfo.autoPauseMinutes && !isPaused && (
+                    <p className={`mt-2 text-xs ${isDarkTheme ? 'text-gray-300' : 'text-gray-500'}`}>
+                      Time pauses by itself after {sessionInfo.autoPauseMinutes} minutes away from the hotspot and resumes when you return.
+                    </p>
+                  )}
                 </div>
                 <button
                   onClick={isPaused ? handleResumeSession : handlePauseSession}
-                  disabled={pausingSession}
+                  disabled={pausingSession || (!isPaused && sessionInfo.pauseAllowance?.canPause === false)}
                   className={getPauseResumeButtonClasses(isPaused, pausingSession)}
                   aria-label={isPaused ? 'Resume session' : 'Pause session'}
                   style={{ minHeight: '48px', visibility: 'visible', display: 'flex' }}
@@ -940,6 +1148,11 @@ const Portal: React.FC = () => {
                     </>
                   )}
                 </button>
+                {sessionInfo.pauseAllowance && describePauseAllowance(sessionInfo.pauseAllowance, isPaused) && (
+                  <p className={`text-xs text-center ${isDarkTheme ? 'text-gray-300' : 'text-gray-500'}`}>
+                    {describePauseAllowance(sessionInfo.pauseAllowance, isPaused)}
+                  </p>
+                )}
                 <button
                   onClick={handleGoToInternet}
                   disabled={verifyingConnection || isPaused}
@@ -1134,6 +1347,16 @@ const Portal: React.FC = () => {
                     <DollarSign className="w-5 h-5 mr-2" />
                     Insert Coin
                   </button>
+                  {(sessionInfo?.walletBalance || 0) > 0 && (
+                    <button
+                      onClick={() => handleUseWallet('connect')}
+                      disabled={connecting}
+                      className="w-full bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center"
+                    >
+                      <Wallet className="w-5 h-5 mr-2" />
+                      Use ₱{sessionInfo?.walletBalance} Saved Credit
+                    </button>
+                  )}
                   <button
                     onClick={handleConnect}
                     disabled={connecting}
@@ -1254,7 +1477,9 @@ const Portal: React.FC = () => {
                   {isPaused && (
                     <div className="mb-4 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-lg flex items-center justify-center">
                       <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
-                      <span className="font-semibold">Time is paused</span>
+                      <span className="font-semibold">
+                        {sessionInfo.pauseReason === 'away' ? 'Time paused while you were away' : 'Time is paused'}
+                      </span>
                     </div>
                   )}
                   {internetStatus && (
@@ -1276,7 +1501,36 @@ const Portal: React.FC = () => {
                       {formatTimeRemaining(displayTimeRemaining)}
                     </span>
                   </div>
+                  {sessionInfo.autoPauseMinutes && !isPaused && (
+                    <p className={`mb-2 text-xs ${isDarkTheme ? 'text-gray-300' : 'text-gray-500'}`}>
+                      Time pauses by itself after {sessionInfo.autoPauseMinutes} minutes away from the hotspot and resumes when you return.
+                    </p>
+                  )}
                   
+                  {sessionInfo.sessionType === 'data' && typeof sessionInfo.dataRemainingBytes === 'number' && (
+                    <>
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center">
+                          <Wifi className="w-5 h-5 mr-2 text-blue-600" />
+                          <span className={`font-medium ${isDarkTheme ? 'text-gray-200' : 'text-gray-700'}`}>
+                            Data Remaining
+                          </span>
+                        </div>
+                        <span className="font-bold text-lg text-blue-600">
+                          {formatMegabytes(sessionInfo.dataRemainingBytes)}
+                        </span>
+                      </div>
+                      {!!sessionInfo.quotaBytes && (
+                        <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+                          <div
+                            className="bg-green-600 h-2 rounded-full transition-all duration-500"
+                            style={{ width: `${Math.min(100, (sessionInfo.dataRemainingBytes / sessionInfo.quotaBytes) * 100)}%` }}
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
+
                   {typeof sessionInfo.totalMinutes === 'number' && sessionInfo.totalMinutes > 0 && (
                     <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
                       <div
@@ -1305,7 +1559,7 @@ const Portal: React.FC = () => {
                   {sessionInfo && sessionInfo.macAddress && (
                     <button
                       onClick={isPaused ? handleResumeSession : handlePauseSession}
-                      disabled={pausingSession}
+                      disabled={pausingSession || (!isPaused && sessionInfo.pauseAllowance?.canPause === false)}
                       className={getPauseResumeButtonClasses(isPaused, pausingSession)}
                       aria-label={isPaused ? 'Resume session' : 'Pause session'}
                       style={{ minHeight: '48px', visibility: 'visible', display: 'flex' }}
@@ -1328,6 +1582,11 @@ const Portal: React.FC = () => {
                       )}
                     </button>
                   )}
+                  {sessionInfo?.pauseAllowance && describePauseAllowance(sessionInfo.pauseAllowance, isPaused) && (
+                    <p className={`text-xs text-center ${isDarkTheme ? 'text-gray-300' : 'text-gray-500'}`}>
+                      {describePauseAllowance(sessionInfo.pauseAllowance, isPaused)}
+                    </p>
+                  )}
                   
                   {/* Manual Recovery Button - Show when there are issues */}
                   {sessionInfo && sessionInfo.macAddress && (error || internetStatus === 'offline') && (
@@ -1392,6 +1651,16 @@ const Portal: React.FC = () => {
                     <DollarSign className="w-5 h-5 mr-2" />
                     Add More Coins
                   </button>
+                  {(sessionInfo?.walletBalance || 0) > 0 && (
+                    <button
+                      onClick={() => handleUseWallet('extend')}
+                      disabled={connecting}
+                      className="w-full bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center"
+                    >
+                      <Wallet className="w-5 h-5 mr-2" />
+                      Add ₱{sessionInfo?.walletBalance} Saved Credit
+                    </button>
+                  )}
                   
                   <button
                     onClick={handleDisconnect}
@@ -1468,7 +1737,39 @@ const Portal: React.FC = () => {
       {showCoinModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-20">
           <div className={`${isDarkTheme ? 'bg-gray-800' : 'bg-white'} w-full max-w-md rounded-xl shadow-xl p-6`}>
-            <h3 className={`text-lg font-semibold mb-4 ${isDarkTheme ? 'text-white' : 'text-gray-900'}`}>Insert Coins</h3>
+            <h3 className={`text-lg font-semibold mb-4 ${isDarkTheme ? 'text-white' : 'text-gray-900'}`}>
+              {queuePosition ? 'Waiting for the Coin Slot' : 'Insert Coins'}
+            </h3>
+            {queuePosition ? (
+              <>
+                <p className={`mb-4 text-sm ${isDarkTheme ? 'text-gray-300' : 'text-gray-600'}`}>
+                  Someone else is inserting coins right now. Keep this open and you'll be up automatically.
+                </p>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center">
+                    <Users className="w-5 h-5 mr-2 text-blue-600" />
+                    <span className={`${isDarkTheme ? 'text-gray-200' : 'text-gray-700'}`}>Your place in line</span>
+                  </div>
+                  <span className="font-bold text-lg text-blue-600">#{queuePosition.position}</span>
+                </div>
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center">
+                    <Clock className="w-5 h-5 mr-2 text-blue-600" />
+                    <span className={`${isDarkTheme ? 'text-gray-200' : 'text-gray-700'}`}>Estimated wait</span>
+                  </div>
+                  <span className="font-bold text-lg text-blue-600">
+                    up to {Math.ceil(queuePosition.estimatedWaitSeconds / 60)} min
+                  </span>
+                </div>
+                <button
+                  onClick={cancelCoinModal}
+                  className={`${isDarkTheme ? 'bg-gray-600 hover:bg-gray-700 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'} w-full font-semibold py-3 px-6 rounded-lg transition-all duration-200`}
+                >
+                  LEAVE LINE
+                </button>
+              </>
+            ) : (
+            <>
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center">
                 <Clock className="w-5 h-5 mr-2 text-blue-600" />
@@ -1483,6 +1784,23 @@ const Portal: React.FC = () => {
               </div>
               <span className="font-bold text-lg text-green-600">₱{pesosInserted}</span>
             </div>
+            {mode === 'connect' && portalSettings.dataPlansEnabled && (
+              <div className="grid grid-cols-2 gap-2 mb-6">
+                {(['time', 'data'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setPlan(option)}
+                    className={`py-2 rounded-lg font-medium transition-all duration-200 ${
+                      plan === option
+                        ? 'bg-blue-600 text-white'
+                        : isDarkTheme ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {option === 'time' ? 'Buy Time' : 'Buy Data'}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-3">
               <button
                 onClick={doneCoinModal}
@@ -1497,6 +1815,8 @@ const Portal: React.FC = () => {
                 CANCEL
               </button>
             </div>
+            </>
+            )}
           </div>
         </div>
       )}
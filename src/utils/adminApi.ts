@@ -0,0 +1,33 @@
+export type AdminRole = 'owner' | 'operator' | 'cashier';
+
+/**
+ * Event fired on window when the server rejects the admin session
+ */
+export const ADMIN_SESSION_EXPIRED_EVENT = 'admin-session-expired';
+
+/**
+ * fetch() wrapper for admin API calls.
+ * The session token travels in an HttpOnly cookie set by /api/auth/login,
+ * so a 401 response means the session expired or was revoked.
+ * @param input Request URL
+ * @param init Optional fetch options
+ * @returns the fetch Response
+ */
+export const adminFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(input, { credentials: 'same-origin', ...init });
+  if (response.status === 401 && !input.startsWith('/api/auth/')) {
+    window.dispatchEvent(new Event(ADMIN_SESSION_EXPIRED_EVENT));
+  }
+  return response;
+};
+
+/**
+ * Ends the current admin session on the server
+ */
+export const logoutAdmin = async (): Promise<void> => {
+  try {
+    await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' });
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
+};